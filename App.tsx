@@ -1,5 +1,6 @@
-import React, { useState } from 'react';
-import { AuthProvider } from './context/AuthContext';
+import React, { useMemo, useState } from 'react';
+import { AuthProvider, useAuth } from './context/AuthContext';
+import { DisplayFormatProvider } from './context/DisplayFormatContext';
 import AuthGuard from './components/AuthGuard';
 import ErrorBoundary from './components/ErrorBoundary';
 import FirebaseSetupScreen from './components/FirebaseSetupScreen';
@@ -18,6 +19,19 @@ import BackupRestore from './components/BackupRestore';
 import MemberProfile from './components/MemberProfile';
 import Dashboard from './components/Dashboard';
 import DonorManagement from './components/DonorManagement';
+import GeneralLedger from './components/GeneralLedger';
+import Accounts from './components/Accounts';
+import Reconciliation from './components/Reconciliation';
+import Funds from './components/Funds';
+import PeriodClose from './components/PeriodClose';
+import AuditLog from './components/AuditLog';
+import OrganizationSettings from './components/OrganizationSettings';
+import ExpenseApprovals from './components/ExpenseApprovals';
+import RecurringTransactions from './components/RecurringTransactions';
+import ServiceCollections from './components/ServiceCollections';
+import Campaigns from './components/Campaigns';
+import Branches from './components/Branches';
+import BranchScopeSelect from './components/BranchScopeSelect';
 import UserManagement from './components/UserManagement';
 import MyProfile from './components/MyProfile';
 import AnnouncementsPage from './pages/AnnouncementsPage';
@@ -25,6 +39,9 @@ import { useTransactions } from './hooks/useTransactions';
 import { useBudgets } from './hooks/useBudgets';
 import { useCategories } from './hooks/useCategories';
 import { useMembers } from './hooks/useMembers';
+import { useRecurringCatchUp } from './hooks/useRecurringTransactions';
+import { useBranches } from './hooks/useBranches';
+import { CONSOLIDATED_SCOPE, HEAD_OFFICE_SCOPE, scopeTransactions } from './utils/branches';
 import { isConfigured } from './firebase';
 import './src/registerSW';
 
@@ -35,6 +52,15 @@ const MainApp: React.FC = () => {
     addMultipleTransactions,
     deleteTransaction,
     editTransaction,
+    deletedTransactions,
+    restoreTransaction,
+    pendingExpenses,
+    submitExpense,
+    approveExpense,
+    rejectExpense,
+    markExpensePaid,
+    assignUnassignedTransactions,
+    mergeDonors,
     totalIncome,
     totalExpenses,
     balance,
@@ -45,13 +71,31 @@ const MainApp: React.FC = () => {
   const { getBudgetsForMonth, setBudgetsForMonth } = useBudgets();
   const { expenseCategories, addExpenseCategory } = useCategories();
   const { members, addMember, deleteMember, editMember } = useMembers();
+  const { branchId } = useAuth();
+  const { branches } = useBranches();
+  useRecurringCatchUp();
 
-  const [view, setView] = useState<'dashboard' | 'reports' | 'budgets' | 'transactions' | 'donations' | 'members' | 'memberProfile' | 'donors' | 'users' | 'myProfile' | 'announcements'>('dashboard');
+  const [view, setView] = useState<'dashboard' | 'reports' | 'budgets' | 'transactions' | 'donations' | 'members' | 'memberProfile' | 'donors' | 'users' | 'myProfile' | 'announcements' | 'ledger' | 'accounts' | 'reconciliation' | 'funds' | 'periods' | 'audit' | 'approvals' | 'recurring' | 'collections' | 'campaigns' | 'branches' | 'settings'>('dashboard');
   const [selectedMemberId, setSelectedMemberId] = useState<string | null>(null);
 
   const currentMonth = new Date().toISOString().slice(0, 7);
   const currentMonthBudgets = getBudgetsForMonth(currentMonth);
 
+  // Head office chooses which branches the dashboard and reports cover; branch
+  // users only ever have their own branch's transactions
+  const [branchScope, setBranchScope] = useState(CONSOLIDATED_SCOPE);
+  const showBranchScope = !branchId && branches.length > 0;
+  const scopedTransactions = useMemo(
+    () => showBranchScope ? scopeTransactions(transactions, branchScope) : transactions,
+    [transactions, showBranchScope, branchScope]
+  );
+  // Budgets are kept per branch, so only head office's own books compare against them here
+  const showsHeadOfficeBudgets = !showBranchScope || branchScope === HEAD_OFFICE_SCOPE;
+  const scopedBudgets = showsHeadOfficeBudgets ? currentMonthBudgets : [];
+  const branchScopeSelect = showBranchScope && (
+    <BranchScopeSelect branches={branches} value={branchScope} onChange={setBranchScope} />
+  );
+
   const handleViewProfile = (memberId: string) => {
     setSelectedMemberId(memberId);
     setView('memberProfile');
@@ -65,7 +109,17 @@ const MainApp: React.FC = () => {
   const renderView = () => {
     switch(view) {
       case 'reports':
-        return <Reports transactions={transactions} />;
+        return (
+          <>
+            {branchScopeSelect}
+            <Reports
+              transactions={scopedTransactions}
+              members={members}
+              getBudgetsForMonth={showsHeadOfficeBudgets ? getBudgetsForMonth : () => ({})}
+              branchScope={showBranchScope ? branchScope : undefined}
+            />
+          </>
+        );
       case 'budgets':
         return <Budgets
                   getBudgetsForMonth={getBudgetsForMonth}
@@ -80,6 +134,7 @@ const MainApp: React.FC = () => {
               <AddTransactionForm
                 onAddTransaction={addTransaction}
                 expenseCategories={expenseCategories}
+                transactions={transactions}
               />
             </div>
             <div className="lg:col-span-2">
@@ -88,6 +143,7 @@ const MainApp: React.FC = () => {
                 onDeleteTransaction={deleteTransaction}
                 onEditTransaction={editTransaction}
                 onImportTransactions={addMultipleTransactions}
+                onAddTransaction={addTransaction}
                 expenseCategories={expenseCategories}
               />
             </div>
@@ -98,7 +154,7 @@ const MainApp: React.FC = () => {
         return (
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             <div className="lg:col-span-1">
-              <AddDonationForm onAddTransaction={addTransaction} />
+              <AddDonationForm onAddTransaction={addTransaction} transactions={transactions} />
             </div>
             <div className="lg:col-span-2">
               <TransactionList
@@ -106,6 +162,7 @@ const MainApp: React.FC = () => {
                 onDeleteTransaction={deleteTransaction}
                 onEditTransaction={editTransaction}
                 onImportTransactions={addMultipleTransactions}
+                onAddTransaction={addTransaction}
                 expenseCategories={expenseCategories}
               />
             </div>
@@ -127,8 +184,45 @@ const MainApp: React.FC = () => {
             </div>
           </div>
         );
+      case 'ledger':
+        return <GeneralLedger transactions={transactions} />;
+      case 'accounts':
+        return <Accounts transactions={transactions} onAssignUnassigned={assignUnassignedTransactions} />;
+      case 'funds':
+        return <Funds transactions={transactions} />;
+      case 'periods':
+        return <PeriodClose />;
+      case 'approvals':
+        return (
+          <ExpenseApprovals
+            pendingExpenses={pendingExpenses}
+            approvedExpenses={transactions.filter(t => t.approvalStatus === 'approved')}
+            onSubmit={submitExpense}
+            onApprove={approveExpense}
+            onReject={rejectExpense}
+            onMarkPaid={markExpensePaid}
+          />
+        );
+      case 'recurring':
+        return <RecurringTransactions expenseCategories={expenseCategories} />;
+      case 'collections':
+        return <ServiceCollections />;
+      case 'campaigns':
+        return <Campaigns transactions={transactions} members={members} />;
+      case 'branches':
+        return <Branches transactions={transactions} onAddTransaction={addTransaction} />;
+      case 'settings':
+        return <OrganizationSettings hasTransactions={transactions.length > 0} />;
+      case 'audit':
+        return <AuditLog deletedTransactions={deletedTransactions} onRestoreTransaction={restoreTransaction} />;
+      case 'reconciliation':
+        return <Reconciliation
+                  transactions={transactions}
+                  onAddTransaction={addTransaction}
+                  expenseCategories={expenseCategories}
+                />;
       case 'donors':
-        return <DonorManagement transactions={transactions} />;
+        return <DonorManagement transactions={transactions} members={members} onMergeDonors={mergeDonors} />;
       case 'users':
         return <UserManagement />;
       case 'myProfile':
@@ -148,10 +242,14 @@ const MainApp: React.FC = () => {
       case 'dashboard':
       default:
         return (
-          <Dashboard
-            transactions={transactions}
-            budgets={currentMonthBudgets}
-          />
+          <>
+            {branchScopeSelect}
+            <Dashboard
+              transactions={scopedTransactions}
+              budgets={scopedBudgets}
+              branchScope={showBranchScope ? branchScope : undefined}
+            />
+          </>
         );
     }
   }
@@ -175,9 +273,11 @@ const App: React.FC = () => {
   return (
     <ErrorBoundary>
       <AuthProvider>
-        <AuthGuard>
-          <MainApp />
-        </AuthGuard>
+        <DisplayFormatProvider>
+          <AuthGuard>
+            <MainApp />
+          </AuthGuard>
+        </DisplayFormatProvider>
       </AuthProvider>
     </ErrorBoundary>
   );
@@ -0,0 +1,322 @@
+import React, { useMemo, useState } from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { AccountKind, Transaction, TransactionType } from '../types';
+import { ACCOUNT_KIND_LABELS } from '../constants';
+import { useAccounts } from '../hooks/useAccounts';
+import { computeRunningBalances, findUnassignedTransactions, getDefaultAccount } from '../utils/accounts';
+
+interface AccountsProps {
+  transactions: Transaction[];
+  onAssignUnassigned: (accountId: string) => Promise<number>;
+}
+
+const emptyForm = () => ({
+  name: '',
+  kind: 'bank' as AccountKind,
+  institution: '',
+  accountNumber: '',
+  openingBalance: 0,
+  openingDate: new Date().toISOString().split('T')[0],
+});
+
+const Accounts: React.FC<AccountsProps> = ({ transactions, onAssignUnassigned }) => {
+  const { formatCurrency, formatDate } = useDisplayFormat();
+  const { accounts, addAccount, addDefaultAccounts, editAccount, setDefaultAccount } = useAccounts();
+  const [form, setForm] = useState(emptyForm);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+
+  const runningBalances = useMemo(
+    () => computeRunningBalances(accounts, transactions),
+    [accounts, transactions]
+  );
+  const unassignedCount = useMemo(
+    () => findUnassignedTransactions(transactions).length,
+    [transactions]
+  );
+  const defaultAccount = getDefaultAccount(accounts);
+  const selected = runningBalances.find(r => r.account.id === selectedAccountId);
+  const totalHeld = runningBalances
+    .filter(r => !r.account.archived)
+    .reduce((sum, r) => sum + r.balance, 0);
+
+  const handleAddAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await addAccount({
+        name: form.name.trim(),
+        kind: form.kind,
+        openingBalance: form.openingBalance,
+        openingDate: form.openingDate,
+        ...(form.institution && { institution: form.institution }),
+        ...(form.accountNumber && { accountNumber: form.accountNumber }),
+      });
+      setForm(emptyForm());
+      setShowForm(false);
+    } catch (error) {
+      console.error('Error adding account:', error);
+      setMessage('Could not add the account. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddDefaults = async () => {
+    setIsSaving(true);
+    try {
+      await addDefaultAccounts();
+    } catch (error) {
+      console.error('Error creating default accounts:', error);
+      setMessage('Could not create the default accounts. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAssignUnassigned = async () => {
+    if (!defaultAccount) return;
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const assigned = await onAssignUnassigned(defaultAccount.id);
+      setMessage(`Assigned ${assigned} transaction${assigned === 1 ? '' : 's'} to ${defaultAccount.name}.`);
+    } catch (error) {
+      console.error('Error assigning transactions to account:', error);
+      setMessage('Assignment failed. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900 mb-2">Bank & Cash Accounts</h2>
+            <p className="text-slate-600">
+              Total held across active accounts: <strong>{formatCurrency(totalHeld)}</strong>
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {accounts.length === 0 && (
+              <button
+                onClick={handleAddDefaults}
+                disabled={isSaving}
+                className="bg-white text-slate-700 border border-slate-300 font-medium py-2 px-4 rounded-md hover:bg-slate-100 disabled:opacity-50 text-sm"
+              >
+                Create Default Accounts
+              </button>
+            )}
+            <button
+              onClick={() => setShowForm(prev => !prev)}
+              className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 text-sm"
+            >
+              {showForm ? 'Cancel' : 'Add Account'}
+            </button>
+          </div>
+        </div>
+
+        {unassignedCount > 0 && defaultAccount && (
+          <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-md p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <p className="text-sm text-yellow-700">
+              <strong>{unassignedCount}</strong> transaction{unassignedCount === 1 ? ' is' : 's are'} not linked to an account.
+            </p>
+            <button
+              onClick={handleAssignUnassigned}
+              disabled={isSaving}
+              className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              Assign to {defaultAccount.name}
+            </button>
+          </div>
+        )}
+        {message && <p className="mt-2 text-sm text-slate-600">{message}</p>}
+
+        {showForm && (
+          <form onSubmit={handleAddAccount} className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="account-name" className="block text-sm font-medium text-slate-700">Name</label>
+              <input
+                id="account-name"
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="e.g. GCB Current Account"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="account-kind" className="block text-sm font-medium text-slate-700">Kind</label>
+              <select
+                id="account-kind"
+                value={form.kind}
+                onChange={(e) => setForm({ ...form, kind: e.target.value as AccountKind })}
+                className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                {(Object.keys(ACCOUNT_KIND_LABELS) as AccountKind[]).map(kind => (
+                  <option key={kind} value={kind}>{ACCOUNT_KIND_LABELS[kind]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="account-institution" className="block text-sm font-medium text-slate-700">Bank / Network</label>
+              <input
+                id="account-institution"
+                type="text"
+                value={form.institution}
+                onChange={(e) => setForm({ ...form, institution: e.target.value })}
+                className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="account-number" className="block text-sm font-medium text-slate-700">Account Number</label>
+              <input
+                id="account-number"
+                type="text"
+                value={form.accountNumber}
+                onChange={(e) => setForm({ ...form, accountNumber: e.target.value })}
+                className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="account-opening-balance" className="block text-sm font-medium text-slate-700">Opening Balance</label>
+              <input
+                id="account-opening-balance"
+                type="number"
+                step="0.01"
+                value={form.openingBalance || ''}
+                onChange={(e) => setForm({ ...form, openingBalance: parseFloat(e.target.value) || 0 })}
+                className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="0.00"
+              />
+            </div>
+            <div>
+              <label htmlFor="account-opening-date" className="block text-sm font-medium text-slate-700">As Of</label>
+              <input
+                id="account-opening-date"
+                type="date"
+                value={form.openingDate}
+                onChange={(e) => setForm({ ...form, openingDate: e.target.value })}
+                className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                required
+              />
+            </div>
+            <div className="md:col-span-3 flex justify-end">
+              <button
+                type="submit"
+                disabled={isSaving || !form.name.trim()}
+                className="bg-blue-600 text-white font-medium py-2 px-6 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving...' : 'Save Account'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      {accounts.length === 0 ? (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <p className="text-center text-slate-500 py-8">No accounts yet. Add the bank, mobile money and cash accounts the church uses.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {runningBalances.map(({ account, balance, moneyIn, moneyOut }) => (
+            <div
+              key={account.id}
+              onClick={() => setSelectedAccountId(account.id)}
+              className={`bg-white p-4 rounded-lg shadow-md border cursor-pointer transition-colors ${
+                selectedAccountId === account.id ? 'border-blue-500' : 'border-slate-200 hover:border-slate-300'
+              } ${account.archived ? 'opacity-60' : ''}`}
+            >
+              <div className="flex justify-between items-start">
+                <div>
+                  <p className="font-semibold text-slate-900">{account.name}</p>
+                  <p className="text-xs text-slate-500">
+                    {ACCOUNT_KIND_LABELS[account.kind]}{account.institution ? ` · ${account.institution}` : ''}
+                  </p>
+                </div>
+                {account.isDefault && (
+                  <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800">Default</span>
+                )}
+                {account.archived && (
+                  <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-slate-100 text-slate-600">Archived</span>
+                )}
+              </div>
+              <p className={`text-2xl font-bold mt-3 ${balance >= 0 ? 'text-slate-900' : 'text-red-600'}`}>{formatCurrency(balance)}</p>
+              <div className="flex justify-between text-xs text-slate-500 mt-2">
+                <span className="text-green-600">In {formatCurrency(moneyIn)}</span>
+                <span className="text-red-600">Out {formatCurrency(moneyOut)}</span>
+              </div>
+              <div className="flex gap-3 mt-3 text-xs">
+                {!account.isDefault && !account.archived && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); setDefaultAccount(account.id); }}
+                    className="text-blue-600 hover:underline"
+                  >
+                    Make default
+                  </button>
+                )}
+                {!account.isDefault && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); editAccount(account.id, { archived: !account.archived }); }}
+                    className="text-slate-600 hover:underline"
+                  >
+                    {account.archived ? 'Restore' : 'Archive'}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900 mb-4">{selected.account.name} — Statement</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr className="border-b border-slate-200">
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">Date</th>
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">Description</th>
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">Category</th>
+                  <th className="text-right py-2 text-sm font-medium text-slate-700">Amount</th>
+                  <th className="text-right py-2 text-sm font-medium text-slate-700">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-slate-100">
+                  <td className="py-2 text-sm text-slate-500">{formatDate(selected.account.openingDate)}</td>
+                  <td className="py-2 text-sm text-slate-700" colSpan={3}>Opening balance</td>
+                  <td className="py-2 text-sm font-medium text-slate-900 text-right">{formatCurrency(selected.account.openingBalance)}</td>
+                </tr>
+                {selected.lines.map(({ transaction, amount, balanceAfter }) => (
+                  <tr key={transaction.id} className="border-b border-slate-100">
+                    <td className="py-2 text-sm text-slate-500">{formatDate(transaction.date)}</td>
+                    <td className="py-2 text-sm text-slate-700">{transaction.description}</td>
+                    <td className="py-2 text-sm text-slate-500">
+                      {transaction.type === TransactionType.TRANSFER ? 'Transfer' : transaction.category}
+                    </td>
+                    <td className={`py-2 text-sm text-right ${amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {amount >= 0 ? '+' : '-'} {formatCurrency(Math.abs(amount))}
+                    </td>
+                    <td className="py-2 text-sm font-medium text-slate-900 text-right">{formatCurrency(balanceAfter)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Accounts;
@@ -3,14 +3,24 @@ import { Transaction, UserRole } from '../types';
 import { INCOME_CATEGORIES } from '../constants';
 import { useMembers } from '../hooks/useMembers';
 import { useAuth } from '../context/AuthContext';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { useCurrencySettings } from '../hooks/useCurrencySettings';
+import { usePledges } from '../hooks/usePledges';
+import { foreignCurrencyFields } from '../utils/currency';
+import { isOpenPledge, pledgeProgress, suggestedPledge } from '../utils/pledges';
+import ForeignCurrencyFields from './ForeignCurrencyFields';
 
 interface AddDonationFormProps {
-  onAddTransaction: (transaction: Omit<Transaction, 'id'>) => void;
+  onAddTransaction: (transaction: Omit<Transaction, 'id'>) => Promise<unknown>;
+  transactions: Transaction[];
 }
 
-const AddDonationForm: React.FC<AddDonationFormProps> = ({ onAddTransaction }) => {
+const AddDonationForm: React.FC<AddDonationFormProps> = ({ onAddTransaction, transactions }) => {
+  const { formatCurrency } = useDisplayFormat();
   const { members } = useMembers();
+  const { campaigns, pledges } = usePledges();
   const { userRole } = useAuth();
+  const { settings: currencySettings, currencies, rateFor } = useCurrencySettings();
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
@@ -18,9 +28,15 @@ const AddDonationForm: React.FC<AddDonationFormProps> = ({ onAddTransaction }) =
   const [donorName, setDonorName] = useState('');
   const [donorContact, setDonorContact] = useState('');
   const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [entryMode, setEntryMode] = useState<'name' | 'number'>('name');
   const [titheNumber, setTitheNumber] = useState('');
   const [selectedMember, setSelectedMember] = useState<any>(null);
+  const [currency, setCurrency] = useState(''); // Blank for the base currency
+  const [rate, setRate] = useState('');
+  const [pledgeChoice, setPledgeChoice] = useState<string | null>(null); // Null follows the suggested pledge
+  const [campaignId, setCampaignId] = useState('');
+  const selectedCurrency = currency || currencySettings.baseCurrency;
 
   // Check if user has permission to add donations
   if (userRole === UserRole.VIEWER) {
@@ -64,6 +80,7 @@ const AddDonationForm: React.FC<AddDonationFormProps> = ({ onAddTransaction }) =
   // Handle name selection
   const handleNameSelection = (name: string) => {
     setDonorName(name);
+    setPledgeChoice(null);
     if (name) {
       const foundMember = members.find(m => m.name === name);
       if (foundMember) {
@@ -80,25 +97,44 @@ const AddDonationForm: React.FC<AddDonationFormProps> = ({ onAddTransaction }) =
     }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const numericAmount = parseFloat(amount);
     if (!description || !amount || isNaN(numericAmount) || numericAmount <= 0) {
       setError('Please fill in all fields with valid values.');
       return;
     }
+    const exchangeRate = parseFloat(rate) || rateFor(selectedCurrency, date);
+    if (!exchangeRate) {
+      setError(`There is no ${selectedCurrency} rate for this date. Enter the rate used.`);
+      return;
+    }
     setError('');
+    const pledge = pledges.find(p => p.id === pledgeId);
+    const campaign = campaigns.find(c => c.id === (pledge ? pledge.campaignId : campaignId));
 
-    onAddTransaction({
-      description,
-      amount: numericAmount,
-      date,
-      type: 'Income',
-      category,
-      ...(donorName && { donorName }),
-      ...(donorContact && { donorContact }),
-      ...(selectedMember?.id && { donorMemberId: selectedMember.id })
-    });
+    setIsSubmitting(true);
+    try {
+      await onAddTransaction({
+        description,
+        ...foreignCurrencyFields(selectedCurrency, currencySettings.baseCurrency, numericAmount, exchangeRate),
+        date,
+        type: 'Income',
+        category,
+        ...(donorName && { donorName }),
+        ...(donorContact && { donorContact }),
+        ...(selectedMember?.id && { donorMemberId: selectedMember.id }),
+        ...(pledge && { pledgeId: pledge.id }),
+        ...(campaign && { campaignId: campaign.id }),
+        ...(campaign?.fundId && { fundId: campaign.fundId })
+      });
+    } catch (err: any) {
+      // e.g. a closed period or a reconciled account; keep what was entered
+      setError(err?.message || 'The donation could not be recorded.');
+      return;
+    } finally {
+      setIsSubmitting(false);
+    }
 
     // Reset form
     setDescription('');
@@ -109,6 +145,10 @@ const AddDonationForm: React.FC<AddDonationFormProps> = ({ onAddTransaction }) =
     setDonorContact('');
     setTitheNumber('');
     setSelectedMember(null);
+    setCurrency('');
+    setRate('');
+    setPledgeChoice(null);
+    setCampaignId('');
   };
 
   const toggleEntryMode = () => {
@@ -117,8 +157,18 @@ const AddDonationForm: React.FC<AddDonationFormProps> = ({ onAddTransaction }) =
     setDonorContact('');
     setTitheNumber('');
     setSelectedMember(null);
+    setPledgeChoice(null);
   };
 
+  // Gifts from a member go toward their open pledge for this kind of giving unless chosen otherwise
+  const memberPledges = selectedMember
+    ? pledges.filter(p => p.memberId === selectedMember.id && isOpenPledge(p) && campaigns.some(c => c.id === p.campaignId && !c.closed))
+    : [];
+  const suggested = selectedMember ? suggestedPledge(pledges, campaigns, transactions, selectedMember.id, category, date) : undefined;
+  const pledgeId = pledgeChoice ?? suggested?.id ?? '';
+  const openCampaigns = campaigns.filter(c => !c.closed);
+  const campaignName = (id: string) => campaigns.find(c => c.id === id)?.name || id;
+
   return (
     <div className="bg-white p-6 rounded-lg shadow-md">
       <h2 className="text-xl font-bold mb-4">Record Individual Donation</h2>
@@ -164,6 +214,16 @@ const AddDonationForm: React.FC<AddDonationFormProps> = ({ onAddTransaction }) =
             className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
           />
         </div>
+        <ForeignCurrencyFields
+          currencies={currencies}
+          baseCurrency={currencySettings.baseCurrency}
+          currency={selectedCurrency}
+          onCurrencyChange={(code) => { setCurrency(code); setRate(''); }}
+          rate={rate}
+          onRateChange={setRate}
+          tableRate={rateFor(selectedCurrency, date)}
+          amount={parseFloat(amount) || 0}
+        />
         <div>
           <label htmlFor="date" className="block text-sm font-medium text-slate-700">Date</label>
           <input
@@ -228,6 +288,40 @@ const AddDonationForm: React.FC<AddDonationFormProps> = ({ onAddTransaction }) =
           </div>
         )}
         
+        {memberPledges.length > 0 && (
+          <div>
+            <label htmlFor="pledgeId" className="block text-sm font-medium text-slate-700">Toward Pledge</label>
+            <select
+              id="pledgeId"
+              value={pledgeId}
+              onChange={(e) => setPledgeChoice(e.target.value)}
+              className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="">Not toward a pledge</option>
+              {memberPledges.map(p => (
+                <option key={p.id} value={p.id}>
+                  {campaignName(p.campaignId)} ({formatCurrency(pledgeProgress(p, transactions, date).remaining)} remaining)
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {!pledgeId && openCampaigns.length > 0 && (
+          <div>
+            <label htmlFor="campaignId" className="block text-sm font-medium text-slate-700">Campaign</label>
+            <select
+              id="campaignId"
+              value={campaignId}
+              onChange={(e) => setCampaignId(e.target.value)}
+              className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="">None</option>
+              {openCampaigns.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </div>
+        )}
+
         <div>
           <label htmlFor="donorContact" className="block text-sm font-medium text-slate-700">Donor Contact</label>
           <input
@@ -239,7 +333,7 @@ const AddDonationForm: React.FC<AddDonationFormProps> = ({ onAddTransaction }) =
             className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
           />
         </div>
-        <button type="submit" className="w-full bg-green-600 text-white font-bold py-2 px-4 rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500">
+        <button type="submit" disabled={isSubmitting} className="w-full bg-green-600 text-white font-bold py-2 px-4 rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50">
           Record Donation
         </button>
       </form>
@@ -1,19 +1,35 @@
-import React, { useState } from 'react';
-import { Transaction, TransactionType, UserRole, Member } from '../types';
-import { INCOME_CATEGORIES } from '../constants';
+import React, { useMemo, useState } from 'react';
+import { Transaction, TransactionType, UserRole, Member, ExpenseApprovalStatus } from '../types';
+import { INCOME_CATEGORIES, TRANSFER_CATEGORY, FUND_RESTRICTION_LABELS, SPLIT_CATEGORY } from '../constants';
 import { useAuth } from '../context/AuthContext';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
 import { useFormValidation } from '../hooks/useFormValidation';
 import { transactionSchema, TransactionFormData } from '../validation';
 import { useMembers } from '../hooks/useMembers';
+import { useAccounts } from '../hooks/useAccounts';
+import { useFunds } from '../hooks/useFunds';
+import { useApprovalPolicy } from '../hooks/useApprovalPolicy';
+import { getDefaultAccount } from '../utils/accounts';
+import { computeFundBalances, fundIdForTransaction, restrictedFundShortfall } from '../utils/funds';
+import { unallocatedAmount } from '../utils/splits';
+import { foreignCurrencyFields } from '../utils/currency';
+import { useCurrencySettings } from '../hooks/useCurrencySettings';
+import ForeignCurrencyFields from './ForeignCurrencyFields';
 
 interface AddTransactionFormProps {
   onAddTransaction: (transaction: Omit<Transaction, 'id'>) => Promise<void>;
   expenseCategories: string[];
+  transactions: Transaction[];
 }
 
-const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onAddTransaction, expenseCategories }) => {
+const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onAddTransaction, expenseCategories, transactions }) => {
+  const { currencySymbol, formatCurrency } = useDisplayFormat();
   const { userRole } = useAuth();
   const { members } = useMembers();
+  const { activeAccounts } = useAccounts();
+  const { funds, activeFunds } = useFunds();
+  const { policy } = useApprovalPolicy();
+  const { settings: currencySettings, currencies, rateFor } = useCurrencySettings();
 
   const {
     values,
@@ -34,11 +50,22 @@ const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onAddTransactio
       amount: 0,
       donorName: '',
       donorContact: '',
-      selectedMemberId: ''
+      selectedMemberId: '',
+      accountId: '',
+      toAccountId: '',
+      fundId: ''
     }
   });
 
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [splitLines, setSplitLines] = useState<{ category: string; amount: string }[]>([]);
+  const [splitError, setSplitError] = useState('');
+  const [currency, setCurrency] = useState(''); // Blank for the base currency
+  const [rate, setRate] = useState('');
+  const [currencyError, setCurrencyError] = useState('');
+  const [submitError, setSubmitError] = useState('');
+
+  const fundBalances = useMemo(() => computeFundBalances(funds, transactions), [funds, transactions]);
 
   // Check if user has permission to add transactions
   if (userRole === UserRole.VIEWER) {
@@ -64,14 +91,57 @@ const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onAddTransactio
   }
 
   const categories = values.type === TransactionType.INCOME ? INCOME_CATEGORIES : expenseCategories;
+  const isTransfer = values.type === TransactionType.TRANSFER;
+  // Transactions without an explicit account go through the default account
+  const selectedAccountId = values.accountId || getDefaultAccount(activeAccounts)?.id || '';
+  // Until a fund is picked, follow the category (e.g. Building Fund gifts go to the Building Fund)
+  const selectedFundId = values.fundId || fundIdForTransaction({
+    category: values.category || '',
+    type: values.type || TransactionType.EXPENSE,
+  });
+  const isSplit = !isTransfer && splitLines.length > 0;
+  // Transfers and split lines are always entered in the base currency
+  const selectedCurrency = !isTransfer && !isSplit && currency ? currency : currencySettings.baseCurrency;
+  const exchangeRate = parseFloat(rate) || rateFor(selectedCurrency, values.date || '');
+  const baseAmount = values.amount && exchangeRate
+    ? foreignCurrencyFields(selectedCurrency, currencySettings.baseCurrency, values.amount, exchangeRate).amount
+    : values.amount;
+  const fundShortfall = values.type === TransactionType.EXPENSE && baseAmount && !isSplit
+    ? restrictedFundShortfall(fundBalances, selectedFundId, baseAmount)
+    : undefined;
+  const parsedSplits = splitLines.map(line => ({ category: line.category, amount: parseFloat(line.amount) || 0 }));
+  const remainingToSplit = unallocatedAmount(values.amount || 0, parsedSplits);
+
+  const startSplit = () => {
+    setSplitLines([
+      { category: values.category || categories[0], amount: values.amount ? String(values.amount) : '' },
+      { category: categories.find(c => c !== values.category) || categories[0], amount: '' },
+    ]);
+  };
+
+  const updateSplitLine = (index: number, changes: Partial<{ category: string; amount: string }>) => {
+    setSplitLines(lines => lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+    setSplitError('');
+  };
+
+  const removeSplitLine = (index: number) => {
+    setSplitLines(lines => (lines.length > 2 ? lines.filter((_, i) => i !== index) : []));
+  };
 
   const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const newType = e.target.value as TransactionType;
     setValue('type', newType);
+    setSplitLines([]);
     // Update category when type changes
-    setValue('category', newType === TransactionType.INCOME ? INCOME_CATEGORIES[0] : expenseCategories[0]);
-    // Clear member selection when type changes to expense
-    if (newType === TransactionType.EXPENSE) {
+    setValue('category',
+      newType === TransactionType.INCOME ? INCOME_CATEGORIES[0]
+        : newType === TransactionType.TRANSFER ? TRANSFER_CATEGORY
+        : expenseCategories[0]);
+    if (newType !== TransactionType.TRANSFER) {
+      setValue('toAccountId', '');
+    }
+    // Clear member selection when type changes away from income
+    if (newType !== TransactionType.INCOME) {
       setValue('selectedMemberId', '');
       setValue('donorName', '');
       setValue('donorContact', '');
@@ -93,9 +163,14 @@ const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onAddTransactio
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const requiresApproval = policy.enabled && values.type === TransactionType.EXPENSE;
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    submitTransaction(requiresApproval ? 'submitted' : undefined);
+  };
 
+  const submitTransaction = async (approvalStatus?: ExpenseApprovalStatus) => {
     // Mark all fields as touched for validation display
     Object.keys(values).forEach(key => {
       setTouched(key as keyof TransactionFormData);
@@ -105,27 +180,56 @@ const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onAddTransactio
     if (!validation.success) {
       return;
     }
+    if (isSplit) {
+      if (parsedSplits.some(line => line.amount <= 0)) {
+        setSplitError('Every split line needs an amount.');
+        return;
+      }
+      if (remainingToSplit !== 0) {
+        setSplitError(`The split lines must add up to the total; ${formatCurrency(remainingToSplit)} is unallocated.`);
+        return;
+      }
+    }
+    if (!exchangeRate) {
+      setCurrencyError(`There is no ${selectedCurrency} rate for this date. Enter the rate used.`);
+      return;
+    }
+    const accountId = validation.data!.accountId || selectedAccountId;
 
     setIsSubmitting(true);
+    setSubmitError('');
 
     try {
       const transactionData = {
         description: validation.data!.description,
-        amount: validation.data!.amount,
+        ...foreignCurrencyFields(selectedCurrency, currencySettings.baseCurrency, validation.data!.amount, exchangeRate),
         date: validation.data!.date,
         type: validation.data!.type,
-        category: validation.data!.category,
+        category: isSplit ? SPLIT_CATEGORY : validation.data!.category,
+        ...(accountId && { accountId }),
+        // Split lines take the fund of their own category
+        ...(validation.data!.type !== TransactionType.TRANSFER && !isSplit && { fundId: selectedFundId }),
+        ...(isSplit && { splits: parsedSplits }),
+        ...(validation.data!.type === TransactionType.TRANSFER && {
+          toAccountId: validation.data!.toAccountId
+        }),
         ...(validation.data!.type === TransactionType.INCOME && {
           donorName: validation.data!.donorName,
           donorContact: validation.data!.donorContact,
           donorMemberId: validation.data!.selectedMemberId || undefined
-        })
+        }),
+        ...(approvalStatus && { approvalStatus })
       };
 
       await onAddTransaction(transactionData);
       reset();
-    } catch (error) {
+      setSplitLines([]);
+      setCurrency('');
+      setRate('');
+    } catch (error: any) {
       console.error('Error submitting transaction:', error);
+      // e.g. the books are closed for its date; the entry stays in the form to correct
+      setSubmitError(error?.message || 'The transaction could not be saved.');
     } finally {
       setIsSubmitting(false);
     }
@@ -165,7 +269,7 @@ const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onAddTransactio
           <button
             type="button"
             onClick={() => handleTypeChange({ target: { value: TransactionType.EXPENSE } } as React.ChangeEvent<HTMLSelectElement>)}
-            className={`px-4 py-2 text-sm font-medium rounded-r-lg focus:z-10 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+            className={`px-4 py-2 text-sm font-medium ${activeAccounts.length > 1 ? '' : 'rounded-r-lg'} focus:z-10 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
               values.type === TransactionType.EXPENSE
                 ? 'bg-blue-600 text-white hover:bg-blue-700'
                 : 'bg-white text-slate-700 hover:bg-slate-100 border border-slate-300'
@@ -173,6 +277,19 @@ const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onAddTransactio
           >
             Expense
           </button>
+          {activeAccounts.length > 1 && (
+            <button
+              type="button"
+              onClick={() => handleTypeChange({ target: { value: TransactionType.TRANSFER } } as React.ChangeEvent<HTMLSelectElement>)}
+              className={`px-4 py-2 text-sm font-medium rounded-r-lg focus:z-10 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                values.type === TransactionType.TRANSFER
+                  ? 'bg-blue-600 text-white hover:bg-blue-700'
+                  : 'bg-white text-slate-700 hover:bg-slate-100 border border-slate-300'
+              }`}
+            >
+              Transfer
+            </button>
+          )}
         </div>
       </div>
 
@@ -206,7 +323,7 @@ const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onAddTransactio
               </label>
               <div className="relative mt-1 rounded-md shadow-sm">
                 <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                  <span className="text-slate-500 sm:text-sm">$</span>
+                  <span className="text-slate-500 sm:text-sm">{currencySymbol(selectedCurrency)}</span>
                 </div>
                 <input
                   type="number"
@@ -216,7 +333,7 @@ const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onAddTransactio
                   onBlur={() => setTouched('amount')}
                   step="0.01"
                   min="0"
-                  className={`pl-7 ${getInputClassName('amount')}`}
+                  className={`${currencySymbol(selectedCurrency).length > 1 ? 'pl-12' : 'pl-7'} ${getInputClassName('amount')}`}
                   placeholder="0.00"
                   aria-required="true"
                 />
@@ -227,6 +344,22 @@ const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onAddTransactio
             </div>
           </div>
 
+          {!isTransfer && !isSplit && (
+            <div className="mt-4">
+              <ForeignCurrencyFields
+                currencies={currencies}
+                baseCurrency={currencySettings.baseCurrency}
+                currency={selectedCurrency}
+                onCurrencyChange={(code) => { setCurrency(code); setRate(''); setCurrencyError(''); }}
+                rate={rate}
+                onRateChange={(value) => { setRate(value); setCurrencyError(''); }}
+                tableRate={rateFor(selectedCurrency, values.date || '')}
+                amount={values.amount || 0}
+              />
+              {currencyError && <p className="mt-1 text-sm text-red-600" role="alert">{currencyError}</p>}
+            </div>
+          )}
+
           <div className="mt-4">
             <label htmlFor="description" className="block text-sm font-medium text-slate-700">
               Description <span className="text-red-500">*</span>
@@ -246,10 +379,63 @@ const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onAddTransactio
             )}
           </div>
 
+          {activeAccounts.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+              <div>
+                <label htmlFor="accountId" className="block text-sm font-medium text-slate-700">
+                  {isTransfer ? 'From Account' : 'Account'}
+                </label>
+                <select
+                  id="accountId"
+                  value={selectedAccountId}
+                  onChange={(e) => setValue('accountId', e.target.value)}
+                  onBlur={() => setTouched('accountId')}
+                  className={getInputClassName('accountId')}
+                >
+                  {activeAccounts.map(account => (
+                    <option key={account.id} value={account.id}>{account.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {isTransfer && (
+                <div>
+                  <label htmlFor="toAccountId" className="block text-sm font-medium text-slate-700">
+                    To Account <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    id="toAccountId"
+                    value={values.toAccountId || ''}
+                    onChange={(e) => setValue('toAccountId', e.target.value)}
+                    onBlur={() => setTouched('toAccountId')}
+                    className={getInputClassName('toAccountId')}
+                    aria-required="true"
+                  >
+                    <option value="">Select an account</option>
+                    {activeAccounts.filter(a => a.id !== selectedAccountId).map(account => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                  </select>
+                  {getFieldError('toAccountId') && (
+                    <p className="mt-1 text-sm text-red-600" role="alert">{getFieldError('toAccountId')}</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {!isTransfer && !isSplit && (
           <div className="mt-4">
-            <label htmlFor="category" className="block text-sm font-medium text-slate-700">
-              Category <span className="text-red-500">*</span>
-            </label>
+            <div className="flex items-center justify-between">
+              <label htmlFor="category" className="block text-sm font-medium text-slate-700">
+                Category <span className="text-red-500">*</span>
+              </label>
+              {selectedCurrency === currencySettings.baseCurrency && (
+                <button type="button" onClick={startSplit} className="text-xs text-blue-600 hover:underline">
+                  Split across categories
+                </button>
+              )}
+            </div>
             <select
               id="category"
               value={values.category || ''}
@@ -266,6 +452,96 @@ const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onAddTransactio
               <p className="mt-1 text-sm text-red-600" role="alert">{getFieldError('category')}</p>
             )}
           </div>
+          )}
+
+          {isSplit && (
+            <div className="mt-4">
+              <div className="flex items-center justify-between">
+                <span className="block text-sm font-medium text-slate-700">Split Lines</span>
+                <button type="button" onClick={() => setSplitLines([])} className="text-xs text-slate-600 hover:underline">
+                  Don't split
+                </button>
+              </div>
+              <div className="mt-1 space-y-2">
+                {splitLines.map((line, index) => (
+                  <div key={index} className="flex gap-2 items-center">
+                    <select
+                      value={line.category}
+                      onChange={(e) => updateSplitLine(index, { category: e.target.value })}
+                      aria-label={`Category for line ${index + 1}`}
+                      className="flex-1 border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    >
+                      {categories.map(cat => (
+                        <option key={cat} value={cat}>{cat}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.amount}
+                      onChange={(e) => updateSplitLine(index, { amount: e.target.value })}
+                      aria-label={`Amount for line ${index + 1}`}
+                      className="w-28 border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeSplitLine(index)}
+                      aria-label={`Remove line ${index + 1}`}
+                      className="text-slate-400 hover:text-red-600"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-2 flex items-center justify-between text-xs">
+                <button
+                  type="button"
+                  onClick={() => setSplitLines(lines => [...lines, { category: categories[0], amount: '' }])}
+                  className="text-blue-600 hover:underline"
+                >
+                  Add line
+                </button>
+                <span className={remainingToSplit === 0 ? 'text-green-600' : 'text-slate-500'}>
+                  {remainingToSplit === 0 ? 'Fully allocated' : `${formatCurrency(remainingToSplit)} left to allocate`}
+                </span>
+              </div>
+              {splitError && (
+                <p className="mt-1 text-sm text-red-600" role="alert">{splitError}</p>
+              )}
+            </div>
+          )}
+
+          {!isTransfer && !isSplit && (
+            <div className="mt-4">
+              <label htmlFor="fundId" className="block text-sm font-medium text-slate-700">
+                Fund
+              </label>
+              <select
+                id="fundId"
+                value={selectedFundId}
+                onChange={(e) => setValue('fundId', e.target.value)}
+                onBlur={() => setTouched('fundId')}
+                className={getInputClassName('fundId')}
+              >
+                {activeFunds.map(fund => (
+                  <option key={fund.id} value={fund.id}>
+                    {fund.name} ({FUND_RESTRICTION_LABELS[fund.restriction]})
+                  </option>
+                ))}
+              </select>
+              {fundShortfall && (
+                <div className="mt-2 bg-yellow-50 border border-yellow-200 rounded-md p-3" role="alert">
+                  <p className="text-sm text-yellow-700">
+                    <strong>Restricted fund:</strong> this expense exceeds the {fundShortfall.fund.name} balance
+                    of {formatCurrency(fundShortfall.balance)}. Restricted money may only be spent on its designated purpose
+                    {fundShortfall.fund.description ? ` (${fundShortfall.fund.description})` : ''}.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
         </fieldset>
 
         {/* Donor Information Section - Only shown for Income transactions */}
@@ -339,8 +615,20 @@ const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onAddTransactio
           </fieldset>
         )}
 
+        {submitError && <p className="text-sm text-red-600" role="alert">{submitError}</p>}
+
         {/* Submit Button */}
-        <div className="flex justify-end">
+        <div className="flex justify-end gap-3">
+          {requiresApproval && (
+            <button
+              type="button"
+              onClick={() => submitTransaction('draft')}
+              disabled={!isValid || isSubmitting}
+              className="px-6 py-2 font-medium rounded-md border border-slate-300 text-slate-700 hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save Draft
+            </button>
+          )}
           <button
             type="submit"
             disabled={!isValid || isSubmitting}
@@ -360,7 +648,7 @@ const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onAddTransactio
                 Adding Transaction...
               </span>
             ) : (
-              'Add Transaction'
+              requiresApproval ? 'Submit for Approval' : 'Add Transaction'
             )}
           </button>
         </div>
@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { AuditAction, AuditEntityType, Transaction } from '../types';
+import { AUDIT_ENTITY_LABELS } from '../constants';
+import { useAuditLog } from '../hooks/useAuditLog';
+import { changedFields, filterAuditLog } from '../utils/auditLog';
+
+interface AuditLogProps {
+  deletedTransactions: Transaction[];
+  onRestoreTransaction: (id: string) => Promise<void>;
+}
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  restore: 'bg-yellow-100 text-yellow-800',
+};
+
+const displayValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const AuditLog: React.FC<AuditLogProps> = ({ deletedTransactions, onRestoreTransaction }) => {
+  const { formatDate } = useDisplayFormat();
+  const { entries } = useAuditLog();
+  const [performedBy, setPerformedBy] = useState('');
+  const [entityType, setEntityType] = useState<AuditEntityType | 'all'>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const users = useMemo(() => [...new Set(entries.map(e => e.performedBy))].sort(), [entries]);
+  const filtered = useMemo(
+    () => filterAuditLog(entries, { performedBy, entityType, from, to }),
+    [entries, performedBy, entityType, from, to]
+  );
+  const deletedIds = useMemo(() => new Set(deletedTransactions.map(t => t.id)), [deletedTransactions]);
+
+  const handleRestore = async (id: string) => {
+    setRestoringId(id);
+    setMessage(null);
+    try {
+      await onRestoreTransaction(id);
+      setMessage({ text: 'Transaction restored.', isError: false });
+    } catch (error) {
+      console.error('Error restoring transaction:', error);
+      setMessage({ text: (error as Error).message, isError: true });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">Audit Log</h2>
+        <p className="text-slate-600 mb-4">
+          Every change to transactions, members, budgets, categories, SMS settings and user roles. Entries cannot be edited or removed.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="audit-user" className="block text-sm font-medium text-slate-700">User</label>
+            <select
+              id="audit-user"
+              value={performedBy}
+              onChange={(e) => setPerformedBy(e.target.value)}
+              className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="">All users</option>
+              {users.map(u => <option key={u} value={u}>{u}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="audit-entity" className="block text-sm font-medium text-slate-700">Record Type</label>
+            <select
+              id="audit-entity"
+              value={entityType}
+              onChange={(e) => setEntityType(e.target.value as AuditEntityType | 'all')}
+              className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="all">All records</option>
+              {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(type => (
+                <option key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="audit-from" className="block text-sm font-medium text-slate-700">From</label>
+            <input
+              id="audit-from"
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="audit-to" className="block text-sm font-medium text-slate-700">To</label>
+            <input
+              id="audit-to"
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+        </div>
+        {message && (
+          <p className={`mt-3 text-sm ${message.isError ? 'text-red-600' : 'text-green-600'}`} role="alert">{message.text}</p>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        {filtered.length === 0 ? (
+          <p className="text-center text-slate-500 py-8">No changes match these filters.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr className="border-b border-slate-200">
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">When</th>
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">User</th>
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">Record</th>
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">Action</th>
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">Changes</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map(entry => {
+                  const snapshot = entry.after || entry.before;
+                  const label = snapshot && typeof snapshot.description === 'string' ? snapshot.description
+                    : snapshot && typeof snapshot.name === 'string' ? snapshot.name
+                    : entry.entityId;
+                  const canRestore = entry.entityType === 'transaction' && entry.action === 'delete' && deletedIds.has(entry.entityId);
+                  return (
+                    <tr key={entry.id} className="border-b border-slate-100 align-top">
+                      <td className="py-2 text-sm text-slate-500 whitespace-nowrap">
+                        {formatDate(entry.performedAt.split('T')[0])}
+                        <span className="block text-xs">{entry.performedAt.slice(11, 16)}</span>
+                      </td>
+                      <td className="py-2 text-sm text-slate-700">{entry.performedBy}</td>
+                      <td className="py-2 text-sm text-slate-900">
+                        {AUDIT_ENTITY_LABELS[entry.entityType]}
+                        <span className="block text-xs text-slate-500">{label}</span>
+                      </td>
+                      <td className="py-2 text-sm">
+                        <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full capitalize ${ACTION_STYLES[entry.action]}`}>
+                          {entry.action}
+                        </span>
+                      </td>
+                      <td className="py-2 text-xs text-slate-600">
+                        <ul className="space-y-1">
+                          {changedFields(entry).map(change => (
+                            <li key={change.field}>
+                              <span className="font-medium text-slate-700">{change.field}</span>:{' '}
+                              <span className="text-red-600 line-through">{displayValue(change.before)}</span>{' '}
+                              → <span className="text-green-700">{displayValue(change.after)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </td>
+                      <td className="py-2 text-right">
+                        {canRestore && (
+                          <button
+                            onClick={() => handleRestore(entry.entityId)}
+                            disabled={restoringId === entry.entityId}
+                            className="text-xs text-blue-600 hover:underline disabled:opacity-50"
+                          >
+                            Restore
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
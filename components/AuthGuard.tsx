@@ -1,13 +1,14 @@
 import React from 'react';
 import { useAuth } from '../context/AuthContext';
 import LoginForm from './LoginForm';
+import OrganizationSetup from './OrganizationSetup';
 
 interface AuthGuardProps {
   children: React.ReactNode;
 }
 
 const AuthGuard: React.FC<AuthGuardProps> = ({ children }) => {
-  const { user, loading } = useAuth();
+  const { user, loading, organizationId } = useAuth();
 
   if (loading) {
     return (
@@ -24,6 +25,10 @@ const AuthGuard: React.FC<AuthGuardProps> = ({ children }) => {
     return <LoginForm />;
   }
 
+  if (!organizationId) {
+    return <OrganizationSetup />;
+  }
+
   return <>{children}</>;
 };
 
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Branch } from '../types';
+import { HEAD_OFFICE_LABEL } from '../constants';
+import { CONSOLIDATED_SCOPE, HEAD_OFFICE_SCOPE } from '../utils/branches';
+
+interface BranchScopeSelectProps {
+  branches: Branch[];
+  value: string;
+  onChange: (scope: string) => void;
+}
+
+/**
+ * Lets head office switch the dashboard and reports between all branches
+ * together, its own books, or one branch.
+ */
+const BranchScopeSelect: React.FC<BranchScopeSelectProps> = ({ branches, value, onChange }) => (
+  <div className="mb-6 flex items-center gap-3">
+    <label htmlFor="branch-scope" className="text-sm font-medium text-slate-700">Showing</label>
+    <select
+      id="branch-scope"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+    >
+      <option value={CONSOLIDATED_SCOPE}>All branches (consolidated)</option>
+      <option value={HEAD_OFFICE_SCOPE}>{HEAD_OFFICE_LABEL}</option>
+      {branches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+    </select>
+  </div>
+);
+
+export default BranchScopeSelect;
@@ -0,0 +1,428 @@
+import React, { useMemo, useState } from 'react';
+import { Branch, Transaction, TransactionType, UserRole } from '../types';
+import {
+  DEFAULT_REMITTABLE_CATEGORIES,
+  DEFAULT_REMITTANCE_RATE,
+  HEAD_OFFICE_LABEL,
+  INCOME_CATEGORIES,
+  REMITTANCE_EXPENSE_CATEGORY,
+  REMITTANCE_INCOME_CATEGORY,
+} from '../constants';
+import { useAuth } from '../context/AuthContext';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { useBranches } from '../hooks/useBranches';
+import { branchSummaries, expectedRemittance, outstandingRemittances, remittanceId } from '../utils/branches';
+
+interface BranchesProps {
+  transactions: Transaction[];
+  onAddTransaction: (transaction: Omit<Transaction, 'id'>) => Promise<string | undefined>;
+}
+
+const inputClassName = 'mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const previousMonth = (): string => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return date.toISOString().slice(0, 7);
+};
+
+const formatRate = (branch: Pick<Branch, 'remittanceRate'> | null): string =>
+  branch ? `${Math.round(branch.remittanceRate * 10000) / 100}%` : '—';
+
+const emptyForm = {
+  name: '',
+  location: '',
+  ratePercent: String(DEFAULT_REMITTANCE_RATE * 100),
+  categories: DEFAULT_REMITTABLE_CATEGORIES,
+};
+
+/**
+ * Head office sees every branch's figures side by side and confirms the
+ * remittances branches send; a branch sees what it owes and sends it.
+ */
+const Branches: React.FC<BranchesProps> = ({ transactions, onAddTransaction }) => {
+  const { formatCurrency, formatDate } = useDisplayFormat();
+  const { userRole, branchId } = useAuth();
+  const { branches, remittances, addBranch, updateBranch, recordRemittanceSent, markRemittanceReceived } = useBranches();
+  const today = new Date().toISOString().split('T')[0];
+
+  const [month, setMonth] = useState(previousMonth());
+  const [amount, setAmount] = useState('');
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isAdmin = userRole === UserRole.ADMIN;
+  const ownBranch = branches.find(b => b.id === branchId) || null;
+  const summaries = useMemo(() => branchSummaries(transactions, branches), [transactions, branches]);
+  const outstanding = outstandingRemittances(remittances);
+  const branchName = (id: string) => branches.find(b => b.id === id)?.name || id;
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ text: success, isError: false });
+    } catch (error) {
+      console.error('Error updating branches:', error);
+      setMessage({ text: (error as Error).message, isError: true });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveBranch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const branch = {
+      name: form.name,
+      ...(form.location.trim() && { location: form.location.trim() }),
+      remittanceRate: Number(form.ratePercent) / 100,
+      remittableCategories: form.categories,
+    };
+    run(async () => {
+      if (editingId) {
+        await updateBranch(editingId, branch);
+      } else {
+        await addBranch(branch);
+      }
+      setForm(emptyForm);
+      setEditingId(null);
+    }, editingId ? 'Branch updated.' : 'Branch added.');
+  };
+
+  const startEditing = (branch: Branch) => {
+    setEditingId(branch.id);
+    setForm({
+      name: branch.name,
+      location: branch.location || '',
+      ratePercent: String(Math.round(branch.remittanceRate * 10000) / 100),
+      categories: branch.remittableCategories,
+    });
+  };
+
+  const toggleCategory = (category: string) => {
+    setForm(prev => ({
+      ...prev,
+      categories: prev.categories.includes(category)
+        ? prev.categories.filter(c => c !== category)
+        : [...prev.categories, category],
+    }));
+  };
+
+  // The branch posts the expense first, then records the remittance against it
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ownBranch) return;
+    const expected = expectedRemittance(transactions, ownBranch, month);
+    const sentAmount = amount ? parseFloat(amount) : expected;
+    run(async () => {
+      if (!(sentAmount > 0)) throw new Error('Enter the amount sent.');
+      if (remittances.some(r => r.month === month)) throw new Error('This month has already been remitted.');
+      const sentTransactionId = await onAddTransaction({
+        date: today,
+        description: `Remittance to ${HEAD_OFFICE_LABEL.toLowerCase()} for ${month}`,
+        category: REMITTANCE_EXPENSE_CATEGORY,
+        amount: sentAmount,
+        type: TransactionType.EXPENSE,
+        remittanceId: remittanceId(ownBranch.id, month),
+      });
+      if (!sentTransactionId) return;
+      await recordRemittanceSent({ month, expectedAmount: expected, amount: sentAmount, sentTransactionId });
+      setAmount('');
+    }, `Remittance for ${month} recorded.`);
+  };
+
+  const handleReceive = (id: string) => {
+    const remittance = remittances.find(r => r.id === id);
+    if (!remittance) return;
+    run(async () => {
+      const receivedTransactionId = await onAddTransaction({
+        date: today,
+        description: `Remittance from ${branchName(remittance.branchId)} for ${remittance.month}`,
+        category: REMITTANCE_INCOME_CATEGORY,
+        amount: remittance.amount,
+        type: TransactionType.INCOME,
+        remittanceId: id,
+      });
+      if (!receivedTransactionId) return;
+      await markRemittanceReceived(id, receivedTransactionId);
+    }, 'Remittance received and posted as income.');
+  };
+
+  const remittanceTable = (
+    <table className="min-w-full">
+      <thead>
+        <tr className="border-b border-slate-200">
+          {!branchId && <th className="text-left py-2 text-sm font-medium text-slate-700">Branch</th>}
+          <th className="text-left py-2 text-sm font-medium text-slate-700">Month</th>
+          <th className="text-right py-2 text-sm font-medium text-slate-700">Expected</th>
+          <th className="text-right py-2 text-sm font-medium text-slate-700">Sent</th>
+          <th className="text-left py-2 pl-6 text-sm font-medium text-slate-700">Status</th>
+          <th className="py-2" />
+        </tr>
+      </thead>
+      <tbody>
+        {remittances.map(r => (
+          <tr key={r.id} className="border-b border-slate-100">
+            {!branchId && <td className="py-2 text-sm text-slate-900">{branchName(r.branchId)}</td>}
+            <td className="py-2 text-sm text-slate-900">{r.month}</td>
+            <td className="py-2 text-sm text-slate-500 text-right">{formatCurrency(r.expectedAmount)}</td>
+            <td className="py-2 text-sm text-slate-900 text-right">{formatCurrency(r.amount)}</td>
+            <td className="py-2 pl-6 text-sm text-slate-500">
+              {r.status === 'received' && r.receivedAt
+                ? `Received ${formatDate(r.receivedAt.split('T')[0])}`
+                : `Sent ${formatDate(r.sentAt.split('T')[0])}`}
+            </td>
+            <td className="py-2 text-right">
+              {!branchId && r.status === 'sent' && (
+                <button
+                  onClick={() => handleReceive(r.id)}
+                  disabled={isSaving}
+                  className="text-xs text-blue-600 hover:underline"
+                >
+                  Confirm Received
+                </button>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  if (branchId) {
+    const expected = ownBranch ? expectedRemittance(transactions, ownBranch, month) : 0;
+    const alreadySent = remittances.find(r => r.month === month);
+    return (
+      <div className="space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <h2 className="text-2xl font-bold text-slate-900 mb-2">{ownBranch?.name || 'Branch'}</h2>
+          <p className="text-slate-600">
+            Each month the branch sends {formatRate(ownBranch)} of its {ownBranch?.remittableCategories.join(', ') || 'remittable'} income
+            to {HEAD_OFFICE_LABEL.toLowerCase()}. Sending records it as an expense in the branch's books.
+          </p>
+          {message && (
+            <p className={`mt-3 text-sm ${message.isError ? 'text-red-600' : 'text-green-600'}`} role="alert">{message.text}</p>
+          )}
+        </div>
+
+        <form onSubmit={handleSend} className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900 mb-4">Send Remittance</h3>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <label htmlFor="remittance-month" className="block text-sm font-medium text-slate-700">For month</label>
+              <input id="remittance-month" type="month" value={month} onChange={(e) => setMonth(e.target.value)} className={inputClassName} required />
+            </div>
+            <div>
+              <p className="text-sm font-medium text-slate-700">Expected</p>
+              <p className="mt-2 text-lg font-semibold text-slate-900">{formatCurrency(expected)}</p>
+            </div>
+            <div>
+              <label htmlFor="remittance-amount" className="block text-sm font-medium text-slate-700">Amount sent</label>
+              <input
+                id="remittance-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                placeholder={expected.toFixed(2)}
+                onChange={(e) => setAmount(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <button
+                type="submit"
+                disabled={isSaving || !ownBranch || !!alreadySent}
+                className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {alreadySent ? 'Already Sent' : 'Send'}
+              </button>
+            </div>
+          </div>
+        </form>
+
+        <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900 mb-4">Remittance History</h3>
+          {remittances.length === 0
+            ? <p className="text-center text-slate-500 py-8">No remittances sent yet.</p>
+            : remittanceTable}
+        </div>
+      </div>
+    );
+  }
+
+  const totals = summaries.reduce(
+    (acc, s) => ({ income: acc.income + s.income, expenses: acc.expenses + s.expenses, net: acc.net + s.net }),
+    { income: 0, expenses: 0, net: 0 }
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">Branches</h2>
+        <p className="text-slate-600">
+          Branches keep their own transactions, members and budgets. Consolidated figures leave out remittances, which
+          only move money between branches and {HEAD_OFFICE_LABEL.toLowerCase()}.
+        </p>
+        {message && (
+          <p className={`mt-3 text-sm ${message.isError ? 'text-red-600' : 'text-green-600'}`} role="alert">{message.text}</p>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900 mb-4">Consolidated Summary</h3>
+        <table className="min-w-full">
+          <thead>
+            <tr className="border-b border-slate-200">
+              <th className="text-left py-2 text-sm font-medium text-slate-700">Branch</th>
+              <th className="text-right py-2 text-sm font-medium text-slate-700">Income</th>
+              <th className="text-right py-2 text-sm font-medium text-slate-700">Expenses</th>
+              <th className="text-right py-2 text-sm font-medium text-slate-700">Net</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map(s => (
+              <tr key={s.branchId || 'head'} className="border-b border-slate-100">
+                <td className="py-2 text-sm text-slate-900">{s.name}</td>
+                <td className="py-2 text-sm text-green-600 text-right">{formatCurrency(s.income)}</td>
+                <td className="py-2 text-sm text-red-600 text-right">{formatCurrency(s.expenses)}</td>
+                <td className="py-2 text-sm text-slate-900 text-right">{formatCurrency(s.net)}</td>
+              </tr>
+            ))}
+            <tr className="font-semibold">
+              <td className="py-2 text-sm text-slate-900">Total</td>
+              <td className="py-2 text-sm text-right">{formatCurrency(totals.income)}</td>
+              <td className="py-2 text-sm text-right">{formatCurrency(totals.expenses)}</td>
+              <td className="py-2 text-sm text-right">{formatCurrency(totals.net)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+          <h3 className="text-lg font-semibold text-slate-900">Remittances</h3>
+          <div>
+            <label htmlFor="remittance-month" className="block text-sm font-medium text-slate-700">Expected for</label>
+            <input id="remittance-month" type="month" value={month} onChange={(e) => setMonth(e.target.value)} className={inputClassName} />
+          </div>
+        </div>
+        {branches.length === 0 ? (
+          <p className="text-center text-slate-500 py-8">No branches yet.</p>
+        ) : (
+          <table className="min-w-full mb-6">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="text-left py-2 text-sm font-medium text-slate-700">Branch</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">Rate</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">Expected</th>
+                <th className="text-left py-2 pl-6 text-sm font-medium text-slate-700">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {branches.map(b => {
+                const remittance = remittances.find(r => r.id === remittanceId(b.id, month));
+                return (
+                  <tr key={b.id} className="border-b border-slate-100">
+                    <td className="py-2 text-sm text-slate-900">{b.name}</td>
+                    <td className="py-2 text-sm text-slate-500 text-right">{formatRate(b)}</td>
+                    <td className="py-2 text-sm text-slate-900 text-right">{formatCurrency(expectedRemittance(transactions, b, month))}</td>
+                    <td className="py-2 pl-6 text-sm text-slate-500">
+                      {remittance ? `${remittance.status === 'received' ? 'Received' : 'Sent'} ${formatCurrency(remittance.amount)}` : 'Not sent'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        {remittances.length > 0 && (
+          <>
+            <h4 className="text-sm font-semibold text-slate-700 mb-2">
+              All Remittances{outstanding.length > 0 && ` (${outstanding.length} awaiting confirmation)`}
+            </h4>
+            {remittanceTable}
+          </>
+        )}
+      </div>
+
+      {isAdmin && (
+        <form onSubmit={handleSaveBranch} className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900 mb-4">{editingId ? 'Edit Branch' : 'Add Branch'}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="branch-name" className="block text-sm font-medium text-slate-700">Name</label>
+              <input id="branch-name" type="text" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClassName} required />
+            </div>
+            <div>
+              <label htmlFor="branch-location" className="block text-sm font-medium text-slate-700">Location</label>
+              <input id="branch-location" type="text" value={form.location} onChange={(e) => setForm({ ...form, location: e.target.value })} className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="branch-rate" className="block text-sm font-medium text-slate-700">Remittance rate (%)</label>
+              <input
+                id="branch-rate"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={form.ratePercent}
+                onChange={(e) => setForm({ ...form, ratePercent: e.target.value })}
+                className={inputClassName}
+                required
+              />
+            </div>
+          </div>
+          <fieldset className="mt-4">
+            <legend className="block text-sm font-medium text-slate-700">Remitted on</legend>
+            <div className="mt-2 flex flex-wrap gap-4">
+              {INCOME_CATEGORIES.filter(c => c !== REMITTANCE_INCOME_CATEGORY).map(category => (
+                <label key={category} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input type="checkbox" checked={form.categories.includes(category)} onChange={() => toggleCategory(category)} />
+                  {category}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <div className="mt-6 flex gap-3">
+            <button
+              type="submit"
+              disabled={isSaving || !form.name.trim()}
+              className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {editingId ? 'Save Branch' : 'Add Branch'}
+            </button>
+            {editingId && (
+              <button
+                type="button"
+                onClick={() => { setEditingId(null); setForm(emptyForm); }}
+                className="py-2 px-4 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+
+          {branches.length > 0 && (
+            <ul className="mt-6 divide-y divide-slate-100">
+              {branches.map(b => (
+                <li key={b.id} className="py-2 flex items-center justify-between text-sm">
+                  <span className="text-slate-900">
+                    {b.name}{b.location && <span className="text-slate-500"> · {b.location}</span>}
+                  </span>
+                  <button type="button" onClick={() => startEditing(b)} className="text-xs text-blue-600 hover:underline">Edit</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default Branches;
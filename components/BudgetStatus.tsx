@@ -1,25 +1,21 @@
 
 import React, { useMemo } from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
 import { Transaction, TransactionType } from '../types';
+import { totalsByCategory } from '../utils/splits';
 
 interface BudgetStatusProps {
   transactions: Transaction[];
   budgets: { [category: string]: number };
 }
 
-const formatCurrency = (amount: number) => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(amount);
-};
-
 const BudgetStatusCard: React.FC<{
   category: string;
   spent: number;
   budget: number;
   percentage: number;
 }> = ({ category, spent, budget, percentage }) => {
+  const { formatCurrency } = useDisplayFormat();
   const getStatusColor = () => {
     if (percentage > 100) return 'from-red-500 to-red-600';
     if (percentage > 75) return 'from-amber-500 to-orange-500';
@@ -97,20 +93,13 @@ const BudgetStatusCard: React.FC<{
 };
 
 const BudgetStatus: React.FC<BudgetStatusProps> = ({ transactions, budgets }) => {
+  const { formatCurrency } = useDisplayFormat();
   const currentMonth = new Date().toISOString().slice(0, 7);
 
   const spendingByCat = useMemo(() => {
-    const monthlyExpenses = transactions.filter(t =>
-      t.type === TransactionType.EXPENSE && t.date.startsWith(currentMonth)
-    );
-
-    return monthlyExpenses.reduce((acc, t) => {
-      if (!acc[t.category]) {
-        acc[t.category] = 0;
-      }
-      acc[t.category] += t.amount;
-      return acc;
-    }, {} as Record<string, number>);
+    const monthlyTransactions = transactions.filter(t => t.date.startsWith(currentMonth));
+    // Split expenses count each line against its own category's budget
+    return totalsByCategory(monthlyTransactions, TransactionType.EXPENSE);
   }, [transactions, currentMonth]);
 
   const budgetedCategories = Object.keys(budgets).sort();
@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useMemo } from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
 
 interface BudgetsProps {
   getBudgetsForMonth: (month: string) => { [category: string]: number };
@@ -8,6 +9,7 @@ interface BudgetsProps {
 }
 
 const Budgets: React.FC<BudgetsProps> = ({ getBudgetsForMonth, setBudgetsForMonth, expenseCategories, addExpenseCategory }) => {
+  const { currencySymbol, formatCurrency } = useDisplayFormat();
   const [selectedMonth, setSelectedMonth] = useState(new Date().toISOString().slice(0, 7));
   const [localBudgets, setLocalBudgets] = useState<{ [category: string]: number }>({});
   const [showSuccess, setShowSuccess] = useState(false);
@@ -77,7 +79,7 @@ const Budgets: React.FC<BudgetsProps> = ({ getBudgetsForMonth, setBudgetsForMont
                 <div key={category} className="grid grid-cols-3 items-center gap-4">
                     <label htmlFor={`budget-${category}`} className="text-sm font-medium text-slate-700 col-span-2">{category}</label>
                     <div className="relative">
-                        <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-slate-500 sm:text-sm">$</span>
+                        <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-slate-500 sm:text-sm">{currencySymbol()}</span>
                         <input
                             type="number"
                             id={`budget-${category}`}
@@ -86,7 +88,7 @@ const Budgets: React.FC<BudgetsProps> = ({ getBudgetsForMonth, setBudgetsForMont
                             min="0"
                             step="0.01"
                             placeholder="0.00"
-                            className="pl-7 pr-2 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right"
+                            className="pl-12 pr-2 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-right"
                             aria-label={`Budget for ${category}`}
                         />
                     </div>
@@ -114,7 +116,7 @@ const Budgets: React.FC<BudgetsProps> = ({ getBudgetsForMonth, setBudgetsForMont
         <div className="border-t pt-4 mt-4">
              <div className="flex justify-between items-center text-lg font-bold">
                  <span>Total Budgeted</span>
-                 <span>{new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(totalBudget)}</span>
+                 <span>{formatCurrency(totalBudget)}</span>
             </div>
         </div>
 
@@ -0,0 +1,45 @@
+import React from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { Campaign } from '../types';
+import { CampaignProgress } from '../utils/pledges';
+
+interface CampaignThermometerProps {
+  campaign: Campaign;
+  progress: CampaignProgress;
+}
+
+/**
+ * A campaign's goal as a thermometer: solid for money raised, pale for
+ * pledges still to come in.
+ */
+const CampaignThermometer: React.FC<CampaignThermometerProps> = ({ campaign, progress }) => {
+  const { formatCurrency } = useDisplayFormat();
+  const raisedHeight = Math.min(100, progress.percent);
+  const pledgedHeight = Math.min(100, Math.max(progress.percent, progress.pledgedPercent));
+
+  return (
+    <div className="flex items-end gap-4">
+      <div className="flex flex-col items-center" aria-hidden="true">
+        <div className="relative w-6 h-40 rounded-t-full bg-slate-100 border border-slate-300 overflow-hidden">
+          <div className="absolute bottom-0 w-full bg-red-200" style={{ height: `${pledgedHeight}%` }} />
+          <div className="absolute bottom-0 w-full bg-red-500" style={{ height: `${raisedHeight}%` }} />
+        </div>
+        <div className="-mt-1 w-10 h-10 rounded-full bg-red-500 border border-slate-300" />
+      </div>
+      <div className="text-sm">
+        <p className="font-semibold text-slate-900">{campaign.name}</p>
+        <p className="text-2xl font-bold text-red-600">{progress.percent}%</p>
+        <p className="text-slate-600">{formatCurrency(progress.raised)} of {formatCurrency(campaign.goal)}</p>
+        <p className="text-slate-500">
+          {formatCurrency(progress.pledged)} pledged by {progress.pledgeCount} {progress.pledgeCount === 1 ? 'member' : 'members'}
+        </p>
+        {progress.behindCount > 0 && (
+          <p className="text-amber-700">{progress.behindCount} behind schedule</p>
+        )}
+        {campaign.endDate && <p className="text-slate-500">Ends {campaign.endDate}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default CampaignThermometer;
@@ -0,0 +1,410 @@
+import React, { useMemo, useState } from 'react';
+import { Member, RecurrenceFrequency, Transaction, UserRole } from '../types';
+import { INCOME_CATEGORIES, RECURRENCE_FREQUENCY_LABELS } from '../constants';
+import { useAuth } from '../context/AuthContext';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { usePledges } from '../hooks/usePledges';
+import { useFunds } from '../hooks/useFunds';
+import { campaignProgress, isOpenPledge, pledgeProgress } from '../utils/pledges';
+import CampaignThermometer from './CampaignThermometer';
+
+interface CampaignsProps {
+  transactions: Transaction[];
+  members: Member[];
+}
+
+const inputClassName = 'mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyCampaignForm = () => ({
+  name: '',
+  description: '',
+  goal: '',
+  category: 'Building Fund',
+  fundId: '',
+  startDate: today(),
+  endDate: '',
+});
+
+const emptyPledgeForm = () => ({
+  memberId: '',
+  amount: '',
+  frequency: 'monthly' as RecurrenceFrequency,
+  installments: '12',
+  startDate: today(),
+});
+
+/**
+ * Fundraising campaigns with their goals, and the pledges members make toward
+ * them. Gifts recorded against a pledge count toward both.
+ */
+const Campaigns: React.FC<CampaignsProps> = ({ transactions, members }) => {
+  const { formatCurrency, formatDate } = useDisplayFormat();
+  const { userRole, branchId } = useAuth();
+  const { campaigns, pledges, addCampaign, setCampaignClosed, addPledge, cancelPledge } = usePledges();
+  const { funds } = useFunds();
+  const asOf = today();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [campaignForm, setCampaignForm] = useState(emptyCampaignForm);
+  const [pledgeForm, setPledgeForm] = useState(emptyPledgeForm);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canManageCampaigns = (userRole === UserRole.ADMIN || userRole === UserRole.TREASURER) && !branchId;
+  const selected = campaigns.find(c => c.id === selectedId) || campaigns.find(c => !c.closed) || campaigns[0] || null;
+
+  const progressById = useMemo(() => new Map(campaigns.map(c =>
+    [c.id, campaignProgress(c, pledges, transactions, asOf)]
+  )), [campaigns, pledges, transactions, asOf]);
+
+  const selectedPledges = useMemo(() => selected
+    ? pledges
+        .filter(p => p.campaignId === selected.id)
+        .map(pledge => ({ pledge, progress: pledgeProgress(pledge, transactions, asOf) }))
+    : [], [selected, pledges, transactions, asOf]);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ text: success, isError: false });
+    } catch (error) {
+      console.error('Error updating campaigns:', error);
+      setMessage({ text: (error as Error).message, isError: true });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddCampaign = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await addCampaign({
+        name: campaignForm.name,
+        ...(campaignForm.description.trim() && { description: campaignForm.description.trim() }),
+        goal: parseFloat(campaignForm.goal),
+        category: campaignForm.category,
+        ...(campaignForm.fundId && { fundId: campaignForm.fundId }),
+        startDate: campaignForm.startDate,
+        ...(campaignForm.endDate && { endDate: campaignForm.endDate }),
+      });
+      setCampaignForm(emptyCampaignForm());
+    }, 'Campaign created.');
+  };
+
+  const handleAddPledge = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    const member = members.find(m => m.id === pledgeForm.memberId);
+    run(async () => {
+      if (!member) throw new Error('Choose the member making the pledge.');
+      await addPledge({
+        campaignId: selected.id,
+        memberId: member.id,
+        memberName: member.name,
+        amount: parseFloat(pledgeForm.amount),
+        frequency: pledgeForm.frequency,
+        installments: parseInt(pledgeForm.installments, 10),
+        startDate: pledgeForm.startDate,
+      });
+      setPledgeForm(emptyPledgeForm());
+    }, `Pledge from ${member?.name} recorded.`);
+  };
+
+  const handleCancelPledge = (id: string, memberName: string) => {
+    if (!window.confirm(`Release ${memberName} from the rest of this pledge? Gifts already made still count.`)) return;
+    run(() => cancelPledge(id), 'Pledge cancelled.');
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <div className="lg:col-span-1 space-y-6">
+        {selected && !selected.closed && (
+          <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+            <h3 className="text-lg font-semibold text-slate-900 mb-4">Record a Pledge to {selected.name}</h3>
+            <form onSubmit={handleAddPledge} className="space-y-4">
+              <div>
+                <label htmlFor="pledge-member" className="block text-sm font-medium text-slate-700">Member</label>
+                <select
+                  id="pledge-member"
+                  value={pledgeForm.memberId}
+                  onChange={(e) => setPledgeForm({ ...pledgeForm, memberId: e.target.value })}
+                  className={inputClassName}
+                >
+                  <option value="">Select a member</option>
+                  {members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="pledge-amount" className="block text-sm font-medium text-slate-700">Total Pledged</label>
+                <input
+                  type="number"
+                  id="pledge-amount"
+                  value={pledgeForm.amount}
+                  onChange={(e) => setPledgeForm({ ...pledgeForm, amount: e.target.value })}
+                  step="0.01"
+                  min="0"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="pledge-frequency" className="block text-sm font-medium text-slate-700">Paid</label>
+                  <select
+                    id="pledge-frequency"
+                    value={pledgeForm.frequency}
+                    onChange={(e) => setPledgeForm({ ...pledgeForm, frequency: e.target.value as RecurrenceFrequency })}
+                    className={inputClassName}
+                  >
+                    {(Object.keys(RECURRENCE_FREQUENCY_LABELS) as RecurrenceFrequency[]).map(f => (
+                      <option key={f} value={f}>{RECURRENCE_FREQUENCY_LABELS[f]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="pledge-installments" className="block text-sm font-medium text-slate-700">Installments</label>
+                  <input
+                    type="number"
+                    id="pledge-installments"
+                    value={pledgeForm.installments}
+                    onChange={(e) => setPledgeForm({ ...pledgeForm, installments: e.target.value })}
+                    min="1"
+                    step="1"
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="pledge-start" className="block text-sm font-medium text-slate-700">First Installment Due</label>
+                <input
+                  type="date"
+                  id="pledge-start"
+                  value={pledgeForm.startDate}
+                  onChange={(e) => setPledgeForm({ ...pledgeForm, startDate: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              {parseFloat(pledgeForm.amount) > 0 && parseInt(pledgeForm.installments, 10) > 0 && (
+                <p className="text-sm text-slate-500">
+                  {formatCurrency(parseFloat(pledgeForm.amount) / parseInt(pledgeForm.installments, 10))} per installment
+                </p>
+              )}
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="w-full bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Record Pledge
+              </button>
+            </form>
+          </div>
+        )}
+
+        {canManageCampaigns && (
+          <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+            <h3 className="text-lg font-semibold text-slate-900 mb-4">New Campaign</h3>
+            <form onSubmit={handleAddCampaign} className="space-y-4">
+              <div>
+                <label htmlFor="campaign-name" className="block text-sm font-medium text-slate-700">Name</label>
+                <input
+                  type="text"
+                  id="campaign-name"
+                  value={campaignForm.name}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, name: e.target.value })}
+                  placeholder="e.g., New Sanctuary Building"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="campaign-description" className="block text-sm font-medium text-slate-700">Description</label>
+                <input
+                  type="text"
+                  id="campaign-description"
+                  value={campaignForm.description}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, description: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="campaign-goal" className="block text-sm font-medium text-slate-700">Goal</label>
+                <input
+                  type="number"
+                  id="campaign-goal"
+                  value={campaignForm.goal}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, goal: e.target.value })}
+                  step="0.01"
+                  min="0"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="campaign-category" className="block text-sm font-medium text-slate-700">Gifts Recorded As</label>
+                <select
+                  id="campaign-category"
+                  value={campaignForm.category}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, category: e.target.value })}
+                  className={inputClassName}
+                >
+                  {INCOME_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="campaign-fund" className="block text-sm font-medium text-slate-700">Fund</label>
+                <select
+                  id="campaign-fund"
+                  value={campaignForm.fundId}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, fundId: e.target.value })}
+                  className={inputClassName}
+                >
+                  <option value="">By category</option>
+                  {funds.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="campaign-start" className="block text-sm font-medium text-slate-700">Starts</label>
+                  <input
+                    type="date"
+                    id="campaign-start"
+                    value={campaignForm.startDate}
+                    onChange={(e) => setCampaignForm({ ...campaignForm, startDate: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="campaign-end" className="block text-sm font-medium text-slate-700">Ends</label>
+                  <input
+                    type="date"
+                    id="campaign-end"
+                    value={campaignForm.endDate}
+                    onChange={(e) => setCampaignForm({ ...campaignForm, endDate: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="w-full bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Create Campaign
+              </button>
+            </form>
+          </div>
+        )}
+      </div>
+
+      <div className="lg:col-span-2 space-y-6">
+        {message && (
+          <p className={`text-sm ${message.isError ? 'text-red-600' : 'text-green-600'}`} role="alert">{message.text}</p>
+        )}
+
+        {campaigns.length === 0 ? (
+          <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+            <p className="text-center text-slate-500 py-8">No campaigns yet.</p>
+          </div>
+        ) : (
+          <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+            <h3 className="text-lg font-semibold text-slate-900 mb-4">Campaigns</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {campaigns.map(campaign => (
+                <button
+                  key={campaign.id}
+                  type="button"
+                  onClick={() => setSelectedId(campaign.id)}
+                  className={`text-left p-4 rounded-md border ${
+                    selected?.id === campaign.id ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'
+                  } ${campaign.closed ? 'opacity-60' : ''}`}
+                >
+                  <CampaignThermometer campaign={campaign} progress={progressById.get(campaign.id)!} />
+                  {campaign.closed && <p className="mt-2 text-xs font-medium text-slate-500">Closed</p>}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {selected && (
+          <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+            <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-slate-900">Pledges to {selected.name}</h3>
+                {selected.description && <p className="text-sm text-slate-500">{selected.description}</p>}
+              </div>
+              {canManageCampaigns && (
+                <button
+                  onClick={() => run(() => setCampaignClosed(selected.id, !selected.closed),
+                    selected.closed ? 'Campaign reopened.' : 'Campaign closed.')}
+                  disabled={isSaving}
+                  className="py-1 px-3 text-sm rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                >
+                  {selected.closed ? 'Reopen Campaign' : 'Close Campaign'}
+                </button>
+              )}
+            </div>
+
+            {selectedPledges.length === 0 ? (
+              <p className="text-center text-slate-500 py-8">No pledges to this campaign yet.</p>
+            ) : (
+              <table className="min-w-full">
+                <thead>
+                  <tr className="border-b border-slate-200">
+                    <th className="text-left py-2 text-sm font-medium text-slate-700">Member</th>
+                    <th className="text-right py-2 text-sm font-medium text-slate-700">Pledged</th>
+                    <th className="text-right py-2 text-sm font-medium text-slate-700">Paid</th>
+                    <th className="text-left py-2 pl-6 text-sm font-medium text-slate-700 w-1/3">Progress</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {selectedPledges.map(({ pledge, progress }) => (
+                    <tr key={pledge.id} className={`border-b border-slate-100 ${isOpenPledge(pledge) ? '' : 'opacity-60'}`}>
+                      <td className="py-2 text-sm text-slate-900">
+                        {pledge.memberName}
+                        <p className="text-xs text-slate-500">
+                          {pledge.installments} × {RECURRENCE_FREQUENCY_LABELS[pledge.frequency].toLowerCase()} from {formatDate(pledge.startDate)}
+                        </p>
+                      </td>
+                      <td className="py-2 text-sm text-slate-500 text-right">{formatCurrency(pledge.amount)}</td>
+                      <td className="py-2 text-sm text-slate-900 text-right">{formatCurrency(progress.paid)}</td>
+                      <td className="py-2 pl-6 text-sm">
+                        <div className="w-full bg-slate-100 rounded-full h-2">
+                          <div
+                            className={`h-2 rounded-full ${progress.isBehind ? 'bg-amber-500' : 'bg-green-500'}`}
+                            style={{ width: `${Math.min(100, progress.percent)}%` }}
+                          />
+                        </div>
+                        <p className={`text-xs mt-1 ${progress.isBehind ? 'text-amber-700' : 'text-slate-500'}`}>
+                          {progress.percent}%
+                          {!isOpenPledge(pledge) ? ' · Cancelled'
+                            : progress.isFulfilled ? ' · Fulfilled'
+                            : progress.isBehind ? ` · Behind by ${formatCurrency(progress.behindBy)}` : ''}
+                        </p>
+                      </td>
+                      <td className="py-2 text-right">
+                        {canManageCampaigns && isOpenPledge(pledge) && !progress.isFulfilled && (
+                          <button
+                            onClick={() => handleCancelPledge(pledge.id, pledge.memberName)}
+                            disabled={isSaving}
+                            className="text-xs text-red-600 hover:underline"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Campaigns;
@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { Transaction, TransactionType } from '../types';
+import { FORECAST_HORIZONS } from '../constants';
+import { useAuth } from '../context/AuthContext';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { useAccounts } from '../hooks/useAccounts';
+import { useFinancialAnalytics } from '../hooks/useFinancialAnalytics';
+import { useOrganizationSettings } from '../hooks/useOrganizationSettings';
+import { usePledges } from '../hooks/usePledges';
+import { useRecurringTransactions } from '../hooks/useRecurringTransactions';
+import { CONSOLIDATED_SCOPE, HEAD_OFFICE_SCOPE } from '../utils/branches';
+import { forecastCashFlow } from '../utils/cashFlowForecast';
+
+interface CashFlowForecastProps {
+  transactions: Transaction[]; // Every transaction in the books being viewed
+  branchScope?: string; // Branch scope head office is viewing
+}
+
+const monthLabel = (month: string, locale: string): string =>
+  new Date(`${month}-01`).toLocaleDateString(locale, { month: 'short', year: '2-digit' });
+
+/**
+ * Where the balance is heading over the coming months, and when it is
+ * projected to fall below the minimum reserve.
+ */
+const CashFlowForecast: React.FC<CashFlowForecastProps> = ({ transactions, branchScope }) => {
+  const { format, formatCompactCurrency, formatCurrency } = useDisplayFormat();
+  const { branchId } = useAuth();
+  const { accounts } = useAccounts();
+  const { templates } = useRecurringTransactions();
+  const { pledges } = usePledges();
+  const { organization } = useOrganizationSettings();
+  const today = new Date().toISOString().split('T')[0];
+  const { monthlyTrends } = useFinancialAnalytics(transactions, [], undefined, 1, today);
+  const [horizon, setHorizon] = useState(6);
+
+  // Branch users' books are their branch's, like a head office user viewing it
+  const scope = branchId || branchScope || CONSOLIDATED_SCOPE;
+  const includesHeadOffice = scope === CONSOLIDATED_SCOPE || scope === HEAD_OFFICE_SCOPE;
+
+  const forecast = useMemo(() => {
+    // Accounts and pledges belong to the church as a whole, so single branches leave them out
+    const openingBalances = includesHeadOffice
+      ? accounts.filter(a => !a.archived).reduce((sum, a) => sum + a.openingBalance, 0)
+      : 0;
+    const startingBalance = transactions
+      .filter(t => t.date <= today)
+      .reduce((sum, t) => sum + (t.type === TransactionType.INCOME ? t.amount : t.type === TransactionType.EXPENSE ? -t.amount : 0), openingBalances);
+
+    return forecastCashFlow({
+      history: monthlyTrends,
+      templates: templates.filter(t => scope === CONSOLIDATED_SCOPE
+        || (scope === HEAD_OFFICE_SCOPE ? !t.branchId : t.branchId === scope)),
+      pledges: includesHeadOffice ? pledges : [],
+      transactions,
+      startingBalance,
+      minimumReserve: organization.minimumReserve,
+      asOf: today,
+      months: horizon,
+    });
+  }, [transactions, monthlyTrends, templates, pledges, accounts, organization.minimumReserve, scope, includesHeadOffice, horizon, today]);
+
+  const chartData = forecast.months.map((month, i) => ({
+    month: i === 0 ? `${monthLabel(month.month, format.locale)} (rest)` : monthLabel(month.month, format.locale),
+    balance: month.balance,
+    range: [month.low, month.high],
+  }));
+
+  const ForecastTooltip = ({ active, payload, label }: any) => {
+    if (!active || !payload || !payload.length) return null;
+    const point = payload[0].payload;
+    return (
+      <div className="bg-white p-3 border border-slate-200 rounded-lg shadow-lg text-sm">
+        <p className="font-semibold text-slate-900">{label}</p>
+        <p className="text-blue-600">Balance: {formatCurrency(point.balance)}</p>
+        <p className="text-slate-500">Range: {formatCurrency(point.range[0])} – {formatCurrency(point.range[1])}</p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">Cash-Flow Forecast</h3>
+          <p className="text-sm text-slate-600">
+            From {formatCurrency(forecast.startingBalance)} today, projected from {forecast.historyMonths} months of
+            history, recurring entries and open pledges.
+          </p>
+        </div>
+        <select
+          value={horizon}
+          onChange={(e) => setHorizon(Number(e.target.value))}
+          className="border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        >
+          {FORECAST_HORIZONS.map(months => <option key={months} value={months}>Next {months} months</option>)}
+        </select>
+      </div>
+
+      {forecast.shortfall ? (
+        <div className="mb-4 p-3 rounded-md bg-red-50 border border-red-200 text-sm text-red-800">
+          The balance is projected to fall to {formatCurrency(forecast.shortfall.balance)} by the end
+          of {monthLabel(forecast.shortfall.month, format.locale)}, below the minimum reserve of {formatCurrency(forecast.minimumReserve)}.
+        </div>
+      ) : forecast.atRisk && (
+        <div className="mb-4 p-3 rounded-md bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+          A month leaner than usual could take the balance below the minimum reserve
+          of {formatCurrency(forecast.minimumReserve)} by the end of {monthLabel(forecast.atRisk.month, format.locale)}.
+        </div>
+      )}
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#E2E8F0" />
+            <XAxis dataKey="month" stroke="#64748B" fontSize={12} tickLine={false} axisLine={false} />
+            <YAxis
+              stroke="#64748B"
+              fontSize={12}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value) => formatCompactCurrency(value)}
+            />
+            <Tooltip content={<ForecastTooltip />} />
+            <Legend />
+            <Area type="monotone" dataKey="range" stroke="none" fill="#BFDBFE" fillOpacity={0.6} name="Likely range" />
+            <Line type="monotone" dataKey="balance" stroke="#3B82F6" strokeWidth={2} name="Projected balance" dot={{ r: 4 }} />
+            <ReferenceLine y={forecast.minimumReserve} stroke="#EF4444" strokeDasharray="4 4" label={{ value: 'Reserve', fontSize: 12, fill: '#EF4444' }} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto mt-4">
+        <table className="min-w-full">
+          <thead>
+            <tr className="border-b border-slate-200">
+              <th className="text-left py-2 text-sm font-medium text-slate-700">Month</th>
+              <th className="text-right py-2 text-sm font-medium text-slate-700">Income</th>
+              <th className="text-right py-2 text-sm font-medium text-slate-700">Expenses</th>
+              <th className="text-right py-2 text-sm font-medium text-slate-700">Net</th>
+              <th className="text-right py-2 text-sm font-medium text-slate-700">Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {forecast.months.map((month, i) => (
+              <tr key={month.month} className="border-b border-slate-100">
+                <td className="py-2 text-sm text-slate-700">{chartData[i].month}</td>
+                <td
+                  className="py-2 text-sm text-slate-900 text-right"
+                  title={`Recurring ${formatCurrency(month.recurringIncome)}, pledges ${formatCurrency(month.pledgeIncome)}`}
+                >
+                  {formatCurrency(month.income)}
+                </td>
+                <td className="py-2 text-sm text-slate-900 text-right" title={`Recurring ${formatCurrency(month.recurringExpenses)}`}>
+                  {formatCurrency(month.expenses)}
+                </td>
+                <td className={`py-2 text-sm text-right ${month.net >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatCurrency(month.net)}
+                </td>
+                <td className={`py-2 text-sm text-right font-medium ${month.balance < forecast.minimumReserve ? 'text-red-600' : 'text-slate-900'}`}>
+                  {formatCurrency(month.balance)}
+                  <div className="text-xs font-normal text-slate-400">
+                    {formatCurrency(month.low)} – {formatCurrency(month.high)}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CashFlowForecast;
@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
 import { PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { ChartData } from '../types';
 
@@ -23,6 +24,7 @@ const COLORS = [
 ];
 
 const CustomTooltip: React.FC<any> = ({ active, payload }) => {
+  const { formatCurrency } = useDisplayFormat();
   if (active && payload && payload.length) {
     const data = payload[0];
     return (
@@ -35,7 +37,7 @@ const CustomTooltip: React.FC<any> = ({ active, payload }) => {
           <p className="font-semibold text-slate-800">{data.name}</p>
         </div>
         <p className="text-lg font-bold text-slate-900">
-          ${data.value.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+          {formatCurrency(data.value)}
         </p>
         <p className="text-sm text-slate-600">
           {((data.value / data.payload.total) * 100).toFixed(1)}% of total
@@ -61,6 +63,7 @@ const CustomLegend: React.FC<any> = ({ payload }) => (
 );
 
 const CategoryChart: React.FC<CategoryChartProps> = ({ data, title }) => {
+  const { formatCurrency } = useDisplayFormat();
   // Calculate total for percentage calculations
   const total = data.reduce((sum, item) => sum + item.value, 0);
 
@@ -76,7 +79,7 @@ const CategoryChart: React.FC<CategoryChartProps> = ({ data, title }) => {
             {title || "Expense Breakdown"}
           </h2>
           <div className="text-sm text-slate-500">
-            Total: <span className="font-semibold text-slate-700">${total.toLocaleString()}</span>
+            Total: <span className="font-semibold text-slate-700">{formatCurrency(total)}</span>
           </div>
         </div>
 
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { UserRole } from '../types';
+import { SUPPORTED_CURRENCIES, SUPPORTED_LOCALES } from '../constants';
+import { useAuth } from '../context/AuthContext';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { useCurrencySettings } from '../hooks/useCurrencySettings';
+
+interface CurrencySettingsProps {
+  hasTransactions: boolean;
+}
+
+const inputClassName = 'mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const CurrencySettings: React.FC<CurrencySettingsProps> = ({ hasTransactions }) => {
+  const { formatCurrency, formatDate } = useDisplayFormat();
+  const { userRole } = useAuth();
+  const { settings, rates, updateSettings, addRate, deleteRate } = useCurrencySettings();
+  const today = new Date().toISOString().split('T')[0];
+
+  const [baseCurrency, setBaseCurrency] = useState('');
+  const [locale, setLocale] = useState('');
+  const [rateCurrency, setRateCurrency] = useState('');
+  const [rate, setRate] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(today);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isAdmin = userRole === UserRole.ADMIN;
+  const foreignCurrencies = SUPPORTED_CURRENCIES.filter(c => c.code !== settings.baseCurrency);
+  const selectedRateCurrency = rateCurrency || foreignCurrencies[0]?.code || '';
+  const selectedBase = baseCurrency || settings.baseCurrency;
+  const selectedLocale = locale || settings.locale;
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ text: success, isError: false });
+    } catch (error) {
+      console.error('Error updating currency settings:', error);
+      setMessage({ text: (error as Error).message, isError: true });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveSettings = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await updateSettings({ baseCurrency: selectedBase, locale: selectedLocale });
+      setBaseCurrency('');
+      setLocale('');
+    }, 'Currency settings saved.');
+  };
+
+  const handleAddRate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await addRate({ currency: selectedRateCurrency, rate: parseFloat(rate), effectiveDate });
+      setRate('');
+    }, `${selectedRateCurrency} rate saved.`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">Currency</h2>
+        <p className="text-slate-600">
+          All totals, reports, receipts and SMS messages are shown in the base currency. Gifts received in another
+          currency are converted at the rate in effect on their date and keep their original amount for receipts.
+        </p>
+        {message && (
+          <p className={`mt-3 text-sm ${message.isError ? 'text-red-600' : 'text-green-600'}`} role="alert">{message.text}</p>
+        )}
+      </div>
+
+      <form onSubmit={handleSaveSettings} className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900 mb-4">Display</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label htmlFor="base-currency" className="block text-sm font-medium text-slate-700">Base currency</label>
+            <select
+              id="base-currency"
+              value={selectedBase}
+              onChange={(e) => setBaseCurrency(e.target.value)}
+              disabled={!isAdmin}
+              className={inputClassName}
+            >
+              {SUPPORTED_CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} · {c.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="locale" className="block text-sm font-medium text-slate-700">Number and date format</label>
+            <select
+              id="locale"
+              value={selectedLocale}
+              onChange={(e) => setLocale(e.target.value)}
+              disabled={!isAdmin}
+              className={inputClassName}
+            >
+              {SUPPORTED_LOCALES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+            </select>
+          </div>
+          {isAdmin && (
+            <div>
+              <button
+                type="submit"
+                disabled={isSaving || (selectedBase === settings.baseCurrency && selectedLocale === settings.locale)}
+                className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          )}
+        </div>
+        <p className="mt-3 text-sm text-slate-500">Example: {formatCurrency(1234.5)} on {formatDate(today)}</p>
+        {hasTransactions && selectedBase !== settings.baseCurrency && (
+          <p className="mt-2 text-sm text-amber-700">
+            Amounts already recorded are not converted. They will be shown as {selectedBase} from now on.
+          </p>
+        )}
+      </form>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900 mb-4">Exchange Rates</h3>
+        <form onSubmit={handleAddRate} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-6">
+          <div>
+            <label htmlFor="rate-currency" className="block text-sm font-medium text-slate-700">Currency</label>
+            <select id="rate-currency" value={selectedRateCurrency} onChange={(e) => setRateCurrency(e.target.value)} className={inputClassName}>
+              {foreignCurrencies.map(c => <option key={c.code} value={c.code}>{c.code} · {c.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="rate-value" className="block text-sm font-medium text-slate-700">{settings.baseCurrency} per unit</label>
+            <input
+              id="rate-value"
+              type="number"
+              min="0"
+              step="0.0001"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              className={inputClassName}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="rate-date" className="block text-sm font-medium text-slate-700">Effective from</label>
+            <input id="rate-date" type="date" value={effectiveDate} onChange={(e) => setEffectiveDate(e.target.value)} className={inputClassName} required />
+          </div>
+          <div>
+            <button
+              type="submit"
+              disabled={isSaving || !rate}
+              className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save Rate
+            </button>
+          </div>
+        </form>
+
+        {rates.length === 0 ? (
+          <p className="text-center text-slate-500 py-8">No exchange rates yet. Add one to record gifts in other currencies.</p>
+        ) : (
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="text-left py-2 text-sm font-medium text-slate-700">Currency</th>
+                <th className="text-left py-2 text-sm font-medium text-slate-700">Effective From</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">Rate</th>
+                <th className="text-left py-2 pl-6 text-sm font-medium text-slate-700">Entered By</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rates.map(r => (
+                <tr key={r.id} className="border-b border-slate-100">
+                  <td className="py-2 text-sm text-slate-900">{r.currency}</td>
+                  <td className="py-2 text-sm text-slate-500">{formatDate(r.effectiveDate)}</td>
+                  <td className="py-2 text-sm text-slate-900 text-right">{r.rate}</td>
+                  <td className="py-2 pl-6 text-sm text-slate-500">{r.updatedBy}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => run(() => deleteRate(r.id), 'Rate removed.')}
+                      disabled={isSaving}
+                      className="text-xs text-red-600 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CurrencySettings;
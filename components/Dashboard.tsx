@@ -1,33 +1,63 @@
 import React, { useState, useMemo } from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
 import { Transaction, TransactionType } from '../types';
 import { useFinancialAnalytics } from '../hooks/useFinancialAnalytics';
-import { formatCurrency } from '../utils/formatters';
+import { usePledges } from '../hooks/usePledges';
+import { useOrganizationSettings } from '../hooks/useOrganizationSettings';
+import { campaignProgress } from '../utils/pledges';
+import { ChangeValue, ComparisonKind, comparisonRanges } from '../utils/periodComparison';
+import { formatPercentage } from '../utils/formatters';
 import FinancialCharts from './FinancialCharts';
+import CampaignThermometer from './CampaignThermometer';
+import CashFlowForecast from './CashFlowForecast';
 
 interface DashboardProps {
   transactions: Transaction[];
   budgets?: any[];
+  branchScope?: string; // Branch scope head office is viewing
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ transactions, budgets = [] }) => {
+const COMPARISON_LABELS: Record<ComparisonKind, string> = {
+  month: 'Month vs same month last year',
+  quarter: 'Quarter vs previous quarter',
+  yearToDate: 'Year to date vs prior year to date',
+};
+
+// The dashboard periods and the comparison each is measured by
+const PERIOD_COMPARISONS: Record<'year' | 'quarter' | 'month', ComparisonKind> = {
+  year: 'yearToDate',
+  quarter: 'quarter',
+  month: 'month',
+};
+
+const Dashboard: React.FC<DashboardProps> = ({ transactions, budgets = [], branchScope }) => {
+  const { formatCurrency, formatDate } = useDisplayFormat();
   const [dateRange, setDateRange] = useState<{ start: string; end: string } | undefined>();
   const [selectedPeriod, setSelectedPeriod] = useState<'all' | 'year' | 'quarter' | 'month'>('all');
+  const [comparisonKind, setComparisonKind] = useState<ComparisonKind>('month');
+  const { campaigns, pledges } = usePledges();
+  const { organization } = useOrganizationSettings();
 
-  // Filter transactions based on selected period
-  const filteredTransactions = useMemo(() => {
-    if (!dateRange?.start || !dateRange?.end) return transactions;
+  // Worked out on every render so figures move on when the date does
+  const today = new Date().toISOString().split('T')[0];
 
-    return transactions.filter(t =>
-      t.date >= dateRange.start && t.date <= dateRange.end
-    );
-  }, [transactions, dateRange]);
+  // Campaigns run to their own goals, so they ignore the selected period
+  const openCampaigns = useMemo(() => {
+    return campaigns
+      .filter(c => !c.closed)
+      .map(campaign => ({ campaign, progress: campaignProgress(campaign, pledges, transactions, today) }));
+  }, [campaigns, pledges, transactions, today]);
 
   const analytics = useFinancialAnalytics(
-    filteredTransactions,
+    transactions,
     budgets,
-    dateRange ? { start: dateRange.start, end: dateRange.end } : { start: '', end: '' }
+    dateRange ? { start: dateRange.start, end: dateRange.end } : { start: '', end: '' },
+    organization.fiscalYearStartMonth,
+    today
   );
+  const comparison = analytics.comparisons[comparisonKind];
 
+  // Quarters and years follow the fiscal year, like the comparisons they are measured by
   const handlePeriodChange = (period: 'all' | 'year' | 'quarter' | 'month') => {
     setSelectedPeriod(period);
 
@@ -36,26 +66,36 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, budgets = [] }) =>
       return;
     }
 
-    const now = new Date();
-    let start: string;
-    let end: string = now.toISOString().split('T')[0];
-
-    switch (period) {
-      case 'year':
-        start = new Date(now.getFullYear(), 0, 1).toISOString().split('T')[0];
-        break;
-      case 'quarter':
-        const quarterStart = new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1);
-        start = quarterStart.toISOString().split('T')[0];
-        break;
-      case 'month':
-        start = new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split('T')[0];
-        break;
-      default:
-        return;
+    setDateRange(comparisonRanges(PERIOD_COMPARISONS[period], today, organization.fiscalYearStartMonth).current);
+    setComparisonKind(PERIOD_COMPARISONS[period]);
+  };
+
+  // A chosen period is measured against its comparison period; all time against the month before
+  const changeFor = (field: 'income' | 'expenses' | 'net'): { change?: number; changeLabel?: string } => {
+    if (selectedPeriod === 'all') {
+      return { change: analytics.growthRate[field], changeLabel: 'vs previous month' };
     }
+    const periodChange = analytics.comparisons[PERIOD_COMPARISONS[selectedPeriod]][field].percentChange;
+    return periodChange === null ? {} : {
+      change: periodChange,
+      changeLabel: selectedPeriod === 'month' ? 'vs same month last year' : selectedPeriod === 'quarter' ? 'vs previous quarter' : 'vs prior year to date',
+    };
+  };
 
-    setDateRange({ start, end });
+  const ChangeCells: React.FC<{ value: ChangeValue; lowerIsBetter?: boolean }> = ({ value, lowerIsBetter = false }) => {
+    const good = lowerIsBetter ? value.change <= 0 : value.change >= 0;
+    return (
+      <>
+        <td className="py-2 text-sm text-slate-900 text-right">{formatCurrency(value.current)}</td>
+        <td className="py-2 text-sm text-slate-600 text-right">{formatCurrency(value.previous)}</td>
+        <td className={`py-2 text-sm text-right font-medium ${good ? 'text-green-600' : 'text-red-600'}`}>
+          {value.change >= 0 ? '+' : '−'}{formatCurrency(Math.abs(value.change))}
+        </td>
+        <td className={`py-2 text-sm text-right ${good ? 'text-green-600' : 'text-red-600'}`}>
+          {value.percentChange === null ? 'New' : formatPercentage(value.percentChange)}
+        </td>
+      </>
+    );
   };
 
   const MetricCard: React.FC<{
@@ -130,22 +170,19 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, budgets = [] }) =>
         <MetricCard
           title="Total Income"
           value={analytics.totalIncome}
-          change={analytics.growthRate.income}
-          changeLabel="vs previous period"
+          {...changeFor('income')}
           color="green"
         />
         <MetricCard
           title="Total Expenses"
           value={analytics.totalExpenses}
-          change={analytics.growthRate.expenses}
-          changeLabel="vs previous period"
+          {...changeFor('expenses')}
           color="red"
         />
         <MetricCard
           title="Net Income"
           value={analytics.netIncome}
-          change={analytics.growthRate.net}
-          changeLabel="vs previous period"
+          {...changeFor('net')}
           color={analytics.netIncome >= 0 ? 'green' : 'red'}
         />
         <MetricCard
@@ -160,8 +197,86 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, budgets = [] }) =>
         categoryData={analytics.topCategories}
         totalIncome={analytics.totalIncome}
         totalExpenses={analytics.totalExpenses}
+        trends={analytics.trends}
+        comparison={comparison}
       />
 
+      {/* Period Comparison */}
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">Period Comparison</h3>
+            <p className="text-sm text-slate-600">
+              {formatDate(comparison.current.start)} – {formatDate(comparison.current.end)} against{' '}
+              {formatDate(comparison.previous.start)} – {formatDate(comparison.previous.end)}
+            </p>
+          </div>
+          <select
+            value={comparisonKind}
+            onChange={(e) => setComparisonKind(e.target.value as ComparisonKind)}
+            className="border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          >
+            {(Object.keys(COMPARISON_LABELS) as ComparisonKind[]).map(kind => (
+              <option key={kind} value={kind}>{COMPARISON_LABELS[kind]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="text-left py-2 text-sm font-medium text-slate-700">Category</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">This Period</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">Comparison</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">Change</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">%</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b border-slate-100 font-semibold">
+                <td className="py-2 text-sm text-slate-900">Total Income</td>
+                <ChangeCells value={comparison.income} />
+              </tr>
+              <tr className="border-b border-slate-100 font-semibold">
+                <td className="py-2 text-sm text-slate-900">Total Expenses</td>
+                <ChangeCells value={comparison.expenses} lowerIsBetter />
+              </tr>
+              <tr className="border-b border-slate-200 font-semibold">
+                <td className="py-2 text-sm text-slate-900">Net Income</td>
+                <ChangeCells value={comparison.net} />
+              </tr>
+              {comparison.categories.map(category => (
+                <tr key={`${category.type}-${category.category}`} className="border-b border-slate-100">
+                  <td className="py-2 text-sm text-slate-700">
+                    {category.category}
+                    <span className="ml-2 text-xs text-slate-400">{category.type}</span>
+                  </td>
+                  <ChangeCells value={category} lowerIsBetter={category.type === TransactionType.EXPENSE} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {comparison.categories.length === 0 && (
+            <p className="text-sm text-slate-500 mt-3">No income or expenses in either period.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Cash-Flow Forecast */}
+      <CashFlowForecast transactions={transactions} branchScope={branchScope} />
+
+      {/* Campaign Goals */}
+      {openCampaigns.length > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900 mb-4">Campaign Goals</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {openCampaigns.map(({ campaign, progress }) => (
+              <CampaignThermometer key={campaign.id} campaign={campaign} progress={progress} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Budget Comparison */}
       {analytics.budgetComparison.length > 0 && (
         <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
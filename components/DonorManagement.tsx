@@ -1,24 +1,40 @@
 import React, { useState } from 'react';
-import { Transaction, TransactionType } from '../types';
+import { Member, Transaction, TransactionType, UserRole } from '../types';
 import { useDonorManagement, DonorProfile } from '../hooks/useDonorManagement';
-import { formatCurrency, formatDate } from '../utils/formatters';
 import DonorReceipt from './DonorReceipt';
+import { useOrganizationSettings } from '../hooks/useOrganizationSettings';
+import GivingStatements from './GivingStatements';
+import { givingStatements, statementFileName } from '../utils/givingStatements';
+import { givingStatementPdf } from '../utils/givingStatementPdf';
+import { DonorIdentity, donorTransactions as transactionsByDonor } from '../utils/donors';
+import { useAuth } from '../context/AuthContext';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import DuplicateDonors from './DuplicateDonors';
 interface DonorManagementProps {
   transactions: Transaction[];
+  members: Member[];
+  onMergeDonors: (survivor: Pick<Member, 'id' | 'name'>, duplicate: Pick<DonorIdentity, 'key' | 'memberId'>) => Promise<number>;
 }
 
-const DonorManagement: React.FC<DonorManagementProps> = ({ transactions }) => {
-  const { donorProfiles, analytics } = useDonorManagement(transactions);
+const DonorManagement: React.FC<DonorManagementProps> = ({ transactions, members, onMergeDonors }) => {
+  const { format, formatCurrency, formatDate } = useDisplayFormat();
+  const { donorProfiles, analytics } = useDonorManagement(transactions, members);
+  const { userRole, branchId } = useAuth();
+  const { organization } = useOrganizationSettings();
   const [selectedDonor, setSelectedDonor] = useState<DonorProfile | null>(null);
   const [showDetails, setShowDetails] = useState(false);
   const [showReceipt, setShowReceipt] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
+  // Statements default to the last full year
+  const [statementYear, setStatementYear] = useState(new Date().getFullYear() - 1);
 
   // Filter donors based on search
   const filteredDonors = donorProfiles.filter(donor =>
-    donor.name.toLowerCase().includes(searchTerm.toLowerCase())
+    [donor.name, donor.email, donor.phone].some(field => field?.toLowerCase().includes(searchTerm.toLowerCase()))
   );
+  // Merging rewrites gifts across every branch, so only head office does it
+  const canMergeDonors = (userRole === UserRole.ADMIN || userRole === UserRole.TREASURER) && !branchId;
 
   const DonorCard: React.FC<{ donor: DonorProfile }> = ({ donor }) => (
     <div className="bg-white p-4 rounded-lg shadow-md border border-slate-200 hover:shadow-lg transition-shadow cursor-pointer"
@@ -79,10 +95,8 @@ const DonorManagement: React.FC<DonorManagementProps> = ({ transactions }) => {
 
   const DonorDetails: React.FC<{ donor: DonorProfile }> = ({ donor }) => {
     // Get all transactions for this donor
-    const donorTransactions = transactions.filter(t =>
-      t.type === TransactionType.INCOME &&
-      (t.donorName || 'Anonymous') === donor.name
-    );
+    const donorTransactions = transactionsByDonor(transactions, donor)
+      .filter(t => t.type === TransactionType.INCOME);
 
     const handleSendThankYou = (e: React.MouseEvent) => {
       e.preventDefault();
@@ -91,8 +105,8 @@ const DonorManagement: React.FC<DonorManagementProps> = ({ transactions }) => {
       console.log('Send Thank You clicked for donor:', donor);
       console.log('Donor contact:', donor.contact);
 
-      const email = donor.contact?.includes('@') ? donor.contact : '';
-      const phone = !email && donor.contact ? `tel:${donor.contact}` : '';
+      const email = donor.email;
+      const phone = !email && donor.phone ? `tel:${donor.phone}` : '';
 
       const subject = `Thank You for Your Generous Donation`;
       const body = `Dear ${donor.name},
@@ -102,7 +116,7 @@ We want to extend our heartfelt thanks for your recent generous donation of ${fo
 Thank you for being a valued member of our church family!
 
 Blessings,
-Greater Works City Church`;
+${organization.name}`;
 
       try {
         if (email) {
@@ -122,23 +136,20 @@ Greater Works City Church`;
       }
     };
 
+    // Statements follow the member the gifts are linked to, not the name typed on them
+    const donorMemberId = donor.memberId;
+
     const handleGenerateTaxReceipt = (e: React.MouseEvent) => {
       e.preventDefault();
       e.stopPropagation();
 
-      console.log('Generate Tax Receipt clicked for donor:', donor.name);
-
-      try {
-        const currentYear = new Date().getFullYear();
-        const totalDonations = donor.totalGiven;
-        const taxReceiptMessage = `Tax Receipt for ${donor.name}\n\nYear: ${currentYear}\nTotal Donations: ${formatCurrency(totalDonations)}\n\nThis receipt can be used for tax deduction purposes.\n\nGreater Works City Church`;
-
-        alert(taxReceiptMessage);
-        console.log('Tax receipt generated for:', donor.name, 'Amount:', totalDonations);
-      } catch (error) {
-        console.error('Error in handleGenerateTaxReceipt:', error);
-        alert(`Error generating tax receipt: ${error}`);
+      const statement = givingStatements(transactions, members, statementYear)
+        .find(s => s.memberId === donorMemberId);
+      if (!statement) {
+        alert(`${donor.name} has no gifts linked to their member record in ${statementYear}.`);
+        return;
       }
+      givingStatementPdf(statement, organization, format).save(statementFileName(statement));
     };
     const handleViewFullHistory = (e: React.MouseEvent) => {
       e.preventDefault();
@@ -160,9 +171,15 @@ Greater Works City Church`;
         <div className="flex justify-between items-start mb-6">
           <div>
             <h3 className="text-xl font-bold text-slate-900">{donor.name}</h3>
-            {donor.contact && (
+            {donor.email && <p className="text-slate-600 mt-1">{donor.email}</p>}
+            {donor.phone && <p className="text-slate-600">{donor.phone}</p>}
+            {donor.address && <p className="text-slate-500 text-sm">{donor.address}</p>}
+            {!donor.email && !donor.phone && donor.contact && (
               <p className="text-slate-600 mt-1">{donor.contact}</p>
             )}
+            {!donor.memberId && (
+              <p className="text-xs text-amber-700 mt-1">Not linked to a member</p>
+            )}
           </div>
           <button
             onClick={() => setShowDetails(false)}
@@ -207,10 +224,11 @@ Greater Works City Church`;
               </button>
               <button
                 onClick={handleGenerateTaxReceipt}
-                disabled={!donor.name}
+                disabled={!donorMemberId}
+                title={donorMemberId ? undefined : 'Link this donor\'s gifts to a member to issue statements'}
                 className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 text-sm disabled:bg-blue-300 disabled:cursor-not-allowed"
               >
-                Generate Tax Receipt
+                {statementYear} Giving Statement
               </button>
               <button
                 onClick={handleViewFullHistory}
@@ -328,7 +346,7 @@ Greater Works City Church`;
           <div className="flex-1">
             <input
               type="text"
-              placeholder="Search donors by name..."
+              placeholder="Search donors by name, email or phone..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
@@ -366,7 +384,7 @@ Greater Works City Church`;
               </svg>
             </button>
           </div>
-          <DonorReceipt transaction={selectedTransaction} logoUrl="/GWCC-logo.png" />
+          <DonorReceipt transaction={selectedTransaction} />
           <div className="flex justify-center space-x-4">
             <button
               onClick={() => window.print()}
@@ -391,8 +409,8 @@ Greater Works City Church`;
         <>
           {/* Donor Overview */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredDonors.map((donor, index) => (
-              <DonorCard key={index} donor={donor} />
+            {filteredDonors.map(donor => (
+              <DonorCard key={donor.key} donor={donor} />
             ))}
           </div>
 
@@ -441,6 +459,17 @@ Greater Works City Church`;
         </>
       )}
 
+      {canMergeDonors && (
+        <DuplicateDonors donorProfiles={donorProfiles} members={members} onMerge={onMergeDonors} />
+      )}
+
+      <GivingStatements
+        transactions={transactions}
+        members={members}
+        year={statementYear}
+        onYearChange={setStatementYear}
+      />
+
       {/* Donor Retention Summary */}
       <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
         <h3 className="text-lg font-semibold text-slate-900 mb-4">Donor Retention</h3>
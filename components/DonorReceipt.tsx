@@ -1,76 +1,52 @@
 import React, { useRef } from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
 import { QRCodeSVG } from 'qrcode.react';
 import html2canvas from 'html2canvas';
 import jsPDF from 'jspdf';
-import { Transaction } from '../types';
+import { OrganizationSettings, Transaction } from '../types';
+import { useOrganizationSettings } from '../hooks/useOrganizationSettings';
+import { useReceiptVerificationUrl } from '../hooks/useReceiptVerification';
+import { describeOriginalAmount } from '../utils/currency';
+import { receiptNumberFor } from '../utils/receipts';
 
 interface DonorReceiptProps {
   transaction: Transaction;
-  churchInfo?: {
-    name: string;
-    address: string;
-    phone: string;
-    email: string;
-    website: string;
-    taxId: string;
-    pastorName: string;
-  };
+  churchInfo?: Partial<OrganizationSettings>; // Overrides the organization settings
   logoUrl?: string;
   showActions?: boolean;
   onClose?: () => void;
 }
 
-// Get church info from environment variables with fallbacks
-const getChurchInfo = () => ({
-  name: import.meta.env.VITE_CHURCH_NAME || 'Greater Works City Church',
-  address: import.meta.env.VITE_CHURCH_ADDRESS || '123 Faith Street, Accra, Ghana',
-  phone: import.meta.env.VITE_CHURCH_PHONE || '+233 XX XXX XXXX',
-  email: import.meta.env.VITE_CHURCH_EMAIL || 'info@greaterworkschurch.org',
-  website: import.meta.env.VITE_CHURCH_WEBSITE || 'www.greaterworkschurch.org',
-  taxId: import.meta.env.VITE_CHURCH_TAX_ID || 'XX-XXXXXXX',
-  pastorName: import.meta.env.VITE_CHURCH_PASTOR_NAME || 'Pastor John Smith',
-});
-
 const DonorReceipt: React.FC<DonorReceiptProps> = ({
   transaction,
   churchInfo,
-  logoUrl = '/GWCC-logo.png',
+  logoUrl,
   showActions = true,
   onClose
 }) => {
+  const { format, formatCurrency, formatDate } = useDisplayFormat();
   const receiptRef = useRef<HTMLDivElement>(null);
   const [isDownloading, setIsDownloading] = React.useState(false);
   
-  // Use environment variables if churchInfo not provided
-  const church = churchInfo || getChurchInfo();
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
-  };
-
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-    });
-  };
+  const { organization } = useOrganizationSettings();
+  const church = { ...organization, ...churchInfo };
+  const logo = logoUrl || church.logoUrl;
+  const receiptNumber = receiptNumberFor(transaction);
+  const isVoid = !!transaction.deletedAt;
 
   const formatDateTime = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
+    return new Date(dateString).toLocaleDateString(format.locale, {
       year: 'numeric',
       month: 'long',
       day: 'numeric',
       hour: '2-digit',
-      minute: '2-digit'
+      minute: '2-digit',
+      timeZone: church.timezone
     });
   };
 
-  // Generate QR code data (receipt verification URL)
-  const qrCodeData = `${window.location.origin}/verify-receipt?id=${transaction.id}&amount=${transaction.amount}&date=${transaction.date}`;
+  // Signed verification link for the QR code
+  const verificationUrl = useReceiptVerificationUrl(transaction.id);
 
   // Print receipt
   const handlePrint = () => {
@@ -100,7 +76,7 @@ const DonorReceipt: React.FC<DonorReceiptProps> = ({
       const imgHeight = (canvas.height * imgWidth) / canvas.width;
       
       pdf.addImage(imgData, 'PNG', 0, 0, imgWidth, imgHeight);
-      pdf.save(`Receipt-${transaction.id.slice(-8)}-${formatDate(transaction.date)}.pdf`);
+      pdf.save(`Receipt-${receiptNumber}-${formatDate(transaction.date)}.pdf`);
     } catch (error) {
       console.error('Error generating PDF:', error);
       alert('Failed to generate PDF. Please try printing instead.');
@@ -115,7 +91,7 @@ const DonorReceipt: React.FC<DonorReceiptProps> = ({
     const body = encodeURIComponent(
       `Dear ${transaction.donorName || 'Valued Donor'},\n\n` +
       `Thank you for your generous donation of ${formatCurrency(transaction.amount)} to ${church.name}.\n\n` +
-      `Receipt Number: RCPT-${transaction.id.slice(-8).toUpperCase()}\n` +
+      `Receipt Number: ${receiptNumber}${isVoid ? ' (VOID)' : ''}\n` +
       `Transaction Date: ${formatDate(transaction.date)}\n` +
       `Description: ${transaction.description}\n\n` +
       `Please find your official receipt attached or print it from our website.\n\n` +
@@ -184,7 +160,7 @@ const DonorReceipt: React.FC<DonorReceiptProps> = ({
           <div className="flex items-center justify-center mb-4">
             <div className="w-20 h-20 bg-white rounded-full flex items-center justify-center mr-6 shadow-lg print:shadow-none overflow-hidden">
               <img
-                src={logoUrl}
+                src={logo}
                 alt="Church Logo"
                 className="w-full h-full object-contain p-2"
                 onError={(e) => {
@@ -208,13 +184,20 @@ const DonorReceipt: React.FC<DonorReceiptProps> = ({
 
         {/* Receipt Body */}
         <div className="p-8 relative print:p-6">
+          {/* Voided gifts keep their number so the sequence has no gaps */}
+          {isVoid && (
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none" aria-hidden="true">
+              <span className="text-9xl font-bold text-red-200 -rotate-12">VOID</span>
+            </div>
+          )}
           {/* Receipt Number and Date */}
           <div className="flex justify-between items-start mb-8">
             <div>
               <h2 className="text-2xl font-bold text-slate-800 mb-2">DONATION RECEIPT</h2>
               <div className="bg-gradient-to-br from-slate-50 to-slate-100 p-4 rounded-lg border border-slate-200">
                 <p className="text-slate-700 mb-1">
-                  <span className="font-semibold">Receipt #:</span> RCPT-{transaction.id.slice(-8).toUpperCase()}
+                  <span className="font-semibold">Receipt #:</span> {receiptNumber}
+                  {isVoid && <span className="ml-2 px-2 py-0.5 rounded bg-red-100 text-red-700 text-sm font-bold">VOID</span>}
                 </p>
                 <p className="text-slate-700 mb-1">
                   <span className="font-semibold">Issued:</span> {formatDateTime(new Date().toISOString())}
@@ -228,12 +211,16 @@ const DonorReceipt: React.FC<DonorReceiptProps> = ({
             {/* QR Code for verification */}
             <div className="text-center">
               <div className="bg-white p-2 rounded-lg border-2 border-slate-300 shadow-sm">
-                <QRCodeSVG
-                  value={qrCodeData}
-                  size={96}
-                  level="H"
-                  includeMargin={false}
-                />
+                {verificationUrl ? (
+                  <QRCodeSVG
+                    value={verificationUrl}
+                    size={96}
+                    level="H"
+                    includeMargin={false}
+                  />
+                ) : (
+                  <div className="w-24 h-24 flex items-center justify-center text-xs text-slate-400">Preparing…</div>
+                )}
               </div>
               <p className="text-xs text-slate-500 mt-2 font-medium">Scan to verify</p>
             </div>
@@ -253,6 +240,9 @@ const DonorReceipt: React.FC<DonorReceiptProps> = ({
               <div className="space-y-2">
                 <p className="text-slate-700"><strong>Email:</strong> {church.email}</p>
                 <p className="text-slate-700"><strong>Website:</strong> {church.website}</p>
+                {church.registrationNumber && (
+                  <p className="text-slate-700"><strong>Registration No.:</strong> {church.registrationNumber}</p>
+                )}
               </div>
             </div>
           </div>
@@ -269,6 +259,9 @@ const DonorReceipt: React.FC<DonorReceiptProps> = ({
               <p className="text-green-700 text-xl font-bold">
                 <strong>Donation Amount: {formatCurrency(transaction.amount)}</strong>
               </p>
+              {transaction.originalCurrency && (
+                <p className="text-slate-600 text-sm">Received as {describeOriginalAmount(transaction, format)}</p>
+              )}
             </div>
           </div>
         </div>
@@ -309,7 +302,7 @@ const DonorReceipt: React.FC<DonorReceiptProps> = ({
           <div className="flex items-center justify-center mb-4">
             <div className="w-8 h-8 mr-3 overflow-hidden rounded flex items-center justify-center">
               <img
-                src={logoUrl}
+                src={logo}
                 alt="Church Logo"
                 className="w-full h-full object-contain"
                 onError={(e) => {
@@ -326,10 +319,7 @@ const DonorReceipt: React.FC<DonorReceiptProps> = ({
             </div>
             <div className="text-left">
               <p className="text-slate-600 text-sm print:text-xs">
-                <strong>Thank you for your generous contribution!</strong>
-              </p>
-              <p className="text-slate-500 text-xs print:text-xs">
-                Your support helps us continue our mission to serve the community and spread God's love.
+                <strong>{church.receiptFooter}</strong>
               </p>
             </div>
           </div>
@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { Member } from '../types';
+import { DonorProfile } from '../hooks/useDonorManagement';
+import { DonorIdentity, DuplicateDonorPair, findDuplicateDonors } from '../utils/donors';
+
+interface DuplicateDonorsProps {
+  donorProfiles: DonorProfile[];
+  members: Member[];
+  onMerge: (survivor: Pick<Member, 'id' | 'name'>, duplicate: Pick<DonorIdentity, 'key' | 'memberId'>) => Promise<number>;
+}
+
+const inputClassName = 'mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const REASON_LABELS = { name: 'Similar name', email: 'Same email', phone: 'Same phone' } as const;
+
+const pairKey = (pair: DuplicateDonorPair) => `${pair.a.key}|${pair.b.key}`;
+
+/**
+ * Donors that look like the same person, with a tool to merge them into one
+ * member so every past gift and pledge follows that member.
+ */
+const DuplicateDonors: React.FC<DuplicateDonorsProps> = ({ donorProfiles, members, onMerge }) => {
+  const [survivorByPair, setSurvivorByPair] = useState<Record<string, string>>({});
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+
+  // Members who have not given yet can still be the right home for unlinked gifts
+  const pairs = useMemo(() => {
+    const identities: DonorIdentity[] = [
+      ...donorProfiles,
+      ...members
+        .filter(m => !donorProfiles.some(d => d.memberId === m.id))
+        .map(m => ({ key: `member:${m.id}`, memberId: m.id, name: m.name, email: m.email, phone: m.phone })),
+    ];
+    return findDuplicateDonors(identities).filter(pair => !dismissed.has(pairKey(pair)));
+  }, [donorProfiles, members, dismissed]);
+
+  const giftCount = (identity: DonorIdentity) => donorProfiles.find(d => d.key === identity.key)?.transactionCount || 0;
+
+  const describe = (identity: DonorIdentity) =>
+    `${identity.name}${identity.memberId ? '' : ' (not a member)'} · ${giftCount(identity)} gifts`;
+
+  // Keep the member with more gifts unless told otherwise
+  const defaultSurvivor = (pair: DuplicateDonorPair): string => {
+    const candidates = [pair.a, pair.b].filter(d => d.memberId);
+    return candidates.sort((x, y) => giftCount(y) - giftCount(x))[0]?.memberId || '';
+  };
+
+  const handleMerge = async (pair: DuplicateDonorPair) => {
+    const survivorId = survivorByPair[pairKey(pair)] ?? defaultSurvivor(pair);
+    const survivor = members.find(m => m.id === survivorId);
+    if (!survivor) {
+      setMessage({ text: 'Choose the member to keep.', isError: true });
+      return;
+    }
+    const duplicates = [pair.a, pair.b].filter(d => d.memberId !== survivor.id);
+    const removed = duplicates.filter(d => d.memberId).map(d => d.name);
+    if (!window.confirm(
+      `Move all gifts and pledges from ${duplicates.map(d => d.name).join(' and ')} to ${survivor.name}?` +
+      (removed.length ? ` The member record for ${removed.join(' and ')} will be removed.` : '')
+    )) return;
+
+    setIsMerging(true);
+    setMessage(null);
+    try {
+      let relinked = 0;
+      for (const duplicate of duplicates) {
+        relinked += await onMerge(survivor, duplicate);
+      }
+      setMessage({ text: `${relinked} gifts now belong to ${survivor.name}.`, isError: false });
+    } catch (error) {
+      console.error('Error merging donors:', error);
+      setMessage({ text: (error as Error).message, isError: true });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+      <h3 className="text-lg font-semibold text-slate-900">Possible Duplicate Donors</h3>
+      <p className="text-sm text-slate-500 mb-4">
+        Merging keeps one member and moves every gift and pledge from the other to them, including past years.
+      </p>
+
+      {message && (
+        <p className={`mb-4 text-sm ${message.isError ? 'text-red-600' : 'text-green-600'}`} role="alert">{message.text}</p>
+      )}
+
+      {pairs.length === 0 ? (
+        <p className="text-center text-slate-500 py-8">No likely duplicates found.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {pairs.map(pair => {
+            const key = pairKey(pair);
+            // Two unlinked names can both move to any member
+            const pairMembers = [pair.a, pair.b].filter(d => d.memberId).map(d => ({ id: d.memberId!, name: d.name }));
+            const choices = pairMembers.length ? pairMembers : members;
+            return (
+              <li key={key} className="py-4 flex flex-col md:flex-row md:items-end gap-4">
+                <div className="flex-1 text-sm">
+                  <p className="text-slate-900">{describe(pair.a)}</p>
+                  <p className="text-slate-900">{describe(pair.b)}</p>
+                  <p className="mt-1 text-xs text-slate-500">
+                    {pair.reasons.map(r => REASON_LABELS[r]).join(', ')}
+                    {pair.reasons.includes('name') && ` (${Math.round(pair.nameScore * 100)}% alike)`}
+                  </p>
+                </div>
+                <div className="md:w-64">
+                  <label htmlFor={`survivor-${key}`} className="block text-sm font-medium text-slate-700">Keep</label>
+                  <select
+                    id={`survivor-${key}`}
+                    value={survivorByPair[key] ?? defaultSurvivor(pair)}
+                    onChange={(e) => setSurvivorByPair(prev => ({ ...prev, [key]: e.target.value }))}
+                    className={inputClassName}
+                  >
+                    <option value="">Choose a member</option>
+                    {choices.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                  </select>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleMerge(pair)}
+                    disabled={isMerging}
+                    className="py-2 px-4 rounded-md bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Merge
+                  </button>
+                  <button
+                    onClick={() => setDismissed(prev => new Set(prev).add(key))}
+                    className="py-2 px-4 rounded-md border border-slate-300 text-slate-700 text-sm hover:bg-slate-50"
+                  >
+                    Not the Same
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateDonors;
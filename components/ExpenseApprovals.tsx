@@ -0,0 +1,305 @@
+import React, { useState } from 'react';
+import { Transaction, UserRole } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { useApprovalPolicy } from '../hooks/useApprovalPolicy';
+import { approvalBlocker, requiredApprovals } from '../utils/approvals';
+
+interface ExpenseApprovalsProps {
+  pendingExpenses: Transaction[];
+  approvedExpenses: Transaction[];
+  onSubmit: (id: string) => Promise<void>;
+  onApprove: (id: string) => Promise<void>;
+  onReject: (id: string, reason: string) => Promise<void>;
+  onMarkPaid: (id: string) => Promise<void>;
+}
+
+const parseThreshold = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const ExpenseApprovals: React.FC<ExpenseApprovalsProps> = ({
+  pendingExpenses,
+  approvedExpenses,
+  onSubmit,
+  onApprove,
+  onReject,
+  onMarkPaid,
+}) => {
+  const { formatCurrency, formatDate } = useDisplayFormat();
+  const { user, userRole, branchId } = useAuth();
+  const { policy, updatePolicy } = useApprovalPolicy();
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [secondThreshold, setSecondThreshold] = useState('');
+  const [pastorThreshold, setPastorThreshold] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const currentUserId = user?.email || user?.uid || '';
+  const isFinanceRole = userRole === UserRole.ADMIN || userRole === UserRole.TREASURER;
+  const submitted = pendingExpenses.filter(t => t.approvalStatus === 'submitted');
+  const returned = pendingExpenses.filter(t => t.approvalStatus === 'draft' || t.approvalStatus === 'rejected');
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ text: success, isError: false });
+    } catch (error) {
+      console.error('Error updating expense approval:', error);
+      setMessage({ text: (error as Error).message, isError: true });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReject = (e: React.FormEvent, id: string) => {
+    e.preventDefault();
+    run(async () => {
+      await onReject(id, rejectReason);
+      setRejectingId(null);
+      setRejectReason('');
+    }, 'Expense rejected and returned to the submitter.');
+  };
+
+  const handleSavePolicy = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => updatePolicy({
+      secondApprovalThreshold: secondThreshold ? parseThreshold(secondThreshold) : policy.secondApprovalThreshold,
+      pastorApprovalThreshold: pastorThreshold ? parseThreshold(pastorThreshold) : policy.pastorApprovalThreshold,
+    }), 'Approval thresholds saved.');
+  };
+
+  const describeRequirement = (amount: number) => {
+    const required = requiredApprovals(amount, policy);
+    if (required.pastorRequired) return 'Treasurer + pastor';
+    return required.approvals > 1 ? 'Two approvers' : 'One approver';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">Expense Approvals</h2>
+        <p className="text-slate-600">
+          {policy.enabled
+            ? 'Expenses are submitted for approval and reach the books only once a treasurer or administrator other than the submitter approves them.'
+            : 'Expense approval is turned off, so expenses post to the books as soon as they are entered.'}
+        </p>
+        {message && (
+          <p className={`mt-3 text-sm ${message.isError ? 'text-red-600' : 'text-green-600'}`} role="alert">{message.text}</p>
+        )}
+      </div>
+
+      {/* The policy covers every branch, so head office administrators set it */}
+      {userRole === UserRole.ADMIN && !branchId && (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900 mb-4">Approval Policy</h3>
+          <label className="flex items-center gap-2 text-sm text-slate-700 mb-4">
+            <input
+              type="checkbox"
+              checked={policy.enabled}
+              onChange={(e) => run(() => updatePolicy({ enabled: e.target.checked }), e.target.checked ? 'Expense approval turned on.' : 'Expense approval turned off.')}
+              disabled={isSaving}
+              className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+            />
+            Require approval for new expenses
+          </label>
+          <form onSubmit={handleSavePolicy} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <label htmlFor="second-threshold" className="block text-sm font-medium text-slate-700">Second approval from</label>
+              <input
+                id="second-threshold"
+                type="number"
+                min="0"
+                step="0.01"
+                value={secondThreshold}
+                onChange={(e) => setSecondThreshold(e.target.value)}
+                placeholder={policy.secondApprovalThreshold !== null ? String(policy.secondApprovalThreshold) : 'No limit'}
+                className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="pastor-threshold" className="block text-sm font-medium text-slate-700">Pastor approval from</label>
+              <input
+                id="pastor-threshold"
+                type="number"
+                min="0"
+                step="0.01"
+                value={pastorThreshold}
+                onChange={(e) => setPastorThreshold(e.target.value)}
+                placeholder={policy.pastorApprovalThreshold !== null ? String(policy.pastorApprovalThreshold) : 'No limit'}
+                className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={isSaving || (!secondThreshold && !pastorThreshold)}
+                className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+              <button
+                type="button"
+                onClick={() => run(() => updatePolicy({ secondApprovalThreshold: null, pastorApprovalThreshold: null }), 'Thresholds cleared.')}
+                disabled={isSaving}
+                className="text-sm text-slate-600 hover:underline"
+              >
+                Clear
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900 mb-4">Awaiting Approval</h3>
+        {submitted.length === 0 ? (
+          <p className="text-center text-slate-500 py-8">No expenses are waiting for approval.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr className="border-b border-slate-200">
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">Date</th>
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">Description</th>
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">Submitted By</th>
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">Needs</th>
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">Approved By</th>
+                  <th className="text-right py-2 text-sm font-medium text-slate-700">Amount</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {submitted.map(expense => {
+                  const blocker = approvalBlocker(expense, { id: currentUserId, role: userRole }, policy);
+                  const canReview = expense.submittedBy !== currentUserId &&
+                    (isFinanceRole || userRole === UserRole.PASTOR);
+                  return (
+                    <React.Fragment key={expense.id}>
+                      <tr className="border-b border-slate-100 align-top">
+                        <td className="py-2 text-sm text-slate-500">{formatDate(expense.date)}</td>
+                        <td className="py-2 text-sm text-slate-900">
+                          {expense.description}
+                          <span className="block text-xs text-slate-500">{expense.category}</span>
+                        </td>
+                        <td className="py-2 text-sm text-slate-700">{expense.submittedBy}</td>
+                        <td className="py-2 text-sm text-slate-700">{describeRequirement(expense.amount)}</td>
+                        <td className="py-2 text-sm text-slate-700">
+                          {(expense.approvals || []).map(a => a.by).join(', ') || '-'}
+                        </td>
+                        <td className="py-2 text-sm font-medium text-red-600 text-right">{formatCurrency(expense.amount)}</td>
+                        <td className="py-2 text-right whitespace-nowrap space-x-3">
+                          {canReview && (
+                            <>
+                              <button
+                                onClick={() => run(() => onApprove(expense.id), 'Approval recorded.')}
+                                disabled={isSaving || !!blocker}
+                                title={blocker || undefined}
+                                className="text-xs text-green-700 hover:underline disabled:opacity-50 disabled:no-underline"
+                              >
+                                Approve
+                              </button>
+                              <button
+                                onClick={() => setRejectingId(rejectingId === expense.id ? null : expense.id)}
+                                disabled={isSaving}
+                                className="text-xs text-red-600 hover:underline"
+                              >
+                                Reject
+                              </button>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                      {rejectingId === expense.id && (
+                        <tr className="border-b border-slate-100">
+                          <td colSpan={7} className="py-2">
+                            <form onSubmit={(e) => handleReject(e, expense.id)} className="flex gap-3">
+                              <input
+                                type="text"
+                                value={rejectReason}
+                                onChange={(e) => setRejectReason(e.target.value)}
+                                placeholder="Reason for rejecting"
+                                aria-label="Reason for rejecting"
+                                className="flex-1 border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                                required
+                              />
+                              <button
+                                type="submit"
+                                disabled={isSaving || !rejectReason.trim()}
+                                className="bg-white text-red-600 border border-red-300 font-medium py-1 px-3 rounded-md hover:bg-red-50 disabled:opacity-50 text-sm"
+                              >
+                                Reject Expense
+                              </button>
+                            </form>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {returned.length > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900 mb-4">Drafts and Rejected</h3>
+          <ul className="divide-y divide-slate-100">
+            {returned.map(expense => (
+              <li key={expense.id} className="py-3 flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-sm text-slate-900">
+                    {expense.description} <span className="text-slate-500">· {formatDate(expense.date)} · {formatCurrency(expense.amount)}</span>
+                  </p>
+                  {expense.approvalStatus === 'rejected' ? (
+                    <p className="text-xs text-red-600">Rejected: {expense.rejectionReason}</p>
+                  ) : (
+                    <p className="text-xs text-slate-500">Draft by {expense.submittedBy}</p>
+                  )}
+                </div>
+                {expense.submittedBy === currentUserId && (
+                  <button
+                    onClick={() => run(() => onSubmit(expense.id), 'Expense submitted for approval.')}
+                    disabled={isSaving}
+                    className="text-xs text-blue-600 hover:underline whitespace-nowrap"
+                  >
+                    {expense.approvalStatus === 'rejected' ? 'Resubmit' : 'Submit'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {approvedExpenses.length > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900 mb-4">Approved, Awaiting Payment</h3>
+          <ul className="divide-y divide-slate-100">
+            {approvedExpenses.map(expense => (
+              <li key={expense.id} className="py-3 flex items-center justify-between gap-4">
+                <p className="text-sm text-slate-900">
+                  {expense.description} <span className="text-slate-500">· {formatDate(expense.date)} · {formatCurrency(expense.amount)}</span>
+                </p>
+                {isFinanceRole && (
+                  <button
+                    onClick={() => run(() => onMarkPaid(expense.id), 'Expense marked as paid.')}
+                    disabled={isSaving}
+                    className="text-xs text-blue-600 hover:underline whitespace-nowrap"
+                  >
+                    Mark Paid
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExpenseApprovals;
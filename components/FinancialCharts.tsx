@@ -1,4 +1,5 @@
 import React from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
 import {
   LineChart,
   Line,
@@ -14,7 +15,7 @@ import {
   Legend,
   ResponsiveContainer
 } from 'recharts';
-import { formatCurrency } from '../utils/formatters';
+import { PeriodComparison } from '../utils/periodComparison';
 
 interface MonthlyTrend {
   month: string;
@@ -31,11 +32,21 @@ interface CategoryData {
   type: string;
 }
 
+interface YearOverYearTrend {
+  period: string;
+  income: number;
+  expenses: number;
+  priorYearIncome: number;
+  priorYearExpenses: number;
+}
+
 interface FinancialChartsProps {
   monthlyTrends: MonthlyTrend[];
   categoryData: CategoryData[];
   totalIncome: number;
   totalExpenses: number;
+  trends?: YearOverYearTrend[];
+  comparison?: PeriodComparison;
 }
 
 const COLORS = ['#10B981', '#EF4444', '#F59E0B', '#8B5CF6', '#06B6D4', '#84CC16'];
@@ -44,17 +55,34 @@ const FinancialCharts: React.FC<FinancialChartsProps> = ({
   monthlyTrends,
   categoryData,
   totalIncome,
-  totalExpenses
+  totalExpenses,
+  trends = [],
+  comparison
 }) => {
+  const { format, formatCompactCurrency, formatCurrency, formatDate } = useDisplayFormat();
   // Format data for monthly trends chart
   const trendsData = monthlyTrends.map(trend => ({
-    month: new Date(trend.month + '-01').toLocaleDateString('en-US', { month: 'short', year: '2-digit' }),
+    month: new Date(trend.month + '-01').toLocaleDateString(format.locale, { month: 'short', year: '2-digit' }),
     income: trend.income,
     expenses: trend.expenses,
     net: trend.net,
     transactions: trend.transactionCount
   }));
 
+  const yearOverYearData = trends.map(trend => ({
+    month: new Date(trend.period + '-01').toLocaleDateString(format.locale, { month: 'short' }),
+    income: trend.income,
+    priorYearIncome: trend.priorYearIncome,
+    expenses: trend.expenses,
+    priorYearExpenses: trend.priorYearExpenses,
+  }));
+
+  const comparisonData = comparison ? [
+    { name: 'Income', current: comparison.income.current, previous: comparison.income.previous },
+    { name: 'Expenses', current: comparison.expenses.current, previous: comparison.expenses.previous },
+    { name: 'Net', current: comparison.net.current, previous: comparison.net.previous },
+  ] : [];
+
   // Format data for category pie chart (top categories only)
   const pieData = categoryData.slice(0, 8).map((cat, index) => ({
     name: cat.category,
@@ -101,7 +129,7 @@ const FinancialCharts: React.FC<FinancialChartsProps> = ({
                 fontSize={12}
                 tickLine={false}
                 axisLine={false}
-                tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                tickFormatter={(value) => formatCompactCurrency(value)}
               />
               <Tooltip content={<CurrencyTooltip />} />
               <Legend />
@@ -173,7 +201,7 @@ const FinancialCharts: React.FC<FinancialChartsProps> = ({
               <YAxis
                 stroke="#64748B"
                 fontSize={12}
-                tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                tickFormatter={(value) => formatCompactCurrency(value)}
               />
               <Tooltip content={<CurrencyTooltip />} />
               <Legend />
@@ -184,6 +212,62 @@ const FinancialCharts: React.FC<FinancialChartsProps> = ({
         </div>
       </div>
 
+      {/* Year over Year - Bar Chart */}
+      {yearOverYearData.length > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900 mb-4">Year over Year</h3>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={yearOverYearData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#E2E8F0" />
+                <XAxis dataKey="month" stroke="#64748B" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis
+                  stroke="#64748B"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value) => formatCompactCurrency(value)}
+                />
+                <Tooltip content={<CurrencyTooltip />} />
+                <Legend />
+                <Bar dataKey="income" fill="#10B981" name="Income" />
+                <Bar dataKey="priorYearIncome" fill="#A7F3D0" name="Income last year" />
+                <Bar dataKey="expenses" fill="#EF4444" name="Expenses" />
+                <Bar dataKey="priorYearExpenses" fill="#FECACA" name="Expenses last year" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {/* Period Comparison - Bar Chart */}
+      {comparison && (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900 mb-1">Period Comparison</h3>
+          <p className="text-xs text-slate-500 mb-3">
+            {formatDate(comparison.current.start)} – {formatDate(comparison.current.end)} vs{' '}
+            {formatDate(comparison.previous.start)} – {formatDate(comparison.previous.end)}
+          </p>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={comparisonData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#E2E8F0" />
+                <XAxis dataKey="name" stroke="#64748B" fontSize={12} />
+                <YAxis
+                  stroke="#64748B"
+                  fontSize={12}
+                  tickFormatter={(value) => formatCompactCurrency(value)}
+                />
+                <Tooltip content={<CurrencyTooltip />} />
+                <Legend />
+                <Bar dataKey="current" fill="#3B82F6" name="This period" />
+                <Bar dataKey="previous" fill="#94A3B8" name="Comparison period" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
       {/* Transaction Volume - Area Chart */}
       <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
         <h3 className="text-lg font-semibold text-slate-900 mb-4">Transaction Volume</h3>
@@ -0,0 +1,71 @@
+import React from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { toBaseAmount } from '../utils/currency';
+
+interface ForeignCurrencyFieldsProps {
+  currencies: string[];
+  baseCurrency: string;
+  currency: string;
+  onCurrencyChange: (currency: string) => void;
+  rate: string; // Blank to use the rate table
+  onRateChange: (rate: string) => void;
+  tableRate?: number;
+  amount: number; // In the selected currency
+}
+
+const inputClassName = 'mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+/**
+ * Currency picker for amounts received in another currency. Renders nothing
+ * until the rate table covers at least one other currency.
+ */
+const ForeignCurrencyFields: React.FC<ForeignCurrencyFieldsProps> = ({
+  currencies,
+  baseCurrency,
+  currency,
+  onCurrencyChange,
+  rate,
+  onRateChange,
+  tableRate,
+  amount,
+}) => {
+  const { formatCurrency } = useDisplayFormat();
+  if (currencies.length < 2) return null;
+
+  const effectiveRate = parseFloat(rate) || tableRate;
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <label htmlFor="currency" className="block text-sm font-medium text-slate-700">Currency</label>
+        <select id="currency" value={currency} onChange={(e) => onCurrencyChange(e.target.value)} className={inputClassName}>
+          {currencies.map(code => <option key={code} value={code}>{code}</option>)}
+        </select>
+      </div>
+      {currency !== baseCurrency && (
+        <div>
+          <label htmlFor="exchange-rate" className="block text-sm font-medium text-slate-700">
+            {baseCurrency} per {currency}
+          </label>
+          <input
+            type="number"
+            id="exchange-rate"
+            value={rate}
+            onChange={(e) => onRateChange(e.target.value)}
+            step="0.0001"
+            min="0"
+            placeholder={tableRate ? String(tableRate) : 'No rate for this date'}
+            className={inputClassName}
+          />
+          <p className={`mt-1 text-xs ${effectiveRate ? 'text-slate-500' : 'text-red-600'}`}>
+            {effectiveRate
+              ? `Recorded as ${formatCurrency(toBaseAmount(amount || 0, effectiveRate))}`
+              : 'Enter the rate used for this gift.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ForeignCurrencyFields;
@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { FundRestriction, Transaction } from '../types';
+import { FUND_RESTRICTION_LABELS, GENERAL_FUND_ID } from '../constants';
+import { useFunds } from '../hooks/useFunds';
+import { computeFundBalances, isRestrictedFund } from '../utils/funds';
+
+interface FundsProps {
+  transactions: Transaction[];
+}
+
+const Funds: React.FC<FundsProps> = ({ transactions }) => {
+  const { formatCurrency } = useDisplayFormat();
+  const { funds, addFund, editFund } = useFunds();
+  const [name, setName] = useState('');
+  const [restriction, setRestriction] = useState<FundRestriction>('temporarily_restricted');
+  const [description, setDescription] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const balances = useMemo(() => computeFundBalances(funds, transactions), [funds, transactions]);
+
+  const handleAddFund = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedName = name.trim();
+    if (!trimmedName || funds.some(f => f.name.toLowerCase() === trimmedName.toLowerCase())) return;
+
+    setIsSaving(true);
+    try {
+      await addFund({ name: trimmedName, restriction, ...(description.trim() && { description: description.trim() }) });
+      setName('');
+      setDescription('');
+    } catch (error) {
+      console.error('Error adding fund:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">Funds</h2>
+        <p className="text-slate-600 mb-4">
+          Restricted gifts may only be spent on the purpose the donor gave them for. Every income and expense is assigned to a fund.
+        </p>
+
+        <form onSubmit={handleAddFund} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label htmlFor="fund-name" className="block text-sm font-medium text-slate-700">Fund Name</label>
+            <input
+              id="fund-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              placeholder="e.g. Missions Fund"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="fund-restriction" className="block text-sm font-medium text-slate-700">Restriction</label>
+            <select
+              id="fund-restriction"
+              value={restriction}
+              onChange={(e) => setRestriction(e.target.value as FundRestriction)}
+              className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              {(Object.keys(FUND_RESTRICTION_LABELS) as FundRestriction[]).map(r => (
+                <option key={r} value={r}>{FUND_RESTRICTION_LABELS[r]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="fund-description" className="block text-sm font-medium text-slate-700">Purpose</label>
+            <input
+              id="fund-description"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving || !name.trim()}
+            className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add Fund
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900 mb-4">Fund Balances</h3>
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="text-left py-2 text-sm font-medium text-slate-700">Fund</th>
+                <th className="text-left py-2 text-sm font-medium text-slate-700">Restriction</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">Received</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">Spent</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">Balance</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {balances.map(({ fund, income, expenses, balance }) => (
+                <tr key={fund.id} className={`border-b border-slate-100 ${fund.archived ? 'opacity-60' : ''}`}>
+                  <td className="py-2 text-sm text-slate-900">
+                    {fund.name}
+                    {fund.description && <span className="block text-xs text-slate-500">{fund.description}</span>}
+                  </td>
+                  <td className="py-2 text-sm">
+                    <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+                      isRestrictedFund(fund) ? 'bg-purple-100 text-purple-800' : 'bg-slate-100 text-slate-700'
+                    }`}>
+                      {FUND_RESTRICTION_LABELS[fund.restriction]}
+                    </span>
+                  </td>
+                  <td className="py-2 text-sm text-green-600 text-right">{formatCurrency(income)}</td>
+                  <td className="py-2 text-sm text-red-600 text-right">{formatCurrency(expenses)}</td>
+                  <td className={`py-2 text-sm font-medium text-right ${balance < 0 ? 'text-red-600' : 'text-slate-900'}`}>
+                    {formatCurrency(balance)}
+                  </td>
+                  <td className="py-2 text-right">
+                    {fund.id !== GENERAL_FUND_ID && (
+                      <button
+                        onClick={() => editFund(fund.id, { archived: !fund.archived })}
+                        className="text-xs text-slate-600 hover:underline"
+                      >
+                        {fund.archived ? 'Restore' : 'Archive'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {balances.some(b => isRestrictedFund(b.fund) && b.balance < 0) && (
+          <p className="mt-4 text-sm text-red-600">
+            A restricted fund is overdrawn. Review expenses charged to it or record the gifts that fund them.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Funds;
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { AccountType, Transaction } from '../types';
+import { useLedger } from '../hooks/useLedger';
+import { findUnpostedTransactions } from '../utils/ledger';
+
+interface GeneralLedgerProps {
+  transactions: Transaction[];
+}
+
+const ACCOUNT_TYPE_ORDER: AccountType[] = [
+  AccountType.ASSET,
+  AccountType.LIABILITY,
+  AccountType.NET_ASSETS,
+  AccountType.INCOME,
+  AccountType.EXPENSE,
+];
+
+const GeneralLedger: React.FC<GeneralLedgerProps> = ({ transactions }) => {
+  const { formatCurrency, formatDate } = useDisplayFormat();
+  const { chartOfAccounts, journalEntries, trialBalance, migrateTransactions } = useLedger();
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [migrationMessage, setMigrationMessage] = useState<string | null>(null);
+  const [showAllEntries, setShowAllEntries] = useState(false);
+
+  const unpostedCount = useMemo(
+    () => findUnpostedTransactions(transactions, journalEntries).length,
+    [transactions, journalEntries]
+  );
+
+  const accountName = (code: string) =>
+    chartOfAccounts.find(a => a.code === code)?.name || code;
+
+  const handleMigrate = async () => {
+    setIsMigrating(true);
+    setMigrationMessage(null);
+    try {
+      const { posted, skipped } = await migrateTransactions(transactions);
+      setMigrationMessage(
+        `Posted ${posted} existing transaction${posted === 1 ? '' : 's'} to the ledger.` +
+        (skipped > 0 ? ` ${skipped} in closed periods ${skipped === 1 ? 'was' : 'were'} left unposted.` : '')
+      );
+    } catch (error) {
+      console.error('Error migrating transactions to ledger:', error);
+      setMigrationMessage('Migration failed. Please try again.');
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  const visibleEntries = showAllEntries ? journalEntries : journalEntries.slice(0, 25);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">General Ledger</h2>
+        <p className="text-slate-600">
+          Every income, expense and transfer is posted as a balanced journal entry against its bank or cash account.
+        </p>
+
+        {unpostedCount > 0 && (
+          <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-md p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <p className="text-sm text-yellow-700">
+              <strong>{unpostedCount}</strong> transaction{unpostedCount === 1 ? ' has' : 's have'} not been posted to the ledger yet.
+            </p>
+            <button
+              onClick={handleMigrate}
+              disabled={isMigrating}
+              className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              {isMigrating ? 'Posting...' : 'Post to Ledger'}
+            </button>
+          </div>
+        )}
+        {migrationMessage && <p className="mt-2 text-sm text-slate-600">{migrationMessage}</p>}
+      </div>
+
+      {/* Trial Balance */}
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-slate-900">Trial Balance</h3>
+          <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+            trialBalance.isBalanced ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+          }`}>
+            {trialBalance.isBalanced ? 'Balanced' : 'Out of balance'}
+          </span>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="text-left py-2 text-sm font-medium text-slate-700">Code</th>
+                <th className="text-left py-2 text-sm font-medium text-slate-700">Account</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">Debit</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">Credit</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">Balance</th>
+              </tr>
+            </thead>
+            {ACCOUNT_TYPE_ORDER.map(type => {
+              const rows = trialBalance.rows.filter(r => r.account.type === type && (r.debit !== 0 || r.credit !== 0));
+              if (rows.length === 0) return null;
+              return (
+                <tbody key={type}>
+                  <tr className="bg-slate-50">
+                    <td colSpan={5} className="py-2 px-1 text-xs font-semibold uppercase tracking-wider text-slate-500">{type}</td>
+                  </tr>
+                  {rows.map(row => (
+                    <tr key={row.account.code} className="border-b border-slate-100">
+                      <td className="py-2 text-sm text-slate-500">{row.account.code}</td>
+                      <td className="py-2 text-sm text-slate-700">{row.account.name}</td>
+                      <td className="py-2 text-sm text-slate-900 text-right">{row.debit ? formatCurrency(row.debit) : '-'}</td>
+                      <td className="py-2 text-sm text-slate-900 text-right">{row.credit ? formatCurrency(row.credit) : '-'}</td>
+                      <td className="py-2 text-sm font-medium text-slate-900 text-right">{formatCurrency(row.balance)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              );
+            })}
+            <tfoot>
+              <tr className="border-t-2 border-slate-300">
+                <td colSpan={2} className="py-2 text-sm font-bold text-slate-900">Totals</td>
+                <td className="py-2 text-sm font-bold text-slate-900 text-right">{formatCurrency(trialBalance.totalDebit)}</td>
+                <td className="py-2 text-sm font-bold text-slate-900 text-right">{formatCurrency(trialBalance.totalCredit)}</td>
+                <td />
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </div>
+
+      {/* Journal */}
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900 mb-4">Journal Entries</h3>
+        {journalEntries.length === 0 ? (
+          <p className="text-center text-slate-500 py-8">No journal entries yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {visibleEntries.map(entry => (
+              <div key={entry.id} className="border border-slate-200 rounded-md">
+                <div className="flex justify-between px-4 py-2 bg-slate-50 text-sm">
+                  <span className="font-medium text-slate-900">{entry.description}</span>
+                  <span className="text-slate-500">{formatDate(entry.date)}</span>
+                </div>
+                <table className="min-w-full text-sm">
+                  <tbody>
+                    {entry.lines.map((line, index) => (
+                      <tr key={index} className="border-t border-slate-100">
+                        <td className={`px-4 py-1 text-slate-700 ${line.credit ? 'pl-10' : ''}`}>
+                          {line.accountCode} · {accountName(line.accountCode)}
+                        </td>
+                        <td className="px-4 py-1 text-right text-slate-900 w-32">{line.debit ? formatCurrency(line.debit) : ''}</td>
+                        <td className="px-4 py-1 text-right text-slate-900 w-32">{line.credit ? formatCurrency(line.credit) : ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+            {journalEntries.length > 25 && (
+              <button
+                onClick={() => setShowAllEntries(prev => !prev)}
+                className="text-sm text-blue-600 hover:underline"
+              >
+                {showAllEntries ? 'Show fewer entries' : `Show all ${journalEntries.length} entries`}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GeneralLedger;
@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { Member, Transaction } from '../types';
+import { useOrganizationSettings } from '../hooks/useOrganizationSettings';
+import { useEmailQueue } from '../hooks/useEmailQueue';
+import { givingStatements, statementFileName, unlinkedGifts } from '../utils/givingStatements';
+import {
+  givingStatementBase64,
+  givingStatementPdf,
+  givingStatementsZip,
+  mergedGivingStatementsPdf,
+} from '../utils/givingStatementPdf';
+
+interface GivingStatementsProps {
+  transactions: Transaction[];
+  members: Member[];
+  year: number;
+  onYearChange: (year: number) => void;
+}
+
+const inputClassName = 'mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Year-end giving statements for every member who gave, downloaded together
+ * or queued to be emailed to each member.
+ */
+const GivingStatements: React.FC<GivingStatementsProps> = ({ transactions, members, year, onYearChange }) => {
+  const { format, formatCurrency } = useDisplayFormat();
+  const { organization } = useOrganizationSettings();
+  const { queueEmails } = useEmailQueue();
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const statements = useMemo(() => givingStatements(transactions, members, year), [transactions, members, year]);
+  const unlinked = useMemo(() => unlinkedGifts(transactions, year), [transactions, year]);
+  const withEmail = statements.filter(s => s.email);
+  const total = statements.reduce((sum, s) => sum + s.total, 0);
+
+  const years = useMemo(() => {
+    const found = new Set<number>(transactions.filter(t => t.donorMemberId).map(t => Number(t.date.slice(0, 4))));
+    found.add(year);
+    return [...found].sort((a, b) => b - a);
+  }, [transactions, year]);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ text: success, isError: false });
+    } catch (error) {
+      console.error('Error generating giving statements:', error);
+      setMessage({ text: (error as Error).message, isError: true });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleMergedPdf = () => run(async () => {
+    mergedGivingStatementsPdf(statements, organization, format).save(`Giving-Statements-${year}.pdf`);
+  }, `Downloaded ${statements.length} statements as one PDF.`);
+
+  const handleZip = () => run(async () => {
+    downloadBlob(await givingStatementsZip(statements, organization, format), `Giving-Statements-${year}.zip`);
+  }, `Downloaded ${statements.length} statements as a ZIP file.`);
+
+  const handleQueueEmails = () => {
+    if (!window.confirm(`Email ${withEmail.length} giving statements for ${year}?`)) return;
+    run(async () => {
+      await queueEmails(withEmail.map(statement => ({
+        to: statement.email!,
+        memberId: statement.memberId,
+        subject: `Your ${year} giving statement from ${organization.name}`,
+        text: `Dear ${statement.donorName},\n\n` +
+          `Thank you for your faithful giving. Attached is your statement of gifts received in ${year}, ` +
+          `totalling ${formatCurrency(statement.total)}.\n\n` +
+          `God bless you,\n${organization.name}`,
+        attachments: [{
+          filename: statementFileName(statement),
+          content: givingStatementBase64(statement, organization, format),
+          contentType: 'application/pdf',
+        }],
+        purpose: 'givingStatement',
+      })));
+    }, `Queued ${withEmail.length} statements for email.` +
+      (withEmail.length < statements.length ? ` ${statements.length - withEmail.length} members have no email address.` : ''));
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">Year-End Giving Statements</h3>
+          <p className="text-sm text-slate-500">
+            One statement per member listing each gift. Gifts count toward a member only when linked to them.
+          </p>
+        </div>
+        <div>
+          <label htmlFor="statement-year" className="block text-sm font-medium text-slate-700">Year</label>
+          <select id="statement-year" value={year} onChange={(e) => onYearChange(Number(e.target.value))} className={inputClassName}>
+            {years.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`mb-4 text-sm ${message.isError ? 'text-red-600' : 'text-green-600'}`} role="alert">{message.text}</p>
+      )}
+
+      {unlinked.length > 0 && (
+        <p className="mb-4 text-sm text-amber-700">
+          {unlinked.length} gifts in {year} name a donor but are not linked to a member, so they are not on any statement.
+        </p>
+      )}
+
+      {statements.length === 0 ? (
+        <p className="text-center text-slate-500 py-8">No member-linked gifts in {year}.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-3 mb-4">
+            <button
+              onClick={handleMergedPdf}
+              disabled={isWorking}
+              className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Download All (PDF)
+            </button>
+            <button
+              onClick={handleZip}
+              disabled={isWorking}
+              className="py-2 px-4 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+            >
+              Download All (ZIP)
+            </button>
+            <button
+              onClick={handleQueueEmails}
+              disabled={isWorking || withEmail.length === 0}
+              className="py-2 px-4 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+            >
+              Email {withEmail.length} Statements
+            </button>
+          </div>
+
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="text-left py-2 text-sm font-medium text-slate-700">Member</th>
+                <th className="text-left py-2 text-sm font-medium text-slate-700">Email</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">Gifts</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">Total</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {statements.map(statement => (
+                <tr key={statement.memberId} className="border-b border-slate-100">
+                  <td className="py-2 text-sm text-slate-900">{statement.donorName}</td>
+                  <td className="py-2 text-sm text-slate-500">{statement.email || '—'}</td>
+                  <td className="py-2 text-sm text-slate-500 text-right">{statement.gifts.length}</td>
+                  <td className="py-2 text-sm text-slate-900 text-right">{formatCurrency(statement.total)}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => givingStatementPdf(statement, organization, format).save(statementFileName(statement))}
+                      className="text-xs text-blue-600 hover:underline"
+                    >
+                      PDF
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="py-2 text-sm" colSpan={3}>Total</td>
+                <td className="py-2 text-sm text-right">{formatCurrency(total)}</td>
+                <td />
+              </tr>
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GivingStatements;
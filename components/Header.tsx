@@ -1,14 +1,16 @@
 import React, { useState } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { UserRole } from '../types';
+import { useOrganizationSettings } from '../hooks/useOrganizationSettings';
 
 interface HeaderProps {
-  currentView: 'dashboard' | 'reports' | 'budgets' | 'transactions' | 'donations' | 'members' | 'memberProfile' | 'donors' | 'announcements' | 'myProfile' | 'users';
-  onViewChange: (view: 'dashboard' | 'reports' | 'budgets' | 'transactions' | 'donations' | 'members' | 'memberProfile' | 'donors' | 'announcements' | 'myProfile' | 'users') => void;
+  currentView: 'dashboard' | 'reports' | 'budgets' | 'transactions' | 'donations' | 'members' | 'memberProfile' | 'donors' | 'announcements' | 'myProfile' | 'users' | 'ledger' | 'accounts' | 'reconciliation' | 'funds' | 'periods' | 'audit' | 'approvals' | 'recurring' | 'collections' | 'campaigns' | 'branches' | 'settings';
+  onViewChange: (view: 'dashboard' | 'reports' | 'budgets' | 'transactions' | 'donations' | 'members' | 'memberProfile' | 'donors' | 'announcements' | 'myProfile' | 'users' | 'ledger' | 'accounts' | 'reconciliation' | 'funds' | 'periods' | 'audit' | 'approvals' | 'recurring' | 'collections' | 'campaigns' | 'branches' | 'settings') => void;
 }
 
 const Header: React.FC<HeaderProps> = ({ currentView, onViewChange }) => {
   const { user, userRole, logout } = useAuth();
+  const { organization } = useOrganizationSettings();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   
   const navItemClasses = "cursor-pointer py-3 px-4 rounded-md text-sm font-medium transition-colors duration-200 focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-500 min-h-touch";
@@ -25,7 +27,7 @@ const Header: React.FC<HeaderProps> = ({ currentView, onViewChange }) => {
         <div className="flex flex-col md:flex-row md:items-center md:justify-between">
           <div className="flex justify-between items-center">
             <div>
-              <h1 className="text-xl sm:text-2xl font-bold text-slate-800">Greater Works City Church</h1>
+              <h1 className="text-xl sm:text-2xl font-bold text-slate-800">{organization.name}</h1>
               <p className="text-xs sm:text-sm text-slate-500">Financial Ledger
                 {user && userRole && <span className="ml-2 px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full text-xs font-medium">Role: {userRole}</span>}
               </p>
@@ -104,6 +106,114 @@ const Header: React.FC<HeaderProps> = ({ currentView, onViewChange }) => {
                   Budgets
                 </button>
               )}
+              {(userRole === UserRole.ADMIN || userRole === UserRole.TREASURER || userRole === UserRole.EDITOR || userRole === UserRole.PASTOR) && (
+                <button
+                  onClick={() => {onViewChange('approvals'); setMobileMenuOpen(false);}}
+                  className={`${navItemClasses} ${currentView === 'approvals' ? activeClasses : inactiveClasses}`}
+                  aria-current={currentView === 'approvals' ? 'page' : undefined}
+                >
+                  Approvals
+                </button>
+              )}
+              {(userRole === UserRole.ADMIN || userRole === UserRole.TREASURER || userRole === UserRole.EDITOR) && (
+                <button
+                  onClick={() => {onViewChange('recurring'); setMobileMenuOpen(false);}}
+                  className={`${navItemClasses} ${currentView === 'recurring' ? activeClasses : inactiveClasses}`}
+                  aria-current={currentView === 'recurring' ? 'page' : undefined}
+                >
+                  Recurring
+                </button>
+              )}
+              {(userRole === UserRole.ADMIN || userRole === UserRole.TREASURER || userRole === UserRole.EDITOR) && (
+                <button
+                  onClick={() => {onViewChange('collections'); setMobileMenuOpen(false);}}
+                  className={`${navItemClasses} ${currentView === 'collections' ? activeClasses : inactiveClasses}`}
+                  aria-current={currentView === 'collections' ? 'page' : undefined}
+                >
+                  Collections
+                </button>
+              )}
+              {(userRole === UserRole.ADMIN || userRole === UserRole.TREASURER || userRole === UserRole.EDITOR) && (
+                <button
+                  onClick={() => {onViewChange('campaigns'); setMobileMenuOpen(false);}}
+                  className={`${navItemClasses} ${currentView === 'campaigns' ? activeClasses : inactiveClasses}`}
+                  aria-current={currentView === 'campaigns' ? 'page' : undefined}
+                >
+                  Campaigns
+                </button>
+              )}
+              {(userRole === UserRole.ADMIN || userRole === UserRole.TREASURER) && (
+                <button
+                  onClick={() => {onViewChange('ledger'); setMobileMenuOpen(false);}}
+                  className={`${navItemClasses} ${currentView === 'ledger' ? activeClasses : inactiveClasses}`}
+                  aria-current={currentView === 'ledger' ? 'page' : undefined}
+                >
+                  Ledger
+                </button>
+              )}
+              {(userRole === UserRole.ADMIN || userRole === UserRole.TREASURER) && (
+                <button
+                  onClick={() => {onViewChange('accounts'); setMobileMenuOpen(false);}}
+                  className={`${navItemClasses} ${currentView === 'accounts' ? activeClasses : inactiveClasses}`}
+                  aria-current={currentView === 'accounts' ? 'page' : undefined}
+                >
+                  Accounts
+                </button>
+              )}
+              {(userRole === UserRole.ADMIN || userRole === UserRole.TREASURER) && (
+                <button
+                  onClick={() => {onViewChange('reconciliation'); setMobileMenuOpen(false);}}
+                  className={`${navItemClasses} ${currentView === 'reconciliation' ? activeClasses : inactiveClasses}`}
+                  aria-current={currentView === 'reconciliation' ? 'page' : undefined}
+                >
+                  Reconcile
+                </button>
+              )}
+              {(userRole === UserRole.ADMIN || userRole === UserRole.TREASURER) && (
+                <button
+                  onClick={() => {onViewChange('funds'); setMobileMenuOpen(false);}}
+                  className={`${navItemClasses} ${currentView === 'funds' ? activeClasses : inactiveClasses}`}
+                  aria-current={currentView === 'funds' ? 'page' : undefined}
+                >
+                  Funds
+                </button>
+              )}
+              {(userRole === UserRole.ADMIN || userRole === UserRole.TREASURER) && (
+                <button
+                  onClick={() => {onViewChange('periods'); setMobileMenuOpen(false);}}
+                  className={`${navItemClasses} ${currentView === 'periods' ? activeClasses : inactiveClasses}`}
+                  aria-current={currentView === 'periods' ? 'page' : undefined}
+                >
+                  Close Periods
+                </button>
+              )}
+              {(userRole === UserRole.ADMIN || userRole === UserRole.TREASURER) && (
+                <button
+                  onClick={() => {onViewChange('audit'); setMobileMenuOpen(false);}}
+                  className={`${navItemClasses} ${currentView === 'audit' ? activeClasses : inactiveClasses}`}
+                  aria-current={currentView === 'audit' ? 'page' : undefined}
+                >
+                  Audit Log
+                </button>
+              )}
+              {(userRole === UserRole.ADMIN || userRole === UserRole.TREASURER) && (
+                <button
+                  onClick={() => {onViewChange('branches'); setMobileMenuOpen(false);}}
+                  className={`${navItemClasses} ${currentView === 'branches' ? activeClasses : inactiveClasses}`}
+                  aria-current={currentView === 'branches' ? 'page' : undefined}
+                >
+                  Branches
+                </button>
+              )}
+              {(userRole === UserRole.ADMIN || userRole === UserRole.TREASURER) && (
+                <button
+                  onClick={() => {onViewChange('settings'); setMobileMenuOpen(false);}}
+                  className={`${navItemClasses} ${currentView === 'settings' ? activeClasses : inactiveClasses}`}
+                  aria-current={currentView === 'settings' ? 'page' : undefined}
+                >
+                  Settings
+                </button>
+              )}
               {userRole === UserRole.ADMIN && (
                 <button
                   onClick={() => {onViewChange('users'); setMobileMenuOpen(false);}}
@@ -2,11 +2,12 @@ import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import { Transaction, TransactionType, UserRole } from '../types';
 import { INCOME_CATEGORIES } from '../constants';
 import { useAuth } from '../context/AuthContext';
+import { parseCsv, findColumn, parseAmount } from '../utils/csv';
 
 interface ImportTransactionsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onImport: (transactions: Omit<Transaction, 'id'>[]) => void;
+  onImport: (transactions: Omit<Transaction, 'id'>[]) => Promise<unknown>;
   expenseCategories: string[];
 }
 
@@ -82,28 +83,24 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
     onClose();
   };
   
-  const parseCsv = useCallback((text: string) => {
-    const lines = text.trim().split(/\r\n|\n/);
-    if (lines.length < 2) {
-      setError("CSV must have a header row and at least one data row.");
-      return;
+  const loadCsv = useCallback((text: string) => {
+    try {
+      const { headers, rows } = parseCsv(text);
+      setCsvHeaders(headers);
+      setCsvData(rows);
+      autoMapColumns(headers);
+    } catch (e) {
+      setError((e as Error).message);
     }
-    const headers = lines[0].split(',').map(h => h.trim());
-    const data = lines.slice(1).map(line => line.split(',').map(d => d.trim()));
-    
-    setCsvHeaders(headers);
-    setCsvData(data);
-    autoMapColumns(headers);
   }, []);
 
   const autoMapColumns = (headers: string[]) => {
     const newMapping: Partial<ColumnMapping> = {};
-    const lowerHeaders = headers.map(h => h.toLowerCase());
 
     const map = (fieldName: keyof ColumnMapping, keywords: string[]) => {
-      const headerIndex = lowerHeaders.findIndex(h => keywords.some(kw => h.includes(kw)));
-      if (headerIndex !== -1) {
-        newMapping[fieldName] = headers[headerIndex];
+      const header = findColumn(headers, keywords);
+      if (header) {
+        newMapping[fieldName] = header;
       }
     };
     
@@ -128,7 +125,7 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
       const reader = new FileReader();
       reader.onload = (event) => {
         const text = event.target?.result as string;
-        parseCsv(text);
+        loadCsv(text);
       };
       reader.onerror = () => setError("Failed to read the file.");
       reader.readAsText(selectedFile);
@@ -139,7 +136,7 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
     setMapping(prev => ({ ...prev, [appField]: csvHeader }));
   };
 
-  const handleImport = () => {
+  const handleImport = async () => {
     setError(null);
     setImportSummary(null);
 
@@ -162,8 +159,7 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
         const description = row[descIndex];
         if (!description) throw new Error('Missing description');
 
-        let amountVal = row[amountIndex].replace(/[^0-9.-]+/g, "");
-        let amount = parseFloat(amountVal);
+        let amount = parseAmount(row[amountIndex]);
         if (isNaN(amount)) throw new Error('Invalid amount');
 
         let type: TransactionType;
@@ -197,7 +193,13 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
     });
 
     if (newTransactions.length > 0) {
-      onImport(newTransactions);
+      try {
+        await onImport(newTransactions);
+      } catch (e: any) {
+        // e.g. rows in a closed period or a reconciled statement, which stop the import before it writes
+        setError(e?.message || 'The transactions could not be imported.');
+        return;
+      }
     }
     setImportSummary({ success: newTransactions.length, failed: failedCount });
   };
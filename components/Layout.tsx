@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import Sidebar from './Sidebar';
 import { useAuth } from '../context/AuthContext';
+import { useOrganizationSettings } from '../hooks/useOrganizationSettings';
 import { Menu } from 'react-feather';
 
 interface LayoutProps {
@@ -11,6 +12,7 @@ interface LayoutProps {
 
 const Layout: React.FC<LayoutProps> = ({ children, currentView, onViewChange }) => {
   const { user } = useAuth();
+  const { organization } = useOrganizationSettings();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
 
@@ -75,7 +77,7 @@ const Layout: React.FC<LayoutProps> = ({ children, currentView, onViewChange })
               
               <div className="flex items-center">
                 <div className="hidden sm:block text-right">
-                  <p className="text-sm text-slate-500">Greater Works City Church</p>
+                  <p className="text-sm text-slate-500">{organization.name}</p>
                 </div>
               </div>
             </div>
@@ -1,7 +1,10 @@
 import React, { useState, useRef } from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
 import { Member, Transaction } from '../types';
 import Announcements from './Announcements';
 import ResponsiveImage from './ResponsiveImage';
+import { usePledges } from '../hooks/usePledges';
+import { isOpenPledge, pledgeProgress } from '../utils/pledges';
 
 interface MemberProfileProps {
   member: Member;
@@ -102,9 +105,15 @@ const ContactCard: React.FC<{ icon: React.ReactNode; label: string; value?: stri
 };
 
 const MemberProfile: React.FC<MemberProfileProps> = ({ member, transactions, onBack, onEditMember }) => {
+  const { formatCurrency } = useDisplayFormat();
   const [showAnnouncements, setShowAnnouncements] = useState(true);
   const [activeTab, setActiveTab] = useState<'overview'|'donations'|'details'>('overview');
   const profileRef = useRef<HTMLDivElement>(null);
+  const { campaigns, pledges } = usePledges();
+  const today = new Date().toISOString().split('T')[0];
+  const memberPledges = pledges
+    .filter(p => p.memberId === member.id && isOpenPledge(p))
+    .map(pledge => ({ pledge, progress: pledgeProgress(pledge, transactions, today) }));
   
   // Print functionality
   const handlePrint = () => {
@@ -441,7 +450,7 @@ const MemberProfile: React.FC<MemberProfileProps> = ({ member, transactions, onB
             <div className="grid grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4 mb-6">
               <div className="bg-white rounded-lg shadow-md p-3 sm:p-5 border-l-4 border-green-500">
                 <p className="text-xs font-medium text-gray-500 uppercase mb-1">Total Donations</p>
-                <p className="text-xl sm:text-2xl font-bold text-green-600">${totalDonations.toFixed(2)}</p>
+                <p className="text-xl sm:text-2xl font-bold text-green-600">{formatCurrency(totalDonations)}</p>
               </div>
               <div className="bg-white rounded-lg shadow-md p-3 sm:p-5 border-l-4 border-blue-500">
                 <p className="text-xs font-medium text-gray-500 uppercase mb-1">Donations Count</p>
@@ -566,6 +575,38 @@ const MemberProfile: React.FC<MemberProfileProps> = ({ member, transactions, onB
       {/* Close Overview Tab */}
       </div>
 
+      {/* Pledges */}
+      {memberPledges.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h3 className="text-lg font-bold text-gray-800 mb-4 border-b pb-2">🎯 Pledges</h3>
+          <div className="space-y-4">
+            {memberPledges.map(({ pledge, progress }) => (
+              <div key={pledge.id}>
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium text-gray-900">
+                    {campaigns.find(c => c.id === pledge.campaignId)?.name || 'Campaign'}
+                  </span>
+                  <span className="text-gray-600">
+                    {formatCurrency(progress.paid)} of {formatCurrency(pledge.amount)} ({progress.percent}%)
+                  </span>
+                </div>
+                <div className="w-full bg-gray-100 rounded-full h-2 mt-1">
+                  <div
+                    className={`h-2 rounded-full ${progress.isBehind ? 'bg-amber-500' : 'bg-green-500'}`}
+                    style={{ width: `${Math.min(100, progress.percent)}%` }}
+                  />
+                </div>
+                {progress.isFulfilled ? (
+                  <p className="text-xs text-green-700 mt-1">Fulfilled</p>
+                ) : progress.isBehind && (
+                  <p className="text-xs text-amber-700 mt-1">Behind schedule by {formatCurrency(progress.behindBy)}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Donation History */}
       {memberTransactions.length > 0 ? (
         <div className="bg-white rounded-lg shadow-md p-6">
@@ -593,7 +634,7 @@ const MemberProfile: React.FC<MemberProfileProps> = ({ member, transactions, onB
                         {transaction.description}
                       </td>
                       <td className="px-4 py-3 text-sm text-green-600 font-bold">
-                        ${transaction.amount.toFixed(2)}
+                        {formatCurrency(transaction.amount)}
                       </td>
                       <td className="px-4 py-3 text-sm">
                         <span className="px-2 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-medium">
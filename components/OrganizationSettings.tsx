@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { OrganizationSettings as OrganizationSettingsType, UserRole } from '../types';
+import { MAX_LOGO_BYTES, SUPPORTED_TIMEZONES } from '../constants';
+import { useAuth } from '../context/AuthContext';
+import { useOrganizationSettings } from '../hooks/useOrganizationSettings';
+import CurrencySettings from './CurrencySettings';
+
+interface OrganizationSettingsProps {
+  hasTransactions: boolean;
+}
+
+const inputClassName = 'mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const MONTH_NAMES = Array.from({ length: 12 }, (_, i) =>
+  new Date(2000, i, 1).toLocaleDateString('en-US', { month: 'long' })
+);
+
+const TEXT_FIELDS: { key: keyof OrganizationSettingsType; label: string; type?: string }[] = [
+  { key: 'name', label: 'Church name' },
+  { key: 'registrationNumber', label: 'Registration / charity number' },
+  { key: 'address', label: 'Address' },
+  { key: 'pastorName', label: 'Senior pastor' },
+  { key: 'phone', label: 'Phone', type: 'tel' },
+  { key: 'email', label: 'Email', type: 'email' },
+  { key: 'website', label: 'Website', type: 'url' },
+  { key: 'receiptPrefix', label: 'Receipt number prefix' },
+];
+
+const OrganizationSettings: React.FC<OrganizationSettingsProps> = ({ hasTransactions }) => {
+  const { userRole, branchId } = useAuth();
+  const { organization, updateOrganization } = useOrganizationSettings();
+
+  // Unsaved edits only; everything else shows the stored settings
+  const [draft, setDraft] = useState<Partial<OrganizationSettingsType>>({});
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The church's details are one set for every branch, kept by head office
+  const isAdmin = userRole === UserRole.ADMIN && !branchId;
+  const current = { ...organization, ...draft };
+  const hasChanges = Object.keys(draft).length > 0;
+
+  const setField = <K extends keyof OrganizationSettingsType>(key: K, value: OrganizationSettingsType[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setMessage({ text: 'The logo must be an image.', isError: true });
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setMessage({ text: `The logo must be smaller than ${Math.round(MAX_LOGO_BYTES / 1024)} KB.`, isError: true });
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => setField('logoUrl', reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await updateOrganization(draft);
+      setDraft({});
+      setMessage({ text: 'Organization settings saved.', isError: false });
+    } catch (error) {
+      console.error('Error updating organization settings:', error);
+      setMessage({ text: (error as Error).message, isError: true });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">Organization</h2>
+        <p className="text-slate-600 mb-4">
+          These details appear on receipts, printed reports, SMS thank-you messages and emails.
+          {!isAdmin && ' Only head office administrators can change them.'}
+        </p>
+        {message && (
+          <p className={`mb-4 text-sm ${message.isError ? 'text-red-600' : 'text-green-600'}`} role="alert">{message.text}</p>
+        )}
+
+        <fieldset disabled={!isAdmin || isSaving} className="space-y-4">
+          <div className="flex items-center gap-4">
+            {current.logoUrl && <img src={current.logoUrl} alt="Church logo" className="h-16 w-16 object-contain" />}
+            <div>
+              <label htmlFor="org-logo" className="block text-sm font-medium text-slate-700">Logo</label>
+              <input id="org-logo" type="file" accept="image/*" onChange={handleLogoChange} className="mt-1 text-sm" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {TEXT_FIELDS.map(({ key, label, type }) => (
+              <div key={key}>
+                <label htmlFor={`org-${key}`} className="block text-sm font-medium text-slate-700">{label}</label>
+                <input
+                  id={`org-${key}`}
+                  type={type || 'text'}
+                  value={current[key] as string}
+                  onChange={(e) => setField(key, e.target.value)}
+                  required={key === 'name'}
+                  className={inputClassName}
+                />
+              </div>
+            ))}
+            <div>
+              <label htmlFor="org-fiscal-year" className="block text-sm font-medium text-slate-700">Fiscal year starts in</label>
+              <select
+                id="org-fiscal-year"
+                value={current.fiscalYearStartMonth}
+                onChange={(e) => setField('fiscalYearStartMonth', Number(e.target.value))}
+                className={inputClassName}
+              >
+                {MONTH_NAMES.map((name, i) => <option key={name} value={i + 1}>{name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="org-timezone" className="block text-sm font-medium text-slate-700">Timezone</label>
+              <select
+                id="org-timezone"
+                value={current.timezone}
+                onChange={(e) => setField('timezone', e.target.value)}
+                className={inputClassName}
+              >
+                {[...new Set([current.timezone, ...SUPPORTED_TIMEZONES])].map(tz => <option key={tz} value={tz}>{tz}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="org-minimum-reserve" className="block text-sm font-medium text-slate-700">Minimum reserve</label>
+              <input
+                id="org-minimum-reserve"
+                type="number"
+                min="0"
+                step="0.01"
+                value={current.minimumReserve || ''}
+                onChange={(e) => setField('minimumReserve', Math.max(0, parseFloat(e.target.value) || 0))}
+                className={inputClassName}
+              />
+              <p className="mt-1 text-xs text-slate-500">The dashboard forecast warns when the balance is projected to fall below this.</p>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="org-receipt-footer" className="block text-sm font-medium text-slate-700">Receipt footer</label>
+            <textarea
+              id="org-receipt-footer"
+              rows={3}
+              value={current.receiptFooter}
+              onChange={(e) => setField('receiptFooter', e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        </fieldset>
+
+        {isAdmin && (
+          <div className="mt-6 flex gap-3">
+            <button
+              type="submit"
+              disabled={isSaving || !hasChanges}
+              className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+            {hasChanges && (
+              <button
+                type="button"
+                onClick={() => setDraft({})}
+                disabled={isSaving}
+                className="py-2 px-4 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50"
+              >
+                Discard Changes
+              </button>
+            )}
+          </div>
+        )}
+      </form>
+
+      <CurrencySettings hasTransactions={hasTransactions} />
+    </div>
+  );
+};
+
+export default OrganizationSettings;
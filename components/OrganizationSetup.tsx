@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useOrganization } from '../hooks/useOrganization';
+import { DEFAULT_ORGANIZATION_SETTINGS } from '../constants';
+
+const inputClassName = 'mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+/**
+ * Shown to signed-in users who do not belong to an organization yet: they
+ * either accept a pending invite or create a new organization, which also
+ * moves any data they recorded before organizations existed.
+ */
+const OrganizationSetup: React.FC = () => {
+  const { user, logout } = useAuth();
+  const { pendingInvite, acceptInvite, createOrganization } = useOrganization();
+  const [name, setName] = useState(DEFAULT_ORGANIZATION_SETTINGS.name);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error setting up organization:', error);
+      setMessage({ text: (error as Error).message, isError: true });
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => createOrganization(name));
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-100 p-4">
+      <div className="w-full max-w-lg space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <h1 className="text-2xl font-bold text-slate-900 mb-2">Welcome</h1>
+          <p className="text-slate-600">
+            You are signed in as <strong>{user?.email}</strong>. The ledger is shared by everyone in a church's
+            organization, so join yours or set one up.
+          </p>
+          {message && (
+            <p className={`mt-3 text-sm ${message.isError ? 'text-red-600' : 'text-green-600'}`} role="alert">{message.text}</p>
+          )}
+        </div>
+
+        {pendingInvite && (
+          <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+            <h2 className="text-lg font-semibold text-slate-900 mb-2">Invitation</h2>
+            <p className="text-slate-600 mb-4">
+              {pendingInvite.invitedBy} invited you to join <strong>{pendingInvite.organizationName}</strong> as {pendingInvite.role}.
+            </p>
+            <button
+              onClick={() => run(acceptInvite)}
+              disabled={isSaving}
+              className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Join {pendingInvite.organizationName}
+            </button>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <h2 className="text-lg font-semibold text-slate-900 mb-2">Create an Organization</h2>
+          <p className="text-sm text-slate-500 mb-4">
+            You become its administrator. Transactions, members and settings you recorded before are copied into it;
+            the originals are kept, read-only.
+          </p>
+          <label htmlFor="organization-name" className="block text-sm font-medium text-slate-700">Church name</label>
+          <input
+            id="organization-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+            className={inputClassName}
+          />
+          <div className="mt-4 flex items-center justify-between">
+            <button
+              type="submit"
+              disabled={isSaving || !name.trim()}
+              className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Setting up...' : 'Create Organization'}
+            </button>
+            <button type="button" onClick={logout} className="text-sm text-slate-500 hover:underline">
+              Sign out
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default OrganizationSetup;
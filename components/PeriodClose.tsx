@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { PeriodKind } from '../types';
+import { usePeriodClose } from '../hooks/usePeriodClose';
+import { useOrganizationSettings } from '../hooks/useOrganizationSettings';
+import { fiscalYearEnd, monthEnd, nextMonthToClose } from '../utils/periods';
+
+const PeriodClose: React.FC = () => {
+  const { formatDate } = useDisplayFormat();
+  const { branchId } = useAuth();
+  const { lockedThrough, history, closePeriod, reopenPeriod } = usePeriodClose();
+  const { organization } = useOrganizationSettings();
+  const today = new Date().toISOString().split('T')[0];
+  const currentYear = new Date().getFullYear();
+
+  const [closeMonth, setCloseMonth] = useState('');
+  const [closeYear, setCloseYear] = useState(String(currentYear - 1));
+  const [reopenKind, setReopenKind] = useState<PeriodKind>('month');
+  const [reopenMonth, setReopenMonth] = useState('');
+  const [reopenReason, setReopenReason] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const monthToClose = closeMonth || nextMonthToClose(lockedThrough, today);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ text: success, isError: false });
+    } catch (error) {
+      console.error('Error updating period close:', error);
+      setMessage({ text: (error as Error).message, isError: true });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCloseMonth = () => {
+    const periodEnd = monthEnd(monthToClose);
+    if (periodEnd >= today) {
+      setMessage({ text: 'A month can only be closed after it has ended.', isError: true });
+      return;
+    }
+    if (!window.confirm(`Close the books through ${formatDate(periodEnd)}? Transactions on or before this date will be locked.`)) return;
+    run(() => closePeriod('month', periodEnd), `Closed through ${formatDate(periodEnd)}.`);
+  };
+
+  const handleCloseYear = () => {
+    const startMonth = organization.fiscalYearStartMonth;
+    const startYear = startMonth === 1 ? Number(closeYear) : Number(closeYear) - 1;
+    const periodEnd = fiscalYearEnd(startYear, startMonth);
+    if (periodEnd >= today) {
+      setMessage({ text: 'A fiscal year can only be closed after it has ended.', isError: true });
+      return;
+    }
+    if (!window.confirm(`Close fiscal year ${closeYear} (through ${formatDate(periodEnd)})?`)) return;
+    run(() => closePeriod('year', periodEnd), `Fiscal year ${closeYear} closed.`);
+  };
+
+  const handleReopen = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reopenMonth) return;
+    run(async () => {
+      await reopenPeriod(reopenKind, `${reopenMonth}-01`, reopenReason);
+      setReopenReason('');
+    }, `Reopened from ${reopenMonth}.`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">Period Close</h2>
+        <p className="text-slate-600">
+          {lockedThrough
+            ? <>The books are closed through <strong>{formatDate(lockedThrough)}</strong>. Corrections to closed periods must be posted as adjusting entries.</>
+            : 'No periods have been closed yet.'}
+          {branchId && ' Head office closes and reopens periods for the whole church.'}
+        </p>
+        {message && (
+          <p className={`mt-3 text-sm ${message.isError ? 'text-red-600' : 'text-green-600'}`} role="alert">{message.text}</p>
+        )}
+      </div>
+
+      {!branchId && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+            <h3 className="text-lg font-semibold text-slate-900 mb-4">Close a Month</h3>
+            <div className="flex gap-3 items-end">
+              <div className="flex-1">
+                <label htmlFor="close-month" className="block text-sm font-medium text-slate-700">Month</label>
+                <input
+                  id="close-month"
+                  type="month"
+                  value={monthToClose}
+                  onChange={(e) => setCloseMonth(e.target.value)}
+                  className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+              </div>
+              <button
+                onClick={handleCloseMonth}
+                disabled={isSaving || !monthToClose}
+                className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Close Month
+              </button>
+            </div>
+          </div>
+
+          <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+            <h3 className="text-lg font-semibold text-slate-900 mb-4">Close a Fiscal Year</h3>
+            <div className="flex gap-3 items-end">
+              <div className="flex-1">
+                <label htmlFor="close-year" className="block text-sm font-medium text-slate-700">Fiscal Year Ending In</label>
+                <select
+                  id="close-year"
+                  value={closeYear}
+                  onChange={(e) => setCloseYear(e.target.value)}
+                  className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                >
+                  {[0, 1, 2, 3, 4].map(offset => String(currentYear - offset)).map(year => (
+                    <option key={year} value={year}>{year}</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={handleCloseYear}
+                disabled={isSaving}
+                className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Close Year
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {lockedThrough && !branchId && (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900 mb-2">Reopen Periods</h3>
+          <p className="text-sm text-slate-500 mb-4">
+            Reopens the chosen month and every later closed month. The reason is kept in the close history.
+          </p>
+          <form onSubmit={handleReopen} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <label htmlFor="reopen-kind" className="block text-sm font-medium text-slate-700">Reopening</label>
+              <select
+                id="reopen-kind"
+                value={reopenKind}
+                onChange={(e) => setReopenKind(e.target.value as PeriodKind)}
+                className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                <option value="month">Month</option>
+                <option value="year">Fiscal year</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="reopen-month" className="block text-sm font-medium text-slate-700">From Month</label>
+              <input
+                id="reopen-month"
+                type="month"
+                value={reopenMonth}
+                max={lockedThrough.slice(0, 7)}
+                onChange={(e) => setReopenMonth(e.target.value)}
+                className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="reopen-reason" className="block text-sm font-medium text-slate-700">Reason</label>
+              <input
+                id="reopen-reason"
+                type="text"
+                value={reopenReason}
+                onChange={(e) => setReopenReason(e.target.value)}
+                className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="e.g. Auditor adjustment"
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSaving || !reopenMonth || !reopenReason.trim()}
+              className="bg-white text-red-600 border border-red-300 font-medium py-2 px-4 rounded-md hover:bg-red-50 disabled:opacity-50"
+            >
+              Reopen
+            </button>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900 mb-4">Close History</h3>
+        {history.length === 0 ? (
+          <p className="text-center text-slate-500 py-8">No periods have been closed or reopened.</p>
+        ) : (
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="text-left py-2 text-sm font-medium text-slate-700">When</th>
+                <th className="text-left py-2 text-sm font-medium text-slate-700">Action</th>
+                <th className="text-left py-2 text-sm font-medium text-slate-700">Closed Through</th>
+                <th className="text-left py-2 text-sm font-medium text-slate-700">By</th>
+                <th className="text-left py-2 text-sm font-medium text-slate-700">Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map(event => (
+                <tr key={event.id} className="border-b border-slate-100">
+                  <td className="py-2 text-sm text-slate-500">{formatDate(event.performedAt.split('T')[0])}</td>
+                  <td className="py-2 text-sm">
+                    <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+                      event.action === 'close' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                    }`}>
+                      {event.action === 'close' ? 'Closed' : 'Reopened'} {event.kind === 'year' ? 'year' : 'month'}
+                    </span>
+                  </td>
+                  <td className="py-2 text-sm text-slate-700">
+                    {event.lockedThroughBefore ? formatDate(event.lockedThroughBefore) : 'Nothing'} → {event.lockedThroughAfter ? formatDate(event.lockedThroughAfter) : 'Nothing'}
+                  </td>
+                  <td className="py-2 text-sm text-slate-700">{event.performedBy}</td>
+                  <td className="py-2 text-sm text-slate-500">{event.reason || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PeriodClose;
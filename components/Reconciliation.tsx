@@ -0,0 +1,497 @@
+import React, { useMemo, useState } from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { Reconciliation as ReconciliationRecord, StatementLine, Transaction, TransactionType } from '../types';
+import { INCOME_CATEGORIES } from '../constants';
+import { useAccounts } from '../hooks/useAccounts';
+import { useApprovalPolicy } from '../hooks/useApprovalPolicy';
+import { useReconciliations } from '../hooks/useReconciliations';
+import { parseCsv } from '../utils/csv';
+import { amountForAccount } from '../utils/accounts';
+import {
+  autoMatchStatement,
+  isLineMatched,
+  matchableTransactions,
+  matchScore,
+  statementLinesFromCsv,
+  summarizeReconciliation,
+} from '../utils/reconciliation';
+
+interface ReconciliationProps {
+  transactions: Transaction[];
+  onAddTransaction: (transaction: Omit<Transaction, 'id'>) => Promise<string | undefined>;
+  expenseCategories: string[];
+}
+
+const Reconciliation: React.FC<ReconciliationProps> = ({ transactions, onAddTransaction, expenseCategories }) => {
+  const { formatCurrency, formatDate } = useDisplayFormat();
+  const { activeAccounts, accounts } = useAccounts();
+  const { policy } = useApprovalPolicy();
+  const {
+    reconciliations,
+    startReconciliation,
+    updateStatementLines,
+    discardReconciliation,
+    completeReconciliation,
+  } = useReconciliations();
+
+  const [accountId, setAccountId] = useState('');
+  const [periodStart, setPeriodStart] = useState('');
+  const [periodEnd, setPeriodEnd] = useState('');
+  const [closingBalance, setClosingBalance] = useState('');
+  const [statementFile, setStatementFile] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [matchingLineId, setMatchingLineId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [creatingLineId, setCreatingLineId] = useState<string | null>(null);
+  const [newEntryCategory, setNewEntryCategory] = useState('');
+
+  const active = reconciliations.find(r => r.id === activeId);
+  const activeAccount = accounts.find(a => a.id === active?.accountId);
+  const isReadOnly = active?.status !== 'in_progress';
+
+  const summary = useMemo(
+    () => (active && activeAccount ? summarizeReconciliation(active, activeAccount, transactions) : null),
+    [active, activeAccount, transactions]
+  );
+
+  const accountName = (id: string) => accounts.find(a => a.id === id)?.name || 'Unknown account';
+  const transactionById = (id: string) => transactions.find(t => t.id === id);
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const selectedAccountId = accountId || activeAccounts[0]?.id;
+    const account = accounts.find(a => a.id === selectedAccountId);
+    if (!account || !statementFile || !periodStart || !periodEnd) {
+      setError('Choose an account, the statement period and a statement CSV file.');
+      return;
+    }
+    if (account.reconciledThrough && periodStart <= account.reconciledThrough) {
+      setError(`${account.name} is already reconciled through ${formatDate(account.reconciledThrough)}.`);
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const lines = statementLinesFromCsv(parseCsv(await statementFile.text()))
+        .filter(l => l.date >= periodStart && l.date <= periodEnd);
+      const id = await startReconciliation({
+        accountId: account.id,
+        periodStart,
+        periodEnd,
+        statementClosingBalance: parseFloat(closingBalance) || 0,
+        lines: autoMatchStatement(lines, transactions, account.id),
+      });
+      if (id) setActiveId(id);
+      setStatementFile(null);
+      setClosingBalance('');
+    } catch (err) {
+      console.error('Error starting reconciliation:', err);
+      setError((err as Error).message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const saveLines = async (lines: StatementLine[]) => {
+    if (!active) return;
+    try {
+      await updateStatementLines(active.id, lines);
+    } catch (err) {
+      console.error('Error updating statement lines:', err);
+      setError('Could not save the match. Please try again.');
+    }
+  };
+
+  const handleAutoMatch = () => {
+    if (!active) return;
+    saveLines(autoMatchStatement(active.lines, transactions, active.accountId));
+  };
+
+  const setLineMatches = (lineId: string, matchedTransactionIds: string[]) => {
+    if (!active) return;
+    saveLines(active.lines.map(l => (l.id === lineId ? { ...l, matchedTransactionIds } : l)));
+    setMatchingLineId(null);
+    setSelectedIds([]);
+  };
+
+  const handleCreateEntry = async (line: StatementLine) => {
+    if (!active || !newEntryCategory) return;
+    const type = line.amount > 0 ? TransactionType.INCOME : TransactionType.EXPENSE;
+    // Under the approval policy a new expense is not in the books until approved, so it can't be matched yet
+    const awaitsApproval = policy.enabled && type === TransactionType.EXPENSE;
+    setIsWorking(true);
+    setNotice(null);
+    try {
+      const id = await onAddTransaction({
+        date: line.date,
+        description: line.description || 'Bank statement entry',
+        amount: Math.abs(line.amount),
+        type,
+        category: newEntryCategory,
+        accountId: active.accountId,
+      });
+      if (id && awaitsApproval) {
+        setNotice('The expense was created and is awaiting approval. Match it to this line once it is approved.');
+      } else if (id) {
+        setLineMatches(line.id, [id]);
+      }
+      setCreatingLineId(null);
+    } catch (err) {
+      console.error('Error creating entry from statement line:', err);
+      setError((err as Error).message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleComplete = async () => {
+    if (!active) return;
+    // A completion that stopped partway is finished without asking again
+    if (active.status === 'in_progress' && (!summary?.canComplete ||
+      !window.confirm(`Lock ${accountName(active.accountId)} through ${formatDate(active.periodEnd)}? Matched transactions can no longer be edited.`))) return;
+
+    setIsWorking(true);
+    try {
+      await completeReconciliation(active, transactions);
+    } catch (err) {
+      console.error('Error completing reconciliation:', err);
+      setError('Could not complete the reconciliation. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!active || !window.confirm('Discard this reconciliation and its statement lines?')) return;
+    await discardReconciliation(active.id);
+    setActiveId(null);
+  };
+
+  const renderLineActions = (line: StatementLine, active: ReconciliationRecord) => {
+    if (isReadOnly) return null;
+    if (line.matchedTransactionIds.length > 0) {
+      return (
+        <button onClick={() => setLineMatches(line.id, [])} className="text-slate-600 hover:underline text-xs">
+          Unmatch
+        </button>
+      );
+    }
+    return (
+      <div className="flex gap-3 text-xs">
+        <button
+          onClick={() => { setMatchingLineId(line.id); setCreatingLineId(null); setSelectedIds([]); }}
+          className="text-blue-600 hover:underline"
+        >
+          Match
+        </button>
+        <button
+          onClick={() => {
+            setCreatingLineId(line.id);
+            setMatchingLineId(null);
+            setNewEntryCategory(line.amount > 0 ? INCOME_CATEGORIES[0] : expenseCategories[0]);
+          }}
+          className="text-blue-600 hover:underline"
+        >
+          Create entry
+        </button>
+      </div>
+    );
+  };
+
+  const renderMatchPanel = (line: StatementLine, active: ReconciliationRecord) => {
+    const candidates = matchableTransactions(active.lines, transactions, active.accountId)
+      .filter(t => t.date <= active.periodEnd)
+      .sort((a, b) => matchScore(line, b, active.accountId) - matchScore(line, a, active.accountId));
+    const selectedTotal = selectedIds.reduce((sum, id) => {
+      const t = transactionById(id);
+      return sum + (t ? amountForAccount(t, active.accountId) : 0);
+    }, 0);
+
+    return (
+      <div className="bg-slate-50 border border-slate-200 rounded-md p-4 space-y-2">
+        <p className="text-sm text-slate-600">
+          Select one or more entries. Several entries can be matched to one line when a single deposit covered them.
+        </p>
+        {candidates.length === 0 ? (
+          <p className="text-sm text-slate-500">No unreconciled entries for this account.</p>
+        ) : (
+          <div className="max-h-60 overflow-y-auto space-y-1">
+            {candidates.map(t => (
+              <label key={t.id} className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(t.id)}
+                  onChange={(e) => setSelectedIds(prev => e.target.checked ? [...prev, t.id] : prev.filter(id => id !== t.id))}
+                />
+                <span className="text-slate-500 w-24">{formatDate(t.date)}</span>
+                <span className="flex-1">{t.description}</span>
+                <span className="font-medium">{formatCurrency(amountForAccount(t, active.accountId))}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-between items-center pt-2">
+          <span className={`text-sm ${Math.round(selectedTotal * 100) === Math.round(line.amount * 100) ? 'text-green-600' : 'text-slate-500'}`}>
+            Selected {formatCurrency(selectedTotal)} of {formatCurrency(line.amount)}
+          </span>
+          <div className="flex gap-2">
+            <button onClick={() => setMatchingLineId(null)} className="text-slate-600 text-sm py-1 px-3 rounded-md hover:bg-slate-100">Cancel</button>
+            <button
+              onClick={() => setLineMatches(line.id, selectedIds)}
+              disabled={selectedIds.length === 0}
+              className="bg-blue-600 text-white text-sm py-1 px-3 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Match Selected
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">Bank Reconciliation</h2>
+        <p className="text-slate-600 mb-4">
+          Import a bank or mobile money statement, match its lines to recorded transactions and lock the period once it balances.
+        </p>
+
+        {activeAccounts.length === 0 ? (
+          <p className="text-sm text-slate-500">Add a bank or cash account before reconciling.</p>
+        ) : (
+          <form onSubmit={handleStart} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <label htmlFor="rec-account" className="block text-sm font-medium text-slate-700">Account</label>
+              <select
+                id="rec-account"
+                value={accountId || activeAccounts[0]?.id}
+                onChange={(e) => setAccountId(e.target.value)}
+                className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                {activeAccounts.map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="rec-start" className="block text-sm font-medium text-slate-700">Period Start</label>
+              <input id="rec-start" type="date" value={periodStart} onChange={(e) => setPeriodStart(e.target.value)}
+                className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm" required />
+            </div>
+            <div>
+              <label htmlFor="rec-end" className="block text-sm font-medium text-slate-700">Period End</label>
+              <input id="rec-end" type="date" value={periodEnd} onChange={(e) => setPeriodEnd(e.target.value)}
+                className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm" required />
+            </div>
+            <div>
+              <label htmlFor="rec-closing" className="block text-sm font-medium text-slate-700">Statement Closing Balance</label>
+              <input id="rec-closing" type="number" step="0.01" value={closingBalance} onChange={(e) => setClosingBalance(e.target.value)}
+                className="mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm" required />
+            </div>
+            <div>
+              <label htmlFor="rec-file" className="block text-sm font-medium text-slate-700">Statement CSV</label>
+              <input id="rec-file" type="file" accept=".csv,text/csv" onChange={(e) => setStatementFile(e.target.files?.[0] || null)}
+                className="mt-1 block w-full text-sm text-slate-500" required />
+            </div>
+            <div className="md:col-span-5 flex justify-end">
+              <button
+                type="submit"
+                disabled={isWorking}
+                className="bg-blue-600 text-white font-medium py-2 px-6 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isWorking ? 'Working...' : 'Start Reconciliation'}
+              </button>
+            </div>
+          </form>
+        )}
+        {error && <p className="mt-3 text-sm text-red-600" role="alert">{error}</p>}
+        {notice && <p className="mt-3 text-sm text-slate-600">{notice}</p>}
+      </div>
+
+      {reconciliations.length > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900 mb-4">Statements</h3>
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="text-left py-2 text-sm font-medium text-slate-700">Account</th>
+                <th className="text-left py-2 text-sm font-medium text-slate-700">Period</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">Closing Balance</th>
+                <th className="text-right py-2 text-sm font-medium text-slate-700">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reconciliations.map(r => (
+                <tr
+                  key={r.id}
+                  onClick={() => setActiveId(r.id)}
+                  className={`border-b border-slate-100 cursor-pointer hover:bg-slate-50 ${r.id === activeId ? 'bg-blue-50' : ''}`}
+                >
+                  <td className="py-2 text-sm text-slate-700">{accountName(r.accountId)}</td>
+                  <td className="py-2 text-sm text-slate-500">{formatDate(r.periodStart)} – {formatDate(r.periodEnd)}</td>
+                  <td className="py-2 text-sm text-slate-900 text-right">{formatCurrency(r.statementClosingBalance)}</td>
+                  <td className="py-2 text-right">
+                    <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+                      r.status === 'completed' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                    }`}>
+                      {r.status === 'completed' ? 'Reconciled' : r.status === 'completing' ? 'Completing' : 'In progress'}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {active && summary && (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200 space-y-6">
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+            <h3 className="text-lg font-semibold text-slate-900">
+              {accountName(active.accountId)} · {formatDate(active.periodStart)} – {formatDate(active.periodEnd)}
+            </h3>
+            {!isReadOnly && (
+              <div className="flex gap-2">
+                <button onClick={handleAutoMatch} className="bg-white text-slate-700 border border-slate-300 text-sm py-2 px-4 rounded-md hover:bg-slate-100">
+                  Auto-match
+                </button>
+                <button onClick={handleDiscard} className="bg-white text-red-600 border border-slate-300 text-sm py-2 px-4 rounded-md hover:bg-red-50">
+                  Discard
+                </button>
+                <button
+                  onClick={handleComplete}
+                  disabled={!summary.canComplete || isWorking}
+                  className="bg-blue-600 text-white text-sm font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Complete & Lock
+                </button>
+              </div>
+            )}
+            {active.status === 'completing' && (
+              <button
+                onClick={handleComplete}
+                disabled={isWorking}
+                className="bg-blue-600 text-white text-sm font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Finish Completing
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              { label: 'Statement Closing', value: active.statementClosingBalance },
+              { label: 'Outstanding Entries', value: summary.outstandingTotal },
+              { label: 'Adjusted Statement', value: summary.adjustedStatementBalance },
+              { label: 'Book Balance', value: summary.bookBalance },
+              { label: 'Difference', value: summary.difference },
+            ].map(tile => (
+              <div key={tile.label} className="bg-slate-50 p-4 rounded-md">
+                <p className="text-xs text-slate-500">{tile.label}</p>
+                <p className={`text-lg font-bold ${tile.label === 'Difference' && tile.value !== 0 ? 'text-red-600' : 'text-slate-900'}`}>
+                  {formatCurrency(tile.value)}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-slate-900 mb-2">
+              Statement Lines ({active.lines.length - summary.unmatchedLines.length} of {active.lines.length} matched)
+            </h4>
+            <div className="space-y-2">
+              {active.lines.map(line => {
+                const matched = isLineMatched(line, transactions, active.accountId);
+                return (
+                  <div key={line.id} className="border border-slate-200 rounded-md p-3 space-y-2">
+                    <div className="flex flex-col md:flex-row md:items-center gap-2">
+                      <span className="text-sm text-slate-500 w-24">{formatDate(line.date)}</span>
+                      <span className="flex-1 text-sm text-slate-900">{line.description}</span>
+                      <span className={`text-sm font-semibold w-32 text-right ${line.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(line.amount)}
+                      </span>
+                      <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+                        matched ? 'bg-green-100 text-green-800'
+                          : line.matchedTransactionIds.length > 0 ? 'bg-yellow-100 text-yellow-800'
+                          : 'bg-slate-100 text-slate-600'
+                      }`}>
+                        {matched ? 'Matched' : line.matchedTransactionIds.length > 0 ? 'Amounts differ' : 'Unmatched'}
+                      </span>
+                      <div className="w-32 text-right">{renderLineActions(line, active)}</div>
+                    </div>
+
+                    {line.matchedTransactionIds.map(id => {
+                      const t = transactionById(id);
+                      return (
+                        <p key={id} className="text-xs text-slate-500 pl-24">
+                          ↳ {t ? `${formatDate(t.date)} · ${t.description} · ${formatCurrency(t.amount)}` : 'Deleted transaction'}
+                        </p>
+                      );
+                    })}
+
+                    {matchingLineId === line.id && renderMatchPanel(line, active)}
+
+                    {creatingLineId === line.id && (
+                      <div className="bg-slate-50 border border-slate-200 rounded-md p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                        <span className="text-sm text-slate-600">
+                          Record as {line.amount > 0 ? 'income' : 'an expense'} in
+                        </span>
+                        <select
+                          value={newEntryCategory}
+                          onChange={(e) => setNewEntryCategory(e.target.value)}
+                          className="border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        >
+                          {(line.amount > 0 ? INCOME_CATEGORIES : expenseCategories).map(cat => (
+                            <option key={cat} value={cat}>{cat}</option>
+                          ))}
+                        </select>
+                        <div className="flex gap-2 sm:ml-auto">
+                          <button onClick={() => setCreatingLineId(null)} className="text-slate-600 text-sm py-1 px-3 rounded-md hover:bg-slate-100">Cancel</button>
+                          <button
+                            onClick={() => handleCreateEntry(line)}
+                            disabled={isWorking}
+                            className="bg-blue-600 text-white text-sm py-1 px-3 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            Create & Match
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {summary.unmatchedTransactions.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-slate-900 mb-2">Outstanding Book Entries</h4>
+              <p className="text-sm text-slate-500 mb-2">
+                Recorded in the books but not on this statement, e.g. uncleared cheques or deposits in transit. They carry forward to the next statement.
+              </p>
+              <table className="min-w-full">
+                <tbody>
+                  {summary.unmatchedTransactions.map(t => (
+                    <tr key={t.id} className="border-b border-slate-100">
+                      <td className="py-2 text-sm text-slate-500">{formatDate(t.date)}</td>
+                      <td className="py-2 text-sm text-slate-700">{t.description}</td>
+                      <td className="py-2 text-sm text-slate-900 text-right">{formatCurrency(amountForAccount(t, active.accountId))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Reconciliation;
@@ -0,0 +1,355 @@
+import React, { useMemo, useState } from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { RecurrenceFrequency, RecurringTemplate, TransactionType } from '../types';
+import { INCOME_CATEGORIES, RECURRENCE_FREQUENCY_LABELS, UPCOMING_RECURRING_DAYS } from '../constants';
+import { useRecurringTransactions } from '../hooks/useRecurringTransactions';
+import { useAccounts } from '../hooks/useAccounts';
+import { upcomingOccurrences } from '../utils/recurrence';
+
+interface RecurringTransactionsProps {
+  expenseCategories: string[];
+}
+
+const inputClassName = 'mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const describeSchedule = (template: RecurringTemplate): string => {
+  const label = RECURRENCE_FREQUENCY_LABELS[template.frequency];
+  return template.frequency !== 'weekly' && template.dayOfMonth ? `${label} on day ${template.dayOfMonth}` : label;
+};
+
+const RecurringTransactions: React.FC<RecurringTransactionsProps> = ({ expenseCategories }) => {
+  const { formatCurrency, formatDate } = useDisplayFormat();
+  const { templates, addTemplate, setPaused, updateOccurrence, deleteTemplate } = useRecurringTransactions();
+  const { activeAccounts } = useAccounts();
+  const today = new Date().toISOString().split('T')[0];
+
+  const [type, setType] = useState<TransactionType.INCOME | TransactionType.EXPENSE>(TransactionType.EXPENSE);
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState('');
+  const [amount, setAmount] = useState('');
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('monthly');
+  const [dayOfMonth, setDayOfMonth] = useState('');
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [editing, setEditing] = useState<{ templateId: string; date: string; amount: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const categories = type === TransactionType.INCOME ? INCOME_CATEGORIES : expenseCategories;
+  const selectedCategory = categories.includes(category) ? category : categories[0] || '';
+
+  const upcoming = useMemo(() => {
+    const until = new Date();
+    until.setDate(until.getDate() + UPCOMING_RECURRING_DAYS);
+    return upcomingOccurrences(templates, until.toISOString().split('T')[0]);
+  }, [templates]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedAmount = parseFloat(amount);
+    if (!description.trim() || !(parsedAmount > 0)) return;
+
+    setIsSaving(true);
+    try {
+      await addTemplate({
+        description: description.trim(),
+        category: selectedCategory,
+        amount: parsedAmount,
+        type,
+        frequency,
+        startDate,
+        ...(frequency !== 'weekly' && dayOfMonth && { dayOfMonth: Number(dayOfMonth) }),
+        ...(endDate && { endDate }),
+        ...(accountId && { accountId }),
+      });
+      setDescription('');
+      setAmount('');
+      setDayOfMonth('');
+      setEndDate('');
+    } catch (error) {
+      console.error('Error adding recurring transaction:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveOccurrenceAmount = async () => {
+    if (!editing) return;
+    const template = templates.find(t => t.id === editing.templateId);
+    const parsedAmount = parseFloat(editing.amount);
+    if (!template || !(parsedAmount > 0)) return;
+    try {
+      await updateOccurrence(template.id, editing.date, { ...template.overrides?.[editing.date], amount: parsedAmount });
+      setEditing(null);
+    } catch (error) {
+      console.error('Error updating occurrence:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">Recurring Transactions</h2>
+        <p className="text-slate-600 mb-4">
+          Rent, salaries and utility bills are recorded automatically when they fall due the next time the ledger is opened.
+        </p>
+
+        <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label htmlFor="recurring-type" className="block text-sm font-medium text-slate-700">Type</label>
+            <select
+              id="recurring-type"
+              value={type}
+              onChange={(e) => setType(e.target.value as TransactionType.INCOME | TransactionType.EXPENSE)}
+              className={inputClassName}
+            >
+              <option value={TransactionType.EXPENSE}>Expense</option>
+              <option value={TransactionType.INCOME}>Income</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="recurring-description" className="block text-sm font-medium text-slate-700">Description</label>
+            <input
+              id="recurring-description"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClassName}
+              placeholder="e.g. Office rent"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="recurring-category" className="block text-sm font-medium text-slate-700">Category</label>
+            <select
+              id="recurring-category"
+              value={selectedCategory}
+              onChange={(e) => setCategory(e.target.value)}
+              className={inputClassName}
+            >
+              {categories.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="recurring-amount" className="block text-sm font-medium text-slate-700">Amount</label>
+            <input
+              id="recurring-amount"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={inputClassName}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="recurring-frequency" className="block text-sm font-medium text-slate-700">Repeats</label>
+            <select
+              id="recurring-frequency"
+              value={frequency}
+              onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency)}
+              className={inputClassName}
+            >
+              {(Object.keys(RECURRENCE_FREQUENCY_LABELS) as RecurrenceFrequency[]).map(f => (
+                <option key={f} value={f}>{RECURRENCE_FREQUENCY_LABELS[f]}</option>
+              ))}
+            </select>
+          </div>
+          {frequency !== 'weekly' && (
+            <div>
+              <label htmlFor="recurring-day" className="block text-sm font-medium text-slate-700">Day of Month</label>
+              <input
+                id="recurring-day"
+                type="number"
+                min="1"
+                max="31"
+                value={dayOfMonth}
+                onChange={(e) => setDayOfMonth(e.target.value)}
+                className={inputClassName}
+                placeholder="Same as start date"
+              />
+            </div>
+          )}
+          <div>
+            <label htmlFor="recurring-start" className="block text-sm font-medium text-slate-700">Starts</label>
+            <input
+              id="recurring-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className={inputClassName}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="recurring-end" className="block text-sm font-medium text-slate-700">Ends (optional)</label>
+            <input
+              id="recurring-end"
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          {activeAccounts.length > 1 && (
+            <div>
+              <label htmlFor="recurring-account" className="block text-sm font-medium text-slate-700">Account</label>
+              <select
+                id="recurring-account"
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="">Default account</option>
+                {activeAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={isSaving || !description.trim() || !amount}
+            className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add Schedule
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900 mb-4">Schedules</h3>
+        {templates.length === 0 ? (
+          <p className="text-center text-slate-500 py-8">No recurring transactions yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr className="border-b border-slate-200">
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">Description</th>
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">Schedule</th>
+                  <th className="text-left py-2 text-sm font-medium text-slate-700">Next</th>
+                  <th className="text-right py-2 text-sm font-medium text-slate-700">Amount</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {templates.map(template => {
+                  const finished = !!template.endDate && template.nextDate > template.endDate;
+                  return (
+                    <tr key={template.id} className={`border-b border-slate-100 ${template.paused || finished ? 'opacity-60' : ''}`}>
+                      <td className="py-2 text-sm text-slate-900">
+                        {template.description}
+                        <span className="block text-xs text-slate-500">{template.category}</span>
+                      </td>
+                      <td className="py-2 text-sm text-slate-700">
+                        {describeSchedule(template)}
+                        {template.endDate && <span className="block text-xs text-slate-500">until {formatDate(template.endDate)}</span>}
+                      </td>
+                      <td className="py-2 text-sm text-slate-700">
+                        {finished ? 'Finished' : template.paused ? 'Paused' : formatDate(template.nextDate)}
+                      </td>
+                      <td className={`py-2 text-sm font-medium text-right ${template.type === TransactionType.INCOME ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(template.amount)}
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap space-x-3">
+                        {!finished && (
+                          <button
+                            onClick={() => setPaused(template.id, !template.paused)}
+                            className="text-xs text-slate-600 hover:underline"
+                          >
+                            {template.paused ? 'Resume' : 'Pause'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => {
+                            if (window.confirm(`Delete the schedule "${template.description}"? Entries already recorded are kept.`)) {
+                              deleteTemplate(template.id);
+                            }
+                          }}
+                          className="text-xs text-red-600 hover:underline"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900 mb-4">Upcoming (next {UPCOMING_RECURRING_DAYS} days)</h3>
+        {upcoming.length === 0 ? (
+          <p className="text-center text-slate-500 py-8">Nothing scheduled.</p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {upcoming.map(({ template, date, transaction }) => {
+              const isEditing = editing?.templateId === template.id && editing.date === date;
+              return (
+                <li key={`${template.id}-${date}`} className={`py-3 flex items-center justify-between gap-4 ${transaction ? '' : 'opacity-60'}`}>
+                  <div>
+                    <p className={`text-sm text-slate-900 ${transaction ? '' : 'line-through'}`}>{template.description}</p>
+                    <p className="text-xs text-slate-500">{formatDate(date)}{transaction ? '' : ' · skipped'}</p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {isEditing ? (
+                      <>
+                        <input
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          value={editing.amount}
+                          onChange={(e) => setEditing({ ...editing, amount: e.target.value })}
+                          aria-label="Amount for this occurrence"
+                          className="w-28 border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        />
+                        <button onClick={saveOccurrenceAmount} className="text-xs text-blue-600 hover:underline">Save</button>
+                        <button onClick={() => setEditing(null)} className="text-xs text-slate-600 hover:underline">Cancel</button>
+                      </>
+                    ) : (
+                      <>
+                        {transaction && (
+                          <span className={`text-sm font-medium ${template.type === TransactionType.INCOME ? 'text-green-600' : 'text-red-600'}`}>
+                            {formatCurrency(transaction.amount)}
+                          </span>
+                        )}
+                        {transaction && (
+                          <button
+                            onClick={() => setEditing({ templateId: template.id, date, amount: String(transaction.amount) })}
+                            className="text-xs text-blue-600 hover:underline"
+                          >
+                            Edit
+                          </button>
+                        )}
+                        {template.overrides?.[date] && !template.overrides[date].skip && (
+                          <button
+                            onClick={() => updateOccurrence(template.id, date, null)}
+                            className="text-xs text-slate-600 hover:underline"
+                          >
+                            Reset
+                          </button>
+                        )}
+                        <button
+                          onClick={() => updateOccurrence(template.id, date, transaction ? { ...template.overrides?.[date], skip: true } : null)}
+                          className="text-xs text-slate-600 hover:underline"
+                        >
+                          {transaction ? 'Skip' : 'Unskip'}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecurringTransactions;
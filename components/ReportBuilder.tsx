@@ -0,0 +1,343 @@
+import React, { useMemo, useState } from 'react';
+import { Member, ReportDimension, ReportMeasure, Transaction, TransactionType, UserRole } from '../types';
+import { REPORT_DIMENSION_LABELS, REPORT_MEASURE_LABELS } from '../constants';
+import { useAuth } from '../context/AuthContext';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { useFunds } from '../hooks/useFunds';
+import { useAccounts } from '../hooks/useAccounts';
+import { useSavedReports } from '../hooks/useSavedReports';
+import { useOrganizationSettings } from '../hooks/useOrganizationSettings';
+import { ReportLayout, buildPivot, pivotToCsv } from '../utils/reportBuilder';
+import { customReportFileName, customReportPdf } from '../utils/reportBuilderPdf';
+import { categoryLines } from '../utils/splits';
+
+interface ReportBuilderProps {
+  transactions: Transaction[];
+  members: Member[];
+}
+
+const inputClassName = 'mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const DIMENSIONS = Object.keys(REPORT_DIMENSION_LABELS) as ReportDimension[];
+const MEASURES = Object.keys(REPORT_MEASURE_LABELS) as ReportMeasure[];
+
+const defaultLayout = (): ReportLayout => ({
+  rowDimension: 'category',
+  measure: 'sum',
+  filters: { type: TransactionType.INCOME },
+  sortBy: 'total',
+  sortDirection: 'desc',
+});
+
+/**
+ * Custom reports: pick what to group by down the side and across the top,
+ * what to measure, and which entries to include. Layouts can be saved by name
+ * and run again later against the current books.
+ */
+const ReportBuilder: React.FC<ReportBuilderProps> = ({ transactions, members }) => {
+  const { format, formatCurrency } = useDisplayFormat();
+  const { userRole } = useAuth();
+  const { funds } = useFunds();
+  const { accounts } = useAccounts();
+  const { organization } = useOrganizationSettings();
+  const { savedReports, saveReport, deleteReport } = useSavedReports();
+
+  const [layout, setLayout] = useState<ReportLayout>(defaultLayout);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canDelete = userRole === UserRole.ADMIN || userRole === UserRole.TREASURER;
+
+  const pivot = useMemo(
+    () => buildPivot(transactions, layout, { members, funds, accounts }),
+    [transactions, layout, members, funds, accounts]
+  );
+
+  const categories = useMemo(
+    () => [...new Set(transactions.flatMap(t => categoryLines(t).map(line => line.category)))].sort(),
+    [transactions]
+  );
+  const departments = useMemo(
+    () => [...new Set(members.flatMap(m => m.departments || []))].sort(),
+    [members]
+  );
+
+  const setFilter = (field: keyof ReportLayout['filters'], value: string) =>
+    setLayout(prev => ({ ...prev, filters: { ...prev.filters, [field]: value || undefined } }));
+
+  const formatValue = (value: number) => layout.measure === 'count' ? String(value) : formatCurrency(value);
+
+  const download = (blob: Blob, fileName: string) => {
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const reportName = name.trim() || 'Custom Report';
+
+  const exportCsv = () =>
+    download(new Blob([pivotToCsv(pivot, layout)], { type: 'text/csv' }), `${customReportFileName({ name: reportName })}.csv`);
+
+  const exportPdf = () =>
+    customReportPdf(reportName, pivot, layout, organization, format).save(`${customReportFileName({ name: reportName })}.pdf`);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await saveReport(name, layout);
+      setMessage({ text: `Saved "${name.trim()}".`, isError: false });
+    } catch (error) {
+      setMessage({ text: (error as Error).message || 'Failed to save the report.', isError: true });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOpen = (id: string) => {
+    const report = savedReports.find(r => r.id === id);
+    if (!report) return;
+    setLayout({
+      rowDimension: report.rowDimension,
+      columnDimension: report.columnDimension,
+      measure: report.measure,
+      filters: report.filters || {},
+      sortBy: report.sortBy,
+      sortDirection: report.sortDirection,
+    });
+    setName(report.name);
+    setMessage(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    const report = savedReports.find(r => r.id === id);
+    if (!report || !window.confirm(`Delete the saved report "${report.name}"?`)) return;
+    try {
+      await deleteReport(id);
+      setMessage({ text: `Deleted "${report.name}".`, isError: false });
+    } catch (error) {
+      setMessage({ text: (error as Error).message || 'Failed to delete the report.', isError: true });
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+      <h2 className="text-2xl font-bold text-slate-900 mb-4">Report Builder</h2>
+      <p className="text-slate-600 mb-6">
+        Group entries by the dimensions you need, preview the table, and save the layout to run again later.
+      </p>
+
+      {savedReports.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-sm font-medium text-slate-700 mb-2">Saved reports</h3>
+          <ul className="flex flex-wrap gap-2">
+            {savedReports.map(report => (
+              <li key={report.id} className="flex items-center border border-slate-200 rounded-md text-sm">
+                <button onClick={() => handleOpen(report.id)} className="px-3 py-1 text-blue-700 hover:bg-blue-50">
+                  {report.name}
+                </button>
+                {canDelete && (
+                  <button
+                    onClick={() => handleDelete(report.id)}
+                    className="px-2 py-1 text-slate-400 hover:text-red-600 border-l border-slate-200"
+                    aria-label={`Delete ${report.name}`}
+                  >
+                    ×
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Rows</label>
+          <select
+            value={layout.rowDimension}
+            onChange={(e) => {
+              const rowDimension = e.target.value as ReportDimension;
+              setLayout(prev => ({ ...prev, rowDimension, columnDimension: prev.columnDimension === rowDimension ? undefined : prev.columnDimension }));
+            }}
+            className={inputClassName}
+          >
+            {DIMENSIONS.map(d => <option key={d} value={d}>{REPORT_DIMENSION_LABELS[d]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Columns</label>
+          <select
+            value={layout.columnDimension || ''}
+            onChange={(e) => setLayout(prev => ({ ...prev, columnDimension: (e.target.value || undefined) as ReportDimension | undefined }))}
+            className={inputClassName}
+          >
+            <option value="">None</option>
+            {DIMENSIONS.filter(d => d !== layout.rowDimension).map(d => <option key={d} value={d}>{REPORT_DIMENSION_LABELS[d]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Measure</label>
+          <select
+            value={layout.measure}
+            onChange={(e) => setLayout(prev => ({ ...prev, measure: e.target.value as ReportMeasure }))}
+            className={inputClassName}
+          >
+            {MEASURES.map(m => <option key={m} value={m}>{REPORT_MEASURE_LABELS[m]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Sort rows by</label>
+          <select
+            value={`${layout.sortBy}-${layout.sortDirection}`}
+            onChange={(e) => {
+              const [sortBy, sortDirection] = e.target.value.split('-') as [ReportLayout['sortBy'], ReportLayout['sortDirection']];
+              setLayout(prev => ({ ...prev, sortBy, sortDirection }));
+            }}
+            className={inputClassName}
+          >
+            <option value="total-desc">Total, largest first</option>
+            <option value="total-asc">Total, smallest first</option>
+            <option value="label-asc">Name, A to Z</option>
+            <option value="label-desc">Name, Z to A</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Type</label>
+          <select value={layout.filters.type || ''} onChange={(e) => setFilter('type', e.target.value)} className={inputClassName}>
+            <option value={TransactionType.INCOME}>Income</option>
+            <option value={TransactionType.EXPENSE}>Expenses</option>
+            <option value="">Both (net)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">From</label>
+          <input type="date" value={layout.filters.startDate || ''} onChange={(e) => setFilter('startDate', e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">To</label>
+          <input type="date" value={layout.filters.endDate || ''} onChange={(e) => setFilter('endDate', e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Category</label>
+          <select value={layout.filters.category || ''} onChange={(e) => setFilter('category', e.target.value)} className={inputClassName}>
+            <option value="">All categories</option>
+            {categories.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Fund</label>
+          <select value={layout.filters.fundId || ''} onChange={(e) => setFilter('fundId', e.target.value)} className={inputClassName}>
+            <option value="">All funds</option>
+            {funds.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Account</label>
+          <select value={layout.filters.accountId || ''} onChange={(e) => setFilter('accountId', e.target.value)} className={inputClassName}>
+            <option value="">All accounts</option>
+            {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Member department</label>
+          <select value={layout.filters.department || ''} onChange={(e) => setFilter('department', e.target.value)} className={inputClassName}>
+            <option value="">All departments</option>
+            {departments.map(d => <option key={d} value={d}>{d}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="bg-slate-50 border border-slate-200 rounded-lg p-4 mb-6">
+        <h3 className="text-lg font-semibold text-slate-900 mb-3">Preview</h3>
+        {pivot.rows.length === 0 ? (
+          <p className="text-sm text-amber-600">No entries match these filters.</p>
+        ) : (
+          <div className="bg-white rounded border overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">{REPORT_DIMENSION_LABELS[layout.rowDimension]}</th>
+                  {pivot.columns.map(column => (
+                    <th key={column.key} className="px-4 py-2 text-right text-sm font-medium text-slate-700">{column.label}</th>
+                  ))}
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">{REPORT_MEASURE_LABELS[layout.measure]}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pivot.rows.map(row => (
+                  <tr key={row.key} className="border-t border-slate-100">
+                    <td className="px-4 py-2 text-sm text-slate-900">{row.label}</td>
+                    {pivot.columns.map(column => (
+                      <td key={column.key} className="px-4 py-2 text-sm text-right text-slate-700">
+                        {row.cells[column.key] === undefined ? '–' : formatValue(row.cells[column.key])}
+                      </td>
+                    ))}
+                    <td className="px-4 py-2 text-sm text-right font-medium text-slate-900">{formatValue(row.total)}</td>
+                  </tr>
+                ))}
+                <tr className="border-t-2 border-slate-300 font-semibold">
+                  <td className="px-4 py-2 text-sm text-slate-900">Total</td>
+                  {pivot.columns.map(column => (
+                    <td key={column.key} className="px-4 py-2 text-sm text-right text-slate-900">{formatValue(pivot.columnTotals[column.key])}</td>
+                  ))}
+                  <td className="px-4 py-2 text-sm text-right text-slate-900">{formatValue(pivot.grandTotal)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs text-slate-500 mt-2">
+          {pivot.lineCount} {pivot.lineCount === 1 ? 'entry' : 'entries'}. Split transactions count once per category line.
+        </p>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-slate-700">Report name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Tithes by department per quarter"
+            className={inputClassName}
+          />
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !name.trim()}
+          className="bg-blue-600 text-white font-bold py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save Report'}
+        </button>
+        <button
+          onClick={exportCsv}
+          disabled={pivot.rows.length === 0}
+          className="border border-slate-300 text-slate-700 font-medium py-2 px-4 rounded-md hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Export CSV
+        </button>
+        <button
+          onClick={exportPdf}
+          disabled={pivot.rows.length === 0}
+          className="border border-slate-300 text-slate-700 font-medium py-2 px-4 rounded-md hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Export PDF
+        </button>
+      </div>
+
+      {message && (
+        <p className={`mt-4 text-sm ${message.isError ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default ReportBuilder;
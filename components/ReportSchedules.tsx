@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import { ReportRun, ReportScheduleFrequency, ScheduledReportKind, UserRole } from '../types';
+import { HEAD_OFFICE_LABEL, REPORT_SCHEDULE_FREQUENCY_LABELS, SCHEDULED_REPORT_LABELS } from '../constants';
+import { useAuth } from '../context/AuthContext';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { useBranches } from '../hooks/useBranches';
+import { useOrganizationSettings } from '../hooks/useOrganizationSettings';
+import { useReportSchedules } from '../hooks/useReportSchedules';
+import { CONSOLIDATED_SCOPE, HEAD_OFFICE_SCOPE } from '../utils/branches';
+import { firstReportRunDate, parseRecipients } from '../utils/reportSchedules';
+
+interface ReportSchedulesProps {
+  branchScope?: string; // Branch scope head office is viewing; new schedules cover the same books
+}
+
+const inputClassName = 'mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyForm = () => ({
+  name: 'Monthly financial summary',
+  report: 'financialStatements' as ScheduledReportKind,
+  frequency: 'monthly' as ReportScheduleFrequency,
+  recipients: '',
+});
+
+/**
+ * Reports the server generates and emails on a timer, such as the board's
+ * monthly statements, with every generated report kept for download.
+ */
+const ReportSchedules: React.FC<ReportSchedulesProps> = ({ branchScope }) => {
+  const { formatDate } = useDisplayFormat();
+  const { userRole, branchId } = useAuth();
+  const { branches } = useBranches();
+  const { organization } = useOrganizationSettings();
+  const { schedules, runs, addSchedule, setScheduleActive, deleteSchedule, runScheduleNow } = useReportSchedules();
+
+  const [form, setForm] = useState(emptyForm);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [runningId, setRunningId] = useState<string | null>(null);
+
+  const canManage = userRole === UserRole.ADMIN || userRole === UserRole.TREASURER;
+
+  // Schedules run on head office's books; branches get theirs through head office
+  if (branchId) return null;
+
+  const scopeLabel = (scope?: string) =>
+    !scope || scope === CONSOLIDATED_SCOPE ? 'All branches'
+      : scope === HEAD_OFFICE_SCOPE ? HEAD_OFFICE_LABEL
+        : branches.find(b => b.id === scope)?.name || scope;
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { recipients, invalid } = parseRecipients(form.recipients);
+    if (invalid.length > 0) {
+      setMessage({ text: `Not email addresses: ${invalid.join(', ')}`, isError: true });
+      return;
+    }
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const nextRunDate = firstReportRunDate(form.frequency, today(), organization.fiscalYearStartMonth);
+      await addSchedule({
+        name: form.name,
+        report: form.report,
+        frequency: form.frequency,
+        recipients,
+        nextRunDate,
+        ...(branchScope && branchScope !== CONSOLIDATED_SCOPE && { scope: branchScope }),
+      });
+      setForm(emptyForm());
+      setMessage({ text: `Scheduled. The first report goes out on ${formatDate(nextRunDate)}.`, isError: false });
+    } catch (error) {
+      setMessage({ text: (error as Error).message || 'Failed to save the schedule.', isError: true });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (id: string, active: boolean) => {
+    const schedule = schedules.find(s => s.id === id);
+    if (!schedule) return;
+    try {
+      // Resuming picks up from the next period rather than sending the ones missed
+      await setScheduleActive(id, active, active
+        ? firstReportRunDate(schedule.frequency, today(), organization.fiscalYearStartMonth)
+        : undefined);
+    } catch (error) {
+      setMessage({ text: (error as Error).message || 'Failed to update the schedule.', isError: true });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const schedule = schedules.find(s => s.id === id);
+    if (!schedule || !window.confirm(`Stop and delete "${schedule.name}"? Reports already generated are kept.`)) return;
+    try {
+      await deleteSchedule(id);
+    } catch (error) {
+      setMessage({ text: (error as Error).message || 'Failed to delete the schedule.', isError: true });
+    }
+  };
+
+  const handleRunNow = async (id: string) => {
+    setRunningId(id);
+    setMessage(null);
+    try {
+      await runScheduleNow(id);
+      setMessage({ text: 'The latest report has been generated and queued for its recipients.', isError: false });
+    } catch (error) {
+      setMessage({ text: (error as Error).message || 'Failed to run the report.', isError: true });
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const download = (run: ReportRun) => {
+    if (!run.file) return;
+    const bytes = Uint8Array.from(atob(run.file.content), c => c.charCodeAt(0));
+    const url = window.URL.createObjectURL(new Blob([bytes], { type: run.file.contentType }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = run.file.filename;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+      <h2 className="text-2xl font-bold text-slate-900 mb-4">Scheduled Reports</h2>
+      <p className="text-slate-600 mb-6">
+        Reports are generated on the first day of each period for the period just ended, and emailed to the recipients.
+      </p>
+
+      {schedules.length > 0 && (
+        <div className="overflow-x-auto mb-6">
+          <table className="min-w-full divide-y divide-slate-200">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Schedule</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Report</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Recipients</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Next</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {schedules.map(schedule => (
+                <tr key={schedule.id} className={schedule.active ? '' : 'text-slate-400'}>
+                  <td className="px-4 py-2 text-sm">
+                    <div className="font-medium">{schedule.name}</div>
+                    <div className="text-xs text-slate-500">
+                      {REPORT_SCHEDULE_FREQUENCY_LABELS[schedule.frequency]} · {scopeLabel(schedule.scope)}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 text-sm">{SCHEDULED_REPORT_LABELS[schedule.report]}</td>
+                  <td className="px-4 py-2 text-sm">{schedule.recipients.join(', ')}</td>
+                  <td className="px-4 py-2 text-sm">{schedule.active ? formatDate(schedule.nextRunDate) : 'Paused'}</td>
+                  <td className="px-4 py-2 text-sm text-right whitespace-nowrap space-x-3">
+                    {canManage && (
+                      <button
+                        onClick={() => handleRunNow(schedule.id)}
+                        disabled={runningId !== null}
+                        className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        {runningId === schedule.id ? 'Sending...' : 'Send now'}
+                      </button>
+                    )}
+                    <button onClick={() => handleToggle(schedule.id, !schedule.active)} className="text-slate-600 hover:text-slate-900">
+                      {schedule.active ? 'Pause' : 'Resume'}
+                    </button>
+                    {canManage && (
+                      <button onClick={() => handleDelete(schedule.id)} className="text-red-600 hover:text-red-800">
+                        Delete
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-2">
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Name</label>
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Report</label>
+          <select
+            value={form.report}
+            onChange={(e) => setForm(prev => ({ ...prev, report: e.target.value as ScheduledReportKind }))}
+            className={inputClassName}
+          >
+            {(Object.keys(SCHEDULED_REPORT_LABELS) as ScheduledReportKind[]).map(kind => (
+              <option key={kind} value={kind}>{SCHEDULED_REPORT_LABELS[kind]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Frequency</label>
+          <select
+            value={form.frequency}
+            onChange={(e) => setForm(prev => ({ ...prev, frequency: e.target.value as ReportScheduleFrequency }))}
+            className={inputClassName}
+          >
+            {(Object.keys(REPORT_SCHEDULE_FREQUENCY_LABELS) as ReportScheduleFrequency[]).map(frequency => (
+              <option key={frequency} value={frequency}>{REPORT_SCHEDULE_FREQUENCY_LABELS[frequency]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700">Recipients</label>
+          <input
+            type="text"
+            value={form.recipients}
+            onChange={(e) => setForm(prev => ({ ...prev, recipients: e.target.value }))}
+            placeholder="board@church.org, pastor@church.org"
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div className="md:col-span-4 flex items-center justify-between">
+          <p className="text-xs text-slate-500">Covers: {scopeLabel(branchScope)}. Quarters and years follow the fiscal year.</p>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="bg-blue-600 text-white font-bold py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Add Schedule'}
+          </button>
+        </div>
+      </form>
+
+      {message && (
+        <p className={`mb-4 text-sm ${message.isError ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+      )}
+
+      <h3 className="text-lg font-semibold text-slate-900 mt-6 mb-3">History</h3>
+      {runs.length === 0 ? (
+        <p className="text-sm text-slate-500">No reports have been generated yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 border border-slate-200 rounded-md">
+          {runs.map(run => (
+            <li key={run.id} className="flex items-center justify-between px-4 py-2 text-sm">
+              <div>
+                <span className="font-medium text-slate-900">{run.scheduleName}</span>
+                <span className="text-slate-500"> · {formatDate(run.periodStart)} to {formatDate(run.periodEnd)}</span>
+                <div className="text-xs text-slate-500">
+                  Generated {new Date(run.generatedAt).toLocaleString()}
+                  {run.requestedBy !== 'schedule' && ` by ${run.requestedBy}`}
+                  {run.status === 'generated' && run.recipients.length > 0 && ` · sent to ${run.recipients.length}`}
+                </div>
+              </div>
+              {run.status === 'failed' ? (
+                <span className="text-red-600" title={run.error}>Failed</span>
+              ) : (
+                <button onClick={() => download(run)} className="text-blue-600 hover:text-blue-800">
+                  Download
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ReportSchedules;
@@ -1,15 +1,31 @@
-import React, { useState } from 'react';
-import { Transaction, TransactionType } from '../types';
-import { formatCurrency, formatDate } from '../utils/formatters';
+import React, { useMemo, useState } from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { Member, Transaction, TransactionType } from '../types';
+import { statementOfActivitiesByFund } from '../utils/funds';
+import { categoryLines } from '../utils/splits';
+import { useFunds } from '../hooks/useFunds';
+import { useOrganizationSettings } from '../hooks/useOrganizationSettings';
+import { useFinancialStatementsPdf } from '../hooks/useFinancialStatements';
+import { CategoryRow, budgetVsActual, buildReportWorkbook, donorTotals, monthsInRange } from '../utils/reportWorkbook';
+import StatementOfActivities from './StatementOfActivities';
+import ReportBuilder from './ReportBuilder';
+import ReportSchedules from './ReportSchedules';
 
 interface ReportsProps {
   transactions: Transaction[];
+  members: Member[];
+  getBudgetsForMonth: (month: string) => { [category: string]: number };
+  branchScope?: string; // Branch scope head office is viewing
 }
 
-const Reports: React.FC<ReportsProps> = ({ transactions }) => {
+const Reports: React.FC<ReportsProps> = ({ transactions, members, getBudgetsForMonth, branchScope }) => {
+  const { format, formatCurrency } = useDisplayFormat();
   const [exportFormat, setExportFormat] = useState<'csv' | 'pdf' | 'excel'>('csv');
   const [dateRange, setDateRange] = useState({ start: '', end: '' });
   const [isExporting, setIsExporting] = useState(false);
+  const { funds } = useFunds();
+  const { organization } = useOrganizationSettings();
+  const generateStatementsPdf = useFinancialStatementsPdf();
 
   // Filter transactions based on date range
   const filteredTransactions = transactions.filter(t => {
@@ -30,18 +46,26 @@ const Reports: React.FC<ReportsProps> = ({ transactions }) => {
 
   const netIncome = income - expenses;
 
-  // Group transactions by category
-  const categorySummary = filteredTransactions.reduce((acc, t) => {
-    const key = `${t.category}-${t.type}`;
-    if (!acc[key]) {
-      acc[key] = { category: t.category, type: t.type, amount: 0, count: 0 };
-    }
-    acc[key].amount += t.amount;
-    acc[key].count += 1;
+  const fundStatement = useMemo(
+    () => statementOfActivitiesByFund(funds, transactions, dateRange.start, dateRange.end),
+    [funds, transactions, dateRange.start, dateRange.end]
+  );
+
+  // Group transactions by category (transfers are neither income nor expense);
+  // split transactions count once under each of their categories
+  const categorySummary = filteredTransactions.filter(t => t.type !== TransactionType.TRANSFER).reduce((acc, t) => {
+    categoryLines(t).forEach(line => {
+      const key = `${line.category}-${t.type}`;
+      if (!acc[key]) {
+        acc[key] = { category: line.category, type: t.type, amount: 0, count: 0 };
+      }
+      acc[key].amount += line.amount;
+      acc[key].count += 1;
+    });
     return acc;
-  }, {} as Record<string, { category: string; type: TransactionType; amount: number; count: number }>);
+  }, {} as Record<string, CategoryRow>);
 
-  const categoryData = Object.values(categorySummary).sort((a, b) => b.amount - a.amount);
+  const categoryData = (Object.values(categorySummary) as CategoryRow[]).sort((a, b) => b.amount - a.amount);
 
   // Export to CSV
   const exportToCSV = () => {
@@ -72,110 +96,58 @@ const Reports: React.FC<ReportsProps> = ({ transactions }) => {
     setIsExporting(false);
   };
 
-  // Export to PDF (simplified - would need a PDF library for full implementation)
-  const exportToPDF = () => {
+  // Export to PDF: the financial statements, generated on the server
+  const exportToPDF = async () => {
     setIsExporting(true);
-
-    const printWindow = window.open('', '_blank', 'width=800,height=600');
-    if (!printWindow) return;
-
-    const reportHTML = `
-      <html>
-        <head>
-          <title>Financial Report - Greater Works City Church</title>
-          <style>
-            body { font-family: Arial, sans-serif; margin: 20px; line-height: 1.6; }
-            .header { text-align: center; margin-bottom: 30px; border-bottom: 2px solid #333; padding-bottom: 20px; }
-            .summary { margin: 20px 0; padding: 15px; background: #f5f5f5; border-radius: 5px; }
-            .category-table { width: 100%; border-collapse: collapse; margin: 20px 0; }
-            .category-table th, .category-table td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-            .category-table th { background-color: #f2f2f2; }
-            .amount { text-align: right; }
-            .income { color: green; }
-            .expense { color: red; }
-            @media print { body { margin: 0; } }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <h1>Greater Works City Church</h1>
-            <h2>Financial Report</h2>
-            <p>Generated on: ${new Date().toLocaleDateString()}</p>
-            ${dateRange.start || dateRange.end ? `
-              <p>Period: ${dateRange.start || 'Beginning'} to ${dateRange.end || 'Present'}</p>
-            ` : ''}
-          </div>
-
-          <div class="summary">
-            <h3>Summary</h3>
-            <p><strong>Total Income:</strong> <span class="income">${formatCurrency(income)}</span></p>
-            <p><strong>Total Expenses:</strong> <span class="expense">${formatCurrency(expenses)}</span></p>
-            <p><strong>Net Income:</strong> <span class="${netIncome >= 0 ? 'income' : 'expense'}">${formatCurrency(netIncome)}</span></p>
-            <p><strong>Transactions:</strong> ${filteredTransactions.length}</p>
-          </div>
-
-          <h3>Category Breakdown</h3>
-          <table class="category-table">
-            <thead>
-              <tr>
-                <th>Category</th>
-                <th>Type</th>
-                <th class="amount">Amount</th>
-                <th>Transactions</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${categoryData.map(cat => `
-                <tr>
-                  <td>${cat.category}</td>
-                  <td>${cat.type}</td>
-                  <td class="amount ${cat.type === 'Income' ? 'income' : 'expense'}">${formatCurrency(cat.amount)}</td>
-                  <td>${cat.count}</td>
-                </tr>
-              `).join('')}
-            </tbody>
-          </table>
-
-          <h3>Detailed Transactions</h3>
-          <table class="category-table">
-            <thead>
-              <tr>
-                <th>Date</th>
-                <th>Description</th>
-                <th>Type</th>
-                <th>Category</th>
-                <th class="amount">Amount</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${filteredTransactions.map(t => `
-                <tr>
-                  <td>${formatDate(t.date)}</td>
-                  <td>${t.description}</td>
-                  <td>${t.type}</td>
-                  <td>${t.category}</td>
-                  <td class="amount ${t.type === 'Income' ? 'income' : 'expense'}">${formatCurrency(t.amount)}</td>
-                </tr>
-              `).join('')}
-            </tbody>
-          </table>
-        </body>
-      </html>
-    `;
-
-    printWindow.document.write(reportHTML);
-    printWindow.document.close();
-    printWindow.focus();
-    printWindow.print();
-
-    setIsExporting(false);
+    try {
+      const start = dateRange.start || [...filteredTransactions].map(t => t.date).sort()[0];
+      const end = dateRange.end || new Date().toISOString().split('T')[0];
+      const { filename, blob } = await generateStatementsPdf(start, end, branchScope);
+
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error generating financial statements:', error);
+      alert(`Failed to generate the financial statements: ${(error as Error).message}`);
+    } finally {
+      setIsExporting(false);
+    }
   };
 
-  // Export to Excel (simplified - creates CSV that can be opened in Excel)
-  const exportToExcel = () => {
-    // For now, we'll create a CSV that Excel can open
-    // In a full implementation, you'd use a library like xlsx or exceljs
-    exportToCSV();
+  // Export to Excel as a workbook built in the browser, so it works offline
+  const exportToExcel = async () => {
+    setIsExporting(true);
+    try {
+      const dates = filteredTransactions.map(t => t.date).sort();
+      const months = monthsInRange(dateRange.start || dates[0], dateRange.end || dates[dates.length - 1]);
+      const workbook = buildReportWorkbook({
+        organization,
+        format,
+        period: dateRange,
+        transactions: [...filteredTransactions].sort((a, b) => a.date.localeCompare(b.date)),
+        categories: categoryData,
+        budgets: budgetVsActual(filteredTransactions, months, getBudgetsForMonth),
+        donors: donorTotals(filteredTransactions),
+      });
+      const buffer = await workbook.xlsx.writeBuffer();
+
+      const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `financial-report-${new Date().toISOString().split('T')[0]}.xlsx`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting Excel workbook:', error);
+      alert('Failed to create the Excel workbook. Please try CSV instead.');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const handleExport = () => {
@@ -212,8 +184,8 @@ const Reports: React.FC<ReportsProps> = ({ transactions }) => {
               className="w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="csv">CSV</option>
-              <option value="pdf">PDF</option>
-              <option value="excel">Excel</option>
+              <option value="pdf">PDF (financial statements)</option>
+              <option value="excel">Excel (.xlsx)</option>
             </select>
           </div>
 
@@ -324,6 +296,12 @@ const Reports: React.FC<ReportsProps> = ({ transactions }) => {
           </div>
         </div>
       </div>
+
+      <StatementOfActivities statement={fundStatement} />
+
+      <ReportBuilder transactions={transactions} members={members} />
+
+      <ReportSchedules branchScope={branchScope} />
     </div>
   );
 };
@@ -0,0 +1,458 @@
+import React, { useState } from 'react';
+import { CollectionTally, CollectionType, CountingSheet, UserRole } from '../types';
+import { CEDI_DENOMINATIONS, COLLECTION_TYPES, COLLECTION_TYPE_LABELS } from '../constants';
+import { useAuth } from '../context/AuthContext';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { useAccounts } from '../hooks/useAccounts';
+import { useCountingSheets } from '../hooks/useCountingSheets';
+import { getDefaultAccount } from '../utils/accounts';
+import {
+  cashTotal,
+  counterTotal,
+  countDiscrepancies,
+  postingBlocker,
+  tallyTotal,
+} from '../utils/countingSheet';
+
+type Tallies = Record<CollectionType, CollectionTally>;
+
+const inputClassName = 'mt-1 block w-full border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+const cellInputClassName = 'w-24 border-slate-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm text-right';
+
+const copyTallies = (tallies: Tallies): Tallies => JSON.parse(JSON.stringify(tallies));
+
+// Read-only figures for one counter, used on the printed sheet
+const CounterTable: React.FC<{ tallies: Tallies }> = ({ tallies }) => {
+  const { formatCurrency } = useDisplayFormat();
+  return (
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="border-b border-slate-300">
+          <th className="text-left py-1 font-medium">Item</th>
+          {COLLECTION_TYPES.map(type => (
+            <th key={type} className="text-right py-1 font-medium">{COLLECTION_TYPE_LABELS[type]}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {CEDI_DENOMINATIONS.map(d => (
+          <tr key={d.key} className="border-b border-slate-100">
+            <td className="py-1">{d.label}</td>
+            {COLLECTION_TYPES.map(type => (
+              <td key={type} className="py-1 text-right">{tallies[type].cash[d.key] || 0}</td>
+            ))}
+          </tr>
+        ))}
+        <tr className="border-b border-slate-100">
+          <td className="py-1">Cash total</td>
+          {COLLECTION_TYPES.map(type => <td key={type} className="py-1 text-right">{formatCurrency(cashTotal(tallies[type]))}</td>)}
+        </tr>
+        <tr className="border-b border-slate-100">
+          <td className="py-1">Cheques</td>
+          {COLLECTION_TYPES.map(type => <td key={type} className="py-1 text-right">{formatCurrency(tallies[type].cheques || 0)}</td>)}
+        </tr>
+        <tr className="border-b border-slate-100">
+          <td className="py-1">MoMo</td>
+          {COLLECTION_TYPES.map(type => <td key={type} className="py-1 text-right">{formatCurrency(tallies[type].momo || 0)}</td>)}
+        </tr>
+        <tr className="font-semibold">
+          <td className="py-1">Total</td>
+          {COLLECTION_TYPES.map(type => <td key={type} className="py-1 text-right">{formatCurrency(tallyTotal(tallies[type]))}</td>)}
+        </tr>
+      </tbody>
+    </table>
+  );
+};
+
+const ServiceCollections: React.FC = () => {
+  const { formatCurrency, formatDate } = useDisplayFormat();
+  const { userRole } = useAuth();
+  const { accounts, activeAccounts } = useAccounts();
+  const { sheets, addSheet, saveCount, signCount, postSheet } = useCountingSheets();
+  const today = new Date().toISOString().split('T')[0];
+
+  const [serviceDate, setServiceDate] = useState(today);
+  const [serviceName, setServiceName] = useState('Sunday Service');
+  const [firstCounter, setFirstCounter] = useState('');
+  const [secondCounter, setSecondCounter] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [counterIndex, setCounterIndex] = useState(0);
+  const [draft, setDraft] = useState<Tallies | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canApprove = userRole === UserRole.ADMIN || userRole === UserRole.TREASURER;
+  const selected = sheets.find(s => s.id === selectedId) || null;
+  const selectedAccountId = accountId || getDefaultAccount(activeAccounts)?.id || '';
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ text: success, isError: false });
+    } catch (error) {
+      console.error('Error updating counting sheet:', error);
+      setMessage({ text: (error as Error).message, isError: true });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openCounter = (sheet: CountingSheet, index: number) => {
+    setSelectedId(sheet.id);
+    setCounterIndex(index);
+    setDraft(null);
+    setMessage(null);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const id = await addSheet({
+        serviceDate,
+        serviceName: serviceName || 'Sunday Service',
+        counterNames: [firstCounter, secondCounter],
+        ...(selectedAccountId && { accountId: selectedAccountId }),
+      });
+      if (id) {
+        setSelectedId(id);
+        setCounterIndex(0);
+        setDraft(null);
+      }
+      setFirstCounter('');
+      setSecondCounter('');
+    }, 'Counting sheet started. Each counter now enters their own count.');
+  };
+
+  const parseCount = (value: string): number => Math.max(0, Math.floor(Number(value) || 0));
+  const parseAmount = (value: string): number => Math.max(0, Number(value) || 0);
+
+  const handleApprove = (sheet: CountingSheet) => {
+    run(async () => {
+      await postSheet(sheet.id);
+    }, 'Collection approved and posted as income.');
+  };
+
+  const discrepancies = selected ? countDiscrepancies(selected) : [];
+  const blocker = selected ? postingBlocker(selected) : null;
+  const activeCounter = selected?.counters[counterIndex];
+  const isLocked = !selected || selected.status === 'posted' || !!activeCounter?.signedAt;
+  const editing = draft || (activeCounter ? activeCounter.tallies : null);
+  // Edits live in the draft until saved; null means the saved figures are shown
+  const hasUnsavedChanges = !!draft;
+
+  const updateDraft = (type: CollectionType, update: (tally: CollectionTally) => CollectionTally) => {
+    if (!editing) return;
+    const base = copyTallies(editing);
+    setDraft({ ...base, [type]: update(base[type]) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200 print:hidden">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">Service Collections</h2>
+        <p className="text-slate-600">
+          Two counters count each collection separately and sign off their own figures. Once the counts agree, a
+          treasurer or administrator approves the sheet and the totals are posted as income.
+        </p>
+        {message && (
+          <p className={`mt-3 text-sm ${message.isError ? 'text-red-600' : 'text-green-600'}`} role="alert">{message.text}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 print:hidden">
+        <div className="lg:col-span-1 space-y-6">
+          <form onSubmit={handleCreate} className="bg-white p-6 rounded-lg shadow-md border border-slate-200 space-y-4">
+            <h3 className="text-lg font-semibold text-slate-900">New Counting Sheet</h3>
+            <div>
+              <label htmlFor="collection-date" className="block text-sm font-medium text-slate-700">Service date</label>
+              <input id="collection-date" type="date" value={serviceDate} onChange={(e) => setServiceDate(e.target.value)} className={inputClassName} required />
+            </div>
+            <div>
+              <label htmlFor="collection-service" className="block text-sm font-medium text-slate-700">Service</label>
+              <input id="collection-service" type="text" value={serviceName} onChange={(e) => setServiceName(e.target.value)} className={inputClassName} required />
+            </div>
+            <div>
+              <label htmlFor="collection-counter-1" className="block text-sm font-medium text-slate-700">First counter</label>
+              <input id="collection-counter-1" type="text" value={firstCounter} onChange={(e) => setFirstCounter(e.target.value)} className={inputClassName} required />
+            </div>
+            <div>
+              <label htmlFor="collection-counter-2" className="block text-sm font-medium text-slate-700">Second counter</label>
+              <input id="collection-counter-2" type="text" value={secondCounter} onChange={(e) => setSecondCounter(e.target.value)} className={inputClassName} required />
+            </div>
+            {activeAccounts.length > 0 && (
+              <div>
+                <label htmlFor="collection-account" className="block text-sm font-medium text-slate-700">Banked into</label>
+                <select id="collection-account" value={selectedAccountId} onChange={(e) => setAccountId(e.target.value)} className={inputClassName}>
+                  {activeAccounts.map(account => <option key={account.id} value={account.id}>{account.name}</option>)}
+                </select>
+              </div>
+            )}
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Start Count
+            </button>
+          </form>
+
+          <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+            <h3 className="text-lg font-semibold text-slate-900 mb-4">Counting Sheets</h3>
+            {sheets.length === 0 ? (
+              <p className="text-center text-slate-500 py-4">No collections counted yet.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100">
+                {sheets.map(sheet => (
+                  <li key={sheet.id}>
+                    <button
+                      onClick={() => openCounter(sheet, 0)}
+                      className={`w-full text-left py-2 px-2 rounded-md ${sheet.id === selectedId ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                    >
+                      <span className="block text-sm text-slate-900">{sheet.serviceName} · {formatDate(sheet.serviceDate)}</span>
+                      <span className="block text-xs text-slate-500">
+                        {sheet.status === 'posted' ? `Posted · ${formatCurrency(counterTotal(sheet.counters[0]))}` : 'Counting'}
+                        {sheet.status !== 'posted' && countDiscrepancies(sheet).length > 0 && (
+                          <span className="text-red-600"> · counts differ</span>
+                        )}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          {!selected || !editing || !activeCounter ? (
+            <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+              <p className="text-center text-slate-500 py-8">Start a counting sheet or pick one from the list.</p>
+            </div>
+          ) : (
+            <>
+              <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                  <h3 className="text-lg font-semibold text-slate-900">{selected.serviceName} · {formatDate(selected.serviceDate)}</h3>
+                  <div className="flex rounded-md shadow-sm" role="group">
+                    {selected.counters.map((counter, index) => (
+                      <button
+                        key={index}
+                        type="button"
+                        onClick={() => openCounter(selected, index)}
+                        className={`px-3 py-1 text-sm font-medium border border-slate-200 ${index === 0 ? 'rounded-l-md' : 'rounded-r-md'} ${
+                          index === counterIndex ? 'bg-blue-600 text-white' : 'bg-white text-slate-700 hover:bg-slate-50'
+                        }`}
+                      >
+                        {counter.name}{counter.signedAt ? ' ✓' : ''}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="min-w-full">
+                    <thead>
+                      <tr className="border-b border-slate-200">
+                        <th className="text-left py-2 text-sm font-medium text-slate-700">Notes and coins (pieces)</th>
+                        {COLLECTION_TYPES.map(type => (
+                          <th key={type} className="text-right py-2 text-sm font-medium text-slate-700">{COLLECTION_TYPE_LABELS[type]}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {CEDI_DENOMINATIONS.map(d => (
+                        <tr key={d.key} className="border-b border-slate-100">
+                          <td className="py-1 text-sm text-slate-700">{d.label}</td>
+                          {COLLECTION_TYPES.map(type => (
+                            <td key={type} className="py-1 text-right">
+                              <input
+                                type="number"
+                                min="0"
+                                step="1"
+                                value={editing[type].cash[d.key] || ''}
+                                onChange={(e) => updateDraft(type, t => ({ ...t, cash: { ...t.cash, [d.key]: parseCount(e.target.value) } }))}
+                                disabled={isLocked}
+                                aria-label={`${COLLECTION_TYPE_LABELS[type]} ${d.label}`}
+                                className={cellInputClassName}
+                              />
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                      <tr className="border-b border-slate-100">
+                        <td className="py-1 text-sm text-slate-700">Cheques (GH₵)</td>
+                        {COLLECTION_TYPES.map(type => (
+                          <td key={type} className="py-1 text-right">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={editing[type].cheques || ''}
+                              onChange={(e) => updateDraft(type, t => ({ ...t, cheques: parseAmount(e.target.value) }))}
+                              disabled={isLocked}
+                              aria-label={`${COLLECTION_TYPE_LABELS[type]} cheques`}
+                              className={cellInputClassName}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                      <tr className="border-b border-slate-100">
+                        <td className="py-1 text-sm text-slate-700">MoMo (GH₵)</td>
+                        {COLLECTION_TYPES.map(type => (
+                          <td key={type} className="py-1 text-right">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={editing[type].momo || ''}
+                              onChange={(e) => updateDraft(type, t => ({ ...t, momo: parseAmount(e.target.value) }))}
+                              disabled={isLocked}
+                              aria-label={`${COLLECTION_TYPE_LABELS[type]} MoMo`}
+                              className={cellInputClassName}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                      <tr>
+                        <td className="py-2 text-sm font-semibold text-slate-900">Total</td>
+                        {COLLECTION_TYPES.map(type => (
+                          <td key={type} className="py-2 text-sm font-semibold text-slate-900 text-right">{formatCurrency(tallyTotal(editing[type]))}</td>
+                        ))}
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+
+                {selected.status !== 'posted' && (
+                  <div className="flex flex-wrap gap-3 mt-4">
+                    {!activeCounter.signedAt ? (
+                      <>
+                        <button
+                          onClick={() => run(async () => {
+                            await saveCount(selected.id, counterIndex, editing);
+                            setDraft(null);
+                          }, 'Count saved.')}
+                          disabled={isSaving}
+                          className="bg-blue-600 text-white font-medium py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          Save Count
+                        </button>
+                        <button
+                          onClick={() => run(() => signCount(selected.id, counterIndex), `Signed off by ${activeCounter.name}.`)}
+                          disabled={isSaving || hasUnsavedChanges}
+                          title={hasUnsavedChanges ? 'Save the count before signing it off' : undefined}
+                          className="bg-white text-slate-700 border border-slate-300 font-medium py-2 px-4 rounded-md hover:bg-slate-50 disabled:opacity-50"
+                        >
+                          Sign Off as {activeCounter.name}
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => run(() => saveCount(selected.id, counterIndex, activeCounter.tallies), `Sign-off withdrawn for ${activeCounter.name}.`)}
+                        disabled={isSaving}
+                        className="text-sm text-slate-600 hover:underline"
+                      >
+                        Withdraw sign-off to recount
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+                <h3 className="text-lg font-semibold text-slate-900 mb-4">Comparison</h3>
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="border-b border-slate-200">
+                      <th className="text-left py-2 text-sm font-medium text-slate-700">Collection</th>
+                      {selected.counters.map((counter, index) => (
+                        <th key={index} className="text-right py-2 text-sm font-medium text-slate-700">{counter.name}</th>
+                      ))}
+                      <th className="text-right py-2 text-sm font-medium text-slate-700">Difference</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {COLLECTION_TYPES.map(type => {
+                      const discrepancy = discrepancies.find(d => d.type === type);
+                      return (
+                        <tr key={type} className={`border-b border-slate-100 ${discrepancy ? 'bg-red-50' : ''}`}>
+                          <td className="py-2 text-sm text-slate-900">{COLLECTION_TYPE_LABELS[type]}</td>
+                          {selected.counters.map((counter, index) => (
+                            <td key={index} className="py-2 text-sm text-slate-700 text-right">{formatCurrency(tallyTotal(counter.tallies[type]))}</td>
+                          ))}
+                          <td className={`py-2 text-sm text-right ${discrepancy ? 'text-red-600 font-medium' : 'text-slate-500'}`}>
+                            {discrepancy ? formatCurrency(discrepancy.difference) : '-'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+
+                {selected.status === 'posted' ? (
+                  <p className="mt-4 text-sm text-green-700">
+                    Approved by {selected.approvedBy} and posted as {selected.transactionIds?.length || 0} income entries.
+                  </p>
+                ) : blocker && (
+                  <p className={`mt-4 text-sm ${discrepancies.length > 0 ? 'text-red-600' : 'text-slate-500'}`}>{blocker}</p>
+                )}
+
+                <div className="flex flex-wrap gap-3 mt-4">
+                  {canApprove && selected.status !== 'posted' && (
+                    <button
+                      onClick={() => handleApprove(selected)}
+                      disabled={isSaving || !!blocker}
+                      title={blocker || undefined}
+                      className="bg-green-600 text-white font-medium py-2 px-4 rounded-md hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Approve and Post
+                    </button>
+                  )}
+                  <button
+                    onClick={() => window.print()}
+                    className="bg-white text-slate-700 border border-slate-300 font-medium py-2 px-4 rounded-md hover:bg-slate-50"
+                  >
+                    Print Sheet
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {selected && (
+        <div className="hidden print:block text-slate-900">
+          <h2 className="text-xl font-bold">Service Collection Counting Sheet</h2>
+          <p className="text-sm mb-4">
+            {selected.serviceName} · {formatDate(selected.serviceDate)}
+            {selected.accountId && ` · Banked into ${accounts.find(a => a.id === selected.accountId)?.name || 'account'}`}
+          </p>
+          {selected.counters.map((counter, index) => (
+            <div key={index} className="mb-6 break-inside-avoid">
+              <h3 className="font-semibold mb-2">Counter {index + 1}: {counter.name}</h3>
+              <CounterTable tallies={counter.tallies} />
+              <p className="text-sm mt-2">
+                Signed: {counter.signedAt ? new Date(counter.signedAt).toLocaleString() : '________________________'}
+              </p>
+            </div>
+          ))}
+          {discrepancies.length > 0 && (
+            <p className="text-sm font-semibold mb-2">
+              Discrepancies: {discrepancies.map(d => `${COLLECTION_TYPE_LABELS[d.type]} ${formatCurrency(d.difference)}`).join(', ')}
+            </p>
+          )}
+          <p className="text-sm">Grand total: {formatCurrency(counterTotal(selected.counters[0]))}</p>
+          <p className="text-sm">
+            Approved: {selected.approvedBy ? `${selected.approvedBy}, ${new Date(selected.approvedAt!).toLocaleString()}` : '________________________'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ServiceCollections;
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { UserRole } from '../types';
+import { useOrganizationSettings } from '../hooks/useOrganizationSettings';
 import { Home, FileText, CreditCard, Users, User, Bell, Settings, LogOut } from 'react-feather';
 
 interface SidebarProps {
@@ -12,6 +13,7 @@ interface SidebarProps {
 
 const Sidebar: React.FC<SidebarProps> = ({ currentView, onViewChange, isOpen, onClose }) => {
   const { userRole, logout } = useAuth();
+  const { organization } = useOrganizationSettings();
   const sidebarRef = useRef<HTMLDivElement>(null);
   
   // Close sidebar when clicking outside on mobile
@@ -74,7 +76,7 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, onViewChange, isOpen, on
           {/* Logo and close button */}
           <div className="p-5 border-b border-gray-200 flex justify-between items-center bg-gradient-to-r from-blue-600 to-blue-700 text-white">
             <div>
-              <h1 className="text-xl font-bold">Greater Works</h1>
+              <h1 className="text-xl font-bold">{organization.name}</h1>
               <p className="text-xs opacity-80">Financial Ledger</p>
             </div>
             <button 
@@ -0,0 +1,84 @@
+import React from 'react';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { ActivityRow, StatementOfActivities as Statement } from '../utils/funds';
+import { FUND_RESTRICTION_LABELS } from '../constants';
+
+interface StatementOfActivitiesProps {
+  statement: Statement;
+}
+
+const StatementOfActivities: React.FC<StatementOfActivitiesProps> = ({ statement }) => {
+  const { formatCurrency } = useDisplayFormat();
+  const { funds } = statement;
+  const sum = (values: Record<string, number>) => funds.reduce((total, f) => total + (values[f.id] || 0), 0);
+
+  const renderRows = (rows: ActivityRow[]) => rows.map(row => (
+    <tr key={`${row.type}-${row.category}`} className="border-t border-slate-100">
+      <td className="px-4 py-2 text-sm text-slate-700 pl-8">{row.category}</td>
+      {funds.map(f => (
+        <td key={f.id} className="px-4 py-2 text-sm text-slate-900 text-right">
+          {row.byFund[f.id] ? formatCurrency(row.byFund[f.id]) : '-'}
+        </td>
+      ))}
+      <td className="px-4 py-2 text-sm font-medium text-slate-900 text-right">{formatCurrency(row.total)}</td>
+    </tr>
+  ));
+
+  const renderTotals = (label: string, values: Record<string, number>, emphasis = false) => (
+    <tr className={`border-t ${emphasis ? 'border-slate-300' : 'border-slate-200'}`}>
+      <td className={`px-4 py-2 text-sm ${emphasis ? 'font-bold' : 'font-medium'} text-slate-900`}>{label}</td>
+      {funds.map(f => (
+        <td key={f.id} className={`px-4 py-2 text-sm text-right ${emphasis ? 'font-bold' : 'font-medium'} ${
+          (values[f.id] || 0) < 0 ? 'text-red-600' : 'text-slate-900'
+        }`}>
+          {formatCurrency(values[f.id] || 0)}
+        </td>
+      ))}
+      <td className={`px-4 py-2 text-sm text-right ${emphasis ? 'font-bold' : 'font-medium'} text-slate-900`}>
+        {formatCurrency(sum(values))}
+      </td>
+    </tr>
+  );
+
+  const columnTotals = (rows: ActivityRow[]) =>
+    Object.fromEntries(funds.map(f => [f.id, rows.reduce((total, r) => total + (r.byFund[f.id] || 0), 0)]));
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md border border-slate-200">
+      <h3 className="text-lg font-semibold text-slate-900 mb-4">Statement of Activities by Fund</h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-sm font-medium text-slate-700" />
+              {funds.map(f => (
+                <th key={f.id} className="px-4 py-2 text-right text-sm font-medium text-slate-700">
+                  {f.name}
+                  <span className="block text-xs font-normal text-slate-500">{FUND_RESTRICTION_LABELS[f.restriction]}</span>
+                </th>
+              ))}
+              <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-t border-slate-200">
+              <td colSpan={funds.length + 2} className="px-4 py-2 text-xs font-semibold uppercase tracking-wider text-slate-500">Revenue</td>
+            </tr>
+            {renderRows(statement.revenue)}
+            {renderTotals('Total revenue', columnTotals(statement.revenue))}
+            <tr className="border-t border-slate-200">
+              <td colSpan={funds.length + 2} className="px-4 py-2 text-xs font-semibold uppercase tracking-wider text-slate-500">Expenses</td>
+            </tr>
+            {renderRows(statement.expenses)}
+            {renderTotals('Total expenses', columnTotals(statement.expenses))}
+            {renderTotals('Change in net assets', statement.changeInNetAssets, true)}
+            {renderTotals('Net assets, beginning of period', statement.beginningNetAssets)}
+            {renderTotals('Net assets, end of period', statement.endingNetAssets, true)}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default StatementOfActivities;
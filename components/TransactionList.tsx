@@ -5,24 +5,27 @@ import ImportTransactionsModal from './ImportTransactionsModal';
 import DonorReceipt from './DonorReceipt';
 import Pagination from './Pagination';
 import ConfirmationDialog from './ConfirmationDialog';
+import { useDisplayFormat } from '../context/DisplayFormatContext';
+import { useAccounts } from '../hooks/useAccounts';
+import { useOrganizationSettings } from '../hooks/useOrganizationSettings';
+import { isTransactionLocked } from '../utils/reconciliation';
+import { usePeriodClose } from '../hooks/usePeriodClose';
+import { isInClosedPeriod, reversingEntryFor } from '../utils/periods';
+import { categoryLines, isSplitTransaction } from '../utils/splits';
+import { describeOriginalAmount } from '../utils/currency';
+import { receiptNumberFor } from '../utils/receipts';
 
 interface TransactionListProps {
   transactions: Transaction[];
   onDeleteTransaction: (id: string) => Promise<void>;
   onEditTransaction: (id: string, updates: Partial<Omit<Transaction, 'id'>>) => Promise<void>;
   onImportTransactions: (transactions: Omit<Transaction, 'id'>[]) => Promise<void>;
+  onAddTransaction: (transaction: Omit<Transaction, 'id'>) => Promise<unknown>;
   expenseCategories: string[];
 }
 
-const formatCurrency = (amount: number) => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(amount);
-};
-
-const formatDate = (dateString: string) => {
-  return new Date(dateString).toLocaleDateString('en-US', {
+const formatDate = (dateString: string, locale: string) => {
+  return new Date(dateString).toLocaleDateString(locale, {
     year: 'numeric',
     month: 'short',
     day: 'numeric',
@@ -30,7 +33,8 @@ const formatDate = (dateString: string) => {
   });
 };
 
-const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDeleteTransaction, onEditTransaction, onImportTransactions, expenseCategories }) => {
+const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDeleteTransaction, onEditTransaction, onImportTransactions, onAddTransaction, expenseCategories }) => {
+  const { format, formatCurrency, formatDate: formatLongDate } = useDisplayFormat();
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [startDate, setStartDate] = useState<string>('');
@@ -45,6 +49,10 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
   const [transactionToDelete, setTransactionToDelete] = useState<Transaction | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [expandedSplitIds, setExpandedSplitIds] = useState<Set<string>>(new Set());
+  const { accounts } = useAccounts();
+  const { organization } = useOrganizationSettings();
+  const { lockedThrough } = usePeriodClose();
 
   const formatISO = (d: Date) => d.toISOString().slice(0, 10);
   const setRangeAll = () => {
@@ -80,7 +88,25 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
     // custom: leave dates as-is
   };
 
+  const toggleSplit = (id: string) => {
+    setExpandedSplitIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
   const startEdit = (transaction: Transaction) => {
+    if (isInClosedPeriod(transaction.date, lockedThrough)) {
+      showEditError(`The books are closed through ${formatDate(lockedThrough!, format.locale)}. Reverse the entry and record the correction in an open period.`);
+      return;
+    }
+    // Its lines are entered together, so a split cannot be corrected one field at a time
+    if (isSplitTransaction(transaction)) {
+      showEditError('Split transactions cannot be edited. Delete it and enter it again with the corrected lines.');
+      return;
+    }
     setEditingId(transaction.id);
     setEditForm(transaction);
 
@@ -96,6 +122,25 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
     setEditForm({});
   };
 
+  const showEditError = (message: string) => {
+    const errorMsg = document.getElementById('edit-error-msg');
+    if (errorMsg) {
+      errorMsg.textContent = message;
+      errorMsg.classList.remove('opacity-0');
+      setTimeout(() => errorMsg.classList.add('opacity-0'), 3000);
+    }
+  };
+
+  const reverseTransaction = async (transaction: Transaction) => {
+    if (!window.confirm(`Post an adjusting entry dated today that reverses "${transaction.description}"?`)) return;
+    try {
+      await onAddTransaction(reversingEntryFor(transaction, new Date().toISOString().split('T')[0]));
+    } catch (error) {
+      console.error('Error posting reversing entry:', error);
+      showEditError((error as Error).message);
+    }
+  };
+
   const saveEdit = async () => {
     if (editingId && editForm.description && editForm.amount && editForm.date && editForm.type && editForm.category) {
       // Build update object, excluding undefined donor fields for expense transactions
@@ -113,17 +158,17 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
         if (editForm.donorContact) updates.donorContact = editForm.donorContact;
       }
 
-      await onEditTransaction(editingId, updates);
-      setEditingId(null);
-      setEditForm({});
+      try {
+        await onEditTransaction(editingId, updates);
+        setEditingId(null);
+        setEditForm({});
+      } catch (error) {
+        console.error('Error saving transaction:', error);
+        showEditError((error as Error).message);
+      }
     } else {
       // Show validation feedback
-      const errorMsg = document.getElementById('edit-error-msg');
-      if (errorMsg) {
-        errorMsg.textContent = 'Please fill in all required fields.';
-        errorMsg.classList.remove('opacity-0');
-        setTimeout(() => errorMsg.classList.add('opacity-0'), 3000);
-      }
+      showEditError('Please fill in all required fields.');
     }
   };
 
@@ -139,6 +184,9 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
     setEditForm(prev => ({ ...prev, [field]: value }));
   };
 
+  const accountName = (accountId?: string) =>
+    accounts.find(a => a.id === accountId)?.name || 'Default account';
+
   const renderDonorName = (transaction: Transaction) => {
     if (editingId === transaction.id) {
       return (
@@ -212,7 +260,9 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
       setTransactionToDelete(null);
     } catch (error) {
       console.error('Error deleting transaction:', error);
-      // You could add a toast notification here
+      setShowDeleteConfirmation(false);
+      setTransactionToDelete(null);
+      showEditError((error as Error).message);
     } finally {
       setIsDeleting(false);
     }
@@ -229,13 +279,13 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
     return transactions.filter((t) => {
       const matchesSearch = !lowercasedTerm
         || t.description.toLowerCase().includes(lowercasedTerm)
-        || t.category.toLowerCase().includes(lowercasedTerm);
+        || categoryLines(t).some(line => line.category.toLowerCase().includes(lowercasedTerm));
 
       // Dates are in YYYY-MM-DD; string compare is safe for range checks
       const meetsStart = !startDate || t.date >= startDate;
       const meetsEnd = !endDate || t.date <= endDate;
 
-      const matchesCategory = categoryFilter === 'all' || t.category === categoryFilter;
+      const matchesCategory = categoryFilter === 'all' || categoryLines(t).some(line => line.category === categoryFilter);
 
       return matchesSearch && meetsStart && meetsEnd && matchesCategory;
     });
@@ -246,7 +296,7 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
     let expenses = 0;
     for (const t of filteredTransactions) {
       if (t.type === TransactionType.INCOME) income += t.amount;
-      else expenses += t.amount;
+      else if (t.type === TransactionType.EXPENSE) expenses += t.amount;
     }
     return { filteredIncome: income, filteredExpenses: expenses, filteredNet: income - expenses };
   }, [filteredTransactions]);
@@ -290,21 +340,6 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
   const printDonorReceipt = (transaction: Transaction) => {
     if (!transaction.donorName && transaction.type !== TransactionType.INCOME) return;
 
-    const formatCurrency = (amount: number) => {
-      return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-      }).format(amount);
-    };
-
-    const formatDate = (dateString: string) => {
-      return new Date(dateString).toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-      });
-    };
-
     const receiptHTML = `
       <html>
         <head>
@@ -328,23 +363,29 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
             .footer { text-align: center; border-top: 2px solid #64748b; padding-top: 1.5rem; }
             .thanks { color: #374151; margin-bottom: 1rem; }
             .small { font-size: 0.75rem; color: #6b7280; }
+            .receipt-number { font-weight: 600; color: #1f2937; }
+            .void { color: #dc2626; font-weight: bold; border: 2px solid #dc2626; padding: 0 0.5rem; margin-left: 0.5rem; }
             @media print { body { margin: 0; } }
           </style>
         </head>
         <body>
           <header class="header">
-            <h1 class="title">Greater Works City Church</h1>
-            <p class="subtitle">Financial Ledger - Donation Receipt</p>
+            <h1 class="title">${organization.name}</h1>
+            <p class="subtitle">${organization.address}</p>
+            ${organization.registrationNumber ? `<p class="subtitle">Registration No. ${organization.registrationNumber}</p>` : ''}
+            <p class="subtitle">Donation Receipt</p>
+            <p class="receipt-number">Receipt No. ${receiptNumberFor(transaction)}${transaction.deletedAt ? '<span class="void">VOID</span>' : ''}</p>
           </header>
 
           <div class="grid">
             <div class="section">
               <h3 class="section-title">Donation Details</h3>
               <div class="details">
-                <p><strong>Date:</strong> ${formatDate(transaction.date)}</p>
+                <p><strong>Date:</strong> ${formatLongDate(transaction.date)}</p>
                 <p><strong>Description:</strong> ${transaction.description}</p>
                 <p><strong>Category:</strong> ${transaction.category}</p>
                 <p><strong>Amount:</strong> <span class="amount">${formatCurrency(transaction.amount)}</span></p>
+                ${describeOriginalAmount(transaction, format) ? `<p><strong>Received as:</strong> ${describeOriginalAmount(transaction, format)}</p>` : ''}
               </div>
             </div>
 
@@ -359,10 +400,10 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
 
           <footer class="footer">
             <p class="thanks">
-              Thank you for your generous contribution to Greater Works City Church. Your support helps us continue our mission and ministry work.
+              ${organization.receiptFooter}
             </p>
             <p class="small">Transaction ID: ${transaction.id}</p>
-            <p class="small">Receipt generated on ${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</p>
+            <p class="small">Receipt generated on ${new Date().toLocaleDateString(format.locale, { year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit', timeZone: organization.timezone })}</p>
           </footer>
         </body>
       </html>
@@ -517,7 +558,8 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
                 </thead>
                 <tbody className="bg-white divide-y divide-slate-200">
                     {paginatedTransactions.map((t) => (
-                    <tr key={t.id} className="hover:bg-slate-50">
+                    <React.Fragment key={t.id}>
+                    <tr className="hover:bg-slate-50">
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
                           {editingId === t.id ? (
                             <input
@@ -531,7 +573,7 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
                             />
                           ) : (
                             <span onClick={() => startEdit(t)} className="cursor-pointer hover:bg-slate-100 p-1 rounded transition-colors duration-200">
-                              {formatDate(t.date)}
+                              {formatDate(t.date, format.locale)}
                             </span>
                           )}
                         </td>
@@ -548,11 +590,19 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
                           ) : (
                             <span onClick={() => startEdit(t)} className="cursor-pointer hover:bg-slate-100 p-1 rounded transition-colors duration-200">
                               {t.description}
+                              {(isTransactionLocked(t, accounts) || isInClosedPeriod(t.date, lockedThrough)) && (
+                                <span
+                                  className="ml-2 text-xs text-slate-400"
+                                  title={isInClosedPeriod(t.date, lockedThrough) ? 'In a closed accounting period' : 'Reconciled with a bank statement'}
+                                >
+                                  🔒
+                                </span>
+                              )}
                             </span>
                           )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
-                          {editingId === t.id ? (
+                          {editingId === t.id && t.type !== TransactionType.TRANSFER ? (
                             <select
                               value={editForm.type || ''}
                               onChange={(e) => {
@@ -572,7 +622,20 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
                           )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
-                          {editingId === t.id ? (
+                          {t.type === TransactionType.TRANSFER ? (
+                            <span onClick={() => startEdit(t)} className="cursor-pointer hover:bg-slate-100 p-1 rounded">
+                              {accountName(t.accountId)} → {accountName(t.toAccountId)}
+                            </span>
+                          ) : isSplitTransaction(t) ? (
+                            <button
+                              type="button"
+                              onClick={() => toggleSplit(t.id)}
+                              aria-expanded={expandedSplitIds.has(t.id)}
+                              className="hover:bg-slate-100 p-1 rounded text-slate-600"
+                            >
+                              {expandedSplitIds.has(t.id) ? '▾' : '▸'} Split ({t.splits!.length})
+                            </button>
+                          ) : editingId === t.id ? (
                             <select
                               value={editForm.category || ''}
                               onChange={(e) => handleEditChange('category', e.target.value)}
@@ -594,8 +657,11 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
                           {renderDonorContact(t)}
                         </td>
-                        <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-semibold ${t.type === TransactionType.INCOME ? 'text-green-600' : 'text-red-600'}`}>
-                          {editingId === t.id ? (
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-semibold ${
+                          t.type === TransactionType.INCOME ? 'text-green-600' : t.type === TransactionType.TRANSFER ? 'text-blue-600' : 'text-red-600'
+                        }`}>
+                          {/* Foreign-currency amounts are derived, so they are not edited inline */}
+                          {editingId === t.id && !t.originalCurrency ? (
                             <input
                               type="number"
                               value={editForm.amount || ''}
@@ -606,9 +672,12 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
                             />
                           ) : (
                             <span onClick={() => startEdit(t)} className="cursor-pointer hover:bg-slate-100 p-1 rounded">
-                              {t.type === TransactionType.INCOME ? '+' : '-'} {formatCurrency(t.amount)}
+                              {t.type === TransactionType.INCOME ? '+' : t.type === TransactionType.TRANSFER ? '⇄' : '-'} {formatCurrency(t.amount)}
                             </span>
                           )}
+                          {t.originalCurrency && (
+                            <span className="block text-xs font-normal text-slate-500">{describeOriginalAmount(t, format)}</span>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
                           <div className="flex items-center gap-2">
@@ -674,20 +743,42 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
                                   </svg>
                                 </button>
                               )}
-                              <button onClick={() => startEdit(t)} className="text-blue-600 hover:text-blue-900" aria-label={`Edit transaction ${t.description}`}>
-                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                                </svg>
-                              </button>
-                              <button onClick={() => handleDeleteClick(t)} className="text-red-600 hover:text-red-900" aria-label={`Delete transaction ${t.description}`}>
-                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                                </svg>
-                              </button>
+                              {isInClosedPeriod(t.date, lockedThrough) ? (
+                                transactions.some(other => other.adjustsTransactionId === t.id) ? (
+                                  <span className="text-xs text-slate-400">Reversed</span>
+                                ) : (
+                                  <button onClick={() => reverseTransaction(t)} className="text-xs text-blue-600 hover:text-blue-900" aria-label={`Reverse transaction ${t.description}`}>
+                                    Reverse
+                                  </button>
+                                )
+                              ) : (
+                                <>
+                                  <button onClick={() => startEdit(t)} className="text-blue-600 hover:text-blue-900" aria-label={`Edit transaction ${t.description}`}>
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                                    </svg>
+                                  </button>
+                                  <button onClick={() => handleDeleteClick(t)} className="text-red-600 hover:text-red-900" aria-label={`Delete transaction ${t.description}`}>
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                    </svg>
+                                  </button>
+                                </>
+                              )}
                             </div>
                           )}
                         </td>
                     </tr>
+                    {isSplitTransaction(t) && expandedSplitIds.has(t.id) && t.splits!.map((line, index) => (
+                      <tr key={`${t.id}-split-${index}`} className="bg-slate-50">
+                        <td colSpan={3} />
+                        <td className="px-6 py-2 whitespace-nowrap text-sm text-slate-600">{line.category}</td>
+                        <td colSpan={2} />
+                        <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-slate-600">{formatCurrency(line.amount)}</td>
+                        <td colSpan={2} />
+                      </tr>
+                    ))}
+                    </React.Fragment>
                     ))}
                 </tbody>
                 </table>
@@ -767,7 +858,7 @@ const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelet
       <ConfirmationDialog
         isOpen={showDeleteConfirmation}
         title="Delete Transaction"
-        message={`Are you sure you want to delete this transaction "${transactionToDelete?.description}"? This action cannot be undone and will permanently remove the transaction data.`}
+        message={`Are you sure you want to delete this transaction "${transactionToDelete?.description}"? It will be removed from the books and can be restored from the Audit Log.${transactionToDelete?.receiptNumber ? ` Receipt ${transactionToDelete.receiptNumber} stays in the sequence, marked VOID.` : ''}`}
         confirmText="Delete Transaction"
         cancelText="Cancel"
         onConfirm={handleDeleteConfirm}
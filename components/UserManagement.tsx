@@ -1,23 +1,37 @@
-import React, { useState, useEffect } from 'react';
-import { collection, query, onSnapshot, doc, updateDoc, Timestamp } from 'firebase/firestore';
-import { db } from '../firebase';
+import React, { useState } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { UserRole } from '../types';
+import { useOrganization } from '../hooks/useOrganization';
+import { useBranches } from '../hooks/useBranches';
+import { HEAD_OFFICE_LABEL } from '../constants';
 
 interface UserData {
   id: string;
   email: string;
   role: UserRole;
+  branchId: string | null;
   createdAt: Date;
 }
 
 const UserManagement: React.FC = () => {
   const { user: currentUser, userRole } = useAuth();
-  const [users, setUsers] = useState<UserData[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { organization, members, invites, inviteMember, cancelInvite, updateMemberRole, updateMemberBranch, removeMember } = useOrganization();
+  const { branches } = useBranches();
   const [searchTerm, setSearchTerm] = useState('');
   const [filterRole, setFilterRole] = useState<string>('all');
   const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<UserRole>(UserRole.VIEWER);
+  const [inviteBranchId, setInviteBranchId] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const users: UserData[] = members.map(m => ({
+    id: m.uid,
+    email: m.email || 'No email',
+    role: m.role || UserRole.VIEWER,
+    branchId: m.branchId || null,
+    createdAt: new Date(m.joinedAt),
+  }));
 
   // Only admins can access this component
   if (userRole !== UserRole.ADMIN) {
@@ -30,32 +44,6 @@ const UserManagement: React.FC = () => {
     );
   }
 
-  useEffect(() => {
-    if (!currentUser) return;
-
-    const usersRef = collection(db, 'users');
-    const q = query(usersRef);
-
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const usersData = snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          email: data.email || 'No email',
-          role: data.role || UserRole.VIEWER,
-          createdAt: data.createdAt?.toDate() || new Date(),
-        } as UserData;
-      });
-      setUsers(usersData);
-      setLoading(false);
-    }, (error) => {
-      console.error('Error fetching users:', error);
-      setLoading(false);
-    });
-
-    return () => unsubscribe();
-  }, [currentUser]);
-
   const handleRoleChange = async (userId: string, newRole: UserRole) => {
     if (!currentUser || userId === currentUser.uid) {
       alert('You cannot change your own role!');
@@ -64,9 +52,7 @@ const UserManagement: React.FC = () => {
 
     setUpdatingUserId(userId);
     try {
-      const userDocRef = doc(db, 'users', userId);
-      await updateDoc(userDocRef, { role: newRole });
-      console.log(`Updated user ${userId} to role: ${newRole}`);
+      await updateMemberRole(userId, newRole);
     } catch (error) {
       console.error('Error updating user role:', error);
       alert('Failed to update user role. Please try again.');
@@ -75,6 +61,48 @@ const UserManagement: React.FC = () => {
     }
   };
 
+  const handleBranchChange = async (userId: string, branchId: string | null) => {
+    setUpdatingUserId(userId);
+    try {
+      await updateMemberBranch(userId, branchId);
+    } catch (error) {
+      console.error('Error updating user branch:', error);
+      alert('Failed to update user branch. Please try again.');
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  const branchName = (branchId: string | null) =>
+    branchId ? branches.find(b => b.id === branchId)?.name || branchId : HEAD_OFFICE_LABEL;
+
+  const handleRemove = async (userId: string, email: string) => {
+    if (!window.confirm(`Remove ${email} from ${organization?.name || 'the organization'}? They will lose access to its data.`)) return;
+
+    setUpdatingUserId(userId);
+    try {
+      await removeMember(userId);
+    } catch (error) {
+      console.error('Error removing member:', error);
+      alert('Failed to remove member. Please try again.');
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    try {
+      await inviteMember(inviteEmail, inviteRole, inviteBranchId || null);
+      setMessage({ text: `Invited ${inviteEmail}. They join when they next sign in with that email.`, isError: false });
+      setInviteEmail('');
+    } catch (error) {
+      console.error('Error inviting member:', error);
+      setMessage({ text: (error as Error).message, isError: true });
+    }
+  };
+
   const getRoleBadgeColor = (role: UserRole) => {
     switch (role) {
       case UserRole.ADMIN:
@@ -120,23 +148,74 @@ const UserManagement: React.FC = () => {
     viewer: users.filter(u => u.role === UserRole.VIEWER).length,
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center p-12">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading users...</p>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="bg-white p-6 rounded-lg shadow-md">
         <h2 className="text-2xl font-bold text-gray-800 mb-2">User Management</h2>
-        <p className="text-gray-600">Manage user roles and permissions</p>
+        <p className="text-gray-600">Manage who can access {organization?.name || 'this organization'} and their roles</p>
+      </div>
+
+      {/* Invitations */}
+      <div className="bg-white p-6 rounded-lg shadow-md">
+        <h3 className="text-lg font-bold text-gray-800 mb-4">Invite a User</h3>
+        <form onSubmit={handleInvite} className="flex flex-col md:flex-row gap-4 md:items-end">
+          <div className="flex-1">
+            <label htmlFor="invite-email" className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+            <input
+              id="invite-email"
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              required
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div className="w-full md:w-48">
+            <label htmlFor="invite-role" className="block text-sm font-medium text-gray-700 mb-2">Role</label>
+            <select
+              id="invite-role"
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as UserRole)}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value={UserRole.ADMIN}>Admin</option>
+              <option value={UserRole.TREASURER}>Treasurer</option>
+              <option value={UserRole.EDITOR}>Editor</option>
+              <option value={UserRole.VIEWER}>Viewer</option>
+            </select>
+          </div>
+          {branches.length > 0 && (
+            <div className="w-full md:w-48">
+              <label htmlFor="invite-branch" className="block text-sm font-medium text-gray-700 mb-2">Branch</label>
+              <select
+                id="invite-branch"
+                value={inviteBranchId}
+                onChange={(e) => setInviteBranchId(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">{HEAD_OFFICE_LABEL}</option>
+                {branches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+              </select>
+            </div>
+          )}
+          <button type="submit" className="bg-blue-600 text-white font-medium py-2 px-4 rounded-lg hover:bg-blue-700">
+            Send Invite
+          </button>
+        </form>
+        {message && (
+          <p className={`mt-3 text-sm ${message.isError ? 'text-red-600' : 'text-green-600'}`} role="alert">{message.text}</p>
+        )}
+        {invites.length > 0 && (
+          <ul className="mt-4 divide-y divide-gray-100">
+            {invites.map(invite => (
+              <li key={invite.email} className="py-2 flex items-center justify-between text-sm">
+                <span className="text-gray-800">{invite.email} <span className="text-gray-500">· {invite.role}{branches.length > 0 && ` · ${branchName(invite.branchId || null)}`} · invited by {invite.invitedBy}</span></span>
+                <button onClick={() => cancelInvite(invite.email)} className="text-xs text-red-600 hover:underline">Cancel</button>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
       {/* Statistics Cards */}
@@ -243,6 +322,9 @@ const UserManagement: React.FC = () => {
                           {user.id === currentUser?.uid && (
                             <div className="text-xs text-blue-600 font-medium">(You)</div>
                           )}
+                          {branches.length > 0 && (
+                            <div className="text-xs text-gray-500">{branchName(user.branchId)}</div>
+                          )}
                         </div>
                       </div>
                     </td>
@@ -259,17 +341,38 @@ const UserManagement: React.FC = () => {
                       {user.id === currentUser?.uid ? (
                         <span className="text-xs text-gray-500 italic">Cannot change own role</span>
                       ) : (
-                        <select
-                          value={user.role}
-                          onChange={(e) => handleRoleChange(user.id, e.target.value as UserRole)}
-                          disabled={updatingUserId === user.id}
-                          className="text-sm border border-gray-300 rounded-lg px-3 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                          <option value={UserRole.ADMIN}>Admin</option>
-                          <option value={UserRole.TREASURER}>Treasurer</option>
-                          <option value={UserRole.EDITOR}>Editor</option>
-                          <option value={UserRole.VIEWER}>Viewer</option>
-                        </select>
+                        <div className="flex items-center gap-3">
+                          <select
+                            value={user.role}
+                            onChange={(e) => handleRoleChange(user.id, e.target.value as UserRole)}
+                            disabled={updatingUserId === user.id}
+                            className="text-sm border border-gray-300 rounded-lg px-3 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            <option value={UserRole.ADMIN}>Admin</option>
+                            <option value={UserRole.TREASURER}>Treasurer</option>
+                            <option value={UserRole.EDITOR}>Editor</option>
+                            <option value={UserRole.VIEWER}>Viewer</option>
+                          </select>
+                          {branches.length > 0 && (
+                            <select
+                              value={user.branchId || ''}
+                              onChange={(e) => handleBranchChange(user.id, e.target.value || null)}
+                              disabled={updatingUserId === user.id}
+                              aria-label={`Branch for ${user.email}`}
+                              className="text-sm border border-gray-300 rounded-lg px-3 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              <option value="">{HEAD_OFFICE_LABEL}</option>
+                              {branches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                            </select>
+                          )}
+                          <button
+                            onClick={() => handleRemove(user.id, user.email)}
+                            disabled={updatingUserId === user.id}
+                            className="text-xs text-red-600 hover:underline disabled:opacity-50"
+                          >
+                            Remove
+                          </button>
+                        </div>
                       )}
                     </td>
                   </tr>
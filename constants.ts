@@ -1,3 +1,4 @@
+import { AccountKind, ApprovalPolicy, AuditEntityType, CollectionType, CurrencySettings, OrganizationSettings, Fund, FundRestriction, RecurrenceFrequency, ReportDimension, ReportMeasure, ReportScheduleFrequency, ScheduledReportKind } from './types';
 
 export const INCOME_CATEGORIES: string[] = [
   'Tithes',
@@ -6,6 +7,10 @@ export const INCOME_CATEGORIES: string[] = [
   'Building Fund',
   'Special Events',
   'Other',
+  // Appended so existing income accounts keep their ledger codes
+  'Thanksgiving',
+  'Seed Offerings',
+  'Branch Remittances',
 ];
 
 export const EXPENSE_CATEGORIES: string[] = [
@@ -19,4 +24,225 @@ export const EXPENSE_CATEGORIES: string[] = [
   'Administrative',
   'Special Events',
   'Other',
+  'Remittance to Head Office',
 ];
+
+// Fixed accounts in the chart of accounts. Category accounts (4xxx/5xxx)
+// are generated from the income and expense categories in utils/ledger.ts.
+export const CASH_ACCOUNT_CODE = '1000';
+export const ACCOUNTS_PAYABLE_CODE = '2000';
+export const NET_ASSETS_ACCOUNT_CODE = '3000';
+export const INCOME_ACCOUNT_BASE = 4000;
+export const EXPENSE_ACCOUNT_BASE = 5000;
+// Bank and cash accounts are numbered 1010, 1020, ... under Cash and Bank
+export const BANK_ACCOUNT_BASE = 1000;
+
+// Category shown for transactions split across several categories
+export const SPLIT_CATEGORY = 'Split';
+
+export const TRANSFER_CATEGORY = 'Transfer';
+
+export const ACCOUNT_KIND_LABELS: Record<AccountKind, string> = {
+  bank: 'Bank Account',
+  mobile_money: 'Mobile Money',
+  cash: 'Cash',
+  savings: 'Savings Account',
+};
+
+export const DEFAULT_ACCOUNTS: { name: string; kind: AccountKind }[] = [
+  { name: 'Main Bank Account', kind: 'bank' },
+  { name: 'MTN MoMo Wallet', kind: 'mobile_money' },
+  { name: 'Petty Cash', kind: 'cash' },
+  { name: 'Building Fund Savings', kind: 'savings' },
+];
+
+// Money with no donor restriction; transactions without a fund belong here
+export const GENERAL_FUND_ID = 'general';
+
+export const FUND_RESTRICTION_LABELS: Record<FundRestriction, string> = {
+  unrestricted: 'Unrestricted',
+  temporarily_restricted: 'Temporarily Restricted',
+  permanently_restricted: 'Permanently Restricted (Endowment)',
+};
+
+export const DEFAULT_FUNDS: Fund[] = [
+  { id: GENERAL_FUND_ID, name: 'General Fund', restriction: 'unrestricted', description: 'Day-to-day ministry and operations' },
+  { id: 'building', name: 'Building Fund', restriction: 'temporarily_restricted', description: 'Church building project only' },
+  { id: 'endowment', name: 'Endowment', restriction: 'permanently_restricted', description: 'Principal held in perpetuity' },
+];
+
+// Income categories that imply a fund, for transactions recorded before funds existed
+export const CATEGORY_FUNDS: Record<string, string> = {
+  'Building Fund': 'building',
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  transaction: 'Transaction',
+  member: 'Member',
+  budget: 'Budget',
+  category: 'Categories',
+  smsSettings: 'SMS Settings',
+  userRole: 'User Role',
+  approvalPolicy: 'Approval Policy',
+  countingSheet: 'Counting Sheet',
+  currencySettings: 'Currency Settings',
+  exchangeRate: 'Exchange Rate',
+  organization: 'Organization Settings',
+  organizationMember: 'Organization Member',
+  branch: 'Branch',
+  remittance: 'Remittance',
+  campaign: 'Campaign',
+  pledge: 'Pledge',
+  savedReport: 'Saved Report',
+  reportSchedule: 'Report Schedule',
+};
+
+// Off by default so expenses keep posting directly until a church turns approvals on
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  enabled: false,
+  secondApprovalThreshold: null,
+  pastorApprovalThreshold: null,
+};
+
+export const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
+
+export const REPORT_DIMENSION_LABELS: Record<ReportDimension, string> = {
+  category: 'Category',
+  month: 'Month',
+  quarter: 'Quarter',
+  donor: 'Donor',
+  department: 'Member Department',
+  fund: 'Fund',
+  account: 'Account',
+};
+
+export const REPORT_MEASURE_LABELS: Record<ReportMeasure, string> = {
+  sum: 'Total',
+  count: 'Count',
+  average: 'Average',
+};
+
+export const REPORT_SCHEDULE_FREQUENCY_LABELS: Record<ReportScheduleFrequency, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annual: 'Annual',
+};
+
+export const SCHEDULED_REPORT_LABELS: Record<ScheduledReportKind, string> = {
+  financialStatements: 'Financial statements (PDF)',
+  transactionsCsv: 'Transactions (CSV)',
+};
+
+// How far ahead the recurring view lists scheduled entries
+export const UPCOMING_RECURRING_DAYS = 60;
+
+export const COLLECTION_TYPES: CollectionType[] = ['tithe', 'offering', 'thanksgiving', 'seed'];
+
+export const COLLECTION_TYPE_LABELS: Record<CollectionType, string> = {
+  tithe: 'Tithe',
+  offering: 'Offering',
+  thanksgiving: 'Thanksgiving',
+  seed: 'Seed',
+};
+
+// Income category each collection posts to
+export const COLLECTION_TYPE_CATEGORIES: Record<CollectionType, string> = {
+  tithe: 'Tithes',
+  offering: 'Offerings',
+  thanksgiving: 'Thanksgiving',
+  seed: 'Seed Offerings',
+};
+
+// Ghana cedi notes and coins on the counting sheet, largest first
+export const CEDI_DENOMINATIONS: { key: string; label: string; value: number }[] = [
+  { key: 'note200', label: 'GH₵200 note', value: 200 },
+  { key: 'note100', label: 'GH₵100 note', value: 100 },
+  { key: 'note50', label: 'GH₵50 note', value: 50 },
+  { key: 'note20', label: 'GH₵20 note', value: 20 },
+  { key: 'note10', label: 'GH₵10 note', value: 10 },
+  { key: 'note5', label: 'GH₵5 note', value: 5 },
+  { key: 'note2', label: 'GH₵2 note', value: 2 },
+  { key: 'note1', label: 'GH₵1 note', value: 1 },
+  { key: 'coin2', label: 'GH₵2 coin', value: 2 },
+  { key: 'coin1', label: 'GH₵1 coin', value: 1 },
+  { key: 'coin50p', label: '50 pesewas', value: 0.5 },
+  { key: 'coin20p', label: '20 pesewas', value: 0.2 },
+  { key: 'coin10p', label: '10 pesewas', value: 0.1 },
+  { key: 'coin5p', label: '5 pesewas', value: 0.05 },
+];
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  baseCurrency: 'GHS',
+  locale: 'en-GH',
+};
+
+// Currencies offered for the base currency and for gifts received from abroad
+export const SUPPORTED_CURRENCIES: { code: string; name: string }[] = [
+  { code: 'GHS', name: 'Ghana Cedi' },
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'NGN', name: 'Nigerian Naira' },
+  { code: 'CAD', name: 'Canadian Dollar' },
+];
+
+export const SUPPORTED_LOCALES: { code: string; name: string }[] = [
+  { code: 'en-GH', name: 'English (Ghana)' },
+  { code: 'en-GB', name: 'English (United Kingdom)' },
+  { code: 'en-US', name: 'English (United States)' },
+  { code: 'fr-FR', name: 'French' },
+];
+
+// Used until an administrator saves the organization settings; deployments
+// can preset them through the VITE_CHURCH_* variables
+export const DEFAULT_ORGANIZATION_SETTINGS: OrganizationSettings = {
+  name: import.meta.env.VITE_CHURCH_NAME || 'Greater Works City Church',
+  logoUrl: '/GWCC-logo.png',
+  address: import.meta.env.VITE_CHURCH_ADDRESS || '123 Faith Street, Accra, Ghana',
+  registrationNumber: import.meta.env.VITE_CHURCH_TAX_ID || '',
+  phone: import.meta.env.VITE_CHURCH_PHONE || '',
+  email: import.meta.env.VITE_CHURCH_EMAIL || '',
+  website: import.meta.env.VITE_CHURCH_WEBSITE || '',
+  pastorName: import.meta.env.VITE_CHURCH_PASTOR_NAME || '',
+  fiscalYearStartMonth: 1,
+  timezone: 'Africa/Accra',
+  receiptFooter: 'Thank you for your generous contribution. Your support helps us continue our mission and ministry work.',
+  receiptPrefix: 'GWCC',
+  minimumReserve: 0,
+};
+
+// Largest logo accepted, since it is stored inline in the settings document
+export const MAX_LOGO_BYTES = 200 * 1024;
+
+export const SUPPORTED_TIMEZONES: string[] = [
+  'Africa/Accra',
+  'Africa/Lagos',
+  'Europe/London',
+  'America/New_York',
+  'America/Toronto',
+];
+
+// Records without a branchId belong to head office
+export const HEAD_OFFICE_LABEL = 'Head Office';
+
+// Categories for the two sides of a branch remittance
+export const REMITTANCE_EXPENSE_CATEGORY = 'Remittance to Head Office';
+export const REMITTANCE_INCOME_CATEGORY = 'Branch Remittances';
+
+// A tenth of tithes, the usual tithe of tithes
+export const DEFAULT_REMITTANCE_RATE = 0.1;
+export const DEFAULT_REMITTABLE_CATEGORIES = ['Tithes'];
+
+// Months the cash-flow forecast can look ahead
+export const FORECAST_HORIZONS = [3, 6, 9, 12];
+
+// An installment only counts as missed once it is this many days overdue
+export const PLEDGE_GRACE_DAYS = 14;
+
+// Donors whose names are at least this alike (0 to 1) are offered for merging
+export const DUPLICATE_DONOR_NAME_THRESHOLD = 0.85;
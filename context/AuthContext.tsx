@@ -1,14 +1,16 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, onAuthStateChanged, signInWithEmailAndPassword, createUserWithEmailAndPassword, signOut } from 'firebase/auth';
 import { auth } from '../firebase';
-import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { doc, onSnapshot, setDoc } from 'firebase/firestore';
 import { db } from '../firebase';
 import { UserRole } from '../types';
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
-  userRole: UserRole;
+  userRole: UserRole; // Role in the current organization
+  organizationId: string | null; // null until the user creates or joins one
+  branchId: string | null; // Set for users limited to one branch; null for head office
   login: (email: string, password: string) => Promise<void>;
   signup: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
@@ -28,48 +30,79 @@ export const useAuth = () => {
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [userRole, setUserRoleState] = useState<UserRole>(UserRole.VIEWER); // Default to VIEWER for security
-  const [loading, setLoading] = useState(true);
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [branchId, setBranchId] = useState<string | null>(null);
+  const [authReady, setAuthReady] = useState(false);
+  // Which user's profile and which membership the state above was loaded for,
+  // so nothing renders against a previous user's organization
+  const [profileLoadedFor, setProfileLoadedFor] = useState<string | null>(null);
+  const [membershipLoadedFor, setMembershipLoadedFor] = useState<string | null>(null);
 
-  const loadUserRole = async (uid: string) => {
-    try {
-      // Check if user document exists and get role from it
-      const userDocRef = doc(db, 'users', uid);
-      const docSnap = await getDoc(userDocRef);
-
-      if (docSnap.exists() && docSnap.data().role) {
-        const role = docSnap.data().role as UserRole;
-        console.log('Loaded role from Firebase:', role);
-        setUserRoleState(role);
-      } else {
-        // Create user document with default VIEWER role (secure default)
-        console.log('Creating new user document with VIEWER role');
-        await setDoc(userDocRef, {
-          email: user?.email || '',
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (user) => {
+      setUser(user);
+      setAuthReady(true);
+    });
+
+    return unsubscribe;
+  }, []);
+
+  // The profile records which organization the user belongs to
+  useEffect(() => {
+    if (!user) {
+      setOrganizationId(null);
+      return;
+    }
+
+    const userDocRef = doc(db, 'users', user.uid);
+    const unsubscribe = onSnapshot(userDocRef, (docSnap) => {
+      if (!docSnap.exists()) {
+        // First sign-in: create the profile; the snapshot fires again once it exists
+        setDoc(userDocRef, {
+          email: user.email || '',
           role: UserRole.VIEWER,
           createdAt: new Date()
-        });
-        setUserRoleState(UserRole.VIEWER);
+        }).catch(error => console.error('Error creating user profile:', error));
+        return;
       }
-    } catch (error) {
-      console.error('Error loading user role:', error);
-      // Default to VIEWER role on error for security
+      setOrganizationId((docSnap.data().organizationId as string | undefined) || null);
+      setProfileLoadedFor(user.uid);
+    }, (error) => {
+      console.error('Error loading user profile:', error);
+      setOrganizationId(null);
+      setProfileLoadedFor(user.uid);
+    });
+
+    return unsubscribe;
+  }, [user]);
+
+  // Roles come from the membership, so they apply to everyone's view of the shared data
+  useEffect(() => {
+    if (!user || !organizationId) {
       setUserRoleState(UserRole.VIEWER);
+      setBranchId(null);
+      return;
     }
-  };
 
-  useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, async (user) => {
-      setUser(user);
-      if (user) {
-        await loadUserRole(user.uid);
-      } else {
-        setUserRoleState(UserRole.VIEWER);
-      }
-      setLoading(false);
+    const memberRef = doc(db, 'organizations', organizationId, 'users', user.uid);
+    const unsubscribe = onSnapshot(memberRef, (docSnap) => {
+      // Default to VIEWER for security if the membership is missing
+      setUserRoleState(docSnap.exists() ? docSnap.data().role as UserRole : UserRole.VIEWER);
+      setBranchId(docSnap.exists() ? (docSnap.data().branchId as string | null | undefined) || null : null);
+      setMembershipLoadedFor(memberRef.path);
+    }, (error) => {
+      console.error('Error loading user role:', error);
+      setUserRoleState(UserRole.VIEWER);
+      setMembershipLoadedFor(memberRef.path);
     });
 
     return unsubscribe;
-  }, []);
+  }, [user, organizationId]);
+
+  const loading = !authReady || (!!user && (
+    profileLoadedFor !== user.uid ||
+    (!!organizationId && membershipLoadedFor !== `organizations/${organizationId}/users/${user.uid}`)
+  ));
 
   const login = async (email: string, password: string) => {
     await signInWithEmailAndPassword(auth, email, password);
@@ -84,10 +117,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const setUserRole = async (role: UserRole) => {
-    if (!user) return;
+    if (!user || !organizationId) return;
     try {
-      const userDocRef = doc(db, 'users', user.uid);
-      await setDoc(userDocRef, { role }, { merge: true });
+      const memberRef = doc(db, 'organizations', organizationId, 'users', user.uid);
+      await setDoc(memberRef, { role }, { merge: true });
       setUserRoleState(role);
     } catch (error) {
       console.error('Error setting user role:', error);
@@ -98,6 +131,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     user,
     loading,
     userRole,
+    organizationId,
+    branchId,
     login,
     signup,
     logout,
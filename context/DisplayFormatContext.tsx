@@ -0,0 +1,24 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { DEFAULT_CURRENCY_SETTINGS } from '../constants';
+import { useCurrencySettings } from '../hooks/useCurrencySettings';
+import { DisplayFormatters, displayFormatters } from '../utils/formatters';
+
+// Outside the provider, e.g. in tests, amounts show in the default format
+const DisplayFormatContext = createContext<DisplayFormatters>(displayFormatters(DEFAULT_CURRENCY_SETTINGS));
+
+/**
+ * The church's base currency and locale, with the formatting helpers bound to
+ * them, for every component to display amounts and dates in
+ */
+export const useDisplayFormat = () => useContext(DisplayFormatContext);
+
+export const DisplayFormatProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { settings } = useCurrencySettings();
+  const value = useMemo(() => displayFormatters(settings), [settings]);
+
+  return (
+    <DisplayFormatContext.Provider value={value}>
+      {children}
+    </DisplayFormatContext.Provider>
+  );
+};
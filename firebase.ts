@@ -1,6 +1,7 @@
 import { initializeApp, FirebaseApp } from 'firebase/app';
 import { getAuth, Auth } from 'firebase/auth';
 import { getFirestore, Firestore, initializeFirestore } from 'firebase/firestore';
+import { getFunctions, Functions } from 'firebase/functions';
 
 // Extract and validate required environment variables
 const {
@@ -46,6 +47,7 @@ if (!isConfigured) {
 let app: FirebaseApp | null = null;
 let auth: Auth | null = null;
 let db: Firestore | null = null;
+let functions: Functions | null = null;
 
 if (isConfigured) {
   app = initializeApp({
@@ -65,6 +67,9 @@ if (isConfigured) {
       ignoreUndefinedProperties: true,
     });
 
+    // Cloud Functions are deployed to the same region as the SMS triggers
+    functions = getFunctions(app, 'us-central1');
+
     // Configure auth settings for email verification
     if (auth) {
       auth.useDeviceLanguage(); // Use the device's language for emails
@@ -87,7 +92,7 @@ if (isConfigured) {
 }
 
 // Export with null checks
-export { auth, db, isConfigured };
+export { auth, db, functions, isConfigured };
 
 // Helper to check if Firebase is ready
 export const isFirebaseReady = () => {
@@ -0,0 +1,104 @@
+import nodemailer from 'nodemailer';
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: { filename: string; content: string; contentType: string }[]; // Content is base64
+}
+
+/**
+ * Something that can deliver an email. The email queue sends through
+ * whichever provider EMAIL_PROVIDER names, so a church can switch services
+ * without touching the code that queues mail.
+ */
+export interface EmailProvider {
+  name: string;
+  send(email: OutgoingEmail): Promise<{ messageId?: string }>;
+}
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start, as on port 465; otherwise STARTTLS when offered
+  user?: string;
+  pass?: string;
+}
+
+export const createSmtpProvider = (settings: SmtpSettings): EmailProvider => {
+  const transport = nodemailer.createTransport({
+    host: settings.host,
+    port: settings.port,
+    secure: settings.secure,
+    ...(settings.user && { auth: { user: settings.user, pass: settings.pass } }),
+  });
+  return {
+    name: 'smtp',
+    async send(email) {
+      const info = await transport.sendMail({
+        from: email.from,
+        to: email.to,
+        subject: email.subject,
+        text: email.text,
+        attachments: email.attachments?.map(a => ({
+          filename: a.filename,
+          content: a.content,
+          encoding: 'base64',
+          contentType: a.contentType,
+        })),
+      });
+      return { messageId: info.messageId };
+    },
+  };
+};
+
+// Writes each message to the function log instead of sending it
+export const createLogProvider = (log: (message: string) => void = console.log): EmailProvider => ({
+  name: 'log',
+  async send(email) {
+    const attachments = (email.attachments || []).map(a => a.filename).join(', ');
+    log(`Email to ${email.to}: ${email.subject}${attachments ? ` [${attachments}]` : ''}`);
+    return {};
+  },
+});
+
+export interface EmailConfig {
+  provider?: string;
+  from?: string;
+  smtpHost?: string;
+  smtpPort?: string;
+  smtpSecure?: string;
+  smtpUser?: string;
+  smtpPass?: string;
+  emulator?: boolean;
+}
+
+// The local stand-in started by `npm run mail`
+export const LOCAL_SMTP_PORT = 1025;
+
+/**
+ * The provider the configuration asks for. In the emulator, SMTP falls back
+ * to the local stand-in so no real mail leaves a developer's machine.
+ */
+export const emailProviderFor = (config: EmailConfig): EmailProvider => {
+  const provider = config.provider || 'smtp';
+  switch (provider) {
+    case 'smtp': {
+      if (!config.smtpHost && !config.emulator) {
+        throw new Error('Email configuration missing. Set EMAIL_SMTP_HOST, or EMAIL_PROVIDER=log to only log messages.');
+      }
+      return createSmtpProvider({
+        host: config.smtpHost || 'localhost',
+        port: Number(config.smtpPort) || (config.smtpHost ? 587 : LOCAL_SMTP_PORT),
+        secure: config.smtpSecure === 'true',
+        user: config.smtpUser,
+        pass: config.smtpPass,
+      });
+    }
+    case 'log':
+      return createLogProvider();
+    default:
+      throw new Error(`Unknown email provider "${provider}". Use smtp or log.`);
+  }
+};
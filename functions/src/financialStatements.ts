@@ -0,0 +1,303 @@
+/**
+ * Financial statements for a period, computed from the books the same way the
+ * app computes them. Everything here is pure so the same data always gives
+ * the same statements.
+ */
+
+export type StatementTransactionType = 'Income' | 'Expense' | 'Transfer';
+
+export type StatementLine = { category: string; amount: number; fundId?: string };
+
+export type StatementTransaction = {
+  id: string;
+  date: string; // ISO yyyy-mm-dd
+  description: string;
+  category: string;
+  amount: number;
+  type: StatementTransactionType;
+  accountId?: string;
+  toAccountId?: string;
+  fundId?: string;
+  splits?: StatementLine[];
+  receiptNumber?: string;
+};
+
+export type StatementAccount = {
+  id: string;
+  name: string;
+  openingBalance: number;
+  openingDate: string;
+  archived?: boolean;
+};
+
+export type FundRestriction = 'unrestricted' | 'temporarily_restricted' | 'permanently_restricted';
+
+export type StatementFund = { id: string; name: string; restriction: FundRestriction; archived?: boolean };
+
+// Matching DEFAULT_FUNDS and CATEGORY_FUNDS in the app
+export const GENERAL_FUND_ID = 'general';
+export const DEFAULT_FUNDS: StatementFund[] = [
+  { id: GENERAL_FUND_ID, name: 'General Fund', restriction: 'unrestricted' },
+  { id: 'building', name: 'Building Fund', restriction: 'temporarily_restricted' },
+  { id: 'endowment', name: 'Endowment', restriction: 'permanently_restricted' },
+];
+const CATEGORY_FUNDS: Record<string, string> = { 'Building Fund': 'building' };
+
+export type ByRestriction = { without: number; with: number; total: number };
+
+export type AmountLine = { label: string; amount: number };
+
+export type FinancialPosition = {
+  asOf: string;
+  assets: AmountLine[];
+  totalAssets: number;
+  liabilities: AmountLine[];
+  totalLiabilities: number;
+  netAssetsWithoutRestrictions: AmountLine[];
+  netAssetsWithRestrictions: AmountLine[];
+  totalNetAssets: number;
+};
+
+export type ActivityLine = { category: string } & ByRestriction;
+
+export type ActivitiesStatement = {
+  revenue: ActivityLine[];
+  expenses: ActivityLine[];
+  totalRevenue: ByRestriction;
+  totalExpenses: ByRestriction;
+  changeInNetAssets: ByRestriction;
+  accountsOpened: ByRestriction; // Opening balances of accounts first recorded in the period
+  beginningNetAssets: ByRestriction;
+  endingNetAssets: ByRestriction;
+};
+
+export type CashFlowStatement = {
+  operating: AmountLine[];
+  netOperating: number;
+  financing: AmountLine[];
+  netFinancing: number;
+  accountsOpened: number;
+  netChange: number;
+  beginningCash: number;
+  endingCash: number;
+  endingByAccount: AmountLine[];
+};
+
+export type CategoryDetailLine = { date: string; description: string; reference: string; amount: number };
+
+export type CategoryDetail = {
+  type: 'Income' | 'Expense';
+  category: string;
+  lines: CategoryDetailLine[];
+  total: number;
+};
+
+export type FinancialStatements = {
+  period: { start: string; end: string };
+  financialPosition: FinancialPosition;
+  activities: ActivitiesStatement;
+  cashFlow: CashFlowStatement;
+  categoryDetail: CategoryDetail[];
+};
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+const sum = (values: number[]): number => roundCents(values.reduce((total, v) => total + v, 0));
+
+const byRestriction = (without: number, withRestrictions: number): ByRestriction => ({
+  without: roundCents(without),
+  with: roundCents(withRestrictions),
+  total: roundCents(without + withRestrictions),
+});
+
+const addRestricted = (a: ByRestriction, b: ByRestriction): ByRestriction => byRestriction(a.without + b.without, a.with + b.with);
+
+// Same order every time: by date, then by id for gifts on the same day
+const byDateThenId = (a: StatementTransaction, b: StatementTransaction) =>
+  a.date.localeCompare(b.date) || a.id.localeCompare(b.id);
+
+/**
+ * Category lines with the fund each belongs to: the line's fund, the
+ * transaction's, the fund implied by the category, then the General Fund.
+ * Lines naming a fund that no longer exists count in the General Fund so the
+ * statements still balance.
+ */
+const fundLines = (t: StatementTransaction, funds: Map<string, StatementFund>) => {
+  const lines: StatementLine[] = t.splits && t.splits.length > 0
+    ? t.splits
+    : [{ category: t.category, amount: t.amount, fundId: t.fundId }];
+  return lines.map(line => {
+    const fundId = line.fundId || t.fundId || (t.type === 'Income' && CATEGORY_FUNDS[line.category]) || GENERAL_FUND_ID;
+    return { ...line, fund: funds.get(fundId) || funds.get(GENERAL_FUND_ID)! };
+  });
+};
+
+// Signed effect on net assets; transfers move money between accounts only
+const netAssetEffect = (type: StatementTransactionType, amount: number): number =>
+  type === 'Income' ? amount : type === 'Expense' ? -amount : 0;
+
+const accountEffect = (t: StatementTransaction, accountId: string): number => {
+  if (t.type === 'Transfer') {
+    if (t.toAccountId === accountId) return t.amount;
+    if (t.accountId === accountId) return -t.amount;
+    return 0;
+  }
+  return t.accountId === accountId ? netAssetEffect(t.type, t.amount) : 0;
+};
+
+export type StatementInput = {
+  transactions: StatementTransaction[];
+  accounts: StatementAccount[];
+  funds: StatementFund[];
+  period: { start: string; end: string };
+  // Opening balances belong to head office's books; a single branch has none
+  includeOpeningBalances: boolean;
+};
+
+export function buildFinancialStatements(input: StatementInput): FinancialStatements {
+  const { period, includeOpeningBalances } = input;
+  const funds = new Map<string, StatementFund>();
+  [...DEFAULT_FUNDS, ...input.funds].forEach(f => funds.set(f.id, { ...funds.get(f.id), ...f }));
+  const transactions = [...input.transactions].sort(byDateThenId);
+  const accounts = [...input.accounts].sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+
+  const through = (date: string) => transactions.filter(t => t.date <= date);
+  const before = (date: string) => transactions.filter(t => t.date < date);
+  const inPeriod = transactions.filter(t => t.date >= period.start && t.date <= period.end);
+  const openings = (predicate: (a: StatementAccount) => boolean) =>
+    includeOpeningBalances ? sum(accounts.filter(predicate).map(a => a.openingBalance)) : 0;
+
+  // Every asset is money held in a bank, cash or mobile money account
+  const cashByAccount = (included: StatementTransaction[], openedBy: (a: StatementAccount) => boolean): AmountLine[] => {
+    const lines = accounts.map(a => ({
+      label: a.name,
+      amount: roundCents((includeOpeningBalances && openedBy(a) ? a.openingBalance : 0) + sum(included.map(t => accountEffect(t, a.id)))),
+      archived: a.archived,
+    }));
+    const total = roundCents(openings(openedBy) + sum(included.map(t => netAssetEffect(t.type, t.amount))));
+    const unassigned = roundCents(total - sum(lines.map(l => l.amount)));
+    return [
+      ...lines.filter(l => !l.archived || l.amount !== 0).map(({ label, amount }) => ({ label, amount })),
+      ...(unassigned !== 0 ? [{ label: 'Cash and Bank (no account)', amount: unassigned }] : []),
+    ];
+  };
+
+  const netAssetsByFund = (included: StatementTransaction[]) => {
+    const balances = new Map<string, number>();
+    included.forEach(t => fundLines(t, funds).forEach(line => {
+      balances.set(line.fund.id, (balances.get(line.fund.id) || 0) + netAssetEffect(t.type, line.amount));
+    }));
+    return [...funds.values()]
+      .map(fund => ({ fund, amount: roundCents(balances.get(fund.id) || 0) }))
+      .filter(({ fund, amount }) => !fund.archived || amount !== 0);
+  };
+
+  // Statement of Financial Position at the end of the period
+  const assets = cashByAccount(through(period.end), a => a.openingDate <= period.end);
+  const endingFunds = netAssetsByFund(through(period.end));
+  const openingBalances = openings(a => a.openingDate <= period.end);
+  const netAssetsWithoutRestrictions = [
+    ...endingFunds.filter(f => f.fund.restriction === 'unrestricted').map(f => ({ label: f.fund.name, amount: f.amount })),
+    ...(openingBalances !== 0 ? [{ label: 'Opening account balances', amount: openingBalances }] : []),
+  ];
+  const netAssetsWithRestrictions = endingFunds
+    .filter(f => f.fund.restriction !== 'unrestricted')
+    .map(f => ({ label: f.fund.name, amount: f.amount }));
+  const financialPosition: FinancialPosition = {
+    asOf: period.end,
+    assets,
+    totalAssets: sum(assets.map(a => a.amount)),
+    // Expenses are recorded when paid, so nothing is owed on the books
+    liabilities: [{ label: 'Accounts Payable', amount: 0 }],
+    totalLiabilities: 0,
+    netAssetsWithoutRestrictions,
+    netAssetsWithRestrictions,
+    totalNetAssets: sum([...netAssetsWithoutRestrictions, ...netAssetsWithRestrictions].map(l => l.amount)),
+  };
+
+  // Statement of Activities for the period
+  const activityLines = (type: 'Income' | 'Expense'): ActivityLine[] => {
+    const rows = new Map<string, { without: number; with: number }>();
+    inPeriod.filter(t => t.type === type).forEach(t => fundLines(t, funds).forEach(line => {
+      const row = rows.get(line.category) || { without: 0, with: 0 };
+      if (line.fund.restriction === 'unrestricted') row.without += line.amount;
+      else row.with += line.amount;
+      rows.set(line.category, row);
+    }));
+    return [...rows.entries()]
+      .map(([category, row]) => ({ category, ...byRestriction(row.without, row.with) }))
+      .sort((a, b) => b.total - a.total || a.category.localeCompare(b.category));
+  };
+  const totalOf = (lines: ActivityLine[]) => byRestriction(sum(lines.map(l => l.without)), sum(lines.map(l => l.with)));
+  const restrictedTotals = (entries: { fund: StatementFund; amount: number }[]) => byRestriction(
+    sum(entries.filter(e => e.fund.restriction === 'unrestricted').map(e => e.amount)),
+    sum(entries.filter(e => e.fund.restriction !== 'unrestricted').map(e => e.amount))
+  );
+
+  const revenue = activityLines('Income');
+  const expenses = activityLines('Expense');
+  const totalRevenue = totalOf(revenue);
+  const totalExpenses = totalOf(expenses);
+  const changeInNetAssets = byRestriction(totalRevenue.without - totalExpenses.without, totalRevenue.with - totalExpenses.with);
+  const accountsOpened = byRestriction(openings(a => a.openingDate >= period.start && a.openingDate <= period.end), 0);
+  const beginningNetAssets = addRestricted(
+    restrictedTotals(netAssetsByFund(before(period.start))),
+    byRestriction(openings(a => a.openingDate < period.start), 0)
+  );
+  const activities: ActivitiesStatement = {
+    revenue,
+    expenses,
+    totalRevenue,
+    totalExpenses,
+    changeInNetAssets,
+    accountsOpened,
+    beginningNetAssets,
+    endingNetAssets: addRestricted(addRestricted(beginningNetAssets, changeInNetAssets), accountsOpened),
+  };
+
+  // Statement of Cash Flows (direct method). Gifts to permanently restricted
+  // funds are financing activities; everything else received or paid is operating.
+  const lineTotal = (type: 'Income' | 'Expense', predicate: (fund: StatementFund) => boolean) => sum(
+    inPeriod.filter(t => t.type === type).flatMap(t => fundLines(t, funds)).filter(l => predicate(l.fund)).map(l => l.amount)
+  );
+  const isEndowment = (fund: StatementFund) => fund.restriction === 'permanently_restricted';
+  const operating = [
+    { label: 'Contributions and other income received', amount: lineTotal('Income', f => !isEndowment(f)) },
+    { label: 'Payments for ministry and operations', amount: -lineTotal('Expense', () => true) },
+  ];
+  const financing = [
+    { label: 'Contributions restricted for long-term investment', amount: lineTotal('Income', isEndowment) },
+  ];
+  const beginningCash = sum(cashByAccount(before(period.start), a => a.openingDate < period.start).map(l => l.amount));
+  const netOperating = sum(operating.map(l => l.amount));
+  const netFinancing = sum(financing.map(l => l.amount));
+  const netChange = roundCents(netOperating + netFinancing + accountsOpened.total);
+  const cashFlow: CashFlowStatement = {
+    operating,
+    netOperating,
+    financing,
+    netFinancing,
+    accountsOpened: accountsOpened.total,
+    netChange,
+    beginningCash,
+    endingCash: roundCents(beginningCash + netChange),
+    endingByAccount: assets,
+  };
+
+  // Every line behind each category total
+  const details = new Map<string, CategoryDetail>();
+  inPeriod.forEach(t => {
+    if (t.type === 'Transfer') return;
+    fundLines(t, funds).forEach(line => {
+      const key = `${t.type}|${line.category}`;
+      const detail = details.get(key) || { type: t.type as 'Income' | 'Expense', category: line.category, lines: [], total: 0 };
+      detail.lines.push({ date: t.date, description: t.description, reference: t.receiptNumber || '', amount: line.amount });
+      detail.total = roundCents(detail.total + line.amount);
+      details.set(key, detail);
+    });
+  });
+  const categoryDetail = [...details.values()].sort((a, b) =>
+    (a.type === b.type ? 0 : a.type === 'Income' ? -1 : 1) || a.category.localeCompare(b.category));
+
+  return { period, financialPosition, activities, cashFlow, categoryDetail };
+}
@@ -1,17 +1,24 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
 import twilio from 'twilio';
+import { signReceiptToken, verifyReceiptToken } from './receiptToken';
+import { buildFinancialStatements, StatementAccount, StatementFund, StatementTransaction } from './financialStatements';
+import { renderFinancialStatementsPdf } from './statementPdf';
+import { EmailConfig, emailProviderFor } from './email';
+import { ReportFrequency, ScheduledReportKind, nextRunDate, reportPeriod, transactionsCsv } from './scheduledReports';
 
 admin.initializeApp();
 const db = admin.firestore();
 
 type SmsQueueDoc = {
-  userId: string;
+  userId: string; // Who queued the message
   transactionId: string;
   memberId?: string;
   to: string;
   donorName?: string;
-  amount: number;
+  amount: number; // Base currency
+  originalCurrency?: string; // Set for gifts received in another currency
+  originalAmount?: number;
   date: string; // ISO yyyy-mm-dd
   category?: string;
   status: 'queued' | 'processing' | 'sent' | 'failed';
@@ -22,7 +29,7 @@ type SmsQueueDoc = {
 };
 
 const defaultTemplate = (
-  'Greater Works City Church: Thank you {name} for your donation of {amount} on {date}. ' +
+  '{churchName}: Thank you {name} for your donation of {amount} on {date}. ' +
   'Transaction ID: {id}. Reply STOP to unsubscribe, HELP for help. Msg&Data rates may apply.'
 );
 
@@ -48,13 +55,13 @@ function getTwilioConfig() {
   };
 }
 
-async function getSmsSettings(userId: string): Promise<{
+async function getSmsSettings(orgId: string): Promise<{
   enabled: boolean;
   templateText: string;
   sendWindowStart: string; // HH:mm
   sendWindowEnd: string; // HH:mm
 }> {
-  const docRef = db.doc(`users/${userId}/settings/sms`);
+  const docRef = db.doc(`organizations/${orgId}/settings/sms`);
   const snap = await docRef.get();
   const data = snap.exists ? snap.data() : {};
   return {
@@ -65,14 +72,36 @@ async function getSmsSettings(userId: string): Promise<{
   };
 }
 
-function withinSendWindow(now: Date, startHHmm: string, endHHmm: string): boolean {
-  const [sh, sm] = startHHmm.split(':').map(Number);
-  const [eh, em] = endHHmm.split(':').map(Number);
-  const start = new Date(now);
-  start.setHours(sh, sm, 0, 0);
-  const end = new Date(now);
-  end.setHours(eh, em, 0, 0);
-  return now >= start && now <= end;
+// Base currency and display locale, matching DEFAULT_CURRENCY_SETTINGS in the app
+async function getCurrencySettings(orgId: string): Promise<{ baseCurrency: string; locale: string }> {
+  const snap = await db.doc(`organizations/${orgId}/settings/currency`).get();
+  const data = snap.exists ? snap.data() : {};
+  return {
+    baseCurrency: (data?.baseCurrency as string) || 'GHS',
+    locale: (data?.locale as string) || 'en-GH',
+  };
+}
+
+// Church name, timezone and fiscal year from the organization settings,
+// matching DEFAULT_ORGANIZATION_SETTINGS in the app
+async function getOrganizationSettings(orgId: string): Promise<{ name: string; timezone: string; fiscalYearStartMonth: number }> {
+  const snap = await db.doc(`organizations/${orgId}/settings/organization`).get();
+  const data = snap.exists ? snap.data() : {};
+  return {
+    name: (data?.name as string) || 'Greater Works City Church',
+    timezone: (data?.timezone as string) || 'Africa/Accra',
+    fiscalYearStartMonth: Number(data?.fiscalYearStartMonth) || 1,
+  };
+}
+
+function formatAmount(amount: number, currency: string, locale: string): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+}
+
+// Compares wall-clock time in the church's timezone, not the server's
+function withinSendWindow(now: Date, startHHmm: string, endHHmm: string, timeZone: string): boolean {
+  const local = new Intl.DateTimeFormat('en-GB', { hour: '2-digit', minute: '2-digit', hourCycle: 'h23', timeZone }).format(now);
+  return local >= startHHmm && local <= endHHmm;
 }
 
 function renderTemplate(template: string, vars: Record<string, string>) {
@@ -80,17 +109,20 @@ function renderTemplate(template: string, vars: Record<string, string>) {
 }
 
 export const onSmsQueueCreate = functions.region('us-central1').firestore
-  .document('users/{userId}/smsQueue/{queueId}')
+  .document('organizations/{orgId}/smsQueue/{queueId}')
   .onCreate(async (snap, ctx) => {
     const data = snap.data() as SmsQueueDoc;
-    const userId = ctx.params.userId as string;
+    const orgId = ctx.params.orgId as string;
     const queueId = ctx.params.queueId as string;
 
+    // Entries copied in by createOrganization have already been handled
+    if (data.status !== 'queued') return;
+
     const twilioCfg = getTwilioConfig();
     const client = twilio(twilioCfg.accountSid, twilioCfg.authToken);
 
     // Respect settings
-    const settings = await getSmsSettings(userId);
+    const settings = await getSmsSettings(orgId);
     if (!settings.enabled) {
       await snap.ref.update({ status: 'failed', lastError: 'SMS disabled in settings', updatedAt: admin.firestore.FieldValue.serverTimestamp() });
       return;
@@ -107,23 +139,29 @@ export const onSmsQueueCreate = functions.region('us-central1').firestore
       return;
     }
 
+    const organization = await getOrganizationSettings(orgId);
     const now = new Date();
-    if (!withinSendWindow(now, settings.sendWindowStart, settings.sendWindowEnd)) {
+    if (!withinSendWindow(now, settings.sendWindowStart, settings.sendWindowEnd, organization.timezone)) {
       // Still send immediately for now but note scheduling opportunity
       await snap.ref.update({ status: 'processing', updatedAt: admin.firestore.FieldValue.serverTimestamp() });
     } else {
       await snap.ref.update({ status: 'processing', updatedAt: admin.firestore.FieldValue.serverTimestamp() });
     }
 
-    const amountFmt = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(data.amount);
+    const currency = await getCurrencySettings(orgId);
+    const amountFmt = formatAmount(data.amount, currency.baseCurrency, currency.locale) +
+      (data.originalCurrency && data.originalAmount !== undefined
+        ? ` (${formatAmount(data.originalAmount, data.originalCurrency, currency.locale)})`
+        : '');
     const rendered = renderTemplate(settings.templateText, {
+      churchName: organization.name,
       name: data.donorName || 'Donor',
       amount: amountFmt,
       date: data.date,
       id: data.transactionId,
     });
 
-    const statusCallback = twilioCfg.statusCallbackUrl ? `${twilioCfg.statusCallbackUrl}?userId=${encodeURIComponent(userId)}&queueId=${encodeURIComponent(queueId)}` : undefined;
+    const statusCallback = twilioCfg.statusCallbackUrl ? `${twilioCfg.statusCallbackUrl}?orgId=${encodeURIComponent(orgId)}&queueId=${encodeURIComponent(queueId)}` : undefined;
 
     const sendParams: any = {
       to: data.to,
@@ -154,19 +192,570 @@ export const onSmsQueueCreate = functions.region('us-central1').firestore
 
 export const twilioStatusCallback = functions.region('us-central1').https.onRequest(async (req, res) => {
   try {
+    // Messages queued before organizations existed still report back with a userId
+    const orgId = String(req.query.orgId || '');
     const userId = String(req.query.userId || '');
     const queueId = String(req.query.queueId || '');
-    if (!userId || !queueId) {
+    if ((!orgId && !userId) || !queueId) {
       res.status(400).send('Missing identifiers');
       return;
     }
     const status = (req.body?.MessageStatus as string) || (req.body?.message_status as string) || req.body?.status;
     const messageSid = (req.body?.MessageSid as string) || req.body?.SmsSid || req.body?.sid;
-    const ref = db.doc(`users/${userId}/smsQueue/${queueId}`);
+    const ref = db.doc(orgId ? `organizations/${orgId}/smsQueue/${queueId}` : `users/${userId}/smsQueue/${queueId}`);
     await ref.update({ deliveryStatus: status, messageSid, updatedAt: admin.firestore.FieldValue.serverTimestamp() } as any);
     res.status(200).send('OK');
   } catch (e) {
     console.error('Twilio status callback error', e);
     res.status(500).send('Error');
   }
-});
\ No newline at end of file
+});
+// Copies every collection under users/{uid} into the organization. The
+// originals are left in place; the security rules make them read-only.
+async function copyUserData(uid: string, orgRef: admin.firestore.DocumentReference): Promise<number> {
+  const writer = db.bulkWriter();
+  let copied = 0;
+  for (const source of await db.doc(`users/${uid}`).listCollections()) {
+    const snapshot = await source.get();
+    for (const docSnap of snapshot.docs) {
+      const data = docSnap.data();
+      // A message still queued was never picked up; copying it as queued would send it now
+      const copy = source.id === 'smsQueue' && data.status === 'queued'
+        ? { ...data, status: 'failed', lastError: 'Not sent before the move to a shared organization' }
+        : data;
+      writer.set(orgRef.collection(source.id).doc(docSnap.id), copy);
+      copied++;
+    }
+  }
+  await writer.close();
+  return copied;
+}
+
+/**
+ * Creates an organization with the caller as its administrator and migrates
+ * the caller's per-user data into it. The profile only points at the new
+ * organization once the copy has finished, so the app never shows it half-filled.
+ */
+export const createOrganization = functions.region('us-central1').https.onCall(async (data, context) => {
+  const uid = context.auth?.uid;
+  if (!uid) {
+    throw new functions.https.HttpsError('unauthenticated', 'Sign in to create an organization.');
+  }
+  const name = String(data?.name || '').trim();
+  if (!name) {
+    throw new functions.https.HttpsError('invalid-argument', 'The organization needs a name.');
+  }
+
+  const email = (context.auth?.token.email as string | undefined) || '';
+  const userRef = db.doc(`users/${uid}`);
+  const now = new Date().toISOString();
+
+  // A migration that failed part-way is resumed in the same organization;
+  // copying again simply overwrites what was already copied
+  const orgRef = await db.runTransaction(async (tx) => {
+    const userSnap = await tx.get(userRef);
+    if (userSnap.get('organizationId')) {
+      throw new functions.https.HttpsError('failed-precondition', 'You already belong to an organization.');
+    }
+    const pendingId = userSnap.get('pendingOrganizationId') as string | undefined;
+    if (pendingId) return db.doc(`organizations/${pendingId}`);
+
+    const ref = db.collection('organizations').doc();
+    tx.set(ref, { name, createdBy: uid, createdAt: now, migratedFrom: uid });
+    tx.set(ref.collection('users').doc(uid), { email, role: 'admin', joinedAt: now });
+    tx.set(userRef, { pendingOrganizationId: ref.id }, { merge: true });
+    return ref;
+  });
+
+  const copied = await copyUserData(uid, orgRef);
+
+  const batch = db.batch();
+  batch.set(orgRef.collection('auditLog').doc(), {
+    entityType: 'organization',
+    entityId: orgRef.id,
+    action: 'create',
+    before: null,
+    after: { name, migratedFrom: uid, documentsCopied: copied },
+    performedBy: email || uid,
+    performedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  batch.set(userRef, { organizationId: orgRef.id, pendingOrganizationId: admin.firestore.FieldValue.delete() }, { merge: true });
+  await batch.commit();
+
+  return { organizationId: orgRef.id };
+});
+
+function getReceiptSigningSecret(): string {
+  const cfg = (functions.config() as any)?.receipts || {};
+  const secret = process.env.RECEIPT_SIGNING_SECRET || cfg.signing_secret;
+  if (!secret) {
+    throw new Error('Receipt signing secret missing. Set RECEIPT_SIGNING_SECRET.');
+  }
+  return secret as string;
+}
+
+function receiptVerifyUrl(token: string): string {
+  const cfg = (functions.config() as any)?.receipts || {};
+  const base = process.env.RECEIPT_VERIFY_URL || cfg.verify_url ||
+    `https://us-central1-${process.env.GCLOUD_PROJECT}.cloudfunctions.net/verifyReceipt`;
+  return `${base}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Signs a receipt so its QR code can be checked by anyone. Only users who can
+ * see the gift may have it signed.
+ */
+export const issueReceiptToken = functions.region('us-central1').https.onCall(async (data, context) => {
+  const uid = context.auth?.uid;
+  if (!uid) {
+    throw new functions.https.HttpsError('unauthenticated', 'Sign in to issue receipts.');
+  }
+  const transactionId = String(data?.transactionId || '');
+  const orgId = (await db.doc(`users/${uid}`).get()).get('organizationId') as string | undefined;
+  if (!orgId || !transactionId) {
+    throw new functions.https.HttpsError('invalid-argument', 'A transaction in your organization is required.');
+  }
+
+  const [member, transaction] = await Promise.all([
+    db.doc(`organizations/${orgId}/users/${uid}`).get(),
+    db.doc(`organizations/${orgId}/transactions/${transactionId}`).get(),
+  ]);
+  const branchId = member.get('branchId') || null;
+  if (!member.exists || !transaction.exists || (branchId && transaction.get('branchId') !== branchId)) {
+    throw new functions.https.HttpsError('not-found', 'Transaction not found.');
+  }
+  if (transaction.get('type') !== 'Income' || transaction.get('deletedAt')) {
+    throw new functions.https.HttpsError('failed-precondition', 'Only recorded income can be receipted.');
+  }
+
+  const token = signReceiptToken({ o: orgId, t: transactionId, a: Number(transaction.get('amount')) }, getReceiptSigningSecret());
+  return { token, url: receiptVerifyUrl(token) };
+});
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+function verificationPage(title: string, lines: string[], genuine: boolean): string {
+  const colour = genuine ? '#15803d' : '#b91c1c';
+  return `<!doctype html><html lang="en"><head><meta charset="utf-8">` +
+    `<meta name="viewport" content="width=device-width, initial-scale=1"><meta name="robots" content="noindex">` +
+    `<title>${escapeHtml(title)}</title></head>` +
+    `<body style="font-family:system-ui,sans-serif;max-width:28rem;margin:3rem auto;padding:0 1rem;color:#1e293b">` +
+    `<h1 style="color:${colour};font-size:1.5rem">${escapeHtml(title)}</h1>` +
+    lines.map(line => `<p>${escapeHtml(line)}</p>`).join('') +
+    `</body></html>`;
+}
+
+/**
+ * Public page behind a receipt's QR code. Confirms the church, receipt,
+ * date and amount only; nothing about the donor is shown.
+ */
+export const verifyReceipt = functions.region('us-central1').https.onRequest(async (req, res) => {
+  res.set('Cache-Control', 'no-store');
+  const notVerified = (status: number, reason: string) => {
+    res.status(status).send(verificationPage('Receipt not verified', [reason], false));
+  };
+
+  try {
+    const claims = verifyReceiptToken(String(req.query.token || ''), getReceiptSigningSecret());
+    if (!claims) {
+      notVerified(404, 'This receipt was not issued by us, or its code has been altered.');
+      return;
+    }
+
+    const transaction = await db.doc(`organizations/${claims.o}/transactions/${claims.t}`).get();
+    if (!transaction.exists || transaction.get('type') !== 'Income') {
+      notVerified(404, 'No gift matches this receipt.');
+      return;
+    }
+    if (transaction.get('deletedAt')) {
+      const receiptNumber = transaction.get('receiptNumber');
+      notVerified(410, `${receiptNumber ? `Receipt ${receiptNumber} is VOID.` : 'This gift has been voided.'} The receipt is no longer valid.`);
+      return;
+    }
+    if (Number(transaction.get('amount')) !== claims.a) {
+      notVerified(410, 'This gift has been corrected since the receipt was issued. Please ask for a new receipt.');
+      return;
+    }
+
+    const [organization, currency] = await Promise.all([getOrganizationSettings(claims.o), getCurrencySettings(claims.o)]);
+    const date = transaction.get('date');
+    res.status(200).send(verificationPage('Genuine receipt', [
+      `Issued by ${organization.name}.`,
+      `Receipt ${transaction.get('receiptNumber') || `RCPT-${claims.t.slice(-8).toUpperCase()}`}`,
+      `Amount: ${formatAmount(claims.a, currency.baseCurrency, currency.locale)}`,
+      `Date: ${date?.toDate ? date.toDate().toISOString().split('T')[0] : String(date)}`,
+    ], true));
+  } catch (e) {
+    console.error('Receipt verification error', e);
+    res.status(500).send(verificationPage('Receipt not verified', ['Verification is unavailable right now. Please try again later.'], false));
+  }
+});
+
+// Details printed at the top of reports, matching DEFAULT_ORGANIZATION_SETTINGS in the app
+async function getLetterhead(orgId: string) {
+  const snap = await db.doc(`organizations/${orgId}/settings/organization`).get();
+  const data = snap.exists ? snap.data() : {};
+  const logoUrl = (data?.logoUrl as string) || '';
+  // Logos kept under public/ are not reachable from here; uploaded ones are stored inline
+  const logo = /^data:image\/(png|jpe?g);base64,/.test(logoUrl)
+    ? Buffer.from(logoUrl.slice(logoUrl.indexOf(',') + 1), 'base64')
+    : null;
+  return {
+    churchName: (data?.name as string) || 'Greater Works City Church',
+    address: (data?.address as string) || '',
+    registrationNumber: (data?.registrationNumber as string) || '',
+    pastorName: (data?.pastorName as string) || '',
+    logo,
+  };
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const entryDate = (date: any): string =>
+  date?.toDate ? date.toDate().toISOString().split('T')[0] : String(date);
+
+/**
+ * Entries in the books for a scope: the consolidated books ('all'), head
+ * office's own ('head') or one branch's. Deleted entries and expenses still
+ * awaiting approval are not in the books.
+ */
+async function loadScopedEntries(orgId: string, scope: string) {
+  const orgRef = db.doc(`organizations/${orgId}`);
+  const transactionsRef = orgRef.collection('transactions');
+  const [transactionDocs, branch] = await Promise.all([
+    scope === 'all' || scope === 'head' ? transactionsRef.get() : transactionsRef.where('branchId', '==', scope).get(),
+    scope === 'all' || scope === 'head' ? Promise.resolve(null) : orgRef.collection('branches').doc(scope).get(),
+  ]);
+  if (branch && !branch.exists) {
+    throw new functions.https.HttpsError('not-found', 'Branch not found.');
+  }
+
+  const entries = transactionDocs.docs
+    .map(doc => ({ id: doc.id, data: doc.data() }))
+    .filter(({ data }) => !data.deletedAt)
+    .filter(({ data }) => !(data.type === 'Expense' && data.approvalStatus && !['approved', 'paid'].includes(data.approvalStatus)))
+    .filter(({ data }) => scope === 'all' ? !data.remittanceId : scope === 'head' ? !data.branchId : true);
+  const scopeLabel = scope === 'all' ? 'Consolidated' : scope === 'head' ? 'Head Office' : (branch?.get('name') as string) || scope;
+  return { entries, scopeLabel };
+}
+
+async function renderStatementsFor(orgId: string, scope: string, start: string, end: string): Promise<{ filename: string; pdf: Buffer }> {
+  const orgRef = db.doc(`organizations/${orgId}`);
+  const [{ entries, scopeLabel }, accountDocs, fundDocs, letterhead, currency] = await Promise.all([
+    loadScopedEntries(orgId, scope),
+    orgRef.collection('accounts').get(),
+    orgRef.collection('funds').get(),
+    getLetterhead(orgId),
+    getCurrencySettings(orgId),
+  ]);
+
+  const transactions: StatementTransaction[] = entries.map(({ id, data }) => ({
+    id,
+    date: entryDate(data.date),
+    description: data.description || '',
+    category: data.category || '',
+    amount: Number(data.amount) || 0,
+    type: data.type,
+    accountId: data.accountId,
+    toAccountId: data.toAccountId,
+    fundId: data.fundId,
+    splits: data.splits,
+    receiptNumber: data.receiptNumber,
+  }));
+  const accounts: StatementAccount[] = accountDocs.docs.map(doc => ({
+    id: doc.id,
+    name: doc.get('name') || doc.id,
+    openingBalance: Number(doc.get('openingBalance')) || 0,
+    openingDate: doc.get('openingDate') || '',
+    archived: !!doc.get('archived'),
+  }));
+  const funds: StatementFund[] = fundDocs.docs.map(doc => ({ id: doc.id, ...doc.data() } as StatementFund));
+
+  const statements = buildFinancialStatements({
+    transactions,
+    accounts,
+    funds,
+    period: { start, end },
+    includeOpeningBalances: scope === 'all' || scope === 'head',
+  });
+  const pdf = await renderFinancialStatementsPdf(statements, {
+    ...letterhead,
+    scopeLabel,
+    currency: currency.baseCurrency,
+    locale: currency.locale,
+  });
+
+  return { filename: `financial-statements-${start}-to-${end}.pdf`, pdf };
+}
+
+/**
+ * Financial statements for a period as a PDF. Head office may choose the
+ * consolidated books ('all'), its own ('head') or one branch; branch users
+ * always get their own branch.
+ */
+export const generateFinancialStatements = functions.region('us-central1')
+  .runWith({ memory: '512MB', timeoutSeconds: 120 })
+  .https.onCall(async (data, context) => {
+    const uid = context.auth?.uid;
+    if (!uid) {
+      throw new functions.https.HttpsError('unauthenticated', 'Sign in to generate statements.');
+    }
+    const start = String(data?.start || '');
+    const end = String(data?.end || '');
+    if (!ISO_DATE.test(start) || !ISO_DATE.test(end) || start > end) {
+      throw new functions.https.HttpsError('invalid-argument', 'Choose a start date on or before the end date.');
+    }
+    const orgId = (await db.doc(`users/${uid}`).get()).get('organizationId') as string | undefined;
+    const member = orgId ? await db.doc(`organizations/${orgId}/users/${uid}`).get() : null;
+    if (!orgId || !member?.exists) {
+      throw new functions.https.HttpsError('permission-denied', 'You are not a member of an organization.');
+    }
+
+    const memberBranch = (member.get('branchId') as string | undefined) || null;
+    const scope = memberBranch || String(data?.scope || 'all');
+    const { filename, pdf } = await renderStatementsFor(orgId, scope, start, end);
+
+    return {
+      filename,
+      pdf: pdf.toString('base64'),
+    };
+  });
+
+function getEmailConfig(): EmailConfig & { from: string } {
+  // Prefer environment variables, fall back to functions config
+  const cfg = (functions.config() as any)?.email || {};
+  const emulator = process.env.FUNCTIONS_EMULATOR === 'true';
+  const from = process.env.EMAIL_FROM || cfg.from || (emulator ? 'reports@localhost' : '');
+  if (!from) {
+    throw new Error('Email configuration missing. Set EMAIL_FROM to the address mail is sent from.');
+  }
+  return {
+    provider: process.env.EMAIL_PROVIDER || cfg.provider,
+    from,
+    smtpHost: process.env.EMAIL_SMTP_HOST || cfg.smtp_host,
+    smtpPort: process.env.EMAIL_SMTP_PORT || cfg.smtp_port,
+    smtpSecure: process.env.EMAIL_SMTP_SECURE || cfg.smtp_secure,
+    smtpUser: process.env.EMAIL_SMTP_USER || cfg.smtp_user,
+    smtpPass: process.env.EMAIL_SMTP_PASS || cfg.smtp_pass,
+    emulator,
+  };
+}
+
+/**
+ * Checks a queued email against what it was queued for and returns the files
+ * to attach. Scheduled reports go only to their schedule's recipients, with
+ * the file taken from the report run; giving statements only to the member
+ * they are for. Anything else is refused, so the queue cannot be used to send
+ * other mail in the church's name.
+ */
+async function checkedAttachments(orgId: string, data: admin.firestore.DocumentData) {
+  const orgRef = db.collection('organizations').doc(orgId);
+  const to = String(data.to || '').trim().toLowerCase();
+
+  if (data.purpose === 'scheduledReport') {
+    const run = data.reportRunId ? await orgRef.collection('reportRuns').doc(String(data.reportRunId)).get() : null;
+    const recipients: string[] = run?.get('recipients') || [];
+    if (!run?.exists || !run.get('file') || !recipients.some(r => r.trim().toLowerCase() === to)) {
+      throw new Error('Not a recipient of this scheduled report.');
+    }
+    return [run.get('file')];
+  }
+
+  if (data.purpose === 'givingStatement') {
+    const member = data.memberId ? await orgRef.collection('members').doc(String(data.memberId)).get() : null;
+    if (!member?.exists || String(member.get('email') || '').trim().toLowerCase() !== to) {
+      throw new Error('Giving statements are sent only to the member they are for.');
+    }
+    // Branch users queue statements for their own branch's members only
+    if (data.branchId && member.get('branchId') !== data.branchId) {
+      throw new Error('This member is not in the branch that queued the statement.');
+    }
+    return data.attachments;
+  }
+
+  throw new Error(`Unknown email purpose: ${data.purpose}`);
+}
+
+/**
+ * Sends each queued email (giving statements, scheduled reports) through the
+ * configured email provider, in the church's name.
+ */
+export const onEmailQueueCreate = functions.region('us-central1').firestore
+  .document('organizations/{orgId}/emailQueue/{emailId}')
+  .onCreate(async (snap, ctx) => {
+    const data = snap.data();
+    const orgId = ctx.params.orgId as string;
+
+    // Entries copied in by createOrganization have already been handled
+    if (data.status !== 'queued') return;
+    await snap.ref.update({ status: 'sending' });
+
+    try {
+      const attachments = await checkedAttachments(orgId, data);
+      const config = getEmailConfig();
+      const provider = emailProviderFor(config);
+      const organization = await getOrganizationSettings(orgId);
+      const { messageId } = await provider.send({
+        from: `"${organization.name.replace(/["\\]/g, '')}" <${config.from}>`,
+        to: data.to,
+        subject: data.subject,
+        text: data.text,
+        attachments,
+      });
+      console.log(`Email ${snap.id} sent via ${provider.name}`, messageId || '');
+      await snap.ref.update({ status: 'sent', sentAt: new Date().toISOString(), lastError: admin.firestore.FieldValue.delete() });
+    } catch (err: any) {
+      console.error(`Email ${snap.id} failed`, err);
+      await snap.ref.update({ status: 'failed', lastError: err?.message || String(err) });
+    }
+  });
+
+const REPORT_TITLES: Record<ScheduledReportKind, string> = {
+  financialStatements: 'Financial Statements',
+  transactionsCsv: 'Transactions',
+};
+
+// Today's date where the church is
+const localDate = (now: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat('en-CA', { year: 'numeric', month: '2-digit', day: '2-digit', timeZone }).format(now);
+
+/**
+ * Generates a schedule's report for the period before `runDate`, keeps it in
+ * reportRuns for download and queues an email to every recipient. The report
+ * stays in reportRuns and is attached only when the email is sent. A report that
+ * fails to generate is recorded as failed so the history shows the gap.
+ */
+async function runReportSchedule(scheduleRef: admin.firestore.DocumentReference, runDate: string, requestedBy: string): Promise<string> {
+  const orgRef = scheduleRef.parent.parent!;
+  const [scheduleSnap, organization] = await Promise.all([scheduleRef.get(), getOrganizationSettings(orgRef.id)]);
+  const schedule = scheduleSnap.data() || {};
+  const frequency = schedule.frequency as ReportFrequency;
+  const report = schedule.report as ScheduledReportKind;
+  const recipients: string[] = schedule.recipients || [];
+  const { start, end } = reportPeriod(frequency, runDate, organization.fiscalYearStartMonth);
+  const runRef = orgRef.collection('reportRuns').doc();
+  const run = {
+    scheduleId: scheduleRef.id,
+    scheduleName: schedule.name || REPORT_TITLES[report],
+    report,
+    periodStart: start,
+    periodEnd: end,
+    recipients,
+    generatedAt: new Date().toISOString(),
+    requestedBy,
+  };
+
+  try {
+    const scope = (schedule.scope as string) || 'all';
+    let file: { filename: string; content: string; contentType: string };
+    if (report === 'transactionsCsv') {
+      const { entries } = await loadScopedEntries(orgRef.id, scope);
+      const transactions = entries
+        .map(({ data }) => ({
+          date: entryDate(data.date),
+          description: data.description || '',
+          type: data.type,
+          category: data.category || '',
+          amount: Number(data.amount) || 0,
+          donorName: data.donorName,
+          donorContact: data.donorContact,
+        }))
+        .filter(t => t.date >= start && t.date <= end)
+        .sort((a, b) => a.date.localeCompare(b.date));
+      file = {
+        filename: `transactions-${start}-to-${end}.csv`,
+        content: Buffer.from(transactionsCsv(transactions), 'utf8').toString('base64'),
+        contentType: 'text/csv',
+      };
+    } else {
+      const { filename, pdf } = await renderStatementsFor(orgRef.id, scope, start, end);
+      file = { filename, content: pdf.toString('base64'), contentType: 'application/pdf' };
+    }
+
+    const batch = db.batch();
+    batch.set(runRef, { ...run, status: 'generated', file });
+    recipients.forEach(to => {
+      batch.set(orgRef.collection('emailQueue').doc(), {
+        to,
+        subject: `${organization.name}: ${run.scheduleName}, ${start} to ${end}`,
+        text: `Please find attached the ${REPORT_TITLES[report].toLowerCase()} for ${start} to ${end}.\n\n` +
+          `This report is sent automatically by ${organization.name}. Earlier reports can be downloaded from the Reports page.`,
+        reportRunId: runRef.id,
+        purpose: 'scheduledReport',
+        status: 'queued',
+        createdAt: run.generatedAt,
+        createdBy: requestedBy,
+      });
+    });
+    await batch.commit();
+  } catch (err: any) {
+    console.error(`Scheduled report ${scheduleRef.path} failed`, err);
+    await runRef.set({ ...run, status: 'failed', error: err?.message || String(err) });
+  }
+  return runRef.id;
+}
+
+/**
+ * Runs every report schedule that has fallen due. It checks hourly so each
+ * church gets its reports soon after midnight in its own timezone.
+ */
+export const runReportSchedules = functions.region('us-central1')
+  .runWith({ memory: '512MB', timeoutSeconds: 540 })
+  .pubsub.schedule('every 1 hours')
+  .onRun(async () => {
+    // Far enough ahead to cover every timezone; each church's own date is checked below
+    const latestToday = new Date(Date.now() + 14 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const due = await db.collectionGroup('reportSchedules')
+      .where('active', '==', true)
+      .where('nextRunDate', '<=', latestToday)
+      .get();
+
+    for (const scheduleDoc of due.docs) {
+      try {
+        const organization = await getOrganizationSettings(scheduleDoc.ref.parent.parent!.id);
+        const today = localDate(new Date(), organization.timezone);
+        // Moving nextRunDate on first claims the run, so overlapping invocations
+        // cannot send it twice. Stepping from the due date catches up missed periods.
+        const runDate = await db.runTransaction(async (tx) => {
+          const fresh = await tx.get(scheduleDoc.ref);
+          const dueDate = fresh.get('nextRunDate') as string;
+          if (!fresh.get('active') || dueDate > today) return null;
+          tx.update(scheduleDoc.ref, {
+            nextRunDate: nextRunDate(fresh.get('frequency'), dueDate, organization.fiscalYearStartMonth),
+            lastRunAt: new Date().toISOString(),
+          });
+          return dueDate;
+        });
+        if (runDate) await runReportSchedule(scheduleDoc.ref, runDate, 'schedule');
+      } catch (e) {
+        console.error(`Could not run report schedule ${scheduleDoc.ref.path}`, e);
+      }
+    }
+  });
+
+/**
+ * Sends a schedule's most recent report straight away, to check the
+ * recipients get it. The regular schedule is unchanged.
+ */
+export const runReportScheduleNow = functions.region('us-central1')
+  .runWith({ memory: '512MB', timeoutSeconds: 120 })
+  .https.onCall(async (data, context) => {
+    const uid = context.auth?.uid;
+    if (!uid) {
+      throw new functions.https.HttpsError('unauthenticated', 'Sign in to run reports.');
+    }
+    const orgId = (await db.doc(`users/${uid}`).get()).get('organizationId') as string | undefined;
+    const member = orgId ? await db.doc(`organizations/${orgId}/users/${uid}`).get() : null;
+    if (!orgId || !member?.exists || !['admin', 'treasurer'].includes(member.get('role')) || member.get('branchId')) {
+      throw new functions.https.HttpsError('permission-denied', 'Only head office administrators and treasurers can run scheduled reports.');
+    }
+    const scheduleRef = db.doc(`organizations/${orgId}/reportSchedules/${String(data?.scheduleId || '')}`);
+    if (!data?.scheduleId || !(await scheduleRef.get()).exists) {
+      throw new functions.https.HttpsError('not-found', 'Report schedule not found.');
+    }
+
+    const organization = await getOrganizationSettings(orgId);
+    const runId = await runReportSchedule(scheduleRef, localDate(new Date(), organization.timezone), (context.auth?.token.email as string) || uid);
+    return { runId };
+  });
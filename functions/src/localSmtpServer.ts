@@ -0,0 +1,83 @@
+import * as net from 'net';
+import { LOCAL_SMTP_PORT } from './email';
+
+export interface ReceivedEmail {
+  from: string;
+  to: string[];
+  data: string; // The raw message, headers and body
+}
+
+/**
+ * A bare-bones SMTP server that accepts every message and hands it to
+ * `onMessage`. It stands in for a real mail server while testing, so the
+ * emulator and the tests send through the same SMTP provider as production.
+ */
+export const startLocalSmtpServer = (
+  port: number,
+  onMessage: (email: ReceivedEmail) => void
+): Promise<net.Server> => {
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    let from = '';
+    let to: string[] = [];
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply('220 localhost ESMTP stand-in');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      while (buffer.length > 0) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          const data = buffer.slice(0, end).replace(/\r\n\.\./g, '\r\n.');
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          onMessage({ from, to, data });
+          from = '';
+          to = [];
+          reply('250 OK: queued');
+          continue;
+        }
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd === -1) return;
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') {
+          reply('250 localhost');
+        } else if (command === 'MAIL') {
+          from = line.replace(/^MAIL FROM:\s*<?([^>\s]*)>?.*$/i, '$1');
+          reply('250 OK');
+        } else if (command === 'RCPT') {
+          to.push(line.replace(/^RCPT TO:\s*<?([^>\s]*)>?.*$/i, '$1'));
+          reply('250 OK');
+        } else if (command === 'DATA') {
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (command === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else if (command === 'RSET' || command === 'NOOP') {
+          reply('250 OK');
+        } else {
+          reply('502 Command not implemented');
+        }
+      }
+    });
+    socket.on('error', () => socket.destroy());
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolve(server));
+  });
+};
+
+// `npm run mail` prints every message the emulator sends
+if (require.main === module) {
+  const port = Number(process.env.EMAIL_SMTP_PORT) || LOCAL_SMTP_PORT;
+  startLocalSmtpServer(port, email => {
+    console.log(`--- ${new Date().toISOString()} from ${email.from} to ${email.to.join(', ')}\n${email.data}\n`);
+  }).then(() => console.log(`Local SMTP stand-in listening on port ${port}`));
+}
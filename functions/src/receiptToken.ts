@@ -0,0 +1,40 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * What a receipt's QR code vouches for. Kept to identifiers and the amount so
+ * the token itself reveals nothing about the donor.
+ */
+export type ReceiptClaims = {
+  o: string; // Organization ID
+  t: string; // Transaction ID
+  a: number; // Amount in the base currency when the receipt was issued
+};
+
+const sign = (payload: string, secret: string): string =>
+  createHmac('sha256', secret).update(payload).digest('base64url');
+
+export function signReceiptToken(claims: ReceiptClaims, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * The claims in a token, or null when it is malformed or was not signed with
+ * `secret`.
+ */
+export function verifyReceiptToken(token: string, secret: string): ReceiptClaims | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof claims?.o !== 'string' || typeof claims?.t !== 'string' || typeof claims?.a !== 'number') return null;
+    return { o: claims.o, t: claims.t, a: claims.a };
+  } catch {
+    return null;
+  }
+}
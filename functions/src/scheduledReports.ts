@@ -0,0 +1,75 @@
+export type ReportFrequency = 'monthly' | 'quarterly' | 'annual';
+
+export type ScheduledReportKind = 'financialStatements' | 'transactionsCsv';
+
+export interface CsvTransaction {
+  date: string;
+  description: string;
+  type: string;
+  category: string;
+  amount: number;
+  donorName?: string;
+  donorContact?: string;
+}
+
+const PERIOD_MONTHS: Record<ReportFrequency, number> = { monthly: 1, quarterly: 3, annual: 12 };
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Months since year 0, so periods can step across year ends
+const monthIndex = (date: string): number => {
+  const [year, month] = date.split('-').map(Number);
+  return year * 12 + month - 1;
+};
+
+const firstDayOf = (index: number): string => `${Math.floor(index / 12)}-${pad(index % 12 + 1)}-01`;
+
+const lastDayOf = (index: number): string =>
+  new Date(Date.UTC(Math.floor(index / 12), index % 12 + 1, 0)).toISOString().split('T')[0];
+
+// First month of the period `date` falls in. Quarters and years follow the fiscal year.
+const periodStartIndex = (frequency: ReportFrequency, date: string, fiscalYearStartMonth: number): number => {
+  const length = PERIOD_MONTHS[frequency];
+  const index = monthIndex(date);
+  return index - ((index - (fiscalYearStartMonth - 1)) % length + length) % length;
+};
+
+/**
+ * The last complete period before `runDate`: on 1 February a monthly report
+ * covers January, and with a July fiscal year an annual one run in July 2026
+ * covers July 2025 to June 2026.
+ */
+export const reportPeriod = (
+  frequency: ReportFrequency,
+  runDate: string,
+  fiscalYearStartMonth: number
+): { start: string; end: string } => {
+  const current = periodStartIndex(frequency, runDate, fiscalYearStartMonth);
+  return { start: firstDayOf(current - PERIOD_MONTHS[frequency]), end: lastDayOf(current - 1) };
+};
+
+/**
+ * First day of the period after the one `date` falls in, when the report for
+ * the period `date` is in falls due. Matches firstReportRunDate in the app.
+ */
+export const nextRunDate = (frequency: ReportFrequency, date: string, fiscalYearStartMonth: number): string =>
+  firstDayOf(periodStartIndex(frequency, date, fiscalYearStartMonth) + PERIOD_MONTHS[frequency]);
+
+const csvField = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+/**
+ * The same columns as the CSV export on the Reports page.
+ */
+export const transactionsCsv = (transactions: CsvTransaction[]): string =>
+  [
+    ['Date', 'Description', 'Type', 'Category', 'Amount', 'Donor Name', 'Donor Contact'].join(','),
+    ...transactions.map(t => [
+      t.date,
+      csvField(t.description),
+      t.type,
+      csvField(t.category),
+      t.amount,
+      csvField(t.donorName || ''),
+      csvField(t.donorContact || ''),
+    ].join(',')),
+  ].join('\n');
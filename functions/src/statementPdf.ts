@@ -0,0 +1,263 @@
+import PDFDocument from 'pdfkit';
+import { ActivityLine, AmountLine, ByRestriction, FinancialStatements } from './financialStatements';
+
+export type StatementDocumentOptions = {
+  churchName: string;
+  address?: string;
+  registrationNumber?: string;
+  pastorName?: string;
+  logo?: Buffer | null; // PNG or JPEG
+  scopeLabel: string; // Whose books, e.g. Consolidated or a branch name
+  currency: string;
+  locale: string;
+};
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const MARGIN = 50;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const CONTENT_BOTTOM = 770;
+const FOOTER_Y = 800;
+const AMOUNT_WIDTH = 85;
+const ROW_HEIGHT = 15;
+
+type Column = { header: string; width: number };
+
+/**
+ * The period's financial statements as a PDF: Statement of Financial
+ * Position, Statement of Activities, Statement of Cash Flows and the detail
+ * behind every category, closing with signature blocks for the treasurer and
+ * pastor. The document carries no timestamp or random id, so the same books
+ * and period always give byte-for-byte the same file.
+ */
+export function renderFinancialStatementsPdf(statements: FinancialStatements, options: StatementDocumentOptions): Promise<Buffer> {
+  const { period } = statements;
+  const doc = new PDFDocument({
+    size: 'A4',
+    margins: { top: MARGIN, bottom: 20, left: MARGIN, right: MARGIN },
+    bufferPages: true,
+    autoFirstPage: false,
+    info: {
+      Title: `Financial Statements ${period.start} to ${period.end}`,
+      Author: options.churchName,
+      Subject: options.scopeLabel,
+      CreationDate: new Date(`${period.end}T00:00:00Z`),
+    },
+  });
+  const chunks: Buffer[] = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const numberFormat = new Intl.NumberFormat(options.locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const amount = (value: number) => value < 0 ? `(${numberFormat.format(-value)})` : numberFormat.format(value);
+  const dateFormat = new Intl.DateTimeFormat(options.locale, { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+  const longDate = (date: string) => dateFormat.format(new Date(`${date}T00:00:00Z`));
+
+  let y = MARGIN;
+  let title = '';
+  let subtitle = '';
+  let columns: Column[] = [];
+
+  const drawColumnHeaders = () => {
+    if (!columns.length) return;
+    doc.font('Helvetica-Bold').fontSize(8);
+    let x = MARGIN;
+    columns.forEach((column, i) => {
+      const isAmount = i > 0 && column.width === AMOUNT_WIDTH;
+      doc.text(column.header, x, y, { width: column.width, align: isAmount ? 'right' : 'left', lineBreak: false });
+      x += column.width;
+    });
+    y += 12;
+    doc.moveTo(MARGIN, y).lineTo(RIGHT, y).lineWidth(0.5).stroke();
+    y += 5;
+  };
+
+  const startPage = (continued = false) => {
+    doc.addPage();
+    y = MARGIN;
+    if (options.logo) {
+      try {
+        doc.image(options.logo, MARGIN, y - 10, { fit: [40, 40] });
+      } catch (error) {
+        console.error('Could not draw the church logo', error);
+      }
+    }
+    doc.font('Helvetica-Bold').fontSize(14).text(options.churchName, MARGIN, y, { width: RIGHT - MARGIN, align: 'center' });
+    doc.font('Helvetica').fontSize(8);
+    [options.address, options.registrationNumber && `Registration No. ${options.registrationNumber}`]
+      .filter(Boolean)
+      .forEach(line => doc.text(line as string, { width: RIGHT - MARGIN, align: 'center' }));
+    y = Math.max(doc.y, MARGIN + 32) + 8;
+    doc.font('Helvetica-Bold').fontSize(12).text(`${title}${continued ? ' (continued)' : ''}`, MARGIN, y, { width: RIGHT - MARGIN, align: 'center' });
+    doc.font('Helvetica').fontSize(9)
+      .text(`${subtitle} · ${options.scopeLabel} · Amounts in ${options.currency}`, { width: RIGHT - MARGIN, align: 'center' });
+    y = doc.y + 6;
+    doc.moveTo(MARGIN, y).lineTo(RIGHT, y).lineWidth(1).stroke();
+    y += 10;
+    drawColumnHeaders();
+  };
+
+  const ensureRoom = (height: number) => {
+    if (y + height > CONTENT_BOTTOM) startPage(true);
+  };
+
+  const beginStatement = (name: string, periodLabel: string, statementColumns: Column[]) => {
+    title = name;
+    subtitle = periodLabel;
+    columns = statementColumns;
+    startPage();
+  };
+
+  const row = (cells: string[], style: { bold?: boolean; indent?: number; rule?: boolean } = {}) => {
+    ensureRoom(ROW_HEIGHT);
+    if (style.rule) {
+      const amountColumns = columns.filter((column, i) => i > 0 && column.width === AMOUNT_WIDTH).length;
+      doc.moveTo(RIGHT - AMOUNT_WIDTH * amountColumns, y - 2).lineTo(RIGHT, y - 2).lineWidth(0.5).stroke();
+    }
+    doc.font(style.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+    let x = MARGIN;
+    cells.forEach((cell, i) => {
+      const column = columns[i];
+      const indent = i === 0 ? style.indent || 0 : 0;
+      const isAmount = column.width === AMOUNT_WIDTH && i > 0;
+      // Long descriptions are cut to one line
+      doc.text(cell, x + indent, y, { width: column.width - indent - 4, height: 10, align: isAmount ? 'right' : 'left', ellipsis: true });
+      x += column.width;
+    });
+    y += ROW_HEIGHT;
+  };
+
+  const heading = (text: string) => {
+    ensureRoom(ROW_HEIGHT * 2);
+    y += 4;
+    doc.font('Helvetica-Bold').fontSize(10).text(text, MARGIN, y, { lineBreak: false });
+    y += ROW_HEIGHT;
+  };
+
+  const gap = () => { y += 6; };
+
+  const labelWidth = (amountColumns: number) => RIGHT - MARGIN - AMOUNT_WIDTH * amountColumns;
+  const amountLines = (lines: AmountLine[]) => lines.forEach(line => row([line.label, amount(line.amount)], { indent: 12 }));
+  const restricted = (label: string, values: ByRestriction, style: { bold?: boolean; indent?: number; rule?: boolean } = {}) =>
+    row([label, amount(values.without), amount(values.with), amount(values.total)], style);
+  const periodText = `For the period ${longDate(period.start)} to ${longDate(period.end)}`;
+
+  // Statement of Financial Position
+  const position = statements.financialPosition;
+  beginStatement('Statement of Financial Position', `As of ${longDate(position.asOf)}`, [
+    { header: '', width: labelWidth(1) },
+    { header: 'Amount', width: AMOUNT_WIDTH },
+  ]);
+  heading('Assets');
+  amountLines(position.assets);
+  row(['Total Assets', amount(position.totalAssets)], { bold: true, rule: true });
+  gap();
+  heading('Liabilities');
+  amountLines(position.liabilities);
+  row(['Total Liabilities', amount(position.totalLiabilities)], { bold: true, rule: true });
+  gap();
+  heading('Net Assets');
+  row(['Without donor restrictions'], { indent: 6 });
+  position.netAssetsWithoutRestrictions.forEach(line => row([line.label, amount(line.amount)], { indent: 18 }));
+  row(['With donor restrictions'], { indent: 6 });
+  position.netAssetsWithRestrictions.forEach(line => row([line.label, amount(line.amount)], { indent: 18 }));
+  row(['Total Net Assets', amount(position.totalNetAssets)], { bold: true, rule: true });
+  gap();
+  row(['Total Liabilities and Net Assets', amount(position.totalLiabilities + position.totalNetAssets)], { bold: true, rule: true });
+
+  // Statement of Activities
+  const activities = statements.activities;
+  beginStatement('Statement of Activities', periodText, [
+    { header: '', width: labelWidth(3) },
+    { header: 'Without Restrictions', width: AMOUNT_WIDTH },
+    { header: 'With Restrictions', width: AMOUNT_WIDTH },
+    { header: 'Total', width: AMOUNT_WIDTH },
+  ]);
+  const activityRows = (lines: ActivityLine[]) => lines.forEach(line => restricted(line.category, line, { indent: 12 }));
+  heading('Revenue and Support');
+  activityRows(activities.revenue);
+  restricted('Total Revenue and Support', activities.totalRevenue, { bold: true, rule: true });
+  gap();
+  heading('Expenses');
+  activityRows(activities.expenses);
+  restricted('Total Expenses', activities.totalExpenses, { bold: true, rule: true });
+  gap();
+  restricted('Change in Net Assets', activities.changeInNetAssets, { bold: true });
+  if (activities.accountsOpened.total !== 0) restricted('Opening balances of accounts added', activities.accountsOpened);
+  restricted('Net Assets, Beginning of Period', activities.beginningNetAssets);
+  restricted('Net Assets, End of Period', activities.endingNetAssets, { bold: true, rule: true });
+
+  // Statement of Cash Flows
+  const cashFlow = statements.cashFlow;
+  beginStatement('Statement of Cash Flows', periodText, [
+    { header: '', width: labelWidth(1) },
+    { header: 'Amount', width: AMOUNT_WIDTH },
+  ]);
+  heading('Cash Flows from Operating Activities');
+  amountLines(cashFlow.operating);
+  row(['Net Cash from Operating Activities', amount(cashFlow.netOperating)], { bold: true, rule: true });
+  gap();
+  heading('Cash Flows from Financing Activities');
+  amountLines(cashFlow.financing);
+  row(['Net Cash from Financing Activities', amount(cashFlow.netFinancing)], { bold: true, rule: true });
+  gap();
+  if (cashFlow.accountsOpened !== 0) row(['Opening balances of accounts added', amount(cashFlow.accountsOpened)]);
+  row(['Net Change in Cash', amount(cashFlow.netChange)], { bold: true });
+  row(['Cash, Beginning of Period', amount(cashFlow.beginningCash)]);
+  row(['Cash, End of Period', amount(cashFlow.endingCash)], { bold: true, rule: true });
+  gap();
+  heading('Cash at End of Period by Account');
+  amountLines(cashFlow.endingByAccount);
+
+  // Category Detail
+  beginStatement('Category Detail', periodText, [
+    { header: 'Date', width: 70 },
+    { header: 'Reference', width: 100 },
+    { header: 'Description', width: RIGHT - MARGIN - 170 - AMOUNT_WIDTH },
+    { header: 'Amount', width: AMOUNT_WIDTH },
+  ]);
+  if (!statements.categoryDetail.length) row(['', '', 'No income or expenses in this period.', '']);
+  statements.categoryDetail.forEach(detail => {
+    heading(`${detail.category} (${detail.type === 'Income' ? 'Revenue' : 'Expense'})`);
+    detail.lines.forEach(line => row([line.date, line.reference, line.description, amount(line.amount)]));
+    row(['', '', `Total ${detail.category}`, amount(detail.total)], { bold: true, rule: true });
+    gap();
+  });
+
+  // Signatures
+  columns = [];
+  ensureRoom(150);
+  y += 20;
+  doc.font('Helvetica-Bold').fontSize(10).text('Approval', MARGIN, y);
+  y += 18;
+  doc.font('Helvetica').fontSize(9)
+    .text('We confirm that these statements were prepared from the books of the church and present its financial position and activities for the period.', MARGIN, y, { width: RIGHT - MARGIN });
+  y = doc.y + 40;
+  const blockWidth = (RIGHT - MARGIN - 40) / 2;
+  [
+    { role: 'Treasurer', name: '' },
+    { role: 'Senior Pastor', name: options.pastorName || '' },
+  ].forEach((signer, i) => {
+    const x = MARGIN + i * (blockWidth + 40);
+    doc.moveTo(x, y).lineTo(x + blockWidth, y).lineWidth(0.5).stroke();
+    doc.font('Helvetica-Bold').fontSize(9).text(signer.role, x, y + 4, { width: blockWidth, lineBreak: false });
+    doc.font('Helvetica').fontSize(8)
+      .text(signer.name ? `Name: ${signer.name}` : 'Name:', x, y + 18, { width: blockWidth, lineBreak: false })
+      .text('Date:', x, y + 30, { width: blockWidth, lineBreak: false });
+  });
+
+  // Footers once the page count is known
+  const pages = doc.bufferedPageRange();
+  for (let i = 0; i < pages.count; i++) {
+    doc.switchToPage(pages.start + i);
+    doc.moveTo(MARGIN, FOOTER_Y - 6).lineTo(RIGHT, FOOTER_Y - 6).lineWidth(0.5).stroke();
+    doc.font('Helvetica').fontSize(7)
+      .text(`${options.churchName} · Financial Statements ${period.start} to ${period.end}`, MARGIN, FOOTER_Y, { lineBreak: false })
+      .text(`Page ${i + 1} of ${pages.count}`, MARGIN, FOOTER_Y, { width: RIGHT - MARGIN, align: 'right', lineBreak: false });
+  }
+
+  doc.end();
+  return finished;
+}
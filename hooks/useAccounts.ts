@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Account } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { db } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  updateDoc,
+  query,
+  orderBy,
+  writeBatch
+} from 'firebase/firestore';
+import { DEFAULT_ACCOUNTS } from '../constants';
+import { nextLedgerCode } from '../utils/accounts';
+import { openingBalanceEntry, toJournalEntryDoc } from '../utils/ledger';
+
+export const useAccounts = () => {
+  const { user, organizationId } = useAuth();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setAccounts([]);
+      return;
+    }
+
+    const accountsRef = collection(db, 'organizations', organizationId, 'accounts');
+    const q = query(accountsRef, orderBy('ledgerCode'));
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      const accountsData = snapshot.docs.map(d => {
+        const data = d.data();
+        return {
+          id: d.id,
+          name: data.name,
+          kind: data.kind,
+          ledgerCode: data.ledgerCode,
+          openingBalance: Number(data.openingBalance) || 0,
+          openingDate: data.openingDate?.toDate ? data.openingDate.toDate().toISOString().split('T')[0] : data.openingDate,
+          institution: data.institution,
+          accountNumber: data.accountNumber,
+          isDefault: !!data.isDefault,
+          archived: !!data.archived,
+          reconciledThrough: data.reconciledThrough,
+          reconciledBalance: data.reconciledBalance,
+        } as Account;
+      });
+      setAccounts(accountsData);
+    }, (error) => {
+      console.error("Error fetching accounts:", error);
+    });
+
+    return unsubscribe;
+  }, [user, organizationId]);
+
+  /**
+   * Creates an account and posts its opening balance to the ledger
+   * (Dr account, Cr Net Assets) in the same batch.
+   */
+  const addAccount = useCallback(async (account: Omit<Account, 'id' | 'ledgerCode'>) => {
+    if (!user || !organizationId) return;
+
+    const accountRef = doc(collection(db, 'organizations', organizationId, 'accounts'));
+    const newAccount: Account = {
+      ...account,
+      id: accountRef.id,
+      ledgerCode: nextLedgerCode(accounts),
+      isDefault: account.isDefault || accounts.length === 0,
+    };
+    const { id, ...accountData } = newAccount;
+
+    const batch = writeBatch(db);
+    batch.set(accountRef, { ...accountData, openingDate: new Date(account.openingDate) });
+    if (newAccount.openingBalance) {
+      const entryRef = doc(db, 'organizations', organizationId, 'journalEntries', `opening-${id}`);
+      batch.set(entryRef, toJournalEntryDoc(openingBalanceEntry(newAccount)));
+    }
+    await batch.commit();
+  }, [user, organizationId, accounts]);
+
+  /**
+   * Creates the usual set of church accounts (main bank, MoMo, petty cash,
+   * building fund savings) with zero opening balances.
+   */
+  const addDefaultAccounts = useCallback(async () => {
+    if (!user || !organizationId) return;
+
+    const openingDate = new Date().toISOString().split('T')[0];
+    const created: Account[] = [...accounts];
+    const batch = writeBatch(db);
+    DEFAULT_ACCOUNTS
+      .filter(d => !accounts.some(a => a.name === d.name))
+      .forEach(d => {
+        const accountRef = doc(collection(db, 'organizations', organizationId, 'accounts'));
+        const account = {
+          ...d,
+          ledgerCode: nextLedgerCode(created),
+          openingBalance: 0,
+          isDefault: created.length === 0,
+        };
+        created.push({ ...account, id: accountRef.id, openingDate });
+        batch.set(accountRef, { ...account, openingDate: new Date(openingDate) });
+      });
+    await batch.commit();
+  }, [user, organizationId, accounts]);
+
+  const editAccount = useCallback(async (id: string, updates: Partial<Pick<Account, 'name' | 'institution' | 'accountNumber' | 'archived'>>) => {
+    if (!user || !organizationId) return;
+
+    const accountRef = doc(db, 'organizations', organizationId, 'accounts', id);
+    await updateDoc(accountRef, updates);
+  }, [user, organizationId]);
+
+  const setDefaultAccount = useCallback(async (id: string) => {
+    if (!user || !organizationId) return;
+
+    const batch = writeBatch(db);
+    accounts.forEach(a => {
+      if (a.isDefault !== (a.id === id)) {
+        batch.update(doc(db, 'organizations', organizationId, 'accounts', a.id), { isDefault: a.id === id });
+      }
+    });
+    await batch.commit();
+  }, [user, organizationId, accounts]);
+
+  return {
+    accounts,
+    activeAccounts: accounts.filter(a => !a.archived),
+    addAccount,
+    addDefaultAccounts,
+    editAccount,
+    setDefaultAccount,
+  };
+};
@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ApprovalPolicy } from '../types';
+import { DEFAULT_APPROVAL_POLICY } from '../constants';
+import { useAuth } from '../context/AuthContext';
+import { db } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  writeBatch
+} from 'firebase/firestore';
+import { auditLogEntry } from '../utils/auditLog';
+
+export const useApprovalPolicy = () => {
+  const { user, organizationId } = useAuth();
+  const [policy, setPolicy] = useState<ApprovalPolicy>(DEFAULT_APPROVAL_POLICY);
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setPolicy(DEFAULT_APPROVAL_POLICY);
+      return;
+    }
+
+    const policyRef = doc(db, 'organizations', organizationId, 'settings', 'approvalPolicy');
+    const unsubscribe = onSnapshot(policyRef, (docSnap) => {
+      setPolicy(docSnap.exists()
+        ? { ...DEFAULT_APPROVAL_POLICY, ...docSnap.data() as Partial<ApprovalPolicy> }
+        : DEFAULT_APPROVAL_POLICY);
+    }, (error) => {
+      console.error("Error fetching approval policy:", error);
+    });
+
+    return unsubscribe;
+  }, [user, organizationId]);
+
+  const updatePolicy = useCallback(async (updates: Partial<ApprovalPolicy>) => {
+    if (!user || !organizationId) return;
+
+    const updated = { ...policy, ...updates };
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'organizations', organizationId, 'settings', 'approvalPolicy'), updated);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('approvalPolicy', 'approvalPolicy', 'update', policy, updated, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, policy]);
+
+  return {
+    policy,
+    updatePolicy,
+  };
+};
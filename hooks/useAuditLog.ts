@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import { AuditLogEntry } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { db } from '../firebase';
+import {
+  collection,
+  onSnapshot,
+  query,
+  orderBy,
+  where
+} from 'firebase/firestore';
+
+/**
+ * Read-only view of the audit log. Entries are written alongside each change
+ * by the hook that makes it and can never be edited or removed.
+ */
+export const useAuditLog = () => {
+  const { user, organizationId, branchId } = useAuth();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setEntries([]);
+      return;
+    }
+
+    // Branch users only see changes to their own branch's records
+    const auditLogRef = collection(db, 'organizations', organizationId, 'auditLog');
+    const q = branchId
+      ? query(auditLogRef, where('branchId', '==', branchId), orderBy('performedAt', 'desc'))
+      : query(auditLogRef, orderBy('performedAt', 'desc'));
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      const entriesData = snapshot.docs.map(d => {
+        // Server timestamps are still pending on entries this session just wrote
+        const data = d.data({ serverTimestamps: 'estimate' });
+        return {
+          id: d.id,
+          ...data,
+          performedAt: data.performedAt?.toDate ? data.performedAt.toDate().toISOString() : data.performedAt,
+        } as AuditLogEntry;
+      });
+      // Older entries kept their time as a string, which Firestore orders apart from timestamps
+      setEntries(entriesData.sort((a, b) => b.performedAt.localeCompare(a.performedAt)));
+    }, (error) => {
+      console.error("Error fetching audit log:", error);
+    });
+
+    return unsubscribe;
+  }, [user, organizationId, branchId]);
+
+  return { entries };
+};
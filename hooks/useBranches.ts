@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Branch, Remittance } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { db } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  orderBy,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { auditLogEntry } from '../utils/auditLog';
+import { remittanceId } from '../utils/branches';
+
+export type NewBranch = Omit<Branch, 'id' | 'createdAt'>;
+
+export type SentRemittance = Pick<Remittance, 'month' | 'expectedAmount' | 'amount' | 'sentTransactionId'>;
+
+const validateBranch = (branch: Partial<NewBranch>) => {
+  if (branch.name !== undefined && !branch.name.trim()) throw new Error('The branch needs a name.');
+  if (branch.remittanceRate !== undefined && !(branch.remittanceRate >= 0 && branch.remittanceRate <= 1)) {
+    throw new Error('The remittance rate must be between 0% and 100%.');
+  }
+};
+
+/**
+ * The organization's branches and their remittances to head office. Branch
+ * users only see their own branch's remittances.
+ */
+export const useBranches = () => {
+  const { user, organizationId, branchId } = useAuth();
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [remittances, setRemittances] = useState<Remittance[]>([]);
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setBranches([]);
+      setRemittances([]);
+      return;
+    }
+
+    const branchesRef = collection(db, 'organizations', organizationId, 'branches');
+    const unsubscribeBranches = onSnapshot(query(branchesRef, orderBy('name')), (snapshot) => {
+      setBranches(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Branch)));
+    }, (error) => {
+      console.error("Error fetching branches:", error);
+    });
+
+    const remittancesRef = collection(db, 'organizations', organizationId, 'remittances');
+    const q = branchId
+      ? query(remittancesRef, where('branchId', '==', branchId), orderBy('month', 'desc'))
+      : query(remittancesRef, orderBy('month', 'desc'));
+    const unsubscribeRemittances = onSnapshot(q, (snapshot) => {
+      setRemittances(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Remittance)));
+    }, (error) => {
+      console.error("Error fetching remittances:", error);
+    });
+
+    return () => {
+      unsubscribeBranches();
+      unsubscribeRemittances();
+    };
+  }, [user, organizationId, branchId]);
+
+  const addBranch = useCallback(async (branch: NewBranch) => {
+    if (!user || !organizationId) return;
+    validateBranch(branch);
+
+    const branchRef = doc(collection(db, 'organizations', organizationId, 'branches'));
+    const created: Omit<Branch, 'id'> = {
+      ...branch,
+      name: branch.name.trim(),
+      createdAt: new Date().toISOString(),
+    };
+    const batch = writeBatch(db);
+    batch.set(branchRef, created);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('branch', branchRef.id, 'create', null, created, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId]);
+
+  const updateBranch = useCallback(async (id: string, updates: Partial<NewBranch>) => {
+    if (!user || !organizationId) return;
+    validateBranch(updates);
+
+    const existing = branches.find(b => b.id === id) || null;
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'organizations', organizationId, 'branches', id), updates);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('branch', id, 'update', existing, { ...existing, ...updates }, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, branches]);
+
+  /**
+   * Records the branch's remittance for a month once its expense has been
+   * posted. Each month is remitted once.
+   */
+  const recordRemittanceSent = useCallback(async (sent: SentRemittance) => {
+    if (!user || !organizationId || !branchId) return;
+
+    const id = remittanceId(branchId, sent.month);
+    if (remittances.some(r => r.id === id)) throw new Error('This month has already been remitted.');
+
+    const remittance: Omit<Remittance, 'id'> = {
+      ...sent,
+      branchId,
+      status: 'sent',
+      sentAt: new Date().toISOString(),
+      sentBy: user.email || user.uid,
+    };
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'organizations', organizationId, 'remittances', id), remittance);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('remittance', id, 'create', null, remittance, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, branchId, remittances]);
+
+  /**
+   * Head office confirms a remittance arrived, once its income has been posted.
+   */
+  const markRemittanceReceived = useCallback(async (id: string, receivedTransactionId: string) => {
+    if (!user || !organizationId) return;
+
+    const existing = remittances.find(r => r.id === id);
+    if (!existing) throw new Error('Remittance not found.');
+    if (existing.status === 'received') throw new Error('This remittance has already been received.');
+
+    const received = {
+      status: 'received' as const,
+      receivedAt: new Date().toISOString(),
+      receivedBy: user.email || user.uid,
+      receivedTransactionId,
+    };
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'organizations', organizationId, 'remittances', id), received);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('remittance', id, 'update', existing, { ...existing, ...received }, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, remittances]);
+
+  return {
+    branches,
+    remittances,
+    addBranch,
+    updateBranch,
+    recordRemittanceSent,
+    markRemittanceReceived,
+  };
+};
@@ -4,22 +4,26 @@ import { Budget } from '../types';
 import { useAuth } from '../context/AuthContext';
 import { db } from '../firebase';
 import {
+  collection,
   doc,
   onSnapshot,
-  setDoc,
+  writeBatch,
 } from 'firebase/firestore';
+import { auditLogEntry } from '../utils/auditLog';
 
 export const useBudgets = () => {
-  const { user } = useAuth();
+  const { user, organizationId, branchId } = useAuth();
+  // Each branch budgets separately; head office keeps the original document
+  const budgetsDocId = branchId ? `budgets_${branchId}` : 'budgets';
   const [budgets, setBudgets] = useState<Budget>({});
 
   useEffect(() => {
-    if (!user) {
+    if (!user || !organizationId) {
       setBudgets({});
       return;
     }
 
-    const budgetsRef = doc(db, 'users', user.uid, 'settings', 'budgets');
+    const budgetsRef = doc(db, 'organizations', organizationId, 'settings', budgetsDocId);
 
     const unsubscribe = onSnapshot(budgetsRef, (docSnap) => {
       if (docSnap.exists()) {
@@ -32,12 +36,12 @@ export const useBudgets = () => {
     });
 
     return unsubscribe;
-  }, [user]);
+  }, [user, organizationId, budgetsDocId]);
 
   const setBudgetsForMonth = useCallback(async (month: string, monthBudgets: { [category: string]: number }) => {
-    if (!user) return;
+    if (!user || !organizationId) return;
 
-    const budgetsRef = doc(db, 'users', user.uid, 'settings', 'budgets');
+    const budgetsRef = doc(db, 'organizations', organizationId, 'settings', budgetsDocId);
 
     const newBudgets = { ...budgets };
     // Filter out empty/zero values before saving
@@ -55,8 +59,14 @@ export const useBudgets = () => {
     }
 
     setBudgets(newBudgets);
-    await setDoc(budgetsRef, newBudgets);
-  }, [budgets, user]);
+    const batch = writeBatch(db);
+    batch.set(budgetsRef, newBudgets);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('budget', month, budgets[month] ? 'update' : 'create', budgets[month], newBudgets[month], user.email || user.uid)
+    );
+    await batch.commit();
+  }, [budgets, user, organizationId, budgetsDocId]);
 
   const getBudgetsForMonth = useCallback((month: string): { [category: string]: number } => {
     return budgets[month] || {};
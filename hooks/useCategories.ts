@@ -1,45 +1,64 @@
 import { useState, useEffect, useCallback } from 'react';
-import { EXPENSE_CATEGORIES as defaultExpenseCategories } from '../constants';
+import { EXPENSE_ACCOUNT_BASE, EXPENSE_CATEGORIES as defaultExpenseCategories } from '../constants';
 import { useAuth } from '../context/AuthContext';
 import { db } from '../firebase';
 import {
+  collection,
   doc,
   onSnapshot,
-  setDoc,
+  writeBatch,
 } from 'firebase/firestore';
+import { auditLogEntry } from '../utils/auditLog';
+import { categoryAccountCodes } from '../utils/ledger';
 
 export const useCategories = () => {
-    const { user } = useAuth();
+    const { user, organizationId } = useAuth();
     const [customCategories, setCustomCategories] = useState<string[]>([]);
+    // Ledger code of each custom category, fixed when it is added
+    const [categoryCodes, setCategoryCodes] = useState<Record<string, string>>({});
 
     useEffect(() => {
-      if (!user) {
+      if (!user || !organizationId) {
         setCustomCategories([]);
+        setCategoryCodes({});
         return;
       }
 
-      const categoriesRef = doc(db, 'users', user.uid, 'settings', 'categories');
+      const categoriesRef = doc(db, 'organizations', organizationId, 'settings', 'categories');
 
       const unsubscribe = onSnapshot(categoriesRef, (docSnap) => {
         if (docSnap.exists()) {
           setCustomCategories(docSnap.data().customCategories || []);
+          setCategoryCodes(docSnap.data().categoryCodes || {});
         } else {
           setCustomCategories([]);
+          setCategoryCodes({});
         }
       }, (error) => {
         console.error("Error fetching categories:", error);
       });
 
       return unsubscribe;
-    }, [user]);
+    }, [user, organizationId]);
 
     const expenseCategories = [...new Set([...defaultExpenseCategories, ...customCategories])];
 
     const saveCustomCategories = async (custom: string[]) => {
-      if (!user) return;
+      if (!user || !organizationId) return;
 
-      const categoriesRef = doc(db, 'users', user.uid, 'settings', 'categories');
-      await setDoc(categoriesRef, { customCategories: custom });
+      // Codes are stored for every custom category so later changes to the
+      // list never move a category's journal lines to another account
+      const allCodes = categoryAccountCodes([...defaultExpenseCategories, ...custom], EXPENSE_ACCOUNT_BASE, categoryCodes);
+      const codes = Object.fromEntries(custom.map(category => [category, allCodes[category]]));
+
+      const categoriesRef = doc(db, 'organizations', organizationId, 'settings', 'categories');
+      const batch = writeBatch(db);
+      batch.set(categoriesRef, { customCategories: custom, categoryCodes: codes });
+      batch.set(
+        doc(collection(db, 'organizations', organizationId, 'auditLog')),
+        auditLogEntry('category', 'expense', 'update', { customCategories, categoryCodes }, { customCategories: custom, categoryCodes: codes }, user.email || user.uid)
+      );
+      await batch.commit();
     };
 
     const addExpenseCategory = useCallback(async (newCategory: string): Promise<boolean> => {
@@ -54,10 +73,11 @@ export const useCategories = () => {
       setCustomCategories(updatedCustom);
       await saveCustomCategories(updatedCustom);
       return true;
-    }, [expenseCategories, customCategories, user]);
+    }, [expenseCategories, customCategories, categoryCodes, user]);
 
     return {
         expenseCategories,
+        categoryCodes,
         addExpenseCategory,
     };
 };
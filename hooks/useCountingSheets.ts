@@ -0,0 +1,194 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CollectionTally, CollectionType, CountingSheet } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { db } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  orderBy,
+  where,
+  runTransaction,
+  writeBatch
+} from 'firebase/firestore';
+import { auditLogEntry } from '../utils/auditLog';
+import { collectionPostings, counterTotal, emptyCounter, postingBlocker } from '../utils/countingSheet';
+import { getDefaultAccount } from '../utils/accounts';
+import { journalEntryForTransaction, toJournalEntryDoc } from '../utils/ledger';
+import { isInClosedPeriod } from '../utils/periods';
+import { isTransactionLocked } from '../utils/reconciliation';
+import { useChartOfAccounts } from './useLedger';
+import { useAccounts } from './useAccounts';
+import { usePeriodClose } from './usePeriodClose';
+
+export type NewCountingSheet = Pick<CountingSheet, 'serviceDate' | 'serviceName' | 'accountId'> & {
+  counterNames: [string, string];
+};
+
+export const useCountingSheets = () => {
+  const { user, organizationId, branchId } = useAuth();
+  const [sheets, setSheets] = useState<CountingSheet[]>([]);
+  const chartOfAccounts = useChartOfAccounts();
+  const { accounts } = useAccounts();
+  const { lockedThrough } = usePeriodClose();
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setSheets([]);
+      return;
+    }
+
+    // Branch users only see their own branch's services
+    const sheetsRef = collection(db, 'organizations', organizationId, 'countingSheets');
+    const q = branchId
+      ? query(sheetsRef, where('branchId', '==', branchId), orderBy('serviceDate', 'desc'))
+      : query(sheetsRef, orderBy('serviceDate', 'desc'));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setSheets(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as CountingSheet)));
+    }, (error) => {
+      console.error("Error fetching counting sheets:", error);
+    });
+
+    return unsubscribe;
+  }, [user, organizationId, branchId]);
+
+  // Every change is written with its audit entry so the sheet's history can be followed
+  const writeSheet = useCallback(async (id: string, before: CountingSheet | null, after: Omit<CountingSheet, 'id'>) => {
+    if (!user || !organizationId) return;
+
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'organizations', organizationId, 'countingSheets', id), after);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('countingSheet', id, before ? 'update' : 'create', before, after, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId]);
+
+  const findOpenSheet = useCallback((id: string): CountingSheet => {
+    const sheet = sheets.find(s => s.id === id);
+    if (!sheet) throw new Error('Counting sheet not found.');
+    if (sheet.status === 'posted') throw new Error('This collection has been posted and can no longer change.');
+    return sheet;
+  }, [sheets]);
+
+  const addSheet = useCallback(async (sheet: NewCountingSheet): Promise<string | undefined> => {
+    if (!user || !organizationId) return;
+
+    const [first, second] = sheet.counterNames.map(name => name.trim());
+    if (!first || !second) throw new Error('Enter the names of both counters.');
+    if (first.toLowerCase() === second.toLowerCase()) {
+      throw new Error('The collection must be counted by two different people.');
+    }
+
+    const id = doc(collection(db, 'organizations', organizationId, 'countingSheets')).id;
+    await writeSheet(id, null, {
+      serviceDate: sheet.serviceDate,
+      serviceName: sheet.serviceName.trim(),
+      ...(sheet.accountId && { accountId: sheet.accountId }),
+      counters: [emptyCounter(first), emptyCounter(second)],
+      status: 'counting',
+      recordedBy: user.email || user.uid,
+      ...(branchId && { branchId }),
+    });
+    return id;
+  }, [user, organizationId, branchId, writeSheet]);
+
+  /**
+   * Replaces one counter's figures. Any sign-off on them is withdrawn.
+   */
+  const saveCount = useCallback(async (id: string, counterIndex: number, tallies: Record<CollectionType, CollectionTally>) => {
+    const { id: _id, ...existing } = findOpenSheet(id);
+    const counters = existing.counters.map((counter, index) => {
+      if (index !== counterIndex) return counter;
+      const { signedAt: _signedAt, ...unsigned } = counter;
+      return { ...unsigned, tallies };
+    });
+    await writeSheet(id, { id, ...existing }, { ...existing, counters });
+  }, [findOpenSheet, writeSheet]);
+
+  const signCount = useCallback(async (id: string, counterIndex: number) => {
+    const { id: _id, ...existing } = findOpenSheet(id);
+    if (counterTotal(existing.counters[counterIndex]) === 0) {
+      throw new Error('Save a count before signing it off.');
+    }
+    const counters = existing.counters.map((counter, index) =>
+      index === counterIndex ? { ...counter, signedAt: new Date().toISOString() } : counter
+    );
+    await writeSheet(id, { id, ...existing }, { ...existing, counters });
+  }, [findOpenSheet, writeSheet]);
+
+  /**
+   * Posts an agreed sheet's collections as income and marks it posted in one
+   * write. The income is recorded under fixed IDs and only while the sheet is
+   * still being counted, so a second approval posts nothing.
+   */
+  const postSheet = useCallback(async (id: string) => {
+    if (!user || !organizationId) return;
+
+    const sheet = findOpenSheet(id);
+    const blocker = postingBlocker(sheet);
+    if (blocker) throw new Error(blocker);
+    if (isInClosedPeriod(sheet.serviceDate, lockedThrough)) {
+      throw new Error(`The books are closed through ${lockedThrough}. Post an adjusting entry in an open period instead.`);
+    }
+    const defaultAccountId = getDefaultAccount(accounts)?.id;
+    const postings = collectionPostings(sheet).map(({ id: transactionId, transaction }) => ({
+      id: transactionId,
+      transaction: {
+        ...transaction,
+        ...(!transaction.accountId && defaultAccountId && { accountId: defaultAccountId }),
+        // The sheet's branch, even when head office approves it
+        ...(sheet.branchId && { branchId: sheet.branchId }),
+      },
+    }));
+    if (postings.some(p => isTransactionLocked(p.transaction, accounts))) {
+      throw new Error('This date falls in a reconciled period for the account and is locked.');
+    }
+
+    const performedBy = user.email || user.uid;
+    const sheetRef = doc(db, 'organizations', organizationId, 'countingSheets', id);
+    await runTransaction(db, async (firestoreTransaction) => {
+      const current = await firestoreTransaction.get(sheetRef);
+      if (!current.exists() || current.data().status !== 'counting') {
+        throw new Error('This collection has already been posted.');
+      }
+      const refs = postings.map(p => doc(db, 'organizations', organizationId, 'transactions', p.id));
+      const existing = await Promise.all(refs.map(ref => firestoreTransaction.get(ref)));
+      if (existing.some(snap => snap.exists())) throw new Error('This collection has already been posted.');
+
+      postings.forEach(({ id: transactionId, transaction }, index) => {
+        const auditRef = doc(collection(db, 'organizations', organizationId, 'auditLog'));
+        firestoreTransaction.set(auditRef, auditLogEntry('transaction', transactionId, 'create', null, transaction, performedBy));
+        firestoreTransaction.set(refs[index], { ...transaction, date: new Date(transaction.date), auditEntryId: auditRef.id });
+        firestoreTransaction.set(
+          doc(db, 'organizations', organizationId, 'journalEntries', transactionId),
+          toJournalEntryDoc(journalEntryForTransaction({ ...transaction, id: transactionId }, chartOfAccounts))
+        );
+      });
+
+      const { id: _id, ...before } = sheet;
+      const after: Omit<CountingSheet, 'id'> = {
+        ...before,
+        status: 'posted',
+        approvedBy: performedBy,
+        approvedAt: new Date().toISOString(),
+        transactionIds: postings.map(p => p.id),
+      };
+      firestoreTransaction.set(sheetRef, after);
+      firestoreTransaction.set(
+        doc(collection(db, 'organizations', organizationId, 'auditLog')),
+        auditLogEntry('countingSheet', id, 'update', sheet, after, performedBy)
+      );
+    });
+  }, [user, organizationId, findOpenSheet, lockedThrough, accounts, chartOfAccounts]);
+
+  return {
+    sheets,
+    addSheet,
+    saveCount,
+    signCount,
+    postSheet,
+  };
+};
@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CurrencySettings, ExchangeRate } from '../types';
+import { DEFAULT_CURRENCY_SETTINGS } from '../constants';
+import { useAuth } from '../context/AuthContext';
+import { db } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  orderBy,
+  writeBatch
+} from 'firebase/firestore';
+import { auditLogEntry } from '../utils/auditLog';
+import { availableCurrencies, rateOn } from '../utils/currency';
+
+export const useCurrencySettings = () => {
+  const { user, organizationId } = useAuth();
+  const [settings, setSettings] = useState<CurrencySettings>(DEFAULT_CURRENCY_SETTINGS);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setSettings(DEFAULT_CURRENCY_SETTINGS);
+      return;
+    }
+
+    const settingsRef = doc(db, 'organizations', organizationId, 'settings', 'currency');
+    const unsubscribe = onSnapshot(settingsRef, (docSnap) => {
+      setSettings(docSnap.exists()
+        ? { ...DEFAULT_CURRENCY_SETTINGS, ...docSnap.data() as Partial<CurrencySettings> }
+        : DEFAULT_CURRENCY_SETTINGS);
+    }, (error) => {
+      console.error("Error fetching currency settings:", error);
+    });
+
+    return unsubscribe;
+  }, [user, organizationId]);
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setRates([]);
+      return;
+    }
+
+    const ratesRef = collection(db, 'organizations', organizationId, 'exchangeRates');
+    const q = query(ratesRef, orderBy('effectiveDate', 'desc'));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setRates(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as ExchangeRate)));
+    }, (error) => {
+      console.error("Error fetching exchange rates:", error);
+    });
+
+    return unsubscribe;
+  }, [user, organizationId]);
+
+  /**
+   * Changes how amounts are displayed. Amounts already recorded are not
+   * converted, so the base currency should only change before any are entered.
+   */
+  const updateSettings = useCallback(async (updates: Partial<CurrencySettings>) => {
+    if (!user || !organizationId) return;
+
+    const updated = { ...settings, ...updates };
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'organizations', organizationId, 'settings', 'currency'), updated);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('currencySettings', 'currency', 'update', settings, updated, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, settings]);
+
+  const addRate = useCallback(async (rate: Pick<ExchangeRate, 'currency' | 'rate' | 'effectiveDate'>) => {
+    if (!user || !organizationId) return;
+    if (rate.currency === settings.baseCurrency) throw new Error('The base currency does not need a rate.');
+    if (!(rate.rate > 0)) throw new Error('Enter a rate above zero.');
+
+    // One rate per currency per day; entering it again corrects it
+    const id = `${rate.currency}_${rate.effectiveDate}`;
+    const existing = rates.find(r => r.id === id) || null;
+    const entry = { ...rate, updatedBy: user.email || user.uid };
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'organizations', organizationId, 'exchangeRates', id), entry);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('exchangeRate', id, existing ? 'update' : 'create', existing, entry, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, settings.baseCurrency, rates]);
+
+  const deleteRate = useCallback(async (id: string) => {
+    if (!user || !organizationId) return;
+
+    const existing = rates.find(r => r.id === id);
+    if (!existing) return;
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'organizations', organizationId, 'exchangeRates', id));
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('exchangeRate', id, 'delete', existing, null, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, rates]);
+
+  const rateFor = useCallback((currency: string, date: string): number | undefined =>
+    currency === settings.baseCurrency ? 1 : rateOn(rates, currency, date),
+  [settings.baseCurrency, rates]);
+
+  return {
+    settings,
+    rates,
+    currencies: availableCurrencies(settings.baseCurrency, rates),
+    rateFor,
+    updateSettings,
+    addRate,
+    deleteRate,
+  };
+};
@@ -1,7 +1,10 @@
 import { useMemo } from 'react';
-import { Transaction, TransactionType } from '../types';
+import { Member, Transaction, TransactionType } from '../types';
+import { donorIdentity, donorKey } from '../utils/donors';
 
 export interface DonorProfile {
+  key: string; // The linked member, or the normalised name for gifts without one
+  memberId?: string;
   name: string;
   contact: string;
   email?: string;
@@ -32,23 +35,23 @@ export interface DonorAnalytics {
   };
 }
 
-export const useDonorManagement = (transactions: Transaction[]) => {
+export const useDonorManagement = (transactions: Transaction[], members: Member[]) => {
   return useMemo(() => {
     // Filter only income transactions (donations)
     const donationTransactions = transactions.filter(t => t.type === TransactionType.INCOME);
 
-    // Group transactions by donor
+    // Group transactions by donor: the linked member, else the name however it was capitalised
     const donorMap = new Map<string, Transaction[]>();
 
     donationTransactions.forEach(transaction => {
-      const donorKey = transaction.donorName || 'Anonymous';
-      const existing = donorMap.get(donorKey) || [];
+      const key = donorKey(transaction);
+      const existing = donorMap.get(key) || [];
       existing.push(transaction);
-      donorMap.set(donorKey, existing);
+      donorMap.set(key, existing);
     });
 
     // Create donor profiles
-    const donorProfiles: DonorProfile[] = Array.from(donorMap.entries()).map(([donorName, donorTransactions]) => {
+    const donorProfiles: DonorProfile[] = Array.from(donorMap.entries()).map(([key, donorTransactions]) => {
       const sortedTransactions = donorTransactions.sort((a, b) => a.date.localeCompare(b.date));
       const totalGiven = donorTransactions.reduce((sum, t) => sum + t.amount, 0);
       const categories = [...new Set(donorTransactions.map(t => t.category))];
@@ -67,12 +70,17 @@ export const useDonorManagement = (transactions: Transaction[]) => {
       // Determine if regular donor (gave in 3+ months)
       const isRegular = monthlyAmounts.length >= 3;
 
+      const identity = donorIdentity(sortedTransactions[sortedTransactions.length - 1], members);
+      const member = members.find(m => m.id === identity.memberId);
+
       return {
-        name: donorName,
-        contact: donorTransactions[0]?.donorContact || '',
-        email: '', // Would need to be stored separately
-        phone: '', // Would need to be stored separately
-        address: '', // Would need to be stored separately
+        key,
+        ...(identity.memberId && { memberId: identity.memberId }),
+        name: identity.name,
+        contact: identity.email || identity.phone || donorTransactions.find(t => t.donorContact)?.donorContact || '',
+        email: identity.email || '',
+        phone: identity.phone || '',
+        address: member ? [member.address, member.city, member.region].filter(Boolean).join(', ') : '',
         totalGiven,
         transactionCount: donorTransactions.length,
         firstGiftDate: sortedTransactions[0]?.date || '',
@@ -113,7 +121,7 @@ export const useDonorManagement = (transactions: Transaction[]) => {
         const monthKey = transaction.date.substring(0, 7);
         const current = monthlyTotals.get(monthKey) || { amount: 0, donors: new Set() };
         current.amount += transaction.amount;
-        current.donors.add(transaction.donorName || 'Anonymous');
+        current.donors.add(donorKey(transaction));
         monthlyTotals.set(monthKey, current);
       });
 
@@ -139,13 +147,13 @@ export const useDonorManagement = (transactions: Transaction[]) => {
       const currentDonors = new Set(
         donationTransactions
           .filter(t => t.date.startsWith(currentMonth.month))
-          .map(t => t.donorName || 'Anonymous')
+          .map(donorKey)
       );
 
       const previousDonors = new Set(
         donationTransactions
           .filter(t => t.date.startsWith(previousMonth.month))
-          .map(t => t.donorName || 'Anonymous')
+          .map(donorKey)
       );
 
       const retained = new Set([...currentDonors].filter(d => previousDonors.has(d)));
@@ -172,5 +180,5 @@ export const useDonorManagement = (transactions: Transaction[]) => {
         donorRetention: retentionAnalysis
       } as DonorAnalytics
     };
-  }, [transactions]);
+  }, [transactions, members]);
 };
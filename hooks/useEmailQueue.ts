@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { QueuedEmail, UserRole } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { db } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  orderBy,
+  writeBatch
+} from 'firebase/firestore';
+
+export type NewQueuedEmail = Pick<QueuedEmail, 'to' | 'memberId' | 'subject' | 'text' | 'attachments' | 'purpose'>;
+
+// Attachments make queued emails large; keep each batch well under the write size limit
+const QUEUE_BATCH_SIZE = 20;
+
+export const useEmailQueue = () => {
+  const { user, organizationId, branchId, userRole } = useAuth();
+  const [emails, setEmails] = useState<QueuedEmail[]>([]);
+
+  useEffect(() => {
+    // Queued emails carry statements and reports, so only head office admins see them
+    if (!user || !organizationId || userRole !== UserRole.ADMIN || branchId) {
+      setEmails([]);
+      return;
+    }
+
+    const q = query(collection(db, 'organizations', organizationId, 'emailQueue'), orderBy('createdAt', 'desc'));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setEmails(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as QueuedEmail)));
+    }, (error) => {
+      console.error("Error fetching email queue:", error);
+    });
+
+    return unsubscribe;
+  }, [user, organizationId, branchId, userRole]);
+
+  const queueEmails = useCallback(async (newEmails: NewQueuedEmail[]) => {
+    if (!user || !organizationId) return;
+
+    const createdAt = new Date().toISOString();
+    for (let i = 0; i < newEmails.length; i += QUEUE_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      newEmails.slice(i, i + QUEUE_BATCH_SIZE).forEach(email => {
+        batch.set(doc(collection(db, 'organizations', organizationId, 'emailQueue')), {
+          ...email,
+          status: 'queued',
+          createdAt,
+          createdBy: user.email || user.uid,
+          ...(branchId && { branchId }),
+        });
+      });
+      await batch.commit();
+    }
+  }, [user, organizationId, branchId]);
+
+  return {
+    emails,
+    queueEmails,
+  };
+};
@@ -1,5 +1,7 @@
 import { useMemo } from 'react';
 import { Transaction, TransactionType } from '../types';
+import { categoryLines, totalsByCategory } from '../utils/splits';
+import { PeriodComparison, comparePeriods, shiftMonths } from '../utils/periodComparison';
 
 export interface MonthlyData {
   month: string;
@@ -7,6 +9,11 @@ export interface MonthlyData {
   expenses: number;
   net: number;
   transactionCount: number;
+  // Parts of income and expenses recorded from recurring templates and pledges,
+  // which forecasts project from their schedules rather than from history
+  recurringIncome: number;
+  recurringExpenses: number;
+  pledgeIncome: number;
 }
 
 export interface CategoryData {
@@ -24,11 +31,15 @@ export interface BudgetComparison {
   variancePercentage: number;
 }
 
+// A month beside the same month a year earlier
 export interface TrendData {
   period: string;
   income: number;
   expenses: number;
   net: number;
+  priorYearIncome: number;
+  priorYearExpenses: number;
+  priorYearNet: number;
 }
 
 export interface AnalyticsData {
@@ -47,12 +58,21 @@ export interface AnalyticsData {
     expenses: number;
     net: number;
   };
+  comparisons: Record<PeriodComparison['kind'], PeriodComparison>;
 }
 
+/**
+ * Totals, trends and budget figures for the transactions in `dateRange`.
+ * Year-over-year figures and the period comparisons look beyond the range,
+ * so pass every transaction rather than a filtered list. The comparisons run
+ * to `asOf`, today unless given.
+ */
 export const useFinancialAnalytics = (
   transactions: Transaction[],
   budgets: any[] = [],
-  dateRange?: { start: string; end: string }
+  dateRange?: { start: string; end: string },
+  fiscalYearStartMonth: number = 1,
+  asOf: string = new Date().toISOString().split('T')[0]
 ) => {
   return useMemo(() => {
     // Filter transactions by date range if provided
@@ -77,16 +97,20 @@ export const useFinancialAnalytics = (
 
     // Monthly trends (last 12 months)
     const monthlyTrends = (() => {
-      const monthlyMap = new Map<string, { income: number; expenses: number; count: number }>();
+      const monthlyMap = new Map<string, Omit<MonthlyData, 'month' | 'net' | 'transactionCount'> & { count: number }>();
 
       filteredTransactions.forEach(transaction => {
         const monthKey = transaction.date.substring(0, 7); // YYYY-MM format
-        const current = monthlyMap.get(monthKey) || { income: 0, expenses: 0, count: 0 };
+        const current = monthlyMap.get(monthKey) ||
+          { income: 0, expenses: 0, count: 0, recurringIncome: 0, recurringExpenses: 0, pledgeIncome: 0 };
 
         if (transaction.type === TransactionType.INCOME) {
           current.income += transaction.amount;
-        } else {
+          if (transaction.recurringTemplateId) current.recurringIncome += transaction.amount;
+          else if (transaction.pledgeId) current.pledgeIncome += transaction.amount;
+        } else if (transaction.type === TransactionType.EXPENSE) {
           current.expenses += transaction.amount;
+          if (transaction.recurringTemplateId) current.recurringExpenses += transaction.amount;
         }
         current.count += 1;
 
@@ -99,7 +123,10 @@ export const useFinancialAnalytics = (
           income: data.income,
           expenses: data.expenses,
           net: data.income - data.expenses,
-          transactionCount: data.count
+          transactionCount: data.count,
+          recurringIncome: data.recurringIncome,
+          recurringExpenses: data.recurringExpenses,
+          pledgeIncome: data.pledgeIncome
         }))
         .sort((a, b) => a.month.localeCompare(b.month))
         .slice(-12); // Last 12 months
@@ -110,9 +137,13 @@ export const useFinancialAnalytics = (
       const categoryMap = new Map<string, { amount: number; type: TransactionType }>();
 
       filteredTransactions.forEach(transaction => {
-        const current = categoryMap.get(transaction.category) || { amount: 0, type: transaction.type };
-        current.amount += transaction.amount;
-        categoryMap.set(transaction.category, current);
+        // Transfers only move money between accounts
+        if (transaction.type === TransactionType.TRANSFER) return;
+        categoryLines(transaction).forEach(line => {
+          const current = categoryMap.get(line.category) || { amount: 0, type: transaction.type };
+          current.amount += line.amount;
+          categoryMap.set(line.category, current);
+        });
       });
 
       const total = totalIncome + totalExpenses;
@@ -134,10 +165,9 @@ export const useFinancialAnalytics = (
     const budgetComparison = (() => {
       if (!budgets.length) return [];
 
+      const spendingByCategory = totalsByCategory(filteredTransactions, TransactionType.EXPENSE);
       return budgets.map(budget => {
-        const actualSpending = filteredTransactions
-          .filter(t => t.category === budget.category && t.type === TransactionType.EXPENSE)
-          .reduce((sum, t) => sum + t.amount, 0);
+        const actualSpending = spendingByCategory[budget.category] || 0;
 
         const variance = budget.amount - actualSpending;
         const variancePercentage = budget.amount > 0 ? (variance / budget.amount) * 100 : 0;
@@ -152,19 +182,26 @@ export const useFinancialAnalytics = (
       }).sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance));
     })();
 
-    // Growth trends (comparing current period to previous)
+    // Each month beside the same month a year earlier, which may be outside the range
     const trends = (() => {
-      if (monthlyTrends.length < 2) return [];
-
-      return monthlyTrends.map((month, index) => {
-        if (index === 0) return { ...month, period: month.month };
-
-        const prevMonth = monthlyTrends[index - 1];
+      const totalsFor = (month: string) => transactions
+        .filter(t => t.date.startsWith(month))
+        .reduce((acc, t) => {
+          if (t.type === TransactionType.INCOME) acc.income += t.amount;
+          else if (t.type === TransactionType.EXPENSE) acc.expenses += t.amount;
+          return acc;
+        }, { income: 0, expenses: 0 });
+
+      return monthlyTrends.map(month => {
+        const priorYear = totalsFor(shiftMonths(`${month.month}-01`, -12).slice(0, 7));
         return {
           period: month.month,
           income: month.income,
           expenses: month.expenses,
-          net: month.net
+          net: month.net,
+          priorYearIncome: priorYear.income,
+          priorYearExpenses: priorYear.expenses,
+          priorYearNet: priorYear.income - priorYear.expenses,
         };
       });
     })();
@@ -192,6 +229,13 @@ export const useFinancialAnalytics = (
       };
     })();
 
+    // Period comparisons run to asOf whatever range is selected
+    const comparisons = {
+      month: comparePeriods(transactions, 'month', asOf, fiscalYearStartMonth),
+      quarter: comparePeriods(transactions, 'quarter', asOf, fiscalYearStartMonth),
+      yearToDate: comparePeriods(transactions, 'yearToDate', asOf, fiscalYearStartMonth),
+    };
+
     return {
       totalIncome,
       totalExpenses,
@@ -203,7 +247,8 @@ export const useFinancialAnalytics = (
       topCategories,
       budgetComparison,
       trends,
-      growthRate
+      growthRate,
+      comparisons
     } as AnalyticsData;
-  }, [transactions, budgets, dateRange]);
+  }, [transactions, budgets, dateRange, fiscalYearStartMonth, asOf]);
 };
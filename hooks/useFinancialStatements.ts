@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { useAuth } from '../context/AuthContext';
+import { functions } from '../firebase';
+
+/**
+ * Builds the period's financial statements as a PDF on the server, so every
+ * copy of a period's statements is the same document. `scope` is the branch
+ * scope head office is viewing; branch users always get their own branch.
+ */
+export const useFinancialStatementsPdf = () => {
+  const { user, organizationId } = useAuth();
+
+  return useCallback(async (start: string, end: string, scope?: string): Promise<{ filename: string; blob: Blob }> => {
+    if (!user || !organizationId) throw new Error('Sign in to generate statements.');
+
+    const generate = httpsCallable<
+      { start: string; end: string; scope?: string },
+      { filename: string; pdf: string }
+    >(functions, 'generateFinancialStatements');
+    const { data } = await generate({ start, end, scope });
+    const bytes = Uint8Array.from(atob(data.pdf), c => c.charCodeAt(0));
+    return { filename: data.filename, blob: new Blob([bytes], { type: 'application/pdf' }) };
+  }, [user, organizationId]);
+};
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Fund } from '../types';
+import { DEFAULT_FUNDS } from '../constants';
+import { useAuth } from '../context/AuthContext';
+import { db } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  addDoc,
+  setDoc,
+} from 'firebase/firestore';
+
+export const useFunds = () => {
+  const { user, organizationId } = useAuth();
+  const [storedFunds, setStoredFunds] = useState<Fund[]>([]);
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setStoredFunds([]);
+      return;
+    }
+
+    const fundsRef = collection(db, 'organizations', organizationId, 'funds');
+
+    const unsubscribe = onSnapshot(fundsRef, (snapshot) => {
+      const fundsData = snapshot.docs.map(d => ({
+        id: d.id,
+        ...d.data(),
+      } as Fund));
+      setStoredFunds(fundsData);
+    }, (error) => {
+      console.error("Error fetching funds:", error);
+    });
+
+    return unsubscribe;
+  }, [user, organizationId]);
+
+  // Default funds always exist; stored documents override or extend them
+  const funds = useMemo(() => {
+    const merged = DEFAULT_FUNDS.map(f => ({ ...f, ...storedFunds.find(s => s.id === f.id) }));
+    return [...merged, ...storedFunds.filter(s => !DEFAULT_FUNDS.some(f => f.id === s.id))];
+  }, [storedFunds]);
+
+  const addFund = useCallback(async (fund: Omit<Fund, 'id'>) => {
+    if (!user || !organizationId) return;
+
+    const fundsRef = collection(db, 'organizations', organizationId, 'funds');
+    await addDoc(fundsRef, fund);
+  }, [user, organizationId]);
+
+  const editFund = useCallback(async (id: string, updates: Partial<Omit<Fund, 'id'>>) => {
+    if (!user || !organizationId) return;
+
+    const fundRef = doc(db, 'organizations', organizationId, 'funds', id);
+    await setDoc(fundRef, updates, { merge: true });
+  }, [user, organizationId]);
+
+  return {
+    funds,
+    activeFunds: funds.filter(f => !f.archived),
+    addFund,
+    editFund,
+  };
+};
@@ -0,0 +1,109 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { JournalEntry, Transaction } from '../types';
+import { INCOME_CATEGORIES } from '../constants';
+import { useAuth } from '../context/AuthContext';
+import { useCategories } from './useCategories';
+import { useAccounts } from './useAccounts';
+import { usePeriodClose } from './usePeriodClose';
+import { db } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  orderBy,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import {
+  buildChartOfAccounts,
+  computeTrialBalance,
+  findUnpostedTransactions,
+  journalEntryForTransaction,
+  toJournalEntryDoc,
+} from '../utils/ledger';
+import { isInClosedPeriod } from '../utils/periods';
+
+// Firestore batches are capped at 500 writes
+const MIGRATION_BATCH_SIZE = 400;
+
+export const useChartOfAccounts = () => {
+  const { expenseCategories, categoryCodes } = useCategories();
+  const { accounts } = useAccounts();
+  return useMemo(
+    () => buildChartOfAccounts(INCOME_CATEGORIES, expenseCategories, accounts, categoryCodes),
+    [expenseCategories.join('|'), accounts, categoryCodes]
+  );
+};
+
+export const useLedger = () => {
+  const { user, organizationId, branchId } = useAuth();
+  const chartOfAccounts = useChartOfAccounts();
+  const { lockedThrough } = usePeriodClose();
+  const [journalEntries, setJournalEntries] = useState<JournalEntry[]>([]);
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setJournalEntries([]);
+      return;
+    }
+
+    const entriesRef = collection(db, 'organizations', organizationId, 'journalEntries');
+    const q = branchId
+      ? query(entriesRef, where('branchId', '==', branchId), orderBy('date', 'desc'))
+      : query(entriesRef, orderBy('date', 'desc'));
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      const entries = snapshot.docs.map(d => {
+        const data = d.data();
+        return {
+          id: d.id,
+          date: data.date?.toDate ? data.date.toDate().toISOString().split('T')[0] : data.date,
+          description: data.description,
+          lines: data.lines || [],
+          sourceTransactionId: data.sourceTransactionId,
+          branchId: data.branchId,
+          createdAt: data.createdAt,
+        } as JournalEntry;
+      });
+      setJournalEntries(entries);
+    }, (error) => {
+      console.error("Error fetching journal entries:", error);
+    });
+
+    return unsubscribe;
+  }, [user, organizationId, branchId]);
+
+  const trialBalance = useMemo(
+    () => computeTrialBalance(journalEntries, chartOfAccounts),
+    [journalEntries, chartOfAccounts]
+  );
+
+  /**
+   * Posts a journal entry for every transaction that predates the ledger.
+   * Entries are keyed by transaction id, so running it twice is harmless.
+   */
+  const migrateTransactions = useCallback(async (transactions: Transaction[]): Promise<{ posted: number; skipped: number }> => {
+    if (!user || !organizationId) return { posted: 0, skipped: 0 };
+
+    // Closed periods stay as they were reported, and the rules refuse entries in them
+    const pending = findUnpostedTransactions(transactions, journalEntries);
+    const unposted = pending.filter(t => !isInClosedPeriod(t.date, lockedThrough));
+    for (let i = 0; i < unposted.length; i += MIGRATION_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      unposted.slice(i, i + MIGRATION_BATCH_SIZE).forEach(t => {
+        const entryRef = doc(db, 'organizations', organizationId, 'journalEntries', t.id);
+        batch.set(entryRef, toJournalEntryDoc(journalEntryForTransaction(t, chartOfAccounts)));
+      });
+      await batch.commit();
+    }
+    return { posted: unposted.length, skipped: pending.length - unposted.length };
+  }, [user, organizationId, journalEntries, chartOfAccounts, lockedThrough]);
+
+  return {
+    chartOfAccounts,
+    journalEntries,
+    trialBalance,
+    migrateTransactions,
+  };
+};
@@ -6,22 +6,22 @@ import {
   collection,
   doc,
   onSnapshot,
-  addDoc,
-  updateDoc,
-  deleteDoc,
   query,
-  orderBy
+  orderBy,
+  where,
+  writeBatch
 } from 'firebase/firestore';
 import * as memberUtils from '../utils/memberUtils';
+import { auditLogEntry } from '../utils/auditLog';
 
 const STORAGE_KEY = 'churchLedgerMembers';
 
 export const useMembers = () => {
-  const { user } = useAuth();
+  const { user, organizationId, branchId } = useAuth();
   const [members, setMembers] = useState<Member[]>([]);
 
   useEffect(() => {
-    if (!user) {
+    if (!user || !organizationId) {
       // Load from localStorage when not authenticated
       try {
         const savedMembers = window.localStorage.getItem(STORAGE_KEY);
@@ -33,8 +33,11 @@ export const useMembers = () => {
       return;
     }
 
-    const membersRef = collection(db, 'users', user.uid, 'members');
-    const q = query(membersRef, orderBy('dateJoined', 'desc'));
+    const membersRef = collection(db, 'organizations', organizationId, 'members');
+    // Branch users only see their branch's members
+    const q = branchId
+      ? query(membersRef, where('branchId', '==', branchId), orderBy('dateJoined', 'desc'))
+      : query(membersRef, orderBy('dateJoined', 'desc'));
 
     const unsubscribe = onSnapshot(q, (snapshot) => {
       const membersData = snapshot.docs.map(d => {
@@ -72,11 +75,11 @@ export const useMembers = () => {
     });
 
     return unsubscribe;
-  }, [user]);
+  }, [user, organizationId, branchId]);
 
   // Save to localStorage when not authenticated
   useEffect(() => {
-    if (!user) {
+    if (!user || !organizationId) {
       try {
         window.localStorage.setItem(STORAGE_KEY, JSON.stringify(members));
       } catch (error) {
@@ -86,7 +89,7 @@ export const useMembers = () => {
   }, [members, user]);
 
   const addMember = useCallback(async (member: Omit<Member, 'id' | 'dateJoined'> & { dateJoined: string }) => {
-    if (!user) {
+    if (!user || !organizationId) {
       console.error('No user authenticated. Cannot add member to Firestore.');
       return;
     }
@@ -100,13 +103,14 @@ export const useMembers = () => {
         }
       }
 
-      const membersRef = collection(db, 'users', user.uid, 'members');
+      const membersRef = collection(db, 'organizations', organizationId, 'members');
       const toDate = (v?: string) => (v ? new Date(v) : undefined);
       
       // Prepare data with proper type conversions and email normalization
       const preparedMember = memberUtils.prepareMemberEmailData(member);
       const memberData: any = {
         ...preparedMember,
+        ...(branchId && { branchId }),
         dateJoined: new Date(member.dateJoined),
         birthday: toDate((member as any).birthday),
         baptismDate: toDate((member as any).baptismDate),
@@ -129,23 +133,35 @@ export const useMembers = () => {
         }
       });
 
-      await addDoc(membersRef, memberData);
+      const memberRef = doc(membersRef);
+      const batch = writeBatch(db);
+      batch.set(memberRef, memberData);
+      batch.set(
+        doc(collection(db, 'organizations', organizationId, 'auditLog')),
+        auditLogEntry('member', memberRef.id, 'create', null, memberData, user.email || user.uid)
+      );
+      await batch.commit();
       console.log('Member added successfully');
     } catch (error) {
       console.error('Error adding member:', error);
       throw error;
     }
-  }, [user, members]);
+  }, [user, organizationId, branchId, members]);
 
   const deleteMember = useCallback(async (id: string) => {
-    if (!user) return;
+    if (!user || !organizationId) return;
 
-    const memberRef = doc(db, 'users', user.uid, 'members', id);
-    await deleteDoc(memberRef);
-  }, [user]);
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'organizations', organizationId, 'members', id));
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('member', id, 'delete', members.find(m => m.id === id), null, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, members]);
 
   const editMember = useCallback(async (id: string, updates: Partial<Omit<Member, 'id'>>) => {
-    if (!user) {
+    if (!user || !organizationId) {
       console.error('No user authenticated');
       return;
     }
@@ -162,7 +178,7 @@ export const useMembers = () => {
         }
       }
 
-      const memberRef = doc(db, 'users', user.uid, 'members', id);
+      const memberRef = doc(db, 'organizations', organizationId, 'members', id);
       
       // Create a clean updates object that will only contain defined values
       const cleanUpdates: Record<string, any> = {};
@@ -236,7 +252,14 @@ export const useMembers = () => {
       // Only proceed if we have updates
       if (Object.keys(cleanUpdates).length > 0) {
         console.log('Sending to Firestore:', cleanUpdates);
-        await updateDoc(memberRef, cleanUpdates);
+        const existing = members.find(m => m.id === id);
+        const batch = writeBatch(db);
+        batch.update(memberRef, cleanUpdates);
+        batch.set(
+          doc(collection(db, 'organizations', organizationId, 'auditLog')),
+          auditLogEntry('member', id, 'update', existing, { ...existing, ...updates }, user.email || user.uid)
+        );
+        await batch.commit();
         console.log('Update successful');
       } else {
         console.warn('No valid updates to save');
@@ -249,7 +272,7 @@ export const useMembers = () => {
       });
       throw error;
     }
-  }, [user, members]);
+  }, [user, organizationId, members]);
 
   // Email-based utility functions
   const findByEmail = useCallback((email: string) => {
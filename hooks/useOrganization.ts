@@ -0,0 +1,215 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Organization, OrganizationInvite, OrganizationMember, UserRole } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { db, functions } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { auditLogEntry } from '../utils/auditLog';
+
+// Invites are keyed by email so the invited user can find theirs before joining
+const inviteId = (email: string) => email.trim().toLowerCase();
+
+/**
+ * The signed-in user's organization, its members and pending invites, and
+ * the ways to create or join one.
+ */
+export const useOrganization = () => {
+  const { user, userRole, organizationId } = useAuth();
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invites, setInvites] = useState<OrganizationInvite[]>([]);
+  const [pendingInvite, setPendingInvite] = useState<OrganizationInvite | null>(null);
+
+  const isAdmin = userRole === UserRole.ADMIN;
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setOrganization(null);
+      setMembers([]);
+      return;
+    }
+
+    const unsubscribeOrganization = onSnapshot(doc(db, 'organizations', organizationId), (docSnap) => {
+      setOrganization(docSnap.exists() ? { id: docSnap.id, ...docSnap.data() } as Organization : null);
+    }, (error) => {
+      console.error("Error fetching organization:", error);
+    });
+
+    const unsubscribeMembers = onSnapshot(collection(db, 'organizations', organizationId, 'users'), (snapshot) => {
+      setMembers(snapshot.docs.map(d => ({ uid: d.id, ...d.data() } as OrganizationMember)));
+    }, (error) => {
+      console.error("Error fetching organization members:", error);
+    });
+
+    return () => {
+      unsubscribeOrganization();
+      unsubscribeMembers();
+    };
+  }, [user, organizationId]);
+
+  // Only administrators can see who has been invited
+  useEffect(() => {
+    if (!user || !organizationId || !isAdmin) {
+      setInvites([]);
+      return;
+    }
+
+    const q = query(collection(db, 'invites'), where('organizationId', '==', organizationId));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setInvites(snapshot.docs.map(d => d.data() as OrganizationInvite));
+    }, (error) => {
+      console.error("Error fetching invites:", error);
+    });
+
+    return unsubscribe;
+  }, [user, organizationId, isAdmin]);
+
+  // An invite waiting for a user who has not joined an organization yet
+  useEffect(() => {
+    if (!user?.email || organizationId) {
+      setPendingInvite(null);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(doc(db, 'invites', inviteId(user.email)), (docSnap) => {
+      setPendingInvite(docSnap.exists() ? docSnap.data() as OrganizationInvite : null);
+    }, (error) => {
+      console.error("Error fetching invite:", error);
+    });
+
+    return unsubscribe;
+  }, [user, organizationId]);
+
+  /**
+   * Creates an organization with the current user as its administrator and
+   * copies their existing per-user data into it. Runs as a Cloud Function so
+   * the copy is not limited by the security rules on the new organization.
+   */
+  const createOrganization = useCallback(async (name: string): Promise<void> => {
+    if (!user) return;
+    if (!name.trim()) throw new Error('The organization needs a name.');
+
+    const create = httpsCallable<{ name: string }, { organizationId: string }>(functions, 'createOrganization');
+    await create({ name: name.trim() });
+  }, [user]);
+
+  const acceptInvite = useCallback(async () => {
+    if (!user || !user.email || !pendingInvite) return;
+
+    const member: Omit<OrganizationMember, 'uid'> = {
+      email: user.email,
+      role: pendingInvite.role,
+      ...(pendingInvite.branchId && { branchId: pendingInvite.branchId }),
+      joinedAt: new Date().toISOString(),
+    };
+    // The invite was audited when it was sent; the user cannot write to the
+    // organization's audit log until the membership exists
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'organizations', pendingInvite.organizationId, 'users', user.uid), member);
+    batch.update(doc(db, 'users', user.uid), { organizationId: pendingInvite.organizationId });
+    batch.delete(doc(db, 'invites', inviteId(user.email)));
+    await batch.commit();
+  }, [user, pendingInvite]);
+
+  // A branchId limits the user to that branch's books; without one they join head office
+  const inviteMember = useCallback(async (email: string, role: UserRole, branchId: string | null = null) => {
+    if (!user || !organizationId) return;
+    const id = inviteId(email);
+    if (!id.includes('@')) throw new Error('Enter a valid email address.');
+    if (members.some(m => m.email.toLowerCase() === id)) throw new Error(`${email} is already a member.`);
+
+    const invite: OrganizationInvite = {
+      email: id,
+      organizationId,
+      organizationName: organization?.name || '',
+      role,
+      ...(branchId && { branchId }),
+      invitedBy: user.email || user.uid,
+      invitedAt: new Date().toISOString(),
+    };
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'invites', id), invite);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('organizationMember', id, 'create', null, invite, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, organization, members]);
+
+  const cancelInvite = useCallback(async (email: string) => {
+    if (!user || !organizationId) return;
+
+    const existing = invites.find(i => i.email === email) || null;
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'invites', email));
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('organizationMember', email, 'delete', existing, null, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, invites]);
+
+  const updateMemberRole = useCallback(async (uid: string, role: UserRole) => {
+    if (!user || !organizationId) return;
+    if (uid === user.uid) throw new Error('You cannot change your own role.');
+
+    const previousRole = members.find(m => m.uid === uid)?.role;
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'organizations', organizationId, 'users', uid), { role });
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('userRole', uid, 'update', { role: previousRole }, { role }, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, members]);
+
+  const updateMemberBranch = useCallback(async (uid: string, branchId: string | null) => {
+    if (!user || !organizationId) return;
+    if (uid === user.uid) throw new Error('You cannot change your own branch.');
+
+    const previousBranchId = members.find(m => m.uid === uid)?.branchId || null;
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'organizations', organizationId, 'users', uid), { branchId });
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('organizationMember', uid, 'update', { branchId: previousBranchId }, { branchId }, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, members]);
+
+  const removeMember = useCallback(async (uid: string) => {
+    if (!user || !organizationId) return;
+    if (uid === user.uid) throw new Error('You cannot remove yourself.');
+
+    const existing = members.find(m => m.uid === uid) || null;
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'organizations', organizationId, 'users', uid));
+    batch.update(doc(db, 'users', uid), { organizationId: null });
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('organizationMember', uid, 'delete', existing, null, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, members]);
+
+  return {
+    organization,
+    members,
+    invites,
+    pendingInvite,
+    createOrganization,
+    acceptInvite,
+    inviteMember,
+    cancelInvite,
+    updateMemberRole,
+    updateMemberBranch,
+    removeMember,
+  };
+};
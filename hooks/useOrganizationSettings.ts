@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import { OrganizationSettings } from '../types';
+import { DEFAULT_ORGANIZATION_SETTINGS } from '../constants';
+import { useAuth } from '../context/AuthContext';
+import { db } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  writeBatch
+} from 'firebase/firestore';
+import { auditLogEntry } from '../utils/auditLog';
+
+export const useOrganizationSettings = () => {
+  const { user, organizationId } = useAuth();
+  const [organization, setOrganization] = useState<OrganizationSettings>(DEFAULT_ORGANIZATION_SETTINGS);
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setOrganization(DEFAULT_ORGANIZATION_SETTINGS);
+      return;
+    }
+
+    const settingsRef = doc(db, 'organizations', organizationId, 'settings', 'organization');
+    const unsubscribe = onSnapshot(settingsRef, (docSnap) => {
+      setOrganization(docSnap.exists()
+        ? { ...DEFAULT_ORGANIZATION_SETTINGS, ...docSnap.data() as Partial<OrganizationSettings> }
+        : DEFAULT_ORGANIZATION_SETTINGS);
+    }, (error) => {
+      console.error("Error fetching organization settings:", error);
+    });
+
+    return unsubscribe;
+  }, [user, organizationId]);
+
+  const updateOrganization = useCallback(async (updates: Partial<OrganizationSettings>) => {
+    if (!user || !organizationId) return;
+    if (updates.name !== undefined && !updates.name.trim()) {
+      throw new Error('The organization needs a name.');
+    }
+
+    const updated = { ...organization, ...updates };
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'organizations', organizationId, 'settings', 'organization'), updated);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('organization', 'organization', 'update', organization, updated, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, organization]);
+
+  return {
+    organization,
+    updateOrganization,
+  };
+};
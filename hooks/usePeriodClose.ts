@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback } from 'react';
+import { PeriodCloseEvent, PeriodKind } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { db } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  orderBy,
+  writeBatch
+} from 'firebase/firestore';
+import { lockedThroughBefore } from '../utils/periods';
+
+const toISODate = (value: any): string | null => {
+  if (!value) return null;
+  return value.toDate ? value.toDate().toISOString().split('T')[0] : value;
+};
+
+export const usePeriodClose = () => {
+  const { user, organizationId } = useAuth();
+  const [lockedThrough, setLockedThrough] = useState<string | null>(null);
+  const [history, setHistory] = useState<PeriodCloseEvent[]>([]);
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setLockedThrough(null);
+      setHistory([]);
+      return;
+    }
+
+    // The lock is one date so firestore.rules can check it with a single get()
+    const lockRef = doc(db, 'organizations', organizationId, 'settings', 'periodLock');
+    const unsubscribeLock = onSnapshot(lockRef, (docSnap) => {
+      setLockedThrough(docSnap.exists() ? toISODate(docSnap.data().lockedThrough) : null);
+    }, (error) => {
+      console.error("Error fetching period lock:", error);
+    });
+
+    const historyRef = collection(db, 'organizations', organizationId, 'periodCloses');
+    const q = query(historyRef, orderBy('performedAt', 'desc'));
+    const unsubscribeHistory = onSnapshot(q, (snapshot) => {
+      setHistory(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as PeriodCloseEvent)));
+    }, (error) => {
+      console.error("Error fetching period close history:", error);
+    });
+
+    return () => {
+      unsubscribeLock();
+      unsubscribeHistory();
+    };
+  }, [user, organizationId]);
+
+  const recordLock = useCallback(async (event: Omit<PeriodCloseEvent, 'id' | 'performedBy' | 'performedAt'>) => {
+    if (!user || !organizationId) return;
+
+    // The lock names its history entry so firestore.rules can require a reason for reopening
+    const eventRef = doc(collection(db, 'organizations', organizationId, 'periodCloses'));
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'organizations', organizationId, 'settings', 'periodLock'), {
+      lockedThrough: event.lockedThroughAfter ? new Date(event.lockedThroughAfter) : null,
+      eventId: eventRef.id,
+    });
+    batch.set(eventRef, {
+      ...event,
+      performedBy: user.email || user.uid,
+      performedAt: new Date().toISOString(),
+    });
+    await batch.commit();
+  }, [user, organizationId]);
+
+  /**
+   * Closes every period up to and including `periodEnd`.
+   */
+  const closePeriod = useCallback(async (kind: PeriodKind, periodEnd: string) => {
+    if (lockedThrough && periodEnd <= lockedThrough) {
+      throw new Error(`The books are already closed through ${lockedThrough}.`);
+    }
+    await recordLock({
+      action: 'close',
+      kind,
+      periodEnd,
+      lockedThroughBefore: lockedThrough,
+      lockedThroughAfter: periodEnd,
+    });
+  }, [lockedThrough, recordLock]);
+
+  /**
+   * Reopens every period from `periodStart` onward. A reason is required and
+   * kept in the close history.
+   */
+  const reopenPeriod = useCallback(async (kind: PeriodKind, periodStart: string, reason: string) => {
+    if (!reason.trim()) {
+      throw new Error('A reason is required to reopen a closed period.');
+    }
+    if (!lockedThrough || periodStart > lockedThrough) {
+      throw new Error('That period is not closed.');
+    }
+    await recordLock({
+      action: 'reopen',
+      kind,
+      periodEnd: periodStart,
+      lockedThroughBefore: lockedThrough,
+      lockedThroughAfter: lockedThroughBefore(periodStart),
+      reason: reason.trim(),
+    });
+  }, [lockedThrough, recordLock]);
+
+  return {
+    lockedThrough,
+    history,
+    closePeriod,
+    reopenPeriod,
+  };
+};
@@ -0,0 +1,143 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Campaign, Pledge } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { db } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  orderBy,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { auditLogEntry } from '../utils/auditLog';
+
+export type NewCampaign = Omit<Campaign, 'id' | 'createdAt' | 'closed'>;
+
+export type NewPledge = Omit<Pledge, 'id' | 'createdAt' | 'createdBy' | 'cancelledAt'>;
+
+/**
+ * Fundraising campaigns and the pledges members make toward them.
+ */
+export const usePledges = () => {
+  const { user, organizationId, branchId } = useAuth();
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [pledges, setPledges] = useState<Pledge[]>([]);
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setCampaigns([]);
+      setPledges([]);
+      return;
+    }
+
+    const campaignsRef = collection(db, 'organizations', organizationId, 'campaigns');
+    const unsubscribeCampaigns = onSnapshot(query(campaignsRef, orderBy('startDate', 'desc')), (snapshot) => {
+      setCampaigns(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Campaign)));
+    }, (error) => {
+      console.error("Error fetching campaigns:", error);
+    });
+
+    // Branch users only see the pledges their branch took
+    const pledgesRef = collection(db, 'organizations', organizationId, 'pledges');
+    const pledgesQuery = branchId
+      ? query(pledgesRef, where('branchId', '==', branchId), orderBy('startDate'))
+      : query(pledgesRef, orderBy('startDate'));
+    const unsubscribePledges = onSnapshot(pledgesQuery, (snapshot) => {
+      setPledges(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Pledge)));
+    }, (error) => {
+      console.error("Error fetching pledges:", error);
+    });
+
+    return () => {
+      unsubscribeCampaigns();
+      unsubscribePledges();
+    };
+  }, [user, organizationId, branchId]);
+
+  const addCampaign = useCallback(async (campaign: NewCampaign) => {
+    if (!user || !organizationId) return;
+    if (!campaign.name.trim()) throw new Error('The campaign needs a name.');
+    if (!(campaign.goal > 0)) throw new Error('The goal must be more than zero.');
+    if (campaign.endDate && campaign.endDate < campaign.startDate) throw new Error('The campaign cannot end before it starts.');
+
+    const campaignRef = doc(collection(db, 'organizations', organizationId, 'campaigns'));
+    const created: Omit<Campaign, 'id'> = {
+      ...campaign,
+      name: campaign.name.trim(),
+      createdAt: new Date().toISOString(),
+    };
+    const batch = writeBatch(db);
+    batch.set(campaignRef, created);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('campaign', campaignRef.id, 'create', null, created, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId]);
+
+  const setCampaignClosed = useCallback(async (id: string, closed: boolean) => {
+    if (!user || !organizationId) return;
+
+    const existing = campaigns.find(c => c.id === id) || null;
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'organizations', organizationId, 'campaigns', id), { closed });
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('campaign', id, 'update', existing, { ...existing, closed }, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, campaigns]);
+
+  const addPledge = useCallback(async (pledge: NewPledge) => {
+    if (!user || !organizationId) return;
+    if (!(pledge.amount > 0)) throw new Error('The pledge amount must be more than zero.');
+    if (!Number.isInteger(pledge.installments) || pledge.installments < 1) {
+      throw new Error('A pledge is paid in at least one installment.');
+    }
+    const campaign = campaigns.find(c => c.id === pledge.campaignId);
+    if (!campaign || campaign.closed) throw new Error('Pledges can only be made to an open campaign.');
+
+    const pledgeRef = doc(collection(db, 'organizations', organizationId, 'pledges'));
+    const created: Omit<Pledge, 'id'> = {
+      ...pledge,
+      createdAt: new Date().toISOString(),
+      createdBy: user.email || user.uid,
+      ...(branchId && { branchId }),
+    };
+    const batch = writeBatch(db);
+    batch.set(pledgeRef, created);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('pledge', pledgeRef.id, 'create', null, created, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, branchId, campaigns]);
+
+  /**
+   * Releases a member from the rest of a pledge. Gifts already made still count.
+   */
+  const cancelPledge = useCallback(async (id: string) => {
+    if (!user || !organizationId) return;
+
+    const existing = pledges.find(p => p.id === id) || null;
+    const cancelledAt = new Date().toISOString();
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'organizations', organizationId, 'pledges', id), { cancelledAt });
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('pledge', id, 'update', existing, { ...existing, cancelledAt }, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, pledges]);
+
+  return {
+    campaigns,
+    pledges,
+    addCampaign,
+    setCampaignClosed,
+    addPledge,
+    cancelPledge,
+  };
+};
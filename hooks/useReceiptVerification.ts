@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { useAuth } from '../context/AuthContext';
+import { functions } from '../firebase';
+
+/**
+ * Signed link for a receipt's QR code. The signature is made on the server so
+ * nobody can print a receipt that verifies for a gift that was never given.
+ * Null until it is ready, or if the receipt cannot be signed.
+ */
+export const useReceiptVerificationUrl = (transactionId: string): string | null => {
+  const { user, organizationId } = useAuth();
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    if (!user || !organizationId || !transactionId) return;
+
+    let cancelled = false;
+    const issue = httpsCallable<{ transactionId: string }, { token: string; url: string }>(functions, 'issueReceiptToken');
+    issue({ transactionId })
+      .then(result => {
+        if (!cancelled) setUrl(result.data.url);
+      })
+      .catch(error => {
+        console.error('Error signing receipt:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, organizationId, transactionId]);
+
+  return url;
+};
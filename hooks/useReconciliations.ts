@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Reconciliation, StatementLine, Transaction } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { db } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  orderBy,
+  writeBatch
+} from 'firebase/firestore';
+import { auditLogEntry } from '../utils/auditLog';
+
+// The rules look up each transaction's audit entry, and a batch may make only
+// 20 document lookups in its rules
+const COMPLETE_BATCH_SIZE = 6;
+
+export const useReconciliations = () => {
+  const { user, organizationId, branchId } = useAuth();
+  const [reconciliations, setReconciliations] = useState<Reconciliation[]>([]);
+
+  useEffect(() => {
+    // Bank accounts are head office's, so branch users have no reconciliations to see
+    if (!user || !organizationId || branchId) {
+      setReconciliations([]);
+      return;
+    }
+
+    const reconciliationsRef = collection(db, 'organizations', organizationId, 'reconciliations');
+    const q = query(reconciliationsRef, orderBy('periodEnd', 'desc'));
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      const data = snapshot.docs.map(d => ({
+        id: d.id,
+        ...d.data(),
+      } as Reconciliation));
+      setReconciliations(data);
+    }, (error) => {
+      console.error("Error fetching reconciliations:", error);
+    });
+
+    return unsubscribe;
+  }, [user, organizationId, branchId]);
+
+  const startReconciliation = useCallback(async (reconciliation: Omit<Reconciliation, 'id' | 'status'>): Promise<string | undefined> => {
+    if (!user || !organizationId) return;
+
+    const reconciliationsRef = collection(db, 'organizations', organizationId, 'reconciliations');
+    const created = await addDoc(reconciliationsRef, { ...reconciliation, status: 'in_progress' });
+    return created.id;
+  }, [user, organizationId]);
+
+  const updateStatementLines = useCallback(async (id: string, lines: StatementLine[]) => {
+    if (!user || !organizationId) return;
+
+    await updateDoc(doc(db, 'organizations', organizationId, 'reconciliations', id), { lines });
+  }, [user, organizationId]);
+
+  const discardReconciliation = useCallback(async (id: string) => {
+    if (!user || !organizationId) return;
+
+    await deleteDoc(doc(db, 'organizations', organizationId, 'reconciliations', id));
+  }, [user, organizationId]);
+
+  /**
+   * Flags every matched transaction as reconciled and locks the account
+   * through the statement period end at the statement closing balance.
+   * The reconciliation is marked completing first, which freezes its matches;
+   * each step after that can run again, so a completion that stops partway is
+   * finished by completing it again.
+   */
+  const completeReconciliation = useCallback(async (reconciliation: Reconciliation, transactions: Transaction[]) => {
+    if (!user || !organizationId) return;
+
+    const performedBy = user.email || user.uid;
+    const reconciliationRef = doc(db, 'organizations', organizationId, 'reconciliations', reconciliation.id);
+    const matchedIds = new Set(reconciliation.lines.flatMap(l => l.matchedTransactionIds));
+    const matched = transactions.filter(t => matchedIds.has(t.id));
+    if (reconciliation.status === 'in_progress') {
+      if (matched.length < matchedIds.size) {
+        throw new Error('A matched transaction is no longer in the books. Unmatch it and try again.');
+      }
+      await updateDoc(reconciliationRef, { status: 'completing' });
+    }
+
+    // Transactions flagged by an earlier attempt are left as they are
+    const unflagged = matched.filter(t => t.reconciliationId !== reconciliation.id);
+    for (let i = 0; i < unflagged.length; i += COMPLETE_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      unflagged.slice(i, i + COMPLETE_BATCH_SIZE).forEach(t => {
+        const auditRef = doc(collection(db, 'organizations', organizationId, 'auditLog'));
+        batch.set(auditRef, auditLogEntry(
+          'transaction', t.id, 'update', t, { ...t, reconciliationId: reconciliation.id }, performedBy
+        ));
+        batch.update(doc(db, 'organizations', organizationId, 'transactions', t.id), {
+          reconciliationId: reconciliation.id,
+          auditEntryId: auditRef.id,
+        });
+      });
+      await batch.commit();
+    }
+
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'organizations', organizationId, 'accounts', reconciliation.accountId), {
+      reconciledThrough: reconciliation.periodEnd,
+      reconciledBalance: reconciliation.statementClosingBalance,
+    });
+    batch.update(reconciliationRef, {
+      status: 'completed',
+      completedAt: new Date().toISOString(),
+    });
+    await batch.commit();
+  }, [user, organizationId]);
+
+  return {
+    reconciliations,
+    startReconciliation,
+    updateStatementLines,
+    discardReconciliation,
+    completeReconciliation,
+  };
+};
@@ -0,0 +1,227 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { RecurringOccurrenceOverride, RecurringTemplate, TransactionType, UserRole } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { db } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  orderBy,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  runTransaction
+} from 'firebase/firestore';
+import { firstOccurrence, nextOccurrence, occurrenceOnOrAfter, occurrenceTransaction, occurrencesThrough } from '../utils/recurrence';
+import { journalEntryForTransaction, toJournalEntryDoc } from '../utils/ledger';
+import { getDefaultAccount } from '../utils/accounts';
+import { isInClosedPeriod } from '../utils/periods';
+import { isTransactionLocked } from '../utils/reconciliation';
+import { auditLogEntry } from '../utils/auditLog';
+import { useChartOfAccounts } from './useLedger';
+import { useAccounts } from './useAccounts';
+import { usePeriodClose } from './usePeriodClose';
+import { useApprovalPolicy } from './useApprovalPolicy';
+
+// The rules look up each occurrence's audit entry, and a write may make only
+// 20 document lookups in its rules
+const CATCH_UP_BATCH_SIZE = 6;
+
+export type NewRecurringTemplate = Omit<RecurringTemplate, 'id' | 'nextDate' | 'createdBy' | 'overrides' | 'paused'>;
+
+export const useRecurringTransactions = () => {
+  const { user, organizationId, branchId } = useAuth();
+  const [allTemplates, setTemplates] = useState<RecurringTemplate[]>([]);
+  // Branch users only schedule and record entries for their own branch
+  const templates = useMemo(
+    () => branchId ? allTemplates.filter(t => t.branchId === branchId) : allTemplates,
+    [allTemplates, branchId]
+  );
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setTemplates([]);
+      setLoaded(false);
+      return;
+    }
+
+    const templatesRef = collection(db, 'organizations', organizationId, 'recurringTransactions');
+    const q = query(templatesRef, orderBy('nextDate'));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setTemplates(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as RecurringTemplate)));
+      setLoaded(true);
+    }, (error) => {
+      console.error("Error fetching recurring transactions:", error);
+    });
+
+    return unsubscribe;
+  }, [user, organizationId]);
+
+  const addTemplate = useCallback(async (template: NewRecurringTemplate) => {
+    if (!user || !organizationId) return;
+
+    const templateRef = doc(collection(db, 'organizations', organizationId, 'recurringTransactions'));
+    await setDoc(templateRef, {
+      ...template,
+      ...(branchId && { branchId }),
+      nextDate: firstOccurrence(template),
+      createdBy: user.email || user.uid,
+    });
+  }, [user, organizationId, branchId]);
+
+  /**
+   * Changes future occurrences. Entries already recorded are left alone.
+   */
+  const editTemplate = useCallback(async (id: string, updates: Partial<NewRecurringTemplate>) => {
+    if (!user || !organizationId) return;
+
+    const existing = templates.find(t => t.id === id);
+    if (!existing) return;
+    const schedule = { ...existing, ...updates };
+    const scheduleChanged = updates.frequency !== undefined || updates.dayOfMonth !== undefined;
+    await updateDoc(doc(db, 'organizations', organizationId, 'recurringTransactions', id), {
+      ...updates,
+      ...(scheduleChanged && { nextDate: firstOccurrence({ ...schedule, startDate: existing.nextDate }) }),
+    });
+  }, [user, organizationId, templates]);
+
+  /**
+   * Pausing stops new entries. Occurrences that fall while paused are not
+   * recorded later; resuming starts from the next one due today or after.
+   */
+  const setPaused = useCallback(async (id: string, paused: boolean) => {
+    if (!user || !organizationId) return;
+
+    const existing = templates.find(t => t.id === id);
+    if (!existing) return;
+    const today = new Date().toISOString().split('T')[0];
+    await updateDoc(doc(db, 'organizations', organizationId, 'recurringTransactions', id), {
+      paused,
+      ...(!paused && existing.nextDate < today && {
+        nextDate: occurrenceOnOrAfter(existing, existing.nextDate, today),
+      }),
+    });
+  }, [user, organizationId, templates]);
+
+  /**
+   * Skips or changes a single occurrence; pass null to undo.
+   */
+  const updateOccurrence = useCallback(async (id: string, date: string, override: RecurringOccurrenceOverride | null) => {
+    if (!user || !organizationId) return;
+
+    const existing = templates.find(t => t.id === id);
+    if (!existing) return;
+    const { [date]: _previous, ...others } = existing.overrides || {};
+    await updateDoc(doc(db, 'organizations', organizationId, 'recurringTransactions', id), {
+      overrides: override ? { ...others, [date]: override } : others,
+    });
+  }, [user, organizationId, templates]);
+
+  const deleteTemplate = useCallback(async (id: string) => {
+    if (!user || !organizationId) return;
+    await deleteDoc(doc(db, 'organizations', organizationId, 'recurringTransactions', id));
+  }, [user, organizationId]);
+
+  return {
+    templates,
+    loaded,
+    addTemplate,
+    editTemplate,
+    setPaused,
+    updateOccurrence,
+    deleteTemplate,
+  };
+};
+
+/**
+ * Records every occurrence that has come due since the app was last opened.
+ * Mounted once in App. Entries use `{templateId}_{date}` as their id so two
+ * open tabs catching up at once write the same documents.
+ */
+export const useRecurringCatchUp = () => {
+  const { user, userRole, organizationId, branchId } = useAuth();
+  const { templates: visibleTemplates, loaded } = useRecurringTransactions();
+  // Each template is caught up by its own branch, or by head office for head office templates
+  const templates = useMemo(
+    () => visibleTemplates.filter(t => (t.branchId || null) === branchId),
+    [visibleTemplates, branchId]
+  );
+  const chartOfAccounts = useChartOfAccounts();
+  const { accounts } = useAccounts();
+  const { lockedThrough } = usePeriodClose();
+  const { policy } = useApprovalPolicy();
+  const running = useRef(false);
+
+  const canPost = userRole === UserRole.ADMIN || userRole === UserRole.TREASURER || userRole === UserRole.EDITOR;
+
+  useEffect(() => {
+    if (!user || !organizationId || !loaded || !canPost || running.current) return;
+
+    const today = new Date().toISOString().split('T')[0];
+    const due = templates.filter(t => !t.paused && t.nextDate <= today && (!t.endDate || t.nextDate <= t.endDate));
+    if (due.length === 0) return;
+
+    const catchUp = async () => {
+      running.current = true;
+      try {
+        const defaultAccountId = getDefaultAccount(accounts)?.id;
+        for (const template of due) {
+          const dates = occurrencesThrough(template, template.nextDate, today);
+          for (let i = 0; i < dates.length; i += CATCH_UP_BATCH_SIZE) {
+            const chunk = dates.slice(i, i + CATCH_UP_BATCH_SIZE);
+            const occurrences = chunk.flatMap(date => {
+              const occurrence = occurrenceTransaction(template, date);
+              if (!occurrence) return [];
+              const transaction = {
+                ...occurrence,
+                ...(!occurrence.accountId && defaultAccountId && { accountId: defaultAccountId }),
+                // Recurring expenses still need approval; the template's author is the submitter
+                ...(policy.enabled && occurrence.type === TransactionType.EXPENSE && {
+                  approvalStatus: 'submitted' as const,
+                  submittedBy: template.createdBy,
+                  approvals: [],
+                }),
+              };
+              if (isInClosedPeriod(date, lockedThrough) || isTransactionLocked(transaction, accounts)) {
+                console.warn(`Skipping recurring entry "${template.description}" on ${date}: the period is locked.`);
+                return [];
+              }
+              return [{ id: `${template.id}_${date}`, transaction }];
+            });
+            const templateRef = doc(db, 'organizations', organizationId, 'recurringTransactions', template.id);
+            const lastDate = chunk[chunk.length - 1];
+            // Another session may have recorded some of these already, and an
+            // occurrence edited or approved since must not be overwritten, so
+            // only occurrences with no document yet are created
+            await runTransaction(db, async (firestoreTransaction) => {
+              const templateSnap = await firestoreTransaction.get(templateRef);
+              if (!templateSnap.exists() || templateSnap.data().nextDate > lastDate) return;
+              const refs = occurrences.map(({ id }) => doc(db, 'organizations', organizationId, 'transactions', id));
+              const existing = await Promise.all(refs.map(ref => firestoreTransaction.get(ref)));
+              occurrences.forEach(({ id, transaction }, index) => {
+                if (existing[index].exists()) return;
+                const auditRef = doc(collection(db, 'organizations', organizationId, 'auditLog'));
+                firestoreTransaction.set(auditRef, auditLogEntry('transaction', id, 'create', null, transaction, user.email || user.uid));
+                firestoreTransaction.set(refs[index], { ...transaction, date: new Date(transaction.date), auditEntryId: auditRef.id });
+                if (!transaction.approvalStatus) {
+                  firestoreTransaction.set(
+                    doc(db, 'organizations', organizationId, 'journalEntries', id),
+                    toJournalEntryDoc(journalEntryForTransaction({ ...transaction, id }, chartOfAccounts))
+                  );
+                }
+              });
+              firestoreTransaction.update(templateRef, { nextDate: nextOccurrence(lastDate, template) });
+            });
+          }
+        }
+      } catch (error) {
+        console.error('Error recording recurring transactions:', error);
+      } finally {
+        running.current = false;
+      }
+    };
+    catchUp();
+  }, [user, organizationId, loaded, canPost, templates, accounts, chartOfAccounts, lockedThrough, policy]);
+};
@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { ReportRun, ReportSchedule, UserRole } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { db, functions } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  orderBy,
+  limit,
+  writeBatch
+} from 'firebase/firestore';
+import { auditLogEntry } from '../utils/auditLog';
+
+export type NewReportSchedule = Omit<ReportSchedule, 'id' | 'active' | 'lastRunAt' | 'createdAt' | 'createdBy'>;
+
+// The history shows the most recent reports; older ones stay stored
+const REPORT_RUN_HISTORY = 50;
+
+/**
+ * Reports the server generates and emails on a timer, and the history of
+ * reports it has generated.
+ */
+export const useReportSchedules = () => {
+  const { user, organizationId, branchId, userRole } = useAuth();
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [runs, setRuns] = useState<ReportRun[]>([]);
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setSchedules([]);
+      return;
+    }
+
+    const schedulesRef = collection(db, 'organizations', organizationId, 'reportSchedules');
+    const unsubscribe = onSnapshot(query(schedulesRef, orderBy('name')), (snapshot) => {
+      setSchedules(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as ReportSchedule)));
+    }, (error) => {
+      console.error("Error fetching report schedules:", error);
+    });
+
+    return () => unsubscribe();
+  }, [user, organizationId]);
+
+  useEffect(() => {
+    // Generated reports hold the whole church's figures, so only head office editors see them
+    const canEdit = [UserRole.ADMIN, UserRole.TREASURER, UserRole.EDITOR].includes(userRole);
+    if (!user || !organizationId || !canEdit || branchId) {
+      setRuns([]);
+      return;
+    }
+
+    const runsRef = collection(db, 'organizations', organizationId, 'reportRuns');
+    const unsubscribe = onSnapshot(query(runsRef, orderBy('generatedAt', 'desc'), limit(REPORT_RUN_HISTORY)), (snapshot) => {
+      setRuns(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as ReportRun)));
+    }, (error) => {
+      console.error("Error fetching report history:", error);
+    });
+
+    return () => unsubscribe();
+  }, [user, organizationId, branchId, userRole]);
+
+  const addSchedule = useCallback(async (schedule: NewReportSchedule) => {
+    if (!user || !organizationId) return;
+    if (!schedule.name.trim()) throw new Error('The schedule needs a name.');
+    if (schedule.recipients.length === 0) throw new Error('Add at least one recipient.');
+
+    const scheduleRef = doc(collection(db, 'organizations', organizationId, 'reportSchedules'));
+    const created: Omit<ReportSchedule, 'id'> = {
+      ...schedule,
+      name: schedule.name.trim(),
+      active: true,
+      createdAt: new Date().toISOString(),
+      createdBy: user.email || user.uid,
+    };
+    const batch = writeBatch(db);
+    batch.set(scheduleRef, created);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('reportSchedule', scheduleRef.id, 'create', null, created, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId]);
+
+  /**
+   * Pauses or resumes a schedule. A resumed schedule sends from `nextRunDate`
+   * on, so periods that ended while it was paused are not sent.
+   */
+  const setScheduleActive = useCallback(async (id: string, active: boolean, nextRunDate?: string) => {
+    if (!user || !organizationId) return;
+
+    const existing = schedules.find(s => s.id === id) || null;
+    const updates = { active, ...(nextRunDate && { nextRunDate }) };
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'organizations', organizationId, 'reportSchedules', id), updates);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('reportSchedule', id, 'update', existing, { ...existing, ...updates }, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, schedules]);
+
+  const deleteSchedule = useCallback(async (id: string) => {
+    if (!user || !organizationId) return;
+
+    const existing = schedules.find(s => s.id === id) || null;
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'organizations', organizationId, 'reportSchedules', id));
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('reportSchedule', id, 'delete', existing, null, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, schedules]);
+
+  /**
+   * Generates and sends the schedule's latest report now, without changing
+   * when it next runs.
+   */
+  const runScheduleNow = useCallback(async (id: string): Promise<string> => {
+    const run = httpsCallable<{ scheduleId: string }, { runId: string }>(functions, 'runReportScheduleNow');
+    const result = await run({ scheduleId: id });
+    return result.data.runId;
+  }, []);
+
+  return {
+    schedules,
+    runs,
+    addSchedule,
+    setScheduleActive,
+    deleteSchedule,
+    runScheduleNow,
+  };
+};
@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ReportDefinition } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { db } from '../firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  orderBy,
+  writeBatch
+} from 'firebase/firestore';
+import { auditLogEntry } from '../utils/auditLog';
+import { ReportLayout } from '../utils/reportBuilder';
+
+/**
+ * Report definitions saved from the report builder, shared by everyone in
+ * the organization so a report set up once can be re-run by anyone.
+ */
+export const useSavedReports = () => {
+  const { user, organizationId } = useAuth();
+  const [savedReports, setSavedReports] = useState<ReportDefinition[]>([]);
+
+  useEffect(() => {
+    if (!user || !organizationId) {
+      setSavedReports([]);
+      return;
+    }
+
+    const reportsRef = collection(db, 'organizations', organizationId, 'savedReports');
+    const unsubscribe = onSnapshot(query(reportsRef, orderBy('name')), (snapshot) => {
+      setSavedReports(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as ReportDefinition)));
+    }, (error) => {
+      console.error("Error fetching saved reports:", error);
+    });
+
+    return unsubscribe;
+  }, [user, organizationId]);
+
+  /**
+   * Saves the layout under `name`. Saving over an existing name replaces that
+   * report's layout, so a tweaked report keeps its place in the list.
+   */
+  const saveReport = useCallback(async (name: string, layout: ReportLayout): Promise<string | undefined> => {
+    if (!user || !organizationId) return;
+    if (!name.trim()) throw new Error('The report needs a name.');
+
+    const existing = savedReports.find(r => r.name.toLowerCase() === name.trim().toLowerCase()) || null;
+    const reportsRef = collection(db, 'organizations', organizationId, 'savedReports');
+    const reportRef = existing ? doc(reportsRef, existing.id) : doc(reportsRef);
+    const now = new Date().toISOString();
+    const saved: Omit<ReportDefinition, 'id'> = {
+      ...layout,
+      name: existing?.name || name.trim(),
+      createdAt: existing?.createdAt || now,
+      createdBy: existing?.createdBy || user.email || user.uid,
+      ...(existing && { updatedAt: now }),
+    };
+    const batch = writeBatch(db);
+    batch.set(reportRef, saved);
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('savedReport', reportRef.id, existing ? 'update' : 'create', existing, saved, user.email || user.uid)
+    );
+    await batch.commit();
+    return reportRef.id;
+  }, [user, organizationId, savedReports]);
+
+  const deleteReport = useCallback(async (id: string) => {
+    if (!user || !organizationId) return;
+
+    const existing = savedReports.find(r => r.id === id) || null;
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'organizations', organizationId, 'savedReports', id));
+    batch.set(
+      doc(collection(db, 'organizations', organizationId, 'auditLog')),
+      auditLogEntry('savedReport', id, 'delete', existing, null, user.email || user.uid)
+    );
+    await batch.commit();
+  }, [user, organizationId, savedReports]);
+
+  return {
+    savedReports,
+    saveReport,
+    deleteReport,
+  };
+};
@@ -1,7 +1,7 @@
 import { useEffect, useState, useMemo } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { db } from '../firebase';
-import { collection, onSnapshot, query, orderBy } from 'firebase/firestore';
+import { collection, onSnapshot, query, orderBy, where } from 'firebase/firestore';
 
 export type SmsQueueStatus = {
   id: string;
@@ -15,18 +15,21 @@ export type SmsQueueStatus = {
 };
 
 export const useSmsQueue = () => {
-  const { user } = useAuth();
+  const { user, organizationId, branchId } = useAuth();
   const [items, setItems] = useState<SmsQueueStatus[]>([]);
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
-    if (!user) {
+    if (!user || !organizationId) {
       setItems([]);
       return;
     }
     setLoading(true);
-    const ref = collection(db, 'users', user.uid, 'smsQueue');
-    const q = query(ref, orderBy('updatedAt', 'desc'));
+    // Branch users only see receipts for their branch's gifts
+    const ref = collection(db, 'organizations', organizationId, 'smsQueue');
+    const q = branchId
+      ? query(ref, where('branchId', '==', branchId), orderBy('updatedAt', 'desc'))
+      : query(ref, orderBy('updatedAt', 'desc'));
     const unsub = onSnapshot(q, (snap) => {
       const arr: SmsQueueStatus[] = snap.docs.map(d => {
         const data = d.data() as any;
@@ -45,7 +48,7 @@ export const useSmsQueue = () => {
       setLoading(false);
     }, () => setLoading(false));
     return unsub;
-  }, [user]);
+  }, [user, organizationId, branchId]);
 
   const byTransactionId = useMemo(() => {
     const map = new Map<string, SmsQueueStatus>();
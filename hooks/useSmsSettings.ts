@@ -1,7 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
-import { doc, getDoc, setDoc, onSnapshot } from 'firebase/firestore';
+import { collection, doc, getDoc, setDoc, onSnapshot, writeBatch } from 'firebase/firestore';
 import { db } from '../firebase';
 import { useAuth } from '../context/AuthContext';
+import { auditLogEntry } from '../utils/auditLog';
 
 interface SmsSettings {
   enabled: boolean;
@@ -18,15 +19,15 @@ const defaultSmsSettings: SmsSettings = {
 };
 
 export const useSmsSettings = () => {
-  const { currentUser } = useAuth();
+  const { user: currentUser, organizationId } = useAuth();
   const [smsSettings, setSmsSettings] = useState<SmsSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const getSmsSettingsRef = useCallback(() => {
-    if (!currentUser) return null;
-    return doc(db, `users/${currentUser.uid}/settings/sms`);
-  }, [currentUser]);
+    if (!currentUser || !organizationId) return null;
+    return doc(db, 'organizations', organizationId, 'settings', 'sms');
+  }, [currentUser, organizationId]);
 
   useEffect(() => {
     const settingsRef = getSmsSettingsRef();
@@ -54,10 +55,10 @@ export const useSmsSettings = () => {
     });
 
     return () => unsubscribe();
-  }, [currentUser, getSmsSettingsRef]);
+  }, [currentUser, organizationId, getSmsSettingsRef]);
 
   const updateSmsSettings = useCallback(async (newSettings: Partial<SmsSettings>) => {
-    if (!currentUser) {
+    if (!currentUser || !organizationId) {
       setError("No user logged in.");
       return;
     }
@@ -65,7 +66,13 @@ export const useSmsSettings = () => {
     try {
       const settingsRef = getSmsSettingsRef();
       if (settingsRef) {
-        await setDoc(settingsRef, { ...smsSettings, ...newSettings }, { merge: true });
+        const batch = writeBatch(db);
+        batch.set(settingsRef, { ...smsSettings, ...newSettings }, { merge: true });
+        batch.set(
+          doc(collection(db, 'organizations', organizationId, 'auditLog')),
+          auditLogEntry('smsSettings', 'sms', 'update', smsSettings, { ...smsSettings, ...newSettings }, currentUser.email || currentUser.uid)
+        );
+        await batch.commit();
         setSmsSettings(prev => ({ ...prev!, ...newSettings }));
       }
     } catch (e) {
@@ -74,7 +81,7 @@ export const useSmsSettings = () => {
     } finally {
       setLoading(false);
     }
-  }, [currentUser, smsSettings, getSmsSettingsRef]);
+  }, [currentUser, organizationId, smsSettings, getSmsSettingsRef]);
 
   return {
     smsSettings,
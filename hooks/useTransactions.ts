@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import { Transaction, TransactionType, ChartData } from '../types';
+import { Transaction, TransactionType, ChartData, AuditAction, ExpenseApproval, Member } from '../types';
 import { useAuth } from '../context/AuthContext';
 import { db } from '../firebase';
 import {
@@ -7,18 +7,39 @@ import {
   doc,
   onSnapshot,
   addDoc,
-  updateDoc,
-  deleteDoc,
   query,
   orderBy,
   where,
   getDocs,
   getDoc,
-  serverTimestamp
+  serverTimestamp,
+  writeBatch,
+  deleteField,
+  runTransaction,
+  DocumentData,
+  DocumentReference,
+  Transaction as FirestoreTransaction
 } from 'firebase/firestore';
 import { formatE164 } from '../utils/phoneUtils';
+import { journalEntryForTransaction, toJournalEntryDoc } from '../utils/ledger';
+import { getDefaultAccount, findUnassignedTransactions } from '../utils/accounts';
+import { isTransactionLocked } from '../utils/reconciliation';
+import { isInClosedPeriod } from '../utils/periods';
+import { auditLogEntry } from '../utils/auditLog';
+import { isSplitTransaction, totalsByCategory } from '../utils/splits';
+import { approvalBlocker, approvalChangesForEdit, isAwaitingApproval, isFullyApproved } from '../utils/approvals';
+import { DonorIdentity, donorTransactions } from '../utils/donors';
+import { assignReceiptNumbers, chunkForNumbering, fiscalYearOf, needsReceiptNumber } from '../utils/receipts';
+import { useChartOfAccounts } from './useLedger';
+import { useAccounts } from './useAccounts';
+import { usePeriodClose } from './usePeriodClose';
+import { useApprovalPolicy } from './useApprovalPolicy';
+import { useOrganizationSettings } from './useOrganizationSettings';
 
 const STORAGE_KEY_PREFIX = 'transactions_';
+// The rules look up each transaction's audit entry, and a batch may make only
+// 20 document lookups in its rules, so transactions are written a few at a time
+const IMPORT_BATCH_SIZE = 6;
 
 const loadFromLocalStorage = (userId: string): Transaction[] => {
   try {
@@ -39,21 +60,41 @@ const saveToLocalStorage = (userId: string, transactions: Transaction[]) => {
 };
 
 export const useTransactions = () => {
-  const { user } = useAuth();
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const { user, userRole, organizationId, branchId } = useAuth();
+  const chartOfAccounts = useChartOfAccounts();
+  const { accounts } = useAccounts();
+  const { lockedThrough } = usePeriodClose();
+  const { policy } = useApprovalPolicy();
+  const { organization } = useOrganizationSettings();
+  const [allTransactions, setAllTransactions] = useState<Transaction[]>([]);
+
+  // Soft-deleted transactions are kept for the audit log and unapproved expenses
+  // wait in the approval queue; neither counts in any total
+  const transactions = useMemo(
+    () => allTransactions.filter(t => !t.deletedAt && !isAwaitingApproval(t)),
+    [allTransactions]
+  );
+  const pendingExpenses = useMemo(
+    () => allTransactions.filter(t => !t.deletedAt && isAwaitingApproval(t)),
+    [allTransactions]
+  );
+  const deletedTransactions = useMemo(() => allTransactions.filter(t => t.deletedAt), [allTransactions]);
 
   useEffect(() => {
-    if (!user) {
-      setTransactions([]);
+    if (!user || !organizationId) {
+      setAllTransactions([]);
       return;
     }
 
     // Load from localStorage immediately for offline support
     const localData = loadFromLocalStorage(user.uid);
-    setTransactions(localData);
+    setAllTransactions(localData);
 
-    const transactionsRef = collection(db, 'users', user.uid, 'transactions');
-    const q = query(transactionsRef, orderBy('date', 'desc'));
+    const transactionsRef = collection(db, 'organizations', organizationId, 'transactions');
+    // Branch users only see their branch's books
+    const q = branchId
+      ? query(transactionsRef, where('branchId', '==', branchId), orderBy('date', 'desc'))
+      : query(transactionsRef, orderBy('date', 'desc'));
 
     const unsubscribe = onSnapshot(q, (snapshot) => {
       const transactionsData = snapshot.docs.map(doc => {
@@ -68,9 +109,35 @@ export const useTransactions = () => {
           receipts: data.receipts || [],
           donorName: data.donorName,
           donorContact: data.donorContact,
+          donorMemberId: data.donorMemberId,
+          accountId: data.accountId,
+          toAccountId: data.toAccountId,
+          reconciliationId: data.reconciliationId,
+          fundId: data.fundId,
+          adjustsTransactionId: data.adjustsTransactionId,
+          deletedAt: data.deletedAt,
+          deletedBy: data.deletedBy,
+          approvalStatus: data.approvalStatus,
+          submittedBy: data.submittedBy,
+          approvals: data.approvals,
+          rejectionReason: data.rejectionReason,
+          paidAt: data.paidAt,
+          recurringTemplateId: data.recurringTemplateId,
+          splits: data.splits,
+          countingSheetId: data.countingSheetId,
+          originalCurrency: data.originalCurrency,
+          originalAmount: data.originalAmount,
+          exchangeRate: data.exchangeRate,
+          branchId: data.branchId,
+          remittanceId: data.remittanceId,
+          campaignId: data.campaignId,
+          pledgeId: data.pledgeId,
+          receiptNumber: data.receiptNumber,
+          receiptYear: data.receiptYear,
+          receiptSequence: data.receiptSequence,
         } as Transaction;
       });
-      setTransactions(transactionsData);
+      setAllTransactions(transactionsData);
       // Save to localStorage when data comes from Firebase
       saveToLocalStorage(user.uid, transactionsData);
     }, (error) => {
@@ -79,16 +146,16 @@ export const useTransactions = () => {
     });
 
     return unsubscribe;
-  }, [user]);
+  }, [user, organizationId, branchId]);
 
   const enqueueSmsForTransaction = useCallback(async (transactionId: string, transaction: Omit<Transaction, 'id' | 'date'> & { date: string }) => {
     try {
-      if (!user) return;
+      if (!user || !organizationId) return;
       if (transaction.type !== TransactionType.INCOME) return;
 
       // Only send if linked to a member with SMS opt-in
       if (!transaction.donorMemberId) return;
-      const memberRef = doc(db, 'users', user.uid, 'members', transaction.donorMemberId);
+      const memberRef = doc(db, 'organizations', organizationId, 'members', transaction.donorMemberId);
       const memberSnap = await getDoc(memberRef);
       if (!memberSnap.exists()) return;
       const m = memberSnap.data() as any;
@@ -99,7 +166,7 @@ export const useTransactions = () => {
       const to = formatE164(phoneRaw, country);
       if (!to) return; // Invalid phone
 
-      const smsQueueRef = collection(db, 'users', user.uid, 'smsQueue');
+      const smsQueueRef = collection(db, 'organizations', organizationId, 'smsQueue');
       await addDoc(smsQueueRef, {
         userId: user.uid,
         transactionId,
@@ -107,8 +174,13 @@ export const useTransactions = () => {
         to,
         donorName: transaction.donorName || m.name,
         amount: transaction.amount,
+        ...(transaction.originalCurrency && {
+          originalCurrency: transaction.originalCurrency,
+          originalAmount: transaction.originalAmount,
+        }),
         date: transaction.date,
         category: transaction.category,
+        ...(transaction.branchId && { branchId: transaction.branchId }),
         status: 'queued',
         attempts: 0,
         optInSMS,
@@ -118,54 +190,395 @@ export const useTransactions = () => {
     } catch (e) {
       console.error('Failed to enqueue SMS receipt', e);
     }
-  }, [user]);
+  }, [user, organizationId]);
+
+  // New transactions without an explicit account go through the default account,
+  // and a branch user's transactions go in their branch's books
+  const withDefaultAccount = useCallback(<T extends Pick<Transaction, 'accountId' | 'branchId'>>(transaction: T): T => {
+    const defaultAccountId = getDefaultAccount(accounts)?.id;
+    const inBranch = branchId && !transaction.branchId ? { ...transaction, branchId } : transaction;
+    return inBranch.accountId || !defaultAccountId ? inBranch : { ...inBranch, accountId: defaultAccountId };
+  }, [accounts, branchId]);
 
-  const addTransaction = useCallback(async (transaction: Omit<Transaction, 'id' | 'date'> & { date: string }) => {
-    if (!user) return;
+  // With the approval policy on every expense waits for approval, whoever enters it, and the
+  // current user is its submitter. Reversals pay nothing out, so they post directly.
+  const withApprovalRoute = useCallback(<T extends Pick<Transaction, 'type' | 'approvalStatus' | 'adjustsTransactionId'>>(transaction: T): T => {
+    const needsApproval = policy.enabled && transaction.type === TransactionType.EXPENSE && !transaction.adjustsTransactionId;
+    const approvalStatus = transaction.approvalStatus || (needsApproval ? 'submitted' as const : undefined);
+    if (!approvalStatus) return transaction;
+    return { ...transaction, approvalStatus, submittedBy: user?.email || user?.uid, approvals: [] };
+  }, [user, policy.enabled]);
 
-    const transactionsRef = collection(db, 'users', user.uid, 'transactions');
-    const docRef = await addDoc(transactionsRef, {
-      ...transaction,
-      date: new Date(transaction.date),
+  /**
+   * Adds the audit entry for a transaction write to the same batch and returns
+   * its ID, which the write stores as auditEntryId: the database rules only
+   * accept a transaction write that brings its own new audit entry.
+   */
+  const recordAudit = useCallback((
+    batch: { set: (ref: DocumentReference, data: DocumentData) => unknown }, // A write batch or a Firestore transaction
+    entityId: string,
+    action: AuditAction,
+    before: Partial<Transaction> | null,
+    after: Partial<Transaction> | null
+  ): string => {
+    if (!user || !organizationId) throw new Error('Sign in to change transactions.');
+    const auditRef = doc(collection(db, 'organizations', organizationId, 'auditLog'));
+    batch.set(auditRef, auditLogEntry('transaction', entityId, action, before, after, user.email || user.uid));
+    return auditRef.id;
+  }, [user, organizationId]);
+
+  const assertOpenPeriod = useCallback((date: string) => {
+    if (isInClosedPeriod(date, lockedThrough)) {
+      throw new Error(`The books are closed through ${lockedThrough}. Post an adjusting entry in an open period instead.`);
+    }
+  }, [lockedThrough]);
+
+  /**
+   * Gives the gift from a named donor the next receipt number in its fiscal
+   * year. Runs inside the Firestore transaction that records the gift, so a
+   * number is only used if the gift is saved and no two gifts share one. The
+   * counter records which gift took the number, and the rules let it move by
+   * one per write, so each write may number one gift at most.
+   */
+  const numberReceipts = useCallback(async <T extends Omit<Transaction, 'id'>>(
+    firestoreTransaction: FirestoreTransaction,
+    entries: { id: string; transaction: T }[]
+  ): Promise<T[]> => {
+    const transactions = entries.map(e => e.transaction);
+    if (!organizationId) return transactions;
+    const toNumber = entries.filter(e => needsReceiptNumber(e.transaction));
+    if (toNumber.length === 0) return transactions;
+    if (toNumber.length > 1) throw new Error('Only one gift can be given a receipt number per write.');
+
+    const year = fiscalYearOf(toNumber[0].transaction.date, organization.fiscalYearStartMonth);
+    const counterRef = doc(db, 'organizations', organizationId, 'receiptCounters', String(year));
+    const counter = await firestoreTransaction.get(counterRef);
+    const last = counter.exists() ? Number(counter.data().last) : 0;
+    const assigned = assignReceiptNumbers(transactions, { [year]: last }, organization.receiptPrefix, organization.fiscalYearStartMonth);
+    firestoreTransaction.set(counterRef, {
+      last: assigned.lastByYear[year],
+      transactionId: toNumber[0].id,
+      updatedAt: new Date().toISOString(),
     });
-    await enqueueSmsForTransaction(docRef.id, transaction);
-  }, [user]);
+    return assigned.numbered;
+  }, [organizationId, organization.receiptPrefix, organization.fiscalYearStartMonth]);
+
+  const addTransaction = useCallback(async (newTransaction: Omit<Transaction, 'id' | 'date'> & { date: string }): Promise<string | undefined> => {
+    if (!user || !organizationId) return;
 
-  const addMultipleTransactions = useCallback(async (newTransactions: Omit<Transaction, 'id'>[]) => {
-    if (!user) return;
+    const transaction = withApprovalRoute(withDefaultAccount(newTransaction));
+    assertOpenPeriod(transaction.date);
+    if (isTransactionLocked(transaction, accounts)) {
+      throw new Error('This date falls in a reconciled period for the account and is locked.');
+    }
 
-    const transactionsRef = collection(db, 'users', user.uid, 'transactions');
-    const promises = newTransactions.map(async (t) => {
-      const docRef = await addDoc(transactionsRef, {
-        ...t,
-        date: new Date(t.date),
+    // Write the transaction, its receipt number and its journal entry together so the ledger never drifts
+    const transactionRef = doc(collection(db, 'organizations', organizationId, 'transactions'));
+    const entryRef = doc(db, 'organizations', organizationId, 'journalEntries', transactionRef.id);
+    const numbered = await runTransaction(db, async (firestoreTransaction) => {
+      const [withReceipt] = await numberReceipts(firestoreTransaction, [{ id: transactionRef.id, transaction }]);
+      const auditEntryId = recordAudit(firestoreTransaction, transactionRef.id, 'create', null, withReceipt);
+      firestoreTransaction.set(transactionRef, {
+        ...withReceipt,
+        date: new Date(withReceipt.date),
+        auditEntryId,
       });
-      await enqueueSmsForTransaction(docRef.id, t as any);
+      // Expenses awaiting approval are posted when approved
+      if (!isAwaitingApproval(withReceipt)) {
+        firestoreTransaction.set(entryRef, toJournalEntryDoc(
+          journalEntryForTransaction({ ...withReceipt, id: transactionRef.id }, chartOfAccounts)
+        ));
+      }
+      return withReceipt;
     });
-    await Promise.all(promises);
-  }, [user]);
+    await enqueueSmsForTransaction(transactionRef.id, numbered);
+    return transactionRef.id;
+  }, [user, organizationId, chartOfAccounts, accounts, withDefaultAccount, withApprovalRoute, assertOpenPeriod, recordAudit, numberReceipts]);
+
+  const addMultipleTransactions = useCallback(async (newTransactions: Omit<Transaction, 'id'>[]): Promise<string[]> => {
+    if (!user || !organizationId) return [];
+
+    newTransactions.forEach(t => assertOpenPeriod(t.date));
+    // Imported expenses go through approval like any other
+    const defaulted = newTransactions.map(t => withApprovalRoute(withDefaultAccount(t)));
+    // As with single entries, nothing lands inside a statement already reconciled
+    const locked = defaulted.filter(t => isTransactionLocked(t, accounts));
+    if (locked.length > 0) {
+      throw new Error(
+        `${locked.length} row${locked.length === 1 ? ' falls' : 's fall'} in a reconciled period for the account ` +
+        `(first: ${locked[0].date}, ${locked[0].description}). Remove ${locked.length === 1 ? 'it' : 'them'} and import again.`
+      );
+    }
+
+    const transactionsRef = collection(db, 'organizations', organizationId, 'transactions');
+    const ids: string[] = [];
+    for (const chunk of chunkForNumbering(defaulted, IMPORT_BATCH_SIZE)) {
+      const refs = chunk.map(() => doc(transactionsRef));
+      const written = await runTransaction(db, async (firestoreTransaction) => {
+        const numbered = await numberReceipts(firestoreTransaction, chunk.map((transaction, index) => ({ id: refs[index].id, transaction })));
+        return numbered.map((t, index) => {
+          const transactionRef = refs[index];
+          const auditEntryId = recordAudit(firestoreTransaction, transactionRef.id, 'create', null, t);
+          firestoreTransaction.set(transactionRef, {
+            ...t,
+            date: new Date(t.date),
+            auditEntryId,
+          });
+          if (!isAwaitingApproval(t)) {
+            firestoreTransaction.set(
+              doc(db, 'organizations', organizationId, 'journalEntries', transactionRef.id),
+              toJournalEntryDoc(journalEntryForTransaction({ ...t, id: transactionRef.id }, chartOfAccounts))
+            );
+          }
+          return { id: transactionRef.id, transaction: t };
+        });
+      });
+      ids.push(...written.map(w => w.id));
+      await Promise.all(written.map(w => enqueueSmsForTransaction(w.id, w.transaction as any)));
+    }
+    return ids;
+  }, [user, organizationId, chartOfAccounts, accounts, withDefaultAccount, withApprovalRoute, assertOpenPeriod, recordAudit, numberReceipts]);
+
+  /**
+   * Moves transactions recorded before accounts existed onto an account and
+   * re-posts their journal entries against it.
+   */
+  const assignUnassignedTransactions = useCallback(async (accountId: string): Promise<number> => {
+    if (!user || !organizationId) return 0;
+
+    // Closed periods stay as they were reported
+    const unassigned = findUnassignedTransactions(transactions)
+      .filter(t => !isInClosedPeriod(t.date, lockedThrough));
+    for (let i = 0; i < unassigned.length; i += IMPORT_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      unassigned.slice(i, i + IMPORT_BATCH_SIZE).forEach(t => {
+        const auditEntryId = recordAudit(batch, t.id, 'update', t, { ...t, accountId });
+        batch.update(doc(db, 'organizations', organizationId, 'transactions', t.id), { accountId, auditEntryId });
+        batch.set(
+          doc(db, 'organizations', organizationId, 'journalEntries', t.id),
+          toJournalEntryDoc(journalEntryForTransaction({ ...t, accountId }, chartOfAccounts))
+        );
+      });
+      await batch.commit();
+    }
+    return unassigned.length;
+  }, [user, organizationId, transactions, chartOfAccounts, lockedThrough, recordAudit]);
+
+  /**
+   * Relinks every gift from a duplicate donor, deleted ones included, to the
+   * surviving member, moves the duplicate's pledges across and removes the
+   * duplicate member record. Who gave never changes the books, so gifts in
+   * closed periods are relinked too.
+   */
+  const mergeDonors = useCallback(async (
+    survivor: Pick<Member, 'id' | 'name'>,
+    duplicate: Pick<DonorIdentity, 'key' | 'memberId'>
+  ): Promise<number> => {
+    if (!user || !organizationId) return 0;
+    if (duplicate.memberId === survivor.id) throw new Error('Choose two different donors to merge.');
+
+    const relink = { donorMemberId: survivor.id, donorName: survivor.name };
+    const relinked = donorTransactions(allTransactions, duplicate);
+    for (let i = 0; i < relinked.length; i += IMPORT_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      relinked.slice(i, i + IMPORT_BATCH_SIZE).forEach(t => {
+        const auditEntryId = recordAudit(batch, t.id, 'update', t, { ...t, ...relink });
+        batch.update(doc(db, 'organizations', organizationId, 'transactions', t.id), { ...relink, auditEntryId });
+      });
+      await batch.commit();
+    }
+
+    if (duplicate.memberId) {
+      const actor = user.email || user.uid;
+      const auditRef = () => doc(collection(db, 'organizations', organizationId, 'auditLog'));
+      const pledges = await getDocs(query(
+        collection(db, 'organizations', organizationId, 'pledges'),
+        where('memberId', '==', duplicate.memberId)
+      ));
+      const memberRef = doc(db, 'organizations', organizationId, 'members', duplicate.memberId);
+      const member = await getDoc(memberRef);
+      const batch = writeBatch(db);
+      pledges.docs.forEach(pledge => {
+        const moved = { memberId: survivor.id, memberName: survivor.name };
+        batch.update(pledge.ref, moved);
+        batch.set(auditRef(), auditLogEntry('pledge', pledge.id, 'update', pledge.data(), { ...pledge.data(), ...moved }, actor));
+      });
+      if (member.exists()) {
+        batch.delete(memberRef);
+        batch.set(auditRef(), auditLogEntry('member', member.id, 'delete', member.data(), null, actor));
+      }
+      await batch.commit();
+    }
+    return relinked.length;
+  }, [user, organizationId, allTransactions, recordAudit]);
 
   const resendSmsReceipt = useCallback(async (transactionId: string) => {
-    if (!user) return;
+    if (!user || !organizationId) return;
     const tx = transactions.find(t => t.id === transactionId);
     if (!tx) return;
     await enqueueSmsForTransaction(transactionId, tx);
-  }, [user, transactions]);
+  }, [user, organizationId, transactions]);
 
   const deleteTransaction = useCallback(async (id: string) => {
-    if (!user) return;
+    if (!user || !organizationId) return;
+
+    const existing = allTransactions.find(t => t.id === id && !t.deletedAt);
+    if (existing) assertOpenPeriod(existing.date);
+    if (existing && isTransactionLocked(existing, accounts)) {
+      throw new Error('This transaction has been reconciled and cannot be deleted.');
+    }
+
+    // The document stays so the deletion can be reviewed and undone; only the posting is removed
+    const deletion = { deletedAt: new Date().toISOString(), deletedBy: user.email || user.uid };
+    const batch = writeBatch(db);
+    const auditEntryId = recordAudit(batch, id, 'delete', existing || null, existing ? { ...existing, ...deletion } : deletion);
+    batch.update(doc(db, 'organizations', organizationId, 'transactions', id), { ...deletion, auditEntryId });
+    batch.delete(doc(db, 'organizations', organizationId, 'journalEntries', id));
+    await batch.commit();
+  }, [user, organizationId, allTransactions, accounts, assertOpenPeriod, recordAudit]);
 
-    const transactionRef = doc(db, 'users', user.uid, 'transactions', id);
-    await deleteDoc(transactionRef);
-  }, [user]);
+  /**
+   * Brings back a soft-deleted transaction and re-posts its journal entry.
+   */
+  const restoreTransaction = useCallback(async (id: string) => {
+    if (!user || !organizationId) return;
+
+    const deleted = deletedTransactions.find(t => t.id === id);
+    if (!deleted) throw new Error('That transaction is not deleted.');
+    assertOpenPeriod(deleted.date);
+
+    const { deletedAt, deletedBy, ...restored } = deleted;
+    const batch = writeBatch(db);
+    const auditEntryId = recordAudit(batch, id, 'restore', deleted, restored);
+    batch.update(doc(db, 'organizations', organizationId, 'transactions', id), {
+      deletedAt: deleteField(),
+      deletedBy: deleteField(),
+      auditEntryId,
+    });
+    if (!isAwaitingApproval(restored)) {
+      batch.set(
+        doc(db, 'organizations', organizationId, 'journalEntries', id),
+        toJournalEntryDoc(journalEntryForTransaction(restored, chartOfAccounts))
+      );
+    }
+    await batch.commit();
+  }, [user, organizationId, deletedTransactions, chartOfAccounts, assertOpenPeriod, recordAudit]);
 
   const editTransaction = useCallback(async (id: string, updates: Partial<Omit<Transaction, 'id'>>) => {
-    if (!user) return;
+    if (!user || !organizationId) return;
+
+    const existing = allTransactions.find(t => t.id === id && !t.deletedAt);
+    const postedFields: (keyof Transaction)[] = ['date', 'description', 'category', 'amount', 'type', 'accountId', 'toAccountId', 'splits'];
+    const changesPostedFields = postedFields.some(f => f in updates && JSON.stringify(updates[f]) !== JSON.stringify(existing?.[f]));
+
+    if (existing) assertOpenPeriod(existing.date);
+    if (updates.date) assertOpenPeriod(updates.date);
+    // A split's amount, type and category come from its lines, which are entered together
+    if (existing && isSplitTransaction(existing) && !('splits' in updates) &&
+        (['amount', 'type', 'category'] as const).some(f => f in updates && updates[f] !== existing[f])) {
+      throw new Error('Split transactions cannot be edited. Delete it and enter it again with the corrected lines.');
+    }
+
+    // Reconciled entries must keep matching the bank statement; donor details can still change
+    if (existing && changesPostedFields &&
+        (isTransactionLocked(existing, accounts) || isTransactionLocked({ ...existing, ...updates }, accounts))) {
+      throw new Error('This transaction has been reconciled. Only donor details can be changed.');
+    }
+
+    const changes = existing ? { ...updates, ...approvalChangesForEdit(existing, updates) } : updates;
+    const transactionRef = doc(db, 'organizations', organizationId, 'transactions', id);
+    const updatesWithDate = changes.date ? { ...changes, date: new Date(changes.date) } : changes;
+    const batch = writeBatch(db);
+    const auditEntryId = recordAudit(batch, id, 'update', existing || null, existing ? { ...existing, ...changes } : changes);
+    batch.update(transactionRef, { ...updatesWithDate, auditEntryId });
+
+    // Re-post the journal entry when any posted field changes
+    if (existing && changesPostedFields && !isAwaitingApproval(existing)) {
+      const entryRef = doc(db, 'organizations', organizationId, 'journalEntries', id);
+      batch.set(entryRef, toJournalEntryDoc(
+        journalEntryForTransaction({ ...existing, ...changes, id }, chartOfAccounts)
+      ));
+    }
+    await batch.commit();
+  }, [user, organizationId, allTransactions, chartOfAccounts, accounts, assertOpenPeriod, recordAudit]);
+
+  const findPendingExpense = useCallback((id: string): Transaction => {
+    const expense = allTransactions.find(t => t.id === id && !t.deletedAt);
+    if (!expense || expense.type !== TransactionType.EXPENSE || !expense.approvalStatus) {
+      throw new Error('That expense is not in the approval workflow.');
+    }
+    return expense;
+  }, [allTransactions]);
 
-    const transactionRef = doc(db, 'users', user.uid, 'transactions', id);
-    const updatesWithDate = updates.date ? { ...updates, date: new Date(updates.date) } : updates;
-    await updateDoc(transactionRef, updatesWithDate);
-  }, [user]);
+  const updateApproval = useCallback(async (
+    expense: Transaction,
+    updates: Partial<Transaction>,
+    post: boolean
+  ) => {
+    if (!user || !organizationId) return;
+
+    const batch = writeBatch(db);
+    const auditEntryId = recordAudit(batch, expense.id, 'update', expense, { ...expense, ...updates });
+    batch.update(doc(db, 'organizations', organizationId, 'transactions', expense.id), { ...updates, auditEntryId });
+    if (post) {
+      batch.set(
+        doc(db, 'organizations', organizationId, 'journalEntries', expense.id),
+        toJournalEntryDoc(journalEntryForTransaction({ ...expense, ...updates }, chartOfAccounts))
+      );
+    }
+    await batch.commit();
+  }, [user, organizationId, chartOfAccounts, recordAudit]);
+
+  /**
+   * Sends a draft or rejected expense to the approvers. Earlier approvals are
+   * cleared because the expense may have changed.
+   */
+  const submitExpense = useCallback(async (id: string) => {
+    const expense = findPendingExpense(id);
+    if (expense.approvalStatus !== 'draft' && expense.approvalStatus !== 'rejected') {
+      throw new Error('Only drafts and rejected expenses can be submitted.');
+    }
+    await updateApproval(expense, { approvalStatus: 'submitted', approvals: [], rejectionReason: '' }, false);
+  }, [findPendingExpense, updateApproval]);
+
+  /**
+   * Records the current user's approval. Once the policy is satisfied the
+   * expense is approved and posted to the ledger.
+   */
+  const approveExpense = useCallback(async (id: string) => {
+    if (!user || !organizationId) return;
+
+    const expense = findPendingExpense(id);
+    const approverId = user.email || user.uid;
+    const blocker = approvalBlocker(expense, { id: approverId, role: userRole }, policy);
+    if (blocker) throw new Error(blocker);
+    assertOpenPeriod(expense.date);
+
+    const approvals: ExpenseApproval[] = [
+      ...(expense.approvals || []),
+      { by: approverId, role: userRole, at: new Date().toISOString() },
+    ];
+    const approved = isFullyApproved(expense.amount, approvals, policy);
+    await updateApproval(expense, { approvals, ...(approved && { approvalStatus: 'approved' as const }) }, approved);
+  }, [user, organizationId, userRole, policy, findPendingExpense, assertOpenPeriod, updateApproval]);
+
+  const rejectExpense = useCallback(async (id: string, reason: string) => {
+    if (!user || !organizationId) return;
+    if (!reason.trim()) throw new Error('A reason is required to reject an expense.');
+
+    const expense = findPendingExpense(id);
+    if (expense.approvalStatus !== 'submitted') throw new Error('Only submitted expenses can be rejected.');
+    if (expense.submittedBy === (user.email || user.uid)) {
+      throw new Error('You submitted this expense, so someone else must review it.');
+    }
+    await updateApproval(expense, { approvalStatus: 'rejected', rejectionReason: reason.trim() }, false);
+  }, [user, organizationId, findPendingExpense, updateApproval]);
+
+  const markExpensePaid = useCallback(async (id: string) => {
+    const expense = findPendingExpense(id);
+    if (expense.approvalStatus !== 'approved') throw new Error('Only approved expenses can be marked as paid.');
+    await updateApproval(expense, { approvalStatus: 'paid', paidAt: new Date().toISOString() }, false);
+  }, [findPendingExpense, updateApproval]);
 
   const { totalIncome, totalExpenses, balance } = useMemo(() => {
     const income = transactions
@@ -182,13 +595,7 @@ export const useTransactions = () => {
   }, [transactions]);
 
   const expenseChartData: ChartData[] = useMemo(() => {
-    const expenseByCategory = transactions
-      .filter(t => t.type === TransactionType.EXPENSE)
-      .reduce<Record<string, number>>((acc, transaction) => {
-        const { category, amount } = transaction;
-        acc[category] = (acc[category] ?? 0) + amount;
-        return acc;
-      }, {});
+    const expenseByCategory = totalsByCategory(transactions, TransactionType.EXPENSE);
 
     return Object.entries(expenseByCategory)
       .map(([name, value]) => ({ name, value }))
@@ -196,13 +603,7 @@ export const useTransactions = () => {
   }, [transactions]);
 
   const incomeChartData: ChartData[] = useMemo(() => {
-    const incomeByCategory = transactions
-      .filter(t => t.type === TransactionType.INCOME)
-      .reduce<Record<string, number>>((acc, transaction) => {
-        const { category, amount } = transaction;
-        acc[category] = (acc[category] ?? 0) + amount;
-        return acc;
-      }, {});
+    const incomeByCategory = totalsByCategory(transactions, TransactionType.INCOME);
 
     return Object.entries(incomeByCategory)
       .map(([name, value]) => ({ name, value }))
@@ -212,10 +613,19 @@ export const useTransactions = () => {
 
   return {
     transactions,
+    pendingExpenses,
+    deletedTransactions,
     addTransaction,
     addMultipleTransactions,
     deleteTransaction,
     editTransaction,
+    restoreTransaction,
+    submitExpense,
+    approveExpense,
+    rejectExpense,
+    markExpensePaid,
+    assignUnassignedTransactions,
+    mergeDonors,
     resendSmsReceipt,
     totalIncome,
     totalExpenses,
@@ -0,0 +1,61 @@
+import { approvalBlocker, approvalChangesForEdit, isAwaitingApproval, isFullyApproved } from '../utils/approvals';
+import { ApprovalPolicy, Transaction, TransactionType, UserRole } from '../types';
+
+const policy: ApprovalPolicy = {
+  enabled: true,
+  secondApprovalThreshold: 1000,
+  pastorApprovalThreshold: 5000,
+};
+
+const expense = (overrides: Partial<Transaction>): Transaction => ({
+  id: 'e1',
+  date: '2025-03-02',
+  description: 'Sound system repair',
+  category: 'Maintenance',
+  amount: 200,
+  type: TransactionType.EXPENSE,
+  approvalStatus: 'submitted',
+  submittedBy: 'editor@church.org',
+  approvals: [],
+  ...overrides,
+});
+
+describe('expense approvals', () => {
+  it('keeps unapproved expenses out of the books', () => {
+    expect(isAwaitingApproval(expense({}))).toBe(true);
+    expect(isAwaitingApproval(expense({ approvalStatus: 'rejected' }))).toBe(true);
+    expect(isAwaitingApproval(expense({ approvalStatus: 'approved' }))).toBe(false);
+    expect(isAwaitingApproval(expense({ approvalStatus: undefined }))).toBe(false);
+  });
+
+  it('never lets the submitter approve their own expense', () => {
+    const own = expense({ submittedBy: 'treasurer@church.org' });
+    expect(approvalBlocker(own, { id: 'treasurer@church.org', role: UserRole.TREASURER }, policy)).not.toBeNull();
+    expect(approvalBlocker(own, { id: 'admin@church.org', role: UserRole.ADMIN }, policy)).toBeNull();
+  });
+
+  it('requires a treasurer or administrator for the first approval', () => {
+    expect(approvalBlocker(expense({}), { id: 'pastor@church.org', role: UserRole.PASTOR }, policy)).not.toBeNull();
+    expect(approvalBlocker(expense({}), { id: 'editor2@church.org', role: UserRole.EDITOR }, policy)).not.toBeNull();
+  });
+
+  it('needs a second approver above the threshold and a pastor above the pastor threshold', () => {
+    const first = { by: 'treasurer@church.org', role: UserRole.TREASURER, at: '2025-03-03T10:00:00Z' };
+    expect(isFullyApproved(200, [first], policy)).toBe(true);
+    expect(isFullyApproved(1500, [first], policy)).toBe(false);
+
+    const large = expense({ amount: 6000, approvals: [first] });
+    expect(approvalBlocker(large, { id: 'admin@church.org', role: UserRole.ADMIN }, policy)).not.toBeNull();
+    expect(approvalBlocker(large, { id: 'pastor@church.org', role: UserRole.PASTOR }, policy)).toBeNull();
+    expect(isFullyApproved(6000, [first, { by: 'pastor@church.org', role: UserRole.PASTOR, at: '2025-03-04T09:00:00Z' }], policy)).toBe(true);
+  });
+
+  it('keeps what was approved from changing', () => {
+    const first = { by: 'treasurer@church.org', role: UserRole.TREASURER, at: '2025-03-03T10:00:00Z' };
+
+    expect(() => approvalChangesForEdit(expense({ approvalStatus: 'approved', approvals: [first] }), { amount: 2000 })).toThrow();
+    expect(() => approvalChangesForEdit(expense({ approvalStatus: 'paid', approvals: [first] }), { category: 'Travel' })).toThrow();
+    expect(approvalChangesForEdit(expense({ approvalStatus: 'paid', approvals: [first] }), { description: 'Amplifier repair' })).toEqual({});
+    expect(approvalChangesForEdit(expense({ approvals: [first] }), { amount: 2000 })).toEqual({ approvalStatus: 'draft', approvals: [] });
+  });
+});
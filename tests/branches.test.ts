@@ -0,0 +1,64 @@
+import {
+  CONSOLIDATED_SCOPE,
+  HEAD_OFFICE_SCOPE,
+  branchSummaries,
+  expectedRemittance,
+  scopeTransactions,
+} from '../utils/branches';
+import { Transaction, TransactionType } from '../types';
+
+const tx = (id: string, overrides: Partial<Transaction>): Transaction => ({
+  id,
+  date: '2025-03-09',
+  description: id,
+  category: 'Tithes',
+  amount: 100,
+  type: TransactionType.INCOME,
+  ...overrides,
+});
+
+const transactions: Transaction[] = [
+  tx('hq-tithe', { amount: 1000 }),
+  tx('kasoa-tithe', { amount: 600, branchId: 'kasoa' }),
+  tx('kasoa-split', {
+    amount: 300,
+    branchId: 'kasoa',
+    category: 'Split',
+    splits: [{ category: 'Tithes', amount: 200 }, { category: 'Offerings', amount: 100 }],
+  }),
+  tx('kasoa-rent', { amount: 250, branchId: 'kasoa', type: TransactionType.EXPENSE, category: 'Rent' }),
+  tx('kasoa-feb', { amount: 900, branchId: 'kasoa', date: '2025-02-23' }),
+  tx('kasoa-sent', {
+    amount: 80, branchId: 'kasoa', type: TransactionType.EXPENSE,
+    category: 'Remittance to Head Office', remittanceId: 'kasoa_2025-02',
+  }),
+  tx('hq-received', { amount: 80, category: 'Branch Remittances', remittanceId: 'kasoa_2025-02' }),
+];
+
+describe('branches', () => {
+  it('scopes transactions to a branch, head office, or everything without remittances', () => {
+    const ids = (scope: string) => scopeTransactions(transactions, scope).map(t => t.id);
+
+    expect(ids('kasoa')).toEqual(['kasoa-tithe', 'kasoa-split', 'kasoa-rent', 'kasoa-feb', 'kasoa-sent']);
+    expect(ids(HEAD_OFFICE_SCOPE)).toEqual(['hq-tithe', 'hq-received']);
+    expect(ids(CONSOLIDATED_SCOPE)).not.toContain('kasoa-sent');
+    expect(ids(CONSOLIDATED_SCOPE)).not.toContain('hq-received');
+  });
+
+  it('applies the remittance rate to the month’s remittable income, including split lines', () => {
+    const branch = { id: 'kasoa', remittanceRate: 0.1, remittableCategories: ['Tithes'] };
+
+    expect(expectedRemittance(transactions, branch, '2025-03')).toBe(80);
+    expect(expectedRemittance(transactions, branch, '2025-02')).toBe(90);
+    expect(expectedRemittance(transactions, { ...branch, id: 'tema' }, '2025-03')).toBe(0);
+  });
+
+  it('summarizes each branch so the rows add up to the consolidated totals', () => {
+    const rows = branchSummaries(transactions, [{ id: 'kasoa', name: 'Kasoa' }]);
+
+    expect(rows).toEqual([
+      { branchId: null, name: 'Head Office', income: 1000, expenses: 0, net: 1000 },
+      { branchId: 'kasoa', name: 'Kasoa', income: 1800, expenses: 250, net: 1550 },
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+import { expectedPledgeInstallments, forecastCashFlow, ForecastHistoryMonth } from '../utils/cashFlowForecast';
+import { Pledge, RecurringTemplate, Transaction, TransactionType } from '../types';
+
+const month = (month: string, overrides: Partial<ForecastHistoryMonth>): ForecastHistoryMonth => ({
+  month,
+  income: 0,
+  expenses: 0,
+  recurringIncome: 0,
+  recurringExpenses: 0,
+  pledgeIncome: 0,
+  ...overrides,
+});
+
+const rent: RecurringTemplate = {
+  id: 'rent',
+  description: 'Office rent',
+  category: 'Rent',
+  amount: 500,
+  type: TransactionType.EXPENSE,
+  frequency: 'monthly',
+  dayOfMonth: 5,
+  startDate: '2025-11-05',
+  nextDate: '2026-11-05',
+  createdBy: 'treasurer@church.org',
+};
+
+const pledge = (overrides: Partial<Pledge>): Pledge => ({
+  id: 'ama',
+  campaignId: 'sanctuary',
+  memberId: 'm1',
+  memberName: 'Ama Mensah',
+  amount: 1200,
+  frequency: 'monthly',
+  installments: 12,
+  startDate: '2026-01-15',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  createdBy: 'treasurer@church.org',
+  ...overrides,
+});
+
+const paid = (amount: number, pledgeId = 'ama'): Transaction => ({
+  id: `gift-${amount}`,
+  date: '2026-06-01',
+  description: 'Building pledge',
+  category: 'Building Fund',
+  amount,
+  type: TransactionType.INCOME,
+  pledgeId,
+});
+
+describe('cash-flow forecast', () => {
+  it('projects each month from the same month last year, with recurring entries from their schedule', () => {
+    const forecast = forecastCashFlow({
+      history: [
+        month('2025-11', { income: 1000, pledgeIncome: 200, expenses: 900, recurringExpenses: 500 }),
+        month('2025-12', { income: 3000, expenses: 1000, recurringExpenses: 500 }),
+        month('2026-01', { income: 800, expenses: 1200, recurringExpenses: 500 }),
+        month('2026-10', { income: 99999 }), // Still running, so left out
+      ],
+      templates: [rent],
+      pledges: [],
+      transactions: [],
+      startingBalance: 1000,
+      minimumReserve: 950,
+      asOf: '2026-10-31',
+      months: 4,
+    });
+
+    expect(forecast.historyMonths).toBe(3);
+    expect(forecast.months.map(m => [m.month, m.income, m.expenses, m.balance])).toEqual([
+      ['2026-10', 0, 0, 1000],
+      ['2026-11', 800, 900, 900],
+      ['2026-12', 3000, 1000, 2900],
+      ['2027-01', 800, 1200, 2500],
+      // No February in history, so an average month
+      ['2027-02', 1533.33, 1033.33, 3000],
+    ]);
+    expect(forecast.months[1].recurringExpenses).toBe(500);
+    expect(forecast.shortfall?.month).toBe('2026-11');
+  });
+
+  it('widens the band with each month and warns when its low end crosses the reserve', () => {
+    const forecast = forecastCashFlow({
+      history: [
+        month('2025-11', { income: 800, expenses: 400 }),
+        month('2025-12', { income: 3000, expenses: 500 }),
+        month('2026-01', { income: 800, expenses: 700 }),
+      ],
+      templates: [],
+      pledges: [],
+      transactions: [],
+      startingBalance: 4000,
+      minimumReserve: 3000,
+      asOf: '2026-10-31',
+      months: 3,
+    });
+
+    // Past months' net: 400, 2500 and 100
+    const spread = Math.sqrt((600 ** 2 + 1500 ** 2 + 900 ** 2) / 2);
+    const [october, november, , january] = forecast.months;
+    expect(october.low).toBe(october.high);
+    expect(november.high - november.balance).toBeCloseTo(1.28 * spread, 1);
+    expect(january.balance - january.low).toBeCloseTo(1.28 * spread * Math.sqrt(3), 1);
+    expect(forecast.shortfall).toBeNull();
+    expect(forecast.atRisk?.month).toBe('2026-11');
+  });
+
+  it('expects pledge installments still to come, with the rest of this month prorated', () => {
+    const until = '2026-12-31';
+    // Ten installments were due by the end of October
+    expect(expectedPledgeInstallments(pledge({}), [paid(1100)], '2026-10-31', until))
+      .toEqual([{ date: '2026-12-15', amount: 100 }]);
+    expect(expectedPledgeInstallments(pledge({}), [paid(500)], '2026-10-31', until))
+      .toEqual([{ date: '2026-11-15', amount: 100 }, { date: '2026-12-15', amount: 100 }]);
+    expect(expectedPledgeInstallments(pledge({ cancelledAt: '2026-05-01' }), [], '2026-10-31', until)).toEqual([]);
+
+    const forecast = forecastCashFlow({
+      history: [month('2025-10', { income: 3100 })],
+      templates: [],
+      pledges: [pledge({ startDate: '2026-01-20' })],
+      transactions: [paid(900)],
+      startingBalance: 0,
+      minimumReserve: 0,
+      asOf: '2026-10-16',
+      months: 1,
+    });
+    expect(forecast.months.map(m => [m.month, m.income, m.pledgeIncome])).toEqual([
+      ['2026-10', 1600, 100],
+      ['2026-11', 3200, 100],
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  collectionPostings,
+  countDiscrepancies,
+  emptyCounter,
+  postingBlocker,
+  tallyTotal,
+} from '../utils/countingSheet';
+import { CollectionCounter, CountingSheet, TransactionType } from '../types';
+
+const counted = (name: string, signed = true): CollectionCounter => {
+  const counter = emptyCounter(name);
+  counter.tallies.tithe = { cash: { note50: 4, note5: 3, coin50p: 2 }, cheques: 500, momo: 120 };
+  counter.tallies.offering = { cash: { note10: 7, coin20p: 5 }, cheques: 0, momo: 0 };
+  return signed ? { ...counter, signedAt: '2025-03-02T13:00:00.000Z' } : counter;
+};
+
+const sheet = (counters: CollectionCounter[]): CountingSheet => ({
+  id: 'sheet1',
+  serviceDate: '2025-03-02',
+  serviceName: 'First Service',
+  counters,
+  accountId: 'bank',
+  status: 'counting',
+  recordedBy: 'usher@church.org',
+});
+
+describe('counting sheet', () => {
+  it('totals notes, coins, cheques and MoMo', () => {
+    const { tallies } = counted('Ama');
+    expect(tallyTotal(tallies.tithe)).toBe(836);
+    expect(tallyTotal(tallies.offering)).toBe(71);
+    expect(tallyTotal(tallies.seed)).toBe(0);
+  });
+
+  it('flags collections the counters disagree on and blocks approval', () => {
+    const second = counted('Kofi');
+    second.tallies.offering = { ...second.tallies.offering, cash: { note10: 6, coin20p: 5 } };
+    const recount = sheet([counted('Ama'), second]);
+
+    expect(countDiscrepancies(recount)).toEqual([{ type: 'offering', first: 71, second: 61, difference: -10 }]);
+    expect(postingBlocker(recount)).toMatch(/Offering/);
+    expect(postingBlocker(sheet([counted('Ama'), counted('Kofi', false)]))).toMatch(/sign off/);
+  });
+
+  it('posts one income entry per collection once both counts agree', () => {
+    const agreed = sheet([counted('Ama'), counted('Kofi')]);
+    expect(postingBlocker(agreed)).toBeNull();
+    expect(collectionPostings(agreed)).toEqual([
+      {
+        id: 'sheet1_tithe',
+        transaction: {
+          date: '2025-03-02', description: 'First Service tithe', category: 'Tithes', amount: 836,
+          type: TransactionType.INCOME, accountId: 'bank', countingSheetId: 'sheet1',
+        },
+      },
+      {
+        id: 'sheet1_offering',
+        transaction: {
+          date: '2025-03-02', description: 'First Service offering', category: 'Offerings', amount: 71,
+          type: TransactionType.INCOME, accountId: 'bank', countingSheetId: 'sheet1',
+        },
+      },
+    ]);
+  });
+});
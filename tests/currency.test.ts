@@ -0,0 +1,38 @@
+import { availableCurrencies, foreignCurrencyFields, rateOn } from '../utils/currency';
+import { formatCurrency } from '../utils/formatters';
+import { DEFAULT_CURRENCY_SETTINGS } from '../constants';
+import { ExchangeRate } from '../types';
+
+const rate = (currency: string, value: number, effectiveDate: string): ExchangeRate => ({
+  id: `${currency}_${effectiveDate}`,
+  currency,
+  rate: value,
+  effectiveDate,
+  updatedBy: 'treasurer@church.org',
+});
+
+const rates = [rate('USD', 14.8, '2025-01-01'), rate('USD', 15.2, '2025-02-01'), rate('GBP', 18.9, '2025-01-15')];
+
+describe('currency', () => {
+  it('uses the latest rate on or before the date', () => {
+    expect(rateOn(rates, 'USD', '2025-01-31')).toBe(14.8);
+    expect(rateOn(rates, 'USD', '2025-02-01')).toBe(15.2);
+    expect(rateOn(rates, 'GBP', '2025-01-10')).toBeUndefined();
+    expect(availableCurrencies('GHS', rates)).toEqual(['GHS', 'USD', 'GBP']);
+  });
+
+  it('records gifts in base currency and keeps the original amount', () => {
+    expect(foreignCurrencyFields('USD', 'GHS', 100.5, 15.2)).toEqual({
+      amount: 1527.6,
+      originalCurrency: 'USD',
+      originalAmount: 100.5,
+      exchangeRate: 15.2,
+    });
+    expect(foreignCurrencyFields('GHS', 'GHS', 250, 1)).toEqual({ amount: 250 });
+  });
+
+  it('formats amounts in the given base currency and locale', () => {
+    expect(formatCurrency(1250.5, DEFAULT_CURRENCY_SETTINGS)).toBe('GH₵1,250.50');
+    expect(formatCurrency(1250.5, { baseCurrency: 'USD', locale: 'en-US' })).toBe('$1,250.50');
+  });
+});
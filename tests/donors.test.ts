@@ -0,0 +1,44 @@
+import { donorIdentity, donorKey, findDuplicateDonors, nameSimilarity } from '../utils/donors';
+import { Member } from '../types';
+
+const members: Member[] = [
+  { id: 'm1', name: 'Kwame Mensah', email: 'kwame@example.com', phone: '024 123 4567', dateJoined: '2020-01-05' },
+  { id: 'm2', name: 'Abena Owusu', phone: '+233 20 555 0101', dateJoined: '2021-06-13' },
+  { id: 'm3', name: 'Abena Owusu-Ansah', dateJoined: '2022-02-01' },
+];
+
+describe('donor identity', () => {
+  it('keys gifts on the linked member, else on the name however it was typed', () => {
+    expect(donorKey({ donorMemberId: 'm1', donorName: 'K. Mensah' })).toBe('member:m1');
+    expect(donorKey({ donorName: 'Kwame Mensah' })).toBe(donorKey({ donorName: '  kwame  MENSAH ' }));
+    expect(donorKey({})).toBe(donorKey({ donorName: 'Anonymous' }));
+
+    expect(donorIdentity({ donorMemberId: 'm1', donorName: 'K. Mensah' }, members)).toEqual({
+      key: 'member:m1', memberId: 'm1', name: 'Kwame Mensah', email: 'kwame@example.com', phone: '024 123 4567',
+    });
+    expect(donorIdentity({ donorName: 'Yaw Boateng', donorContact: '0241234567' }, members).phone).toBe('0241234567');
+  });
+
+  it('scores initials and reordered names as alike', () => {
+    expect(nameSimilarity('K. Mensah', 'Kwame Mensah')).toBeGreaterThanOrEqual(0.85);
+    expect(nameSimilarity('Mensah Kwame', 'Kwame Mensah')).toBe(1);
+    expect(nameSimilarity('Kwame Mensah', 'Kofi Mensah')).toBeLessThan(0.85);
+  });
+
+  it('pairs likely duplicates by name, email or phone and skips anonymous gifts', () => {
+    const donors = [
+      ...members.map(m => donorIdentity({ donorMemberId: m.id }, members)),
+      donorIdentity({ donorName: 'K. Mensah' }, members),
+      donorIdentity({ donorName: 'Ama', donorContact: '+233241234567' }, members),
+      donorIdentity({ donorName: 'Anonymous' }, members),
+      donorIdentity({ donorName: '' }, members),
+    ];
+
+    const pairs = findDuplicateDonors(donors).map(p => [p.a.name, p.b.name, p.reasons]);
+
+    expect(pairs).toEqual([
+      ['Kwame Mensah', 'Ama', ['phone']],
+      ['Kwame Mensah', 'K. Mensah', ['name']],
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { buildFinancialStatements, StatementTransaction } from '../functions/src/financialStatements';
+import { renderFinancialStatementsPdf } from '../functions/src/statementPdf';
+
+const transactions: StatementTransaction[] = [
+  { id: 't1', date: '2025-12-28', description: 'Tithes', category: 'Tithes', amount: 1000, type: 'Income', accountId: 'bank' },
+  { id: 't2', date: '2026-01-04', description: 'Sunday offering', category: 'Offering', amount: 400, type: 'Income', accountId: 'bank' },
+  { id: 't3', date: '2026-01-05', description: 'Roof pledge', category: 'Building Fund', amount: 600, type: 'Income', accountId: 'momo', receiptNumber: 'GWCC-2026-000001' },
+  { id: 't4', date: '2026-01-10', description: 'Endowment gift', category: 'Donations', amount: 300, type: 'Income', fundId: 'endowment' },
+  { id: 't5', date: '2026-01-12', description: 'ECG bill', category: 'Utilities', amount: 250, type: 'Expense', accountId: 'bank' },
+  { id: 't6', date: '2026-01-15', description: 'Float', category: 'Transfer', amount: 100, type: 'Transfer', accountId: 'bank', toAccountId: 'momo' },
+  { id: 't7', date: '2026-02-02', description: 'Later gift', category: 'Tithes', amount: 50, type: 'Income', accountId: 'bank' },
+];
+
+const statements = buildFinancialStatements({
+  transactions,
+  accounts: [
+    { id: 'bank', name: 'Main Bank', openingBalance: 500, openingDate: '2025-01-01' },
+    { id: 'momo', name: 'MoMo Wallet', openingBalance: 200, openingDate: '2026-01-02' },
+  ],
+  funds: [],
+  period: { start: '2026-01-01', end: '2026-01-31' },
+  includeOpeningBalances: true,
+});
+
+describe('financial statements', () => {
+  it('balances the statement of financial position with net assets by restriction', () => {
+    const position = statements.financialPosition;
+    expect(position.assets).toEqual([
+      { label: 'Main Bank', amount: 1550 },
+      { label: 'MoMo Wallet', amount: 900 },
+      { label: 'Cash and Bank (no account)', amount: 300 },
+    ]);
+    expect(position.totalAssets).toBe(2750);
+    expect(position.netAssetsWithoutRestrictions).toEqual([
+      { label: 'General Fund', amount: 1150 },
+      { label: 'Opening account balances', amount: 700 },
+    ]);
+    expect(position.netAssetsWithRestrictions).toEqual([
+      { label: 'Building Fund', amount: 600 },
+      { label: 'Endowment', amount: 300 },
+    ]);
+    expect(position.totalNetAssets).toBe(position.totalAssets);
+  });
+
+  it('ties activities and cash flows to the opening and closing books', () => {
+    const { activities, cashFlow } = statements;
+    expect(activities.totalRevenue).toEqual({ without: 400, with: 900, total: 1300 });
+    expect(activities.beginningNetAssets.total).toBe(1500);
+    expect(activities.accountsOpened.total).toBe(200);
+    expect(activities.endingNetAssets.total).toBe(statements.financialPosition.totalNetAssets);
+
+    expect(cashFlow.netOperating).toBe(750);
+    expect(cashFlow.netFinancing).toBe(300);
+    expect(cashFlow.beginningCash).toBe(1500);
+    expect(cashFlow.endingCash).toBe(statements.financialPosition.totalAssets);
+    expect(statements.categoryDetail.map(d => d.category)).toEqual(['Building Fund', 'Donations', 'Offering', 'Utilities']);
+  });
+
+  it('renders the same PDF bytes every time for the same period', async () => {
+    const options = { churchName: 'Greater Works City Church', pastorName: 'Rev. Mensah', scopeLabel: 'Consolidated', currency: 'GHS', locale: 'en-GH' };
+    const first = await renderFinancialStatementsPdf(statements, options);
+    const second = await renderFinancialStatementsPdf(statements, options);
+
+    expect(first.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(first.equals(second)).toBe(true);
+  });
+});
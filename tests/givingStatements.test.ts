@@ -0,0 +1,56 @@
+import { givingStatements, statementFileName, unlinkedGifts } from '../utils/givingStatements';
+import { mergedGivingStatementsPdf } from '../utils/givingStatementPdf';
+import { DEFAULT_CURRENCY_SETTINGS, DEFAULT_ORGANIZATION_SETTINGS } from '../constants';
+import { Member, Transaction, TransactionType } from '../types';
+
+const members: Member[] = [
+  { id: 'm1', name: 'Ama Mensah', email: 'ama@example.com', dateJoined: '2020-01-05' },
+  { id: 'm2', name: 'Kofi Boateng', dateJoined: '2021-06-13' },
+];
+
+const gift = (id: string, overrides: Partial<Transaction>): Transaction => ({
+  id,
+  date: '2024-03-10',
+  description: 'Sunday tithe',
+  category: 'Tithes',
+  amount: 100,
+  type: TransactionType.INCOME,
+  ...overrides,
+});
+
+const transactions: Transaction[] = [
+  gift('t1', { donorMemberId: 'm1', donorName: 'Ama Mensah', date: '2024-05-05' }),
+  gift('t2', {
+    donorMemberId: 'm1', donorName: 'A. Mensah', amount: 250, category: 'Split',
+    splits: [{ category: 'Tithes', amount: 200 }, { category: 'Building Fund', amount: 50 }],
+  }),
+  gift('t3', { donorMemberId: 'm2', donorName: 'Kofi Boateng', amount: 40 }),
+  gift('t4', { donorMemberId: 'm2', date: '2023-12-31' }),
+  gift('t5', { donorName: 'Visitor' }),
+  gift('t6', { donorMemberId: 'm1', type: TransactionType.EXPENSE, category: 'Refund' }),
+];
+
+describe('giving statements', () => {
+  it('groups the year’s gifts by member, in date order with split lines itemised', () => {
+    const [ama, kofi] = givingStatements(transactions, members, 2024);
+
+    expect(ama.donorName).toBe('Ama Mensah');
+    expect(ama.email).toBe('ama@example.com');
+    expect(ama.gifts.map(g => [g.date, g.category, g.amount])).toEqual([
+      ['2024-03-10', 'Tithes', 200],
+      ['2024-03-10', 'Building Fund', 50],
+      ['2024-05-05', 'Tithes', 100],
+    ]);
+    expect(ama.totalsByCategory).toEqual({ Tithes: 300, 'Building Fund': 50 });
+    expect(ama.total).toBe(350);
+    expect(kofi.total).toBe(40);
+    expect(unlinkedGifts(transactions, 2024).map(t => t.id)).toEqual(['t5']);
+  });
+
+  it('names files safely and renders each statement on its own page', () => {
+    const statements = givingStatements(transactions, members, 2024);
+
+    expect(statementFileName(statements[0])).toBe('Giving-Statement-2024-Ama-Mensah.pdf');
+    expect(mergedGivingStatementsPdf(statements, DEFAULT_ORGANIZATION_SETTINGS, DEFAULT_CURRENCY_SETTINGS).getNumberOfPages()).toBe(2);
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  buildChartOfAccounts,
+  categoryAccountCodes,
+  journalEntryForTransaction,
+  isBalanced,
+  computeTrialBalance,
+  findUnpostedTransactions,
+} from '../utils/ledger';
+import { INCOME_CATEGORIES, EXPENSE_CATEGORIES, CASH_ACCOUNT_CODE, EXPENSE_ACCOUNT_BASE } from '../constants';
+import { Transaction, TransactionType } from '../types';
+
+const chart = buildChartOfAccounts(INCOME_CATEGORIES, EXPENSE_CATEGORIES);
+
+const tx = (overrides: Partial<Transaction>): Transaction => ({
+  id: 't1',
+  date: '2025-01-05',
+  description: 'Sunday tithe',
+  category: 'Tithes',
+  amount: 100,
+  type: TransactionType.INCOME,
+  ...overrides,
+});
+
+describe('ledger', () => {
+  it('posts income as debit cash, credit income', () => {
+    const entry = journalEntryForTransaction(tx({}), chart);
+    const tithes = chart.find(a => a.category === 'Tithes')!;
+
+    expect(isBalanced(entry.lines)).toBe(true);
+    expect(entry.lines).toContainEqual({ accountCode: CASH_ACCOUNT_CODE, debit: 100, credit: 0 });
+    expect(entry.lines).toContainEqual({ accountCode: tithes.code, debit: 0, credit: 100 });
+    expect(entry.sourceTransactionId).toBe('t1');
+  });
+
+  it('posts expenses as debit expense, credit cash', () => {
+    const entry = journalEntryForTransaction(
+      tx({ type: TransactionType.EXPENSE, category: 'Utilities', amount: 40 }),
+      chart
+    );
+    const utilities = chart.find(a => a.category === 'Utilities')!;
+
+    expect(entry.lines).toContainEqual({ accountCode: utilities.code, debit: 40, credit: 0 });
+    expect(entry.lines).toContainEqual({ accountCode: CASH_ACCOUNT_CODE, debit: 0, credit: 40 });
+  });
+
+  it('falls back to the Other account for unknown categories', () => {
+    const entry = journalEntryForTransaction(
+      tx({ type: TransactionType.EXPENSE, category: 'Not a category' }),
+      chart
+    );
+    const other = chart.find(a => a.category === 'Other' && a.code.startsWith('5'))!;
+    expect(entry.lines[0].accountCode).toBe(other.code);
+  });
+
+  it('produces a balanced trial balance with the cash balance', () => {
+    const entries = [
+      journalEntryForTransaction(tx({ id: 'a', amount: 200 }), chart),
+      journalEntryForTransaction(tx({ id: 'b', type: TransactionType.EXPENSE, category: 'Utilities', amount: 50 }), chart),
+    ];
+    const trial = computeTrialBalance(entries, chart);
+    const cash = trial.rows.find(r => r.account.code === CASH_ACCOUNT_CODE)!;
+
+    expect(trial.isBalanced).toBe(true);
+    expect(trial.totalDebit).toBe(250);
+    expect(cash.balance).toBe(150);
+  });
+
+  it('posts transfers between the two bank accounts only', () => {
+    const accounts = [
+      { id: 'bank', name: 'Main Bank', kind: 'bank' as const, ledgerCode: '1010', openingBalance: 0, openingDate: '2025-01-01' },
+      { id: 'momo', name: 'MoMo', kind: 'mobile_money' as const, ledgerCode: '1020', openingBalance: 0, openingDate: '2025-01-01' },
+    ];
+    const withAccounts = buildChartOfAccounts(INCOME_CATEGORIES, EXPENSE_CATEGORIES, accounts);
+    const entry = journalEntryForTransaction(
+      tx({ type: TransactionType.TRANSFER, category: 'Transfer', amount: 75, accountId: 'momo', toAccountId: 'bank' }),
+      withAccounts
+    );
+
+    expect(entry.lines).toEqual([
+      { accountCode: '1010', debit: 75, credit: 0 },
+      { accountCode: '1020', debit: 0, credit: 75 },
+    ]);
+  });
+
+  it('posts reversing entries with debits and credits swapped', () => {
+    const entry = journalEntryForTransaction(tx({ amount: -100 }), chart);
+    const tithes = chart.find(a => a.category === 'Tithes')!;
+
+    expect(isBalanced(entry.lines)).toBe(true);
+    expect(entry.lines).toContainEqual({ accountCode: CASH_ACCOUNT_CODE, debit: 0, credit: 100 });
+    expect(entry.lines).toContainEqual({ accountCode: tithes.code, debit: 100, credit: 0 });
+  });
+
+  it('posts one income line per category for split deposits', () => {
+    const entry = journalEntryForTransaction(tx({
+      amount: 500,
+      category: 'Split',
+      splits: [
+        { category: 'Tithes', amount: 300 },
+        { category: 'Offerings', amount: 150 },
+        { category: 'Building Fund', amount: 50 },
+      ],
+    }), chart);
+    const code = (category: string) => chart.find(a => a.category === category)!.code;
+
+    expect(isBalanced(entry.lines)).toBe(true);
+    expect(entry.lines).toContainEqual({ accountCode: CASH_ACCOUNT_CODE, debit: 500, credit: 0 });
+    expect(entry.lines).toContainEqual({ accountCode: code('Tithes'), debit: 0, credit: 300 });
+    expect(entry.lines).toContainEqual({ accountCode: code('Offerings'), debit: 0, credit: 150 });
+    expect(entry.lines).toContainEqual({ accountCode: code('Building Fund'), debit: 0, credit: 50 });
+  });
+
+  it('finds transactions that have not been posted', () => {
+    const posted = { id: 'a', ...journalEntryForTransaction(tx({ id: 'a' }), chart) };
+    const unposted = findUnpostedTransactions([tx({ id: 'a' }), tx({ id: 'b' })], [posted]);
+    expect(unposted.map(t => t.id)).toEqual(['b']);
+  });
+
+  it('keeps a custom category on its stored code when another is removed', () => {
+    const codes = categoryAccountCodes([...EXPENSE_CATEGORIES, 'Youth Camp', 'Choir'], EXPENSE_ACCOUNT_BASE);
+    const stored = { 'Youth Camp': codes['Youth Camp'], Choir: codes.Choir };
+
+    const afterRemoval = buildChartOfAccounts(INCOME_CATEGORIES, [...EXPENSE_CATEGORIES, 'Choir'], [], stored);
+    expect(afterRemoval.find(a => a.category === 'Choir')!.code).toBe(codes.Choir);
+
+    // A category added later takes a free code rather than the removed one's place
+    const withNew = categoryAccountCodes([...EXPENSE_CATEGORIES, 'Choir', 'Media'], EXPENSE_ACCOUNT_BASE, { Choir: codes.Choir });
+    expect(withNew.Media).not.toBe(codes.Choir);
+    expect(new Set(Object.values(withNew)).size).toBe(EXPENSE_CATEGORIES.length + 2);
+  });
+});
@@ -0,0 +1,56 @@
+import { comparePeriods, comparisonRanges, percentChange, shiftMonths } from '../utils/periodComparison';
+import { Transaction, TransactionType } from '../types';
+
+const transactions: Transaction[] = [
+  { id: 't1', date: '2025-03-09', description: 'Tithes', category: 'Tithes', amount: 1000, type: TransactionType.INCOME },
+  { id: 't2', date: '2025-03-12', description: 'Offering', category: 'Offering', amount: 200, type: TransactionType.INCOME },
+  { id: 't3', date: '2025-03-25', description: 'Late tithe', category: 'Tithes', amount: 999, type: TransactionType.INCOME },
+  { id: 't4', date: '2025-03-10', description: 'Electricity', category: 'Utilities', amount: 300, type: TransactionType.EXPENSE },
+  { id: 't5', date: '2026-03-08', description: 'Tithes', category: 'Tithes', amount: 1500, type: TransactionType.INCOME },
+  {
+    id: 't6', date: '2026-03-11', description: 'Utilities and fuel', category: 'Split', amount: 400, type: TransactionType.EXPENSE,
+    splits: [{ category: 'Utilities', amount: 250 }, { category: 'Transport', amount: 150 }],
+  },
+  { id: 't7', date: '2026-03-12', description: 'To savings', category: 'Transfer', amount: 800, type: TransactionType.TRANSFER },
+];
+
+describe('period comparison', () => {
+  it('compares periods to the same day, with fiscal quarters and years', () => {
+    expect(shiftMonths('2026-03-31', -1)).toBe('2026-02-28');
+    expect(shiftMonths('2024-02-29', -12)).toBe('2023-02-28');
+
+    expect(comparisonRanges('month', '2026-03-20', 1)).toEqual({
+      current: { start: '2026-03-01', end: '2026-03-20' },
+      previous: { start: '2025-03-01', end: '2025-03-20' },
+    });
+    // July fiscal year: the quarter running from January, against the one from October
+    expect(comparisonRanges('quarter', '2026-02-15', 7)).toEqual({
+      current: { start: '2026-01-01', end: '2026-02-15' },
+      previous: { start: '2025-10-01', end: '2025-11-15' },
+    });
+    expect(comparisonRanges('yearToDate', '2026-02-15', 7)).toEqual({
+      current: { start: '2025-07-01', end: '2026-02-15' },
+      previous: { start: '2024-07-01', end: '2025-02-15' },
+    });
+  });
+
+  it('reports totals and per-category changes, counting split lines by category', () => {
+    const comparison = comparePeriods(transactions, 'month', '2026-03-20', 1);
+
+    expect(comparison.income).toEqual({ current: 1500, previous: 1200, change: 300, percentChange: 25 });
+    expect(comparison.expenses).toEqual({ current: 400, previous: 300, change: 100, percentChange: (100 / 300) * 100 });
+    expect(comparison.net.change).toBe(200);
+    expect(comparison.categories.map(c => [c.category, c.type, c.change, c.percentChange])).toEqual([
+      ['Tithes', TransactionType.INCOME, 500, 50],
+      ['Offering', TransactionType.INCOME, -200, -100],
+      ['Transport', TransactionType.EXPENSE, 150, null],
+      ['Utilities', TransactionType.EXPENSE, -50, (-50 / 300) * 100],
+    ]);
+  });
+
+  it('measures change against the size of the earlier amount', () => {
+    expect(percentChange(50, -100)).toBe(150);
+    expect(percentChange(-50, 100)).toBe(-150);
+    expect(percentChange(10, 0)).toBeNull();
+  });
+});
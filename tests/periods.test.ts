@@ -0,0 +1,64 @@
+import { reversingEntryFor } from '../utils/periods';
+import { Transaction, TransactionType, UserRole } from '../types';
+
+const gift: Transaction = {
+  id: 'gift-1',
+  date: '2026-01-11',
+  description: 'Tithe',
+  category: 'Tithes',
+  amount: 500,
+  type: TransactionType.INCOME,
+  donorName: 'Ama Mensah',
+  receiptNumber: 'GWCC-2026-000042',
+  receiptYear: 2026,
+  receiptSequence: 42,
+};
+
+describe('reversing entries', () => {
+  it('reverses a gift without taking its receipt number', () => {
+    const reversal = reversingEntryFor(gift, '2026-03-02');
+
+    expect(reversal).toMatchObject({ date: '2026-03-02', amount: -500, adjustsTransactionId: 'gift-1', donorName: 'Ama Mensah' });
+    expect(reversal).not.toHaveProperty('receiptNumber');
+    expect(reversal).not.toHaveProperty('receiptYear');
+    expect(reversal).not.toHaveProperty('receiptSequence');
+  });
+
+  it('reverses an approved expense as a plain adjusting entry', () => {
+    const expense: Transaction = {
+      id: 'fuel-1',
+      date: '2026-01-20',
+      description: 'Generator fuel',
+      category: 'Utilities',
+      amount: 300,
+      type: TransactionType.EXPENSE,
+      approvalStatus: 'paid',
+      submittedBy: 'editor@church.org',
+      approvals: [{ by: 'pastor@church.org', role: UserRole.PASTOR, at: '2026-01-21T09:00:00.000Z' }],
+      paidAt: '2026-01-22T09:00:00.000Z',
+    };
+
+    const reversal = reversingEntryFor(expense, '2026-03-02');
+
+    expect(reversal).toMatchObject({ amount: -300, type: TransactionType.EXPENSE, adjustsTransactionId: 'fuel-1' });
+    ['approvalStatus', 'approvals', 'submittedBy', 'paidAt'].forEach(key => expect(reversal).not.toHaveProperty(key));
+  });
+
+  it('reverses a service collection posting without tying it to the counting sheet', () => {
+    const offering: Transaction = {
+      id: 'sheet-1_offering',
+      date: '2026-01-04',
+      description: 'Sunday offering',
+      category: 'Offerings',
+      amount: 1250,
+      type: TransactionType.INCOME,
+      countingSheetId: 'sheet-1',
+    };
+
+    const reversal = reversingEntryFor(offering, '2026-03-02');
+
+    expect(reversal).toMatchObject({ amount: -1250, adjustsTransactionId: 'sheet-1_offering' });
+    expect(reversal).not.toHaveProperty('countingSheetId');
+    expect(reversingEntryFor({ ...gift, recurringTemplateId: 'rent' }, '2026-03-02')).not.toHaveProperty('recurringTemplateId');
+  });
+});
@@ -0,0 +1,79 @@
+import { campaignProgress, installmentsDue, pledgeProgress, suggestedPledge } from '../utils/pledges';
+import { Campaign, Pledge, Transaction, TransactionType } from '../types';
+
+const campaign: Campaign = {
+  id: 'sanctuary',
+  name: 'New Sanctuary',
+  goal: 10000,
+  category: 'Building Fund',
+  startDate: '2025-01-01',
+  createdAt: '2025-01-01T00:00:00.000Z',
+};
+
+const pledge = (id: string, overrides: Partial<Pledge>): Pledge => ({
+  id,
+  campaignId: 'sanctuary',
+  memberId: 'm1',
+  memberName: 'Ama Mensah',
+  amount: 1200,
+  frequency: 'monthly',
+  installments: 12,
+  startDate: '2025-01-01',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  createdBy: 'treasurer@example.com',
+  ...overrides,
+});
+
+const gift = (id: string, overrides: Partial<Transaction>): Transaction => ({
+  id,
+  date: '2025-02-02',
+  description: 'Building pledge',
+  category: 'Building Fund',
+  amount: 100,
+  type: TransactionType.INCOME,
+  campaignId: 'sanctuary',
+  ...overrides,
+});
+
+const pledges = [
+  pledge('ama', {}),
+  pledge('kofi', { memberId: 'm2', memberName: 'Kofi Boateng', amount: 600, frequency: 'quarterly', installments: 2 }),
+  pledge('withdrawn', { memberId: 'm3', cancelledAt: '2025-02-01T00:00:00.000Z' }),
+];
+
+const transactions = [
+  gift('t1', { pledgeId: 'ama', date: '2025-01-05' }),
+  gift('t2', { pledgeId: 'ama', amount: 150 }),
+  gift('t3', { pledgeId: 'kofi', amount: 600 }),
+  gift('t4', { amount: 50 }), // Toward the campaign without a pledge
+];
+
+describe('pledges', () => {
+  it('tracks payments against the installment schedule, allowing the grace period', () => {
+    const progress = pledgeProgress(pledges[0], transactions, '2025-04-20');
+
+    expect(installmentsDue(pledges[0], '2025-04-20')).toBe(4);
+    expect(progress).toMatchObject({ paid: 250, remaining: 950, percent: 20.8, expectedToDate: 400, behindBy: 150, isBehind: true });
+    // April's installment is not late until the grace period passes
+    expect(pledgeProgress(pledges[0], transactions, '2025-04-10').expectedToDate).toBe(300);
+    expect(pledgeProgress(pledges[1], transactions, '2025-12-31')).toMatchObject({ isFulfilled: true, isBehind: false });
+  });
+
+  it('totals a campaign’s gifts and open pledges against its goal', () => {
+    expect(campaignProgress(campaign, pledges, transactions, '2025-04-20')).toEqual({
+      raised: 900,
+      pledged: 1800,
+      percent: 9,
+      pledgedPercent: 18,
+      pledgeCount: 2,
+      behindCount: 1,
+    });
+  });
+
+  it('suggests the member’s unfulfilled pledge whose campaign matches the gift', () => {
+    expect(suggestedPledge(pledges, [campaign], transactions, 'm1', 'Building Fund', '2025-04-20')?.id).toBe('ama');
+    expect(suggestedPledge(pledges, [campaign], transactions, 'm1', 'Tithes', '2025-04-20')).toBeUndefined();
+    expect(suggestedPledge(pledges, [campaign], transactions, 'm2', 'Building Fund', '2025-04-20')).toBeUndefined();
+    expect(suggestedPledge(pledges, [{ ...campaign, closed: true }], transactions, 'm1', 'Building Fund', '2025-04-20')).toBeUndefined();
+  });
+});
@@ -0,0 +1,20 @@
+import { signReceiptToken, verifyReceiptToken } from '../functions/src/receiptToken';
+
+const secret = 'test-secret';
+const claims = { o: 'org1', t: 'tx123', a: 250 };
+
+describe('receipt tokens', () => {
+  it('round-trips claims signed with the secret', () => {
+    expect(verifyReceiptToken(signReceiptToken(claims, secret), secret)).toEqual(claims);
+  });
+
+  it('rejects tokens that were altered or signed with another secret', () => {
+    const token = signReceiptToken(claims, secret);
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from(JSON.stringify({ ...claims, a: 2500 })).toString('base64url')}.${signature}`;
+
+    expect(verifyReceiptToken(forged, secret)).toBeNull();
+    expect(verifyReceiptToken(signReceiptToken(claims, 'other-secret'), secret)).toBeNull();
+    expect(verifyReceiptToken('not-a-token', secret)).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import { assignReceiptNumbers, chunkForNumbering, fiscalYearOf, formatReceiptNumber, receiptNumberFor } from '../utils/receipts';
+import { TransactionType } from '../types';
+
+const gift = (date: string, donorName?: string) => ({
+  date, donorName, amount: 100, type: TransactionType.INCOME, description: 'Gift', category: 'Offering',
+});
+
+describe('receipt numbers', () => {
+  it('names fiscal years by the year they end in', () => {
+    expect(fiscalYearOf('2026-03-01', 1)).toBe(2026);
+    expect(fiscalYearOf('2025-06-30', 7)).toBe(2025);
+    expect(fiscalYearOf('2025-07-01', 7)).toBe(2026);
+    expect(formatReceiptNumber(' gwcc ', 2026, 123)).toBe('GWCC-2026-000123');
+  });
+
+  it('numbers named gifts in order within each fiscal year and skips the rest', () => {
+    const { numbered, lastByYear } = assignReceiptNumbers([
+      gift('2025-12-31', 'Kwame Mensah'),
+      gift('2026-01-04', 'Abena Owusu'),
+      gift('2026-01-04'),
+      { ...gift('2026-01-05', 'Abena Owusu'), amount: -100, adjustsTransactionId: 't1' },
+      { ...gift('2026-01-06', 'Yaw Boateng'), type: TransactionType.EXPENSE },
+      gift('2026-01-07', 'Yaw Boateng'),
+    ], { 2025: 41 }, 'GWCC', 1);
+
+    expect(numbered.map(t => 'receiptNumber' in t ? t.receiptNumber : undefined)).toEqual([
+      'GWCC-2025-000042', 'GWCC-2026-000001', undefined, undefined, undefined, 'GWCC-2026-000002',
+    ]);
+    expect(lastByYear).toEqual({ 2025: 42, 2026: 2 });
+  });
+
+  it('falls back to the document id for gifts recorded before numbering began', () => {
+    expect(receiptNumberFor({ id: 'abcdefgh12345678' })).toBe('RCPT-12345678');
+    expect(receiptNumberFor({ id: 'abcdefgh12345678', receiptNumber: 'GWCC-2026-000007' })).toBe('GWCC-2026-000007');
+  });
+
+  it('writes at most one gift to number at a time', () => {
+    const plate = gift('2026-01-04');
+    const kwame = gift('2026-01-04', 'Kwame Mensah');
+    const abena = gift('2026-01-04', 'Abena Owusu');
+    expect(chunkForNumbering([plate, kwame, plate, abena, plate, plate, plate], 3))
+      .toEqual([[plate, kwame, plate], [abena, plate, plate], [plate]]);
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  autoMatchStatement,
+  statementLinesFromCsv,
+  summarizeReconciliation,
+  isTransactionLocked,
+} from '../utils/reconciliation';
+import { parseCsv } from '../utils/csv';
+import { Account, StatementLine, Transaction, TransactionType } from '../types';
+
+const account: Account = {
+  id: 'bank',
+  name: 'Main Bank',
+  kind: 'bank',
+  ledgerCode: '1010',
+  openingBalance: 1000,
+  openingDate: '2025-01-01',
+};
+
+const tx = (overrides: Partial<Transaction>): Transaction => ({
+  id: 't1',
+  date: '2025-01-05',
+  description: 'Sunday offering deposit',
+  category: 'Offerings',
+  amount: 500,
+  type: TransactionType.INCOME,
+  accountId: 'bank',
+  ...overrides,
+});
+
+const line = (overrides: Partial<StatementLine>): StatementLine => ({
+  id: 'line-1',
+  date: '2025-01-06',
+  description: 'CASH DEPOSIT OFFERING',
+  amount: 500,
+  matchedTransactionIds: [],
+  ...overrides,
+});
+
+describe('reconciliation', () => {
+  it('reads quoted amounts and debit/credit columns from a statement', () => {
+    const csv = parseCsv([
+      'Date,Narration,Debit,Credit',
+      '2025-01-06,"Deposit, offering",,"1,200.00"',
+      '2025-01-08,Bank charges,15.50,',
+    ].join('\n'));
+    const lines = statementLinesFromCsv(csv);
+
+    expect(lines.map(l => l.amount)).toEqual([1200, -15.5]);
+    expect(lines[0].description).toBe('Deposit, offering');
+  });
+
+  it('matches each line to the closest transaction with the same amount', () => {
+    const transactions = [
+      tx({ id: 'far', date: '2025-01-01', description: 'Building fund' }),
+      tx({ id: 'near' }),
+      tx({ id: 'other-amount', amount: 499 }),
+    ];
+    const [matched] = autoMatchStatement([line({})], transactions, 'bank');
+    expect(matched.matchedTransactionIds).toEqual(['near']);
+  });
+
+  it('carries unmatched book entries as outstanding when balancing', () => {
+    const transactions = [
+      tx({ id: 'deposit' }),
+      tx({ id: 'cheque', type: TransactionType.EXPENSE, category: 'Utilities', amount: 200, date: '2025-01-30' }),
+    ];
+    const summary = summarizeReconciliation(
+      { lines: [line({ matchedTransactionIds: ['deposit'] })], periodEnd: '2025-01-31', statementClosingBalance: 1500 },
+      account,
+      transactions
+    );
+
+    expect(summary.bookBalance).toBe(1300);
+    expect(summary.outstandingTotal).toBe(-200);
+    expect(summary.difference).toBe(0);
+    expect(summary.canComplete).toBe(true);
+  });
+
+  it('locks transactions inside a reconciled period', () => {
+    const reconciled = { ...account, reconciledThrough: '2025-01-31' };
+    expect(isTransactionLocked(tx({}), [reconciled])).toBe(true);
+    expect(isTransactionLocked(tx({ date: '2025-02-01' }), [reconciled])).toBe(false);
+    expect(isTransactionLocked(tx({ date: '2025-02-01', reconciliationId: 'r1' }), [reconciled])).toBe(true);
+  });
+});
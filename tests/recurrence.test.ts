@@ -0,0 +1,66 @@
+import {
+  firstOccurrence,
+  nextOccurrence,
+  occurrenceOnOrAfter,
+  occurrencesThrough,
+  occurrenceTransaction,
+  upcomingOccurrences,
+} from '../utils/recurrence';
+import { RecurringTemplate, TransactionType } from '../types';
+
+const template = (overrides: Partial<RecurringTemplate>): RecurringTemplate => ({
+  id: 'rent',
+  description: 'Office rent',
+  category: 'Rent',
+  amount: 1500,
+  type: TransactionType.EXPENSE,
+  frequency: 'monthly',
+  startDate: '2025-01-31',
+  nextDate: '2025-01-31',
+  createdBy: 'treasurer@church.org',
+  ...overrides,
+});
+
+describe('recurrence', () => {
+  it('keeps the anchor day across short months', () => {
+    const rent = template({});
+    expect(nextOccurrence('2025-01-31', rent)).toBe('2025-02-28');
+    expect(nextOccurrence('2025-02-28', rent)).toBe('2025-03-31');
+    expect(nextOccurrence('2025-03-05', template({ frequency: 'quarterly', startDate: '2025-03-05' }))).toBe('2025-06-05');
+    expect(nextOccurrence('2025-03-05', template({ frequency: 'weekly' }))).toBe('2025-03-12');
+  });
+
+  it('starts on the custom day of month on or after the start date', () => {
+    expect(firstOccurrence(template({ startDate: '2025-01-20', dayOfMonth: 15 }))).toBe('2025-02-15');
+    expect(firstOccurrence(template({ startDate: '2025-01-10', dayOfMonth: 15 }))).toBe('2025-01-15');
+  });
+
+  it('resumes on the schedule\'s own day rather than the resume date', () => {
+    const choir = template({ frequency: 'weekly', startDate: '2025-01-05', nextDate: '2025-01-05' }); // Sundays
+    expect(occurrenceOnOrAfter(choir, choir.nextDate, '2025-03-12')).toBe('2025-03-16');
+    expect(occurrenceOnOrAfter(template({}), '2025-01-31', '2025-05-01')).toBe('2025-05-31');
+    expect(occurrenceOnOrAfter(template({}), '2025-01-31', '2025-02-28')).toBe('2025-02-28');
+  });
+
+  it('lists due occurrences up to the end date', () => {
+    const salaries = template({ startDate: '2025-01-25', nextDate: '2025-01-25', endDate: '2025-03-31' });
+    expect(occurrencesThrough(salaries, salaries.nextDate, '2025-12-31')).toEqual(['2025-01-25', '2025-02-25', '2025-03-25']);
+  });
+
+  it('applies skips and single-occurrence changes', () => {
+    const rent = template({
+      startDate: '2025-01-01',
+      nextDate: '2025-01-01',
+      overrides: { '2025-02-01': { skip: true }, '2025-03-01': { amount: 1650 } },
+    });
+    expect(occurrenceTransaction(rent, '2025-02-01')).toBeNull();
+    expect(occurrenceTransaction(rent, '2025-03-01')?.amount).toBe(1650);
+
+    const upcoming = upcomingOccurrences([rent, template({ id: 'paused', paused: true })], '2025-03-01');
+    expect(upcoming.map(u => [u.date, u.transaction?.amount ?? null])).toEqual([
+      ['2025-01-01', 1500],
+      ['2025-02-01', null],
+      ['2025-03-01', 1650],
+    ]);
+  });
+});
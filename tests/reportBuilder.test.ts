@@ -0,0 +1,79 @@
+import { buildPivot, pivotToCsv, ReportLayout, ReportLookups } from '../utils/reportBuilder';
+import { Member, Transaction, TransactionType } from '../types';
+import { DEFAULT_FUNDS } from '../constants';
+
+const members: Member[] = [
+  { id: 'm1', name: 'Ama Owusu', dateJoined: '2020-01-01', departments: ['Women', 'Choir'] },
+  { id: 'm2', name: 'Kofi Boateng', dateJoined: '2021-01-01', departments: ['Men'] },
+];
+
+const lookups: ReportLookups = {
+  members,
+  funds: DEFAULT_FUNDS,
+  accounts: [{ id: 'acc1', name: 'Main Bank', kind: 'bank', ledgerCode: '1010', openingBalance: 0, openingDate: '2026-01-01' }],
+};
+
+const transactions: Transaction[] = [
+  { id: 't1', date: '2026-01-04', description: 'Tithe', category: 'Tithes', amount: 500, type: TransactionType.INCOME, donorMemberId: 'm1', donorName: 'Ama Owusu', accountId: 'acc1' },
+  { id: 't2', date: '2026-02-08', description: 'Tithe', category: 'Tithes', amount: 300, type: TransactionType.INCOME, donorMemberId: 'm2', donorName: 'Kofi Boateng' },
+  { id: 't3', date: '2026-04-12', description: 'Offering', category: 'Offering', amount: 100, type: TransactionType.INCOME },
+  {
+    id: 't4', date: '2026-02-03', description: 'Utilities and fuel', category: 'Split', amount: 250, type: TransactionType.EXPENSE,
+    splits: [{ category: 'Utilities', amount: 150 }, { category: 'Transport', amount: 100 }],
+  },
+  { id: 't5', date: '2026-03-01', description: 'Old tithe', category: 'Tithes', amount: 900, type: TransactionType.INCOME, deletedAt: '2026-03-02T00:00:00Z' },
+  { id: 't6', date: '2026-03-05', description: 'To savings', category: 'Transfer', amount: 400, type: TransactionType.TRANSFER },
+];
+
+const layout = (overrides: Partial<ReportLayout>): ReportLayout => ({
+  rowDimension: 'category',
+  measure: 'sum',
+  filters: { type: TransactionType.INCOME },
+  sortBy: 'total',
+  sortDirection: 'desc',
+  ...overrides,
+});
+
+describe('report builder', () => {
+  it('pivots categories by quarter, skipping transfers and deleted entries', () => {
+    const pivot = buildPivot(transactions, layout({ columnDimension: 'quarter' }), lookups);
+
+    expect(pivot.columns.map(c => c.label)).toEqual(['2026 Q1', '2026 Q2']);
+    expect(pivot.rows.map(r => [r.label, r.cells, r.total])).toEqual([
+      ['Tithes', { '2026-Q1': 800 }, 800],
+      ['Offering', { '2026-Q2': 100 }, 100],
+    ]);
+    expect(pivot.columnTotals).toEqual({ '2026-Q1': 800, '2026-Q2': 100 });
+    expect(pivot.grandTotal).toBe(900);
+    expect(pivotToCsv(pivot, layout({}))).toBe([
+      '"Category","2026 Q1","2026 Q2","Total"',
+      '"Tithes",800,0,800',
+      '"Offering",0,100,100',
+      '"Total",800,100,900',
+    ].join('\n'));
+  });
+
+  it('counts a gift under each of the donor\'s departments but once in the grand total', () => {
+    const pivot = buildPivot(transactions, layout({ rowDimension: 'department', sortBy: 'label', sortDirection: 'asc' }), lookups);
+
+    expect(pivot.rows.map(r => [r.label, r.total])).toEqual([
+      ['Choir', 500], ['Men', 300], ['Women', 500], ['No department', 100],
+    ]);
+    expect(pivot.grandTotal).toBe(900);
+
+    const averages = buildPivot(transactions, layout({ rowDimension: 'account', measure: 'average', filters: {} }), lookups);
+    expect(averages.rows.map(r => [r.label, r.total])).toEqual([['Main Bank', 500], ['No account', 37.5]]);
+    expect(averages.grandTotal).toBe(130);
+  });
+
+  it('splits expense lines by category and filters by fund and department', () => {
+    const expenses = buildPivot(transactions, layout({ measure: 'count', filters: { type: TransactionType.EXPENSE } }), lookups);
+    expect(expenses.rows.map(r => [r.label, r.total])).toEqual([['Transport', 1], ['Utilities', 1]]);
+
+    const women = buildPivot(transactions, layout({ rowDimension: 'donor', filters: { type: TransactionType.INCOME, department: 'Women' } }), lookups);
+    expect(women.rows.map(r => [r.label, r.total])).toEqual([['Ama Owusu', 500]]);
+
+    const building = buildPivot(transactions, layout({ filters: { type: TransactionType.INCOME, fundId: 'building' } }), lookups);
+    expect(building.lineCount).toBe(0);
+  });
+});
@@ -0,0 +1,85 @@
+import ExcelJS from 'exceljs';
+import { budgetVsActual, buildReportWorkbook, donorTotals, monthsInRange } from '../utils/reportWorkbook';
+import { Transaction, TransactionType } from '../types';
+import { DEFAULT_CURRENCY_SETTINGS, DEFAULT_ORGANIZATION_SETTINGS } from '../constants';
+
+const transactions: Transaction[] = [
+  { id: 't1', date: '2026-01-04', description: 'Tithe', category: 'Tithes', amount: 500, type: TransactionType.INCOME, donorName: 'Kwame Mensah', receiptNumber: 'GWCC-2026-000001' },
+  { id: 't2', date: '2026-01-11', description: 'Offering', category: 'Offering', amount: 200, type: TransactionType.INCOME },
+  { id: 't3', date: '2026-02-01', description: 'Tithe', category: 'Tithes', amount: 300, type: TransactionType.INCOME, donorName: 'kwame mensah' },
+  {
+    id: 't4', date: '2026-02-03', description: 'Utilities and fuel', category: 'Split', amount: 250, type: TransactionType.EXPENSE,
+    splits: [{ category: 'Utilities', amount: 150 }, { category: 'Transport', amount: 100 }],
+  },
+];
+
+describe('report workbook', () => {
+  it('compares whole-month budgets with split-aware spending', () => {
+    expect(monthsInRange('2025-12-15', '2026-02-02')).toEqual(['2025-12', '2026-01', '2026-02']);
+    const budgets: Record<string, Record<string, number>> = { '2026-01': { Utilities: 100 }, '2026-02': { Utilities: 120 } };
+
+    expect(budgetVsActual(transactions, ['2026-01', '2026-02'], month => budgets[month] || {})).toEqual([
+      { category: 'Transport', budget: 0, actual: 100 },
+      { category: 'Utilities', budget: 220, actual: 150 },
+    ]);
+    expect(donorTotals(transactions)).toEqual([
+      { name: 'kwame mensah', gifts: 2, total: 800, firstGift: '2026-01-04', lastGift: '2026-02-01' },
+    ]);
+  });
+
+  it('writes typed cells, frozen headers and total formulas that survive a round trip', async () => {
+    const workbook = buildReportWorkbook({
+      organization: DEFAULT_ORGANIZATION_SETTINGS,
+      format: DEFAULT_CURRENCY_SETTINGS,
+      period: { start: '2026-01-01', end: '2026-02-28' },
+      transactions,
+      categories: [
+        { category: 'Tithes', type: TransactionType.INCOME, amount: 800, count: 2 },
+        { category: 'Offering', type: TransactionType.INCOME, amount: 200, count: 1 },
+      ],
+      budgets: [{ category: 'Utilities', budget: 220, actual: 150 }],
+      donors: donorTotals(transactions),
+    });
+
+    const reloaded = new ExcelJS.Workbook();
+    await reloaded.xlsx.load(await workbook.xlsx.writeBuffer());
+
+    expect(reloaded.worksheets.map(s => s.name)).toEqual(['Summary', 'Category Breakdown', 'Transactions', 'Budget vs Actual', 'Donors']);
+
+    const sheet = reloaded.getWorksheet('Transactions')!;
+    expect(sheet.views[0]).toMatchObject({ state: 'frozen', ySplit: 1 });
+    expect(sheet.getCell('A2').value).toEqual(new Date('2026-01-04T00:00:00Z'));
+    expect(sheet.getCell('B2').value).toBe('GWCC-2026-000001');
+    expect(sheet.getCell('F2').value).toBe(500);
+    expect(sheet.getCell('F2').numFmt).toContain('#,##0.00');
+
+    const summary = reloaded.getWorksheet('Summary')!;
+    expect(summary.getCell('B6').value).toMatchObject({ formula: 'SUMIF(Transactions!$D$2:$D$5,"Income",Transactions!$F$2:$F$5)', result: 1000 });
+
+    const budget = reloaded.getWorksheet('Budget vs Actual')!;
+    expect(budget.getCell('D2').value).toMatchObject({ formula: 'B2-C2', result: 70 });
+    expect(budget.getCell('B3').value).toMatchObject({ formula: 'SUM(B2:B2)', result: 220 });
+  });
+
+  it('writes zero totals rather than formulas over the header when there are no transactions', async () => {
+    const workbook = buildReportWorkbook({
+      organization: DEFAULT_ORGANIZATION_SETTINGS,
+      format: DEFAULT_CURRENCY_SETTINGS,
+      period: { start: '2026-03-01', end: '2026-03-31' },
+      transactions: [],
+      categories: [],
+      budgets: [],
+      donors: [],
+    });
+
+    const reloaded = new ExcelJS.Workbook();
+    await reloaded.xlsx.load(await workbook.xlsx.writeBuffer());
+
+    const summary = reloaded.getWorksheet('Summary')!;
+    expect(summary.getCell('B6').value).toBe(0);
+    expect(summary.getCell('B7').value).toBe(0);
+    expect(summary.getCell('B8').value).toMatchObject({ formula: 'B6-B7' });
+    expect(summary.getCell('A9').value).toBe('Transactions');
+    expect(summary.getCell('B9').value).toBe(0);
+  });
+});
@@ -0,0 +1,63 @@
+import { AddressInfo } from 'net';
+import { nextRunDate, reportPeriod, transactionsCsv } from '../functions/src/scheduledReports';
+import { createSmtpProvider, emailProviderFor } from '../functions/src/email';
+import { ReceivedEmail, startLocalSmtpServer } from '../functions/src/localSmtpServer';
+import { firstReportRunDate, parseRecipients } from '../utils/reportSchedules';
+
+describe('scheduled reports', () => {
+  it('reports on the period just ended and steps to the next one', () => {
+    expect(reportPeriod('monthly', '2026-03-01', 1)).toEqual({ start: '2026-02-01', end: '2026-02-28' });
+    expect(reportPeriod('monthly', '2026-01-01', 1)).toEqual({ start: '2025-12-01', end: '2025-12-31' });
+    // A July fiscal year: quarters start in July, October, January and April
+    expect(reportPeriod('quarterly', '2026-01-01', 7)).toEqual({ start: '2025-10-01', end: '2025-12-31' });
+    expect(reportPeriod('annual', '2026-07-01', 7)).toEqual({ start: '2025-07-01', end: '2026-06-30' });
+
+    expect(nextRunDate('monthly', '2026-12-01', 1)).toBe('2027-01-01');
+    expect(nextRunDate('quarterly', '2026-01-01', 7)).toBe('2026-04-01');
+    expect(nextRunDate('annual', '2026-07-01', 7)).toBe('2027-07-01');
+
+    // A schedule set up mid-period first sends when the period ends, and the app agrees with the server
+    (['monthly', 'quarterly', 'annual'] as const).forEach(frequency => {
+      expect(firstReportRunDate(frequency, '2026-05-17', 7)).toBe(nextRunDate(frequency, '2026-05-17', 7));
+    });
+    expect(firstReportRunDate('quarterly', '2026-05-17', 7)).toBe('2026-07-01');
+  });
+
+  it('delivers a report with its attachment through the local SMTP stand-in', async () => {
+    const received: ReceivedEmail[] = [];
+    const server = await startLocalSmtpServer(0, email => received.push(email));
+    try {
+      const provider = createSmtpProvider({ host: '127.0.0.1', port: (server.address() as AddressInfo).port, secure: false });
+      const csv = transactionsCsv([{ date: '2026-02-01', description: 'Tithe, "first"', type: 'Income', category: 'Tithes', amount: 500, donorName: 'Ama' }]);
+      expect(csv.split('\n')[1]).toBe('2026-02-01,"Tithe, ""first""",Income,"Tithes",500,"Ama",""');
+
+      await provider.send({
+        from: '"Greater Works City Church" <reports@church.test>',
+        to: 'board@church.test',
+        subject: 'Monthly financial summary',
+        text: 'Attached.',
+        attachments: [{ filename: 'transactions.csv', content: Buffer.from(csv).toString('base64'), contentType: 'text/csv' }],
+      });
+
+      expect(received).toHaveLength(1);
+      expect(received[0].from).toBe('reports@church.test');
+      expect(received[0].to).toEqual(['board@church.test']);
+      expect(received[0].data).toContain('Subject: Monthly financial summary');
+      expect(received[0].data).toContain('filename=transactions.csv');
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('checks the provider configuration and the recipient list', () => {
+    expect(() => emailProviderFor({})).toThrow('Set EMAIL_SMTP_HOST');
+    expect(() => emailProviderFor({ provider: 'pigeon' })).toThrow('Unknown email provider');
+    expect(emailProviderFor({ emulator: true }).name).toBe('smtp');
+    expect(emailProviderFor({ provider: 'log' }).name).toBe('log');
+
+    expect(parseRecipients('Board@Church.org; pastor@church.org\nboard@church.org, treasurer')).toEqual({
+      recipients: ['board@church.org', 'pastor@church.org'],
+      invalid: ['treasurer'],
+    });
+  });
+});
@@ -0,0 +1,23 @@
+import { renderHook } from '@testing-library/react';
+import { useFinancialAnalytics } from '../hooks/useFinancialAnalytics';
+import { Transaction, TransactionType } from '../types';
+
+const transactions: Transaction[] = [
+  { id: 't1', date: '2026-09-06', description: 'Offering', category: 'Offering', amount: 400, type: TransactionType.INCOME },
+  { id: 't2', date: '2026-10-04', description: 'Offering', category: 'Offering', amount: 500, type: TransactionType.INCOME },
+];
+
+describe('useFinancialAnalytics', () => {
+  it('moves the comparison periods on when the date does', () => {
+    const { result, rerender } = renderHook(
+      ({ asOf }) => useFinancialAnalytics(transactions, [], undefined, 1, asOf),
+      { initialProps: { asOf: '2026-09-30' } }
+    );
+    expect(result.current.comparisons.month.current).toEqual({ start: '2026-09-01', end: '2026-09-30' });
+    expect(result.current.comparisons.month.income.current).toBe(400);
+
+    rerender({ asOf: '2026-10-01' });
+    expect(result.current.comparisons.month.current).toEqual({ start: '2026-10-01', end: '2026-10-01' });
+    expect(result.current.comparisons.month.previous.start).toBe('2025-10-01');
+  });
+});
@@ -1,6 +1,7 @@
 export enum TransactionType {
   INCOME = 'Income',
   EXPENSE = 'Expense',
+  TRANSFER = 'Transfer', // Moves money between accounts; neither income nor expense
 }
 
 export enum UserRole {
@@ -25,6 +26,453 @@ export interface Transaction {
   donorName?: string; // For tracking individual donations
   donorContact?: string; // Optional contact info for donors
   donorMemberId?: string; // Member ID for reliable donor linking
+  accountId?: string; // Bank/cash account the money moved through (source account for transfers)
+  toAccountId?: string; // Destination account for transfers
+  reconciliationId?: string; // Set when matched in a completed bank reconciliation
+  fundId?: string; // Fund the income belongs to or the expense is paid from
+  adjustsTransactionId?: string; // Set on adjusting entries that correct a transaction in a closed period
+  deletedAt?: string; // Soft-deleted transactions stay stored so they can be restored from the audit log
+  deletedBy?: string;
+  approvalStatus?: ExpenseApprovalStatus; // Expenses entered under the approval policy; unset means posted directly
+  submittedBy?: string;
+  approvals?: ExpenseApproval[];
+  rejectionReason?: string;
+  paidAt?: string;
+  recurringTemplateId?: string; // Set on entries created from a recurring template
+  splits?: TransactionSplit[]; // Category lines summing to amount; category is then SPLIT_CATEGORY
+  countingSheetId?: string; // Set on income posted from a service collection counting sheet
+  // Gifts received in another currency; amount is always in the base currency
+  originalCurrency?: string;
+  originalAmount?: number;
+  exchangeRate?: number; // Base currency units per one unit of originalCurrency
+  branchId?: string; // Branch whose books it belongs to; unset for head office
+  remittanceId?: string; // Either side of a branch remittance to head office
+  campaignId?: string; // Gift toward a fundraising campaign
+  pledgeId?: string; // Pledge the gift pays toward; its campaign is set too
+  // Official receipt number, gap-free per fiscal year; voided gifts keep theirs
+  receiptNumber?: string;
+  receiptYear?: number;
+  receiptSequence?: number;
+}
+
+// A fundraising drive such as the building project
+export interface Campaign {
+  id: string;
+  name: string;
+  description?: string;
+  goal: number;
+  category: string; // Income category its gifts are recorded under
+  fundId?: string; // Fund its gifts go to
+  startDate: string;
+  endDate?: string;
+  closed?: boolean;
+  createdAt: string;
+}
+
+// A member's promise to give toward a campaign in equal installments,
+// e.g. 5,000 over 12 monthly installments
+export interface Pledge {
+  id: string;
+  campaignId: string;
+  memberId: string;
+  memberName: string;
+  amount: number;
+  frequency: RecurrenceFrequency;
+  installments: number;
+  startDate: string; // First installment is due on this date
+  createdAt: string;
+  createdBy: string;
+  cancelledAt?: string;
+  branchId?: string; // Branch that took the pledge; unset for head office
+}
+
+export type ReportDimension = 'category' | 'month' | 'quarter' | 'donor' | 'department' | 'fund' | 'account';
+
+export type ReportMeasure = 'sum' | 'count' | 'average';
+
+export interface ReportFilters {
+  type?: TransactionType.INCOME | TransactionType.EXPENSE; // Both when unset, with expenses counted as negative
+  startDate?: string;
+  endDate?: string;
+  category?: string;
+  fundId?: string;
+  accountId?: string;
+  department?: string;
+}
+
+// A custom report saved from the report builder: category lines grouped by one
+// dimension down the side and, optionally, pivoted across another
+export interface ReportDefinition {
+  id: string;
+  name: string;
+  rowDimension: ReportDimension;
+  columnDimension?: ReportDimension;
+  measure: ReportMeasure;
+  filters: ReportFilters;
+  sortBy: 'label' | 'total';
+  sortDirection: 'asc' | 'desc';
+  createdAt: string;
+  createdBy: string;
+  updatedAt?: string;
+}
+
+// A branch assembly that keeps its own transactions, members and budgets.
+// Records without a branchId belong to head office.
+export interface Branch {
+  id: string;
+  name: string;
+  location?: string;
+  remittanceRate: number; // Share of remittable income sent to head office, e.g. 0.1
+  remittableCategories: string[]; // Income categories the rate applies to
+  createdAt: string;
+}
+
+export type RemittanceStatus = 'sent' | 'received';
+
+// A branch's payment to head office for one month, e.g. the tithe of tithes.
+// The branch records an expense when it sends it and head office records the
+// matching income when it arrives; consolidation leaves both out.
+export interface Remittance {
+  id: string;
+  branchId: string;
+  month: string; // yyyy-mm the remittance is for
+  expectedAmount: number;
+  amount: number;
+  status: RemittanceStatus;
+  sentAt: string;
+  sentBy: string;
+  sentTransactionId: string;
+  receivedAt?: string;
+  receivedBy?: string;
+  receivedTransactionId?: string;
+}
+
+// A church whose data is shared by every user who is a member of it.
+// Financial data lives under organizations/{id}/...
+export interface Organization {
+  id: string;
+  name: string;
+  createdBy: string; // uid
+  createdAt: string;
+  migratedFrom?: string; // uid whose per-user data was copied in when the organization was created
+}
+
+// A user's membership of an organization; the role applies to all of its data
+export interface OrganizationMember {
+  uid: string;
+  email: string;
+  role: UserRole;
+  joinedAt: string;
+  branchId?: string | null; // Limits the user to one branch; unset for head office users
+}
+
+// Stored at invites/{email} until the invited user signs in and accepts it
+export interface OrganizationInvite {
+  email: string;
+  organizationId: string;
+  organizationName: string;
+  role: UserRole;
+  branchId?: string | null;
+  invitedBy: string;
+  invitedAt: string;
+}
+
+// Church details shown on receipts, reports, SMS and emails
+export interface OrganizationSettings {
+  name: string;
+  logoUrl: string; // Data URL of an uploaded logo, or a path under public/
+  address: string;
+  registrationNumber: string; // Charity or registration number printed on receipts
+  phone: string;
+  email: string;
+  website: string;
+  pastorName: string;
+  fiscalYearStartMonth: number; // 1 = January
+  timezone: string; // IANA zone, e.g. Africa/Accra
+  receiptFooter: string;
+  receiptPrefix: string; // Start of official receipt numbers, e.g. GWCC
+  minimumReserve: number; // Balance the cash-flow forecast warns about falling below
+}
+
+export type EmailQueueStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+export interface EmailAttachment {
+  filename: string;
+  content: string; // Base64
+  contentType: string;
+}
+
+// An email waiting in organizations/{id}/emailQueue for the email sender
+export interface QueuedEmail {
+  id: string;
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: EmailAttachment[]; // Scheduled reports attach their report run's file when sent instead
+  purpose: string; // What it was queued for, e.g. givingStatement
+  memberId?: string; // Member a giving statement is for; it is sent only to their address
+  reportRunId?: string; // Report run a scheduled report email sends
+  status: EmailQueueStatus;
+  createdAt: string;
+  createdBy: string;
+  branchId?: string; // Branch of the user who queued it; unset for head office
+  sentAt?: string;
+  lastError?: string;
+}
+
+export type ReportScheduleFrequency = 'monthly' | 'quarterly' | 'annual';
+
+export type ScheduledReportKind = 'financialStatements' | 'transactionsCsv';
+
+// A report the server generates and emails on a timer, kept in
+// organizations/{id}/reportSchedules
+export interface ReportSchedule {
+  id: string;
+  name: string;
+  report: ScheduledReportKind;
+  frequency: ReportScheduleFrequency;
+  scope?: string; // Branch scope for head office; consolidated when unset
+  recipients: string[];
+  active: boolean;
+  nextRunDate: string; // ISO yyyy-mm-dd; the report covers the period that ended the day before
+  lastRunAt?: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+// One generated report, kept for download. Written only by the server.
+export interface ReportRun {
+  id: string;
+  scheduleId: string;
+  scheduleName: string;
+  report: ScheduledReportKind;
+  periodStart: string;
+  periodEnd: string;
+  recipients: string[];
+  status: 'generated' | 'failed';
+  file?: EmailAttachment;
+  error?: string;
+  generatedAt: string;
+  requestedBy: string; // 'schedule', or who ran it by hand
+}
+
+// Currency all amounts are kept and reported in, and the locale they are shown in
+export interface CurrencySettings {
+  baseCurrency: string; // ISO 4217 code, e.g. GHS
+  locale: string; // BCP 47 tag, e.g. en-GH
+}
+
+// One entry in the church's own rate table, effective from its date until the next
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  rate: number; // Base currency units per one unit of currency
+  effectiveDate: string;
+  updatedBy: string;
+}
+
+// One category line of a split transaction, e.g. the tithes in a Sunday deposit
+export interface TransactionSplit {
+  category: string;
+  amount: number;
+  fundId?: string;
+}
+
+export type CollectionType = 'tithe' | 'offering' | 'thanksgiving' | 'seed';
+
+// One counter's count of one collection: pieces per cash denomination, plus cheque and MoMo amounts
+export interface CollectionTally {
+  cash: Record<string, number>;
+  cheques: number;
+  momo: number;
+}
+
+export interface CollectionCounter {
+  name: string;
+  tallies: Record<CollectionType, CollectionTally>;
+  signedAt?: string; // Cleared whenever the counter's figures change
+}
+
+export type CountingSheetStatus = 'counting' | 'posted';
+
+// Cash counted after a service by two counters independently. Kept after
+// posting as the record behind the income entries.
+export interface CountingSheet {
+  id: string;
+  serviceDate: string;
+  serviceName: string;
+  counters: CollectionCounter[]; // Always two
+  accountId?: string; // Account the collection is banked into
+  status: CountingSheetStatus;
+  recordedBy: string;
+  approvedBy?: string;
+  approvedAt?: string;
+  transactionIds?: string[];
+  branchId?: string; // Branch whose service it was; unset for head office
+}
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+// Changes to one occurrence of a recurring template, keyed by its scheduled date
+export interface RecurringOccurrenceOverride {
+  skip?: boolean;
+  amount?: number;
+  description?: string;
+}
+
+// Rent, salaries and other entries recorded on a schedule
+export interface RecurringTemplate {
+  id: string;
+  description: string;
+  category: string;
+  amount: number;
+  type: TransactionType.INCOME | TransactionType.EXPENSE;
+  accountId?: string;
+  fundId?: string;
+  frequency: RecurrenceFrequency;
+  dayOfMonth?: number; // Custom day for monthly, quarterly and yearly schedules; clamps to the month's last day
+  startDate: string;
+  endDate?: string;
+  nextDate: string; // Earliest occurrence not yet recorded
+  paused?: boolean;
+  overrides?: Record<string, RecurringOccurrenceOverride>;
+  createdBy: string;
+  branchId?: string; // Occurrences are recorded in this branch's books
+}
+
+// Expenses under the approval policy only reach the books once approved
+export type ExpenseApprovalStatus = 'draft' | 'submitted' | 'approved' | 'rejected' | 'paid';
+
+export interface ExpenseApproval {
+  by: string;
+  role: UserRole;
+  at: string;
+}
+
+// Maker-checker rules for expenses. Thresholds of null mean no extra approval.
+export interface ApprovalPolicy {
+  enabled: boolean;
+  secondApprovalThreshold: number | null; // At or above this a second treasurer, administrator or pastor must also approve
+  pastorApprovalThreshold: number | null; // At or above this one of the approvals must come from a pastor
+}
+
+export type PeriodKind = 'month' | 'year';
+
+// One close or reopen of the books, kept as a permanent record
+export interface PeriodCloseEvent {
+  id: string;
+  action: 'close' | 'reopen';
+  kind: PeriodKind;
+  periodEnd: string; // Last day of the period closed, or first day of the earliest period reopened
+  lockedThroughBefore: string | null;
+  lockedThroughAfter: string | null;
+  reason?: string; // Required when reopening
+  performedBy: string;
+  performedAt: string;
+}
+
+export type AuditEntityType = 'transaction' | 'member' | 'budget' | 'category' | 'smsSettings' | 'userRole' | 'approvalPolicy' | 'countingSheet' | 'currencySettings' | 'exchangeRate' | 'organization' | 'organizationMember' | 'branch' | 'remittance' | 'campaign' | 'pledge' | 'savedReport' | 'reportSchedule';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+// One change to financial or member data. The log is append-only.
+export interface AuditLogEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  before: Record<string, unknown> | null; // null when the entity was created
+  after: Record<string, unknown> | null; // null when the entity was deleted
+  branchId?: string; // Branch whose record changed; unset for head office records
+  performedBy: string;
+  performedAt: string;
+}
+
+export type FundRestriction = 'unrestricted' | 'temporarily_restricted' | 'permanently_restricted';
+
+// A pool of money whose use may be restricted by donors, e.g. the Building Fund
+export interface Fund {
+  id: string;
+  name: string;
+  restriction: FundRestriction;
+  description?: string; // Purpose the money may be spent on
+  archived?: boolean;
+}
+
+export type AccountKind = 'bank' | 'mobile_money' | 'cash' | 'savings';
+
+// A real-world place money is held, e.g. the main bank account or MoMo wallet
+export interface Account {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  ledgerCode: string; // Asset account in the chart of accounts, e.g. '1010'
+  openingBalance: number;
+  openingDate: string; // ISO yyyy-mm-dd
+  institution?: string; // e.g. bank name or network
+  accountNumber?: string;
+  isDefault?: boolean; // Used for transactions recorded without an account
+  archived?: boolean;
+  reconciledThrough?: string; // End of the last reconciled statement period; earlier entries are locked
+  reconciledBalance?: number; // Statement closing balance at reconciledThrough
+}
+
+// One line of an imported bank statement
+export interface StatementLine {
+  id: string;
+  date: string;
+  description: string;
+  amount: number; // Signed: deposits positive, withdrawals negative
+  matchedTransactionIds: string[]; // Several when one deposit covers multiple entries
+}
+
+// Completing: matches are frozen while the transactions are flagged and the account locked
+export type ReconciliationStatus = 'in_progress' | 'completing' | 'completed';
+
+export interface Reconciliation {
+  id: string;
+  accountId: string;
+  periodStart: string;
+  periodEnd: string;
+  statementClosingBalance: number;
+  lines: StatementLine[];
+  status: ReconciliationStatus;
+  completedAt?: string;
+}
+
+export enum AccountType {
+  ASSET = 'Asset',
+  LIABILITY = 'Liability',
+  NET_ASSETS = 'Net Assets',
+  INCOME = 'Income',
+  EXPENSE = 'Expense',
+}
+
+// Chart of accounts entry. Codes follow the usual 1xxx assets, 2xxx liabilities,
+// 3xxx net assets, 4xxx income, 5xxx expenses numbering.
+export interface LedgerAccount {
+  code: string;
+  name: string;
+  type: AccountType;
+  category?: string; // Transaction category posted to this account
+  accountId?: string; // Bank/cash Account tracked by this ledger account
+}
+
+export interface JournalLine {
+  accountCode: string;
+  debit: number;
+  credit: number;
+  memo?: string;
+}
+
+export interface JournalEntry {
+  id: string;
+  date: string; // ISO yyyy-mm-dd
+  description: string;
+  lines: JournalLine[];
+  sourceTransactionId?: string; // Transaction this entry was posted from
+  branchId?: string; // Copied from the transaction
+  createdAt?: Date | any; // Firestore Timestamp or Date
 }
 
 export interface Receipt {
@@ -42,6 +490,7 @@ export interface ChartData {
 export interface Member {
   id: string;
   name: string;
+  branchId?: string; // Branch the member attends; unset for head office
   email?: string;
   phone?: string;
   address?: string;
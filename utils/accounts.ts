@@ -0,0 +1,82 @@
+import { Account, Transaction, TransactionType } from '../types';
+import { BANK_ACCOUNT_BASE } from '../constants';
+
+export interface AccountStatementLine {
+  transaction: Transaction;
+  amount: number; // Signed: money in is positive, money out negative
+  balanceAfter: number;
+}
+
+export interface AccountRunningBalance {
+  account: Account;
+  balance: number;
+  moneyIn: number;
+  moneyOut: number;
+  lines: AccountStatementLine[]; // Oldest first
+}
+
+/**
+ * Picks the next free ledger code under Cash and Bank (1010, 1020, ...).
+ */
+export const nextLedgerCode = (accounts: Account[]): string => {
+  const used = new Set(accounts.map(a => a.ledgerCode));
+  let code = BANK_ACCOUNT_BASE + 10;
+  while (used.has(String(code))) code += 10;
+  return String(code);
+};
+
+/**
+ * The account used for transactions recorded without one: the account
+ * flagged as default, otherwise the first active account.
+ */
+export const getDefaultAccount = (accounts: Account[]): Account | undefined =>
+  accounts.find(a => a.isDefault && !a.archived) || accounts.find(a => !a.archived);
+
+/**
+ * Signed effect of a transaction on one account.
+ */
+export const amountForAccount = (transaction: Transaction, accountId: string): number => {
+  if (transaction.type === TransactionType.TRANSFER) {
+    if (transaction.toAccountId === accountId) return transaction.amount;
+    if (transaction.accountId === accountId) return -transaction.amount;
+    return 0;
+  }
+  if (transaction.accountId !== accountId) return 0;
+  return transaction.type === TransactionType.INCOME ? transaction.amount : -transaction.amount;
+};
+
+/**
+ * Transactions recorded before accounts existed. They post to the general
+ * Cash and Bank ledger account until assigned to a real account.
+ */
+export const findUnassignedTransactions = (transactions: Transaction[]): Transaction[] =>
+  transactions.filter(t => !t.accountId);
+
+/**
+ * Computes each account's running balance from its opening balance and the
+ * transactions that moved through it, in date order.
+ */
+export const computeRunningBalances = (
+  accounts: Account[],
+  transactions: Transaction[]
+): AccountRunningBalance[] => {
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+
+  return accounts.map(account => {
+    let balance = account.openingBalance || 0;
+    let moneyIn = 0;
+    let moneyOut = 0;
+    const lines: AccountStatementLine[] = [];
+
+    sorted.forEach(transaction => {
+      const amount = amountForAccount(transaction, account.id);
+      if (amount === 0) return;
+      balance += amount;
+      if (amount > 0) moneyIn += amount;
+      else moneyOut += -amount;
+      lines.push({ transaction, amount, balanceAfter: balance });
+    });
+
+    return { account, balance, moneyIn, moneyOut, lines };
+  });
+};
@@ -0,0 +1,96 @@
+import { ApprovalPolicy, ExpenseApproval, Transaction, TransactionType, UserRole } from '../types';
+
+export interface Approver {
+  id: string;
+  role: UserRole;
+}
+
+export interface ApprovalRequirement {
+  approvals: number;
+  pastorRequired: boolean;
+}
+
+const FINANCE_ROLES = [UserRole.ADMIN, UserRole.TREASURER];
+
+// What an approval covers; firestore.rules checks the same fields
+const APPROVED_FIELDS: (keyof Transaction)[] = ['date', 'category', 'amount', 'type', 'accountId', 'toAccountId', 'fundId', 'splits'];
+
+export const changesApprovedFields = (existing: Partial<Transaction>, updates: Partial<Transaction>): boolean =>
+  APPROVED_FIELDS.some(f => f in updates && JSON.stringify(updates[f]) !== JSON.stringify(existing[f]));
+
+/**
+ * Approval changes an edit brings with it. What an approved or paid expense
+ * was approved for cannot change; an expense still under review goes back to
+ * draft with its approvals cleared, so it is approved again as changed.
+ */
+export const approvalChangesForEdit = (
+  existing: Pick<Transaction, 'approvalStatus' | 'approvals'> & Partial<Transaction>,
+  updates: Partial<Transaction>
+): Partial<Transaction> => {
+  if (!existing.approvalStatus || !changesApprovedFields(existing, updates)) return {};
+  if (existing.approvalStatus === 'approved' || existing.approvalStatus === 'paid') {
+    throw new Error('This expense has been approved. Delete it and enter the correction so it is approved again.');
+  }
+  if (existing.approvalStatus === 'submitted') return { approvalStatus: 'draft', approvals: [] };
+  return existing.approvals?.length ? { approvals: [] } : {};
+};
+
+/**
+ * Expenses that are still in the approval workflow. They stay out of totals
+ * and the ledger until approved.
+ */
+export const isAwaitingApproval = (transaction: Pick<Transaction, 'type' | 'approvalStatus'>): boolean =>
+  transaction.type === TransactionType.EXPENSE &&
+  !!transaction.approvalStatus &&
+  transaction.approvalStatus !== 'approved' &&
+  transaction.approvalStatus !== 'paid';
+
+/**
+ * Approvals an expense of this amount needs. The first always comes from a
+ * treasurer or administrator; larger amounts need a second approver, who
+ * must be a pastor above the pastor threshold.
+ */
+export const requiredApprovals = (amount: number, policy: ApprovalPolicy): ApprovalRequirement => {
+  const pastorRequired = policy.pastorApprovalThreshold !== null && amount >= policy.pastorApprovalThreshold;
+  const secondRequired = policy.secondApprovalThreshold !== null && amount >= policy.secondApprovalThreshold;
+  return { approvals: pastorRequired || secondRequired ? 2 : 1, pastorRequired };
+};
+
+export const isFullyApproved = (
+  amount: number,
+  approvals: ExpenseApproval[],
+  policy: ApprovalPolicy
+): boolean => {
+  const required = requiredApprovals(amount, policy);
+  return approvals.length >= required.approvals &&
+    (!required.pastorRequired || approvals.some(a => a.role === UserRole.PASTOR));
+};
+
+/**
+ * Why this person cannot approve the expense, or null if they can. Whoever
+ * submitted an expense never approves it.
+ */
+export const approvalBlocker = (
+  transaction: Pick<Transaction, 'amount' | 'approvalStatus' | 'submittedBy' | 'approvals'>,
+  approver: Approver,
+  policy: ApprovalPolicy
+): string | null => {
+  if (transaction.approvalStatus !== 'submitted') return 'Only submitted expenses can be approved.';
+  if (transaction.submittedBy === approver.id) return 'You submitted this expense, so someone else must approve it.';
+
+  const approvals = transaction.approvals || [];
+  if (approvals.some(a => a.by === approver.id)) return 'You have already approved this expense.';
+
+  if (approvals.length === 0) {
+    return FINANCE_ROLES.includes(approver.role) ? null : 'The first approval must come from a treasurer or administrator.';
+  }
+
+  const required = requiredApprovals(transaction.amount, policy);
+  const pastorStillNeeded = required.pastorRequired && !approvals.some(a => a.role === UserRole.PASTOR);
+  if (pastorStillNeeded && approvals.length + 1 >= required.approvals && approver.role !== UserRole.PASTOR) {
+    return 'This amount also needs a pastor\'s approval.';
+  }
+  return [...FINANCE_ROLES, UserRole.PASTOR].includes(approver.role)
+    ? null
+    : 'Only treasurers, administrators and pastors can approve expenses.';
+};
@@ -0,0 +1,71 @@
+import { FieldValue, serverTimestamp } from 'firebase/firestore';
+import { AuditAction, AuditEntityType, AuditLogEntry } from '../types';
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditLogFilters {
+  performedBy?: string;
+  entityType?: AuditEntityType | 'all';
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Plain copy of a value that Firestore can store: undefined fields are
+ * dropped and dates become ISO strings.
+ */
+const toAuditValue = (value: object | null | undefined): Record<string, unknown> | null =>
+  value ? JSON.parse(JSON.stringify(value)) : null;
+
+/**
+ * Builds the log document for one change. `before` is null for creations and
+ * `after` is null for hard deletions. The time is the server's, which the
+ * database rules require. An entry about a branch's record carries its
+ * branchId, so that branch's users can read it.
+ */
+export const auditLogEntry = (
+  entityType: AuditEntityType,
+  entityId: string,
+  action: AuditAction,
+  before: object | null | undefined,
+  after: object | null | undefined,
+  performedBy: string
+): Omit<AuditLogEntry, 'id' | 'performedAt'> & { performedAt: FieldValue } => {
+  const branchId = (after as { branchId?: string } | null | undefined)?.branchId
+    || (before as { branchId?: string } | null | undefined)?.branchId;
+  return {
+    entityType,
+    entityId,
+    action,
+    before: toAuditValue(before),
+    after: toAuditValue(after),
+    ...(branchId && { branchId }),
+    performedBy,
+    performedAt: serverTimestamp(),
+  };
+};
+
+/**
+ * Fields whose value differs between the before and after snapshots.
+ */
+export const changedFields = (entry: Pick<AuditLogEntry, 'before' | 'after'>): AuditFieldChange[] => {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+};
+
+export const filterAuditLog = (entries: AuditLogEntry[], filters: AuditLogFilters): AuditLogEntry[] =>
+  entries.filter(entry => {
+    const day = entry.performedAt.split('T')[0];
+    return (!filters.performedBy || entry.performedBy === filters.performedBy)
+      && (!filters.entityType || filters.entityType === 'all' || entry.entityType === filters.entityType)
+      && (!filters.from || day >= filters.from)
+      && (!filters.to || day <= filters.to);
+  });
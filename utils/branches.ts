@@ -0,0 +1,71 @@
+import { Branch, Remittance, Transaction, TransactionType } from '../types';
+import { HEAD_OFFICE_LABEL } from '../constants';
+import { categoryLines } from './splits';
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+// Which books a head office user is looking at: every branch together,
+// head office's own, or a single branch (by its id)
+export const CONSOLIDATED_SCOPE = 'all';
+export const HEAD_OFFICE_SCOPE = 'head';
+
+/**
+ * The transactions in a scope. The consolidated view leaves out both sides of
+ * remittances, since money moving between branches is neither income nor
+ * expense for the church as a whole.
+ */
+export const scopeTransactions = (transactions: Transaction[], scope: string): Transaction[] => {
+  if (scope === CONSOLIDATED_SCOPE) return transactions.filter(t => !t.remittanceId);
+  if (scope === HEAD_OFFICE_SCOPE) return transactions.filter(t => !t.branchId);
+  return transactions.filter(t => t.branchId === scope);
+};
+
+export const remittanceId = (branchId: string, month: string): string => `${branchId}_${month}`;
+
+/**
+ * What a branch owes head office for a month (yyyy-mm): its rate applied to
+ * the income it received in the remittable categories.
+ */
+export const expectedRemittance = (
+  transactions: Transaction[],
+  branch: Pick<Branch, 'id' | 'remittanceRate' | 'remittableCategories'>,
+  month: string
+): number => {
+  const remittable = transactions
+    .filter(t => t.branchId === branch.id && t.type === TransactionType.INCOME && t.date.startsWith(month))
+    .flatMap(categoryLines)
+    .filter(line => branch.remittableCategories.includes(line.category))
+    .reduce((sum, line) => sum + line.amount, 0);
+  return roundCents(remittable * branch.remittanceRate);
+};
+
+export interface BranchSummary {
+  branchId: string | null; // null for head office
+  name: string;
+  income: number;
+  expenses: number;
+  net: number;
+}
+
+/**
+ * Income and expenses for head office and each branch, leaving out
+ * remittances so the rows add up to the consolidated totals.
+ */
+export const branchSummaries = (transactions: Transaction[], branches: Pick<Branch, 'id' | 'name'>[]): BranchSummary[] => {
+  const operating = scopeTransactions(transactions, CONSOLIDATED_SCOPE);
+  const entities = [{ id: null, name: HEAD_OFFICE_LABEL }, ...branches];
+  return entities.map(({ id, name }) => {
+    const own = operating.filter(t => (t.branchId || null) === id);
+    const total = (type: TransactionType) =>
+      roundCents(own.filter(t => t.type === type).reduce((sum, t) => sum + t.amount, 0));
+    const income = total(TransactionType.INCOME);
+    const expenses = total(TransactionType.EXPENSE);
+    return { branchId: id, name, income, expenses, net: roundCents(income - expenses) };
+  });
+};
+
+/**
+ * Remittances head office has not confirmed receiving yet.
+ */
+export const outstandingRemittances = (remittances: Remittance[]): Remittance[] =>
+  remittances.filter(r => r.status === 'sent');
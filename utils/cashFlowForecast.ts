@@ -0,0 +1,178 @@
+import { Pledge, RecurringTemplate, Transaction, TransactionType } from '../types';
+import { upcomingOccurrences, occurrencesThrough } from './recurrence';
+import { installmentsDue, isOpenPledge, pledgeProgress } from './pledges';
+import { shiftMonths } from './periodComparison';
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+// Width of the band around the projected balance: about four months in five
+// should end inside it if they vary as much as past months did
+const BAND_Z = 1.28;
+
+// A month of history, as in useFinancialAnalytics' monthlyTrends
+export interface ForecastHistoryMonth {
+  month: string; // yyyy-mm
+  income: number;
+  expenses: number;
+  recurringIncome: number;
+  recurringExpenses: number;
+  pledgeIncome: number;
+}
+
+export interface ForecastMonth {
+  month: string; // yyyy-mm
+  income: number;
+  expenses: number;
+  // Parts of income and expenses that are scheduled rather than projected
+  recurringIncome: number;
+  recurringExpenses: number;
+  pledgeIncome: number;
+  net: number;
+  balance: number; // Projected balance at the end of the month
+  low: number; // Band the balance should end up in
+  high: number;
+}
+
+export interface CashFlowForecast {
+  startingBalance: number;
+  minimumReserve: number;
+  historyMonths: number; // Complete months of history the projection rests on
+  months: ForecastMonth[];
+  shortfall: ForecastMonth | null; // First month the projected balance is below the reserve
+  atRisk: ForecastMonth | null; // First month the low end of the band is
+}
+
+export interface ForecastInputs {
+  history: ForecastHistoryMonth[];
+  templates: RecurringTemplate[];
+  pledges: Pledge[];
+  transactions: Transaction[]; // What pledges have been paid so far
+  startingBalance: number;
+  minimumReserve: number;
+  asOf: string;
+  months: number; // Full months to project after the current one
+}
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+const daysInMonth = (month: string): number => {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, m, 0)).getUTCDate();
+};
+
+/**
+ * Installments still to come on a pledge through `until`. Paying ahead covers
+ * the next installments; arrears are left out, since a member who is behind
+ * may not catch up.
+ */
+export const expectedPledgeInstallments = (
+  pledge: Pledge,
+  transactions: Transaction[],
+  asOf: string,
+  until: string
+): { date: string; amount: number }[] => {
+  if (!isOpenPledge(pledge)) return [];
+  const due = installmentsDue(pledge, asOf);
+  const installment = pledge.amount / pledge.installments;
+  let covered = Math.max(0, (pledge.installments - due) * installment - pledgeProgress(pledge, transactions, asOf).remaining);
+  return occurrencesThrough(pledge, pledge.startDate, until)
+    .slice(due, pledge.installments)
+    .map(date => {
+      const amount = Math.max(0, installment - covered);
+      covered = Math.max(0, covered - installment);
+      return { date, amount };
+    })
+    .filter(i => i.amount > 0);
+};
+
+/**
+ * Projects income, expenses and the balance for the rest of the current month
+ * and the `months` after it.
+ *
+ * Each month's ordinary income and expenses are what the same calendar month
+ * brought in history, or the average month where history has no such month;
+ * recurring entries and pledge gifts are left out of that and added from their
+ * schedules instead. The band around the balance widens with how much past
+ * months varied.
+ */
+export const forecastCashFlow = (inputs: ForecastInputs): CashFlowForecast => {
+  const currentMonth = inputs.asOf.slice(0, 7);
+  const monthList = Array.from({ length: inputs.months + 1 }, (_, i) => shiftMonths(`${currentMonth}-01`, i).slice(0, 7));
+  const lastMonth = monthList[monthList.length - 1];
+  const until = `${lastMonth}-${String(daysInMonth(lastMonth)).padStart(2, '0')}`;
+
+  // The current month is still running, so only finished months count
+  const baseline = inputs.history
+    .filter(m => m.month < currentMonth)
+    .map(m => ({
+      month: m.month,
+      income: Math.max(0, m.income - m.recurringIncome - m.pledgeIncome),
+      expenses: Math.max(0, m.expenses - m.recurringExpenses),
+    }));
+  const seasonal = (month: string) => {
+    const sameMonth = baseline.filter(m => m.month.slice(5) === month.slice(5));
+    const source = sameMonth.length > 0 ? sameMonth : baseline;
+    return { income: average(source.map(m => m.income)), expenses: average(source.map(m => m.expenses)) };
+  };
+  const nets = baseline.map(m => m.income - m.expenses);
+  const spread = nets.length > 1
+    ? Math.sqrt(nets.reduce((sum, n) => sum + (n - average(nets)) ** 2, 0) / (nets.length - 1))
+    : 0;
+
+  // Scheduled entries not yet recorded, with overdue ones expected this month
+  const monthOf = (date: string) => date.slice(0, 7) < currentMonth ? currentMonth : date.slice(0, 7);
+  const scheduled = new Map<string, { recurringIncome: number; recurringExpenses: number; pledgeIncome: number }>();
+  const scheduledFor = (month: string) => {
+    const entry = scheduled.get(month) || { recurringIncome: 0, recurringExpenses: 0, pledgeIncome: 0 };
+    scheduled.set(month, entry);
+    return entry;
+  };
+  upcomingOccurrences(inputs.templates, until).forEach(({ transaction }) => {
+    if (!transaction) return;
+    const entry = scheduledFor(monthOf(transaction.date));
+    if (transaction.type === TransactionType.INCOME) entry.recurringIncome += transaction.amount;
+    else entry.recurringExpenses += transaction.amount;
+  });
+  inputs.pledges.forEach(pledge => {
+    expectedPledgeInstallments(pledge, inputs.transactions, inputs.asOf, until).forEach(({ date, amount }) => {
+      scheduledFor(monthOf(date)).pledgeIncome += amount;
+    });
+  });
+
+  const today = Number(inputs.asOf.slice(8, 10));
+  let balance = inputs.startingBalance;
+  let variance = 0;
+  const months = monthList.map((month, i) => {
+    // Only the days after today are still to come in the current month
+    const share = i === 0 ? (daysInMonth(month) - today) / daysInMonth(month) : 1;
+    const ordinary = seasonal(month);
+    const known = scheduled.get(month) || { recurringIncome: 0, recurringExpenses: 0, pledgeIncome: 0 };
+    const income = ordinary.income * share + known.recurringIncome + known.pledgeIncome;
+    const expenses = ordinary.expenses * share + known.recurringExpenses;
+    balance += income - expenses;
+    variance += spread ** 2 * share;
+    const margin = BAND_Z * Math.sqrt(variance);
+    return {
+      month,
+      income: roundCents(income),
+      expenses: roundCents(expenses),
+      recurringIncome: roundCents(known.recurringIncome),
+      recurringExpenses: roundCents(known.recurringExpenses),
+      pledgeIncome: roundCents(known.pledgeIncome),
+      net: roundCents(income - expenses),
+      balance: roundCents(balance),
+      low: roundCents(balance - margin),
+      high: roundCents(balance + margin),
+    };
+  });
+
+  return {
+    startingBalance: roundCents(inputs.startingBalance),
+    minimumReserve: inputs.minimumReserve,
+    historyMonths: baseline.length,
+    months,
+    shortfall: months.find(m => m.balance < inputs.minimumReserve) || null,
+    atRisk: months.find(m => m.low < inputs.minimumReserve) || null,
+  };
+};
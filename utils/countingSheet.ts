@@ -0,0 +1,88 @@
+import { CollectionCounter, CollectionTally, CollectionType, CountingSheet, Transaction, TransactionType } from '../types';
+import { CEDI_DENOMINATIONS, COLLECTION_TYPES, COLLECTION_TYPE_CATEGORIES, COLLECTION_TYPE_LABELS } from '../constants';
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+export const emptyTally = (): CollectionTally => ({ cash: {}, cheques: 0, momo: 0 });
+
+export const emptyCounter = (name: string): CollectionCounter => ({
+  name,
+  tallies: COLLECTION_TYPES.reduce(
+    (acc, type) => ({ ...acc, [type]: emptyTally() }),
+    {} as Record<CollectionType, CollectionTally>
+  ),
+});
+
+export const cashTotal = (tally: CollectionTally): number =>
+  roundCents(CEDI_DENOMINATIONS.reduce((sum, d) => sum + (tally.cash[d.key] || 0) * d.value, 0));
+
+export const tallyTotal = (tally: CollectionTally): number =>
+  roundCents(cashTotal(tally) + (tally.cheques || 0) + (tally.momo || 0));
+
+export const counterTotal = (counter: CollectionCounter): number =>
+  roundCents(COLLECTION_TYPES.reduce((sum, type) => sum + tallyTotal(counter.tallies[type]), 0));
+
+export interface CountDiscrepancy {
+  type: CollectionType;
+  first: number;
+  second: number;
+  difference: number; // Second counter's total less the first's
+}
+
+/**
+ * Collections where the two counters' totals disagree.
+ */
+export const countDiscrepancies = (sheet: Pick<CountingSheet, 'counters'>): CountDiscrepancy[] => {
+  const [first, second] = sheet.counters;
+  return COLLECTION_TYPES
+    .map(type => {
+      const a = tallyTotal(first.tallies[type]);
+      const b = tallyTotal(second.tallies[type]);
+      return { type, first: a, second: b, difference: roundCents(b - a) };
+    })
+    .filter(d => d.difference !== 0);
+};
+
+/**
+ * Why the sheet cannot be approved yet, or null when it can.
+ */
+export const postingBlocker = (sheet: CountingSheet): string | null => {
+  if (sheet.status === 'posted') return 'This collection has already been posted.';
+  if (sheet.counters.some(c => !c.signedAt)) return 'Both counters must sign off their counts.';
+  const discrepancies = countDiscrepancies(sheet);
+  if (discrepancies.length > 0) {
+    const names = discrepancies.map(d => COLLECTION_TYPE_LABELS[d.type]).join(', ');
+    return `The counts differ for ${names}. Recount before approving.`;
+  }
+  if (counterTotal(sheet.counters[0]) === 0) return 'Nothing has been counted.';
+  return null;
+};
+
+/**
+ * Document ID of the income a sheet posts for one collection. It is fixed so
+ * the same collection can never be posted twice.
+ */
+export const collectionTransactionId = (sheetId: string, type: CollectionType): string => `${sheetId}_${type}`;
+
+/**
+ * One income transaction per collection that received money, for a sheet
+ * both counters agree on, with the ID it is posted under.
+ */
+export const collectionPostings = (sheet: CountingSheet): { id: string; transaction: Omit<Transaction, 'id'> }[] => {
+  const [counter] = sheet.counters;
+  return COLLECTION_TYPES
+    .map(type => ({ type, amount: tallyTotal(counter.tallies[type]) }))
+    .filter(c => c.amount > 0)
+    .map(c => ({
+      id: collectionTransactionId(sheet.id, c.type),
+      transaction: {
+        date: sheet.serviceDate,
+        description: `${sheet.serviceName} ${COLLECTION_TYPE_LABELS[c.type].toLowerCase()}`,
+        category: COLLECTION_TYPE_CATEGORIES[c.type],
+        amount: c.amount,
+        type: TransactionType.INCOME,
+        ...(sheet.accountId && { accountId: sheet.accountId }),
+        countingSheetId: sheet.id,
+      },
+    }));
+};
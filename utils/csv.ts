@@ -0,0 +1,61 @@
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Splits one CSV line, honouring double-quoted fields so bank exports like
+ * "1,250.00" or "Transfer, ref 123" stay in one column.
+ */
+export const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+export const parseCsv = (text: string): ParsedCsv => {
+  const lines = text.trim().split(/\r\n|\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) {
+    throw new Error('CSV must have a header row and at least one data row.');
+  }
+  return {
+    headers: splitCsvLine(lines[0]),
+    rows: lines.slice(1).map(splitCsvLine),
+  };
+};
+
+/**
+ * Returns the first header containing any of the keywords (case-insensitive).
+ */
+export const findColumn = (headers: string[], keywords: string[]): string | undefined =>
+  headers.find(h => keywords.some(kw => h.toLowerCase().includes(kw)));
+
+/**
+ * Parses an amount such as "GH₵ 1,250.00", "(40.00)" or "-40". Returns NaN
+ * when the value has no digits.
+ */
+export const parseAmount = (value: string | undefined): number => {
+  if (!value) return NaN;
+  const negative = /^\(.*\)$/.test(value.trim());
+  const amount = parseFloat(value.replace(/[^0-9.-]+/g, ''));
+  return negative ? -Math.abs(amount) : amount;
+};
@@ -0,0 +1,52 @@
+import { CurrencySettings, ExchangeRate, Transaction } from '../types';
+import { formatCurrency } from './formatters';
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Rate in effect for a currency on a date: the latest entry dated on or
+ * before it. Undefined when the table has no rate that early.
+ */
+export const rateOn = (rates: ExchangeRate[], currency: string, date: string): number | undefined =>
+  rates
+    .filter(r => r.currency === currency && r.effectiveDate <= date)
+    .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate))[0]?.rate;
+
+export const toBaseAmount = (originalAmount: number, rate: number): number => roundCents(originalAmount * rate);
+
+/**
+ * The base currency followed by every currency the rate table covers.
+ */
+export const availableCurrencies = (baseCurrency: string, rates: ExchangeRate[]): string[] =>
+  [...new Set([baseCurrency, ...rates.map(r => r.currency).filter(c => c !== baseCurrency)])];
+
+/**
+ * Fields recording a gift's original currency, or none when it was received
+ * in the base currency.
+ */
+export const foreignCurrencyFields = (
+  currency: string,
+  baseCurrency: string,
+  originalAmount: number,
+  rate: number
+): Pick<Transaction, 'amount' | 'originalCurrency' | 'originalAmount' | 'exchangeRate'> =>
+  currency === baseCurrency
+    ? { amount: originalAmount }
+    : {
+        amount: toBaseAmount(originalAmount, rate),
+        originalCurrency: currency,
+        originalAmount,
+        exchangeRate: rate,
+      };
+
+/**
+ * The amount as received, e.g. "US$100.00 at 15.2", for gifts in another
+ * currency; null otherwise.
+ */
+export const describeOriginalAmount = (
+  transaction: Pick<Transaction, 'originalCurrency' | 'originalAmount' | 'exchangeRate'>,
+  format: CurrencySettings
+): string | null =>
+  transaction.originalCurrency && transaction.originalAmount !== undefined
+    ? `${formatCurrency(transaction.originalAmount, format, transaction.originalCurrency)} at ${transaction.exchangeRate}`
+    : null;
@@ -0,0 +1,137 @@
+import { Member, Transaction } from '../types';
+import { DUPLICATE_DONOR_NAME_THRESHOLD } from '../constants';
+import { isPossiblePhone } from './phoneUtils';
+
+/**
+ * Who a gift came from: the linked member when there is one, otherwise the
+ * name typed on the gift.
+ */
+export interface DonorIdentity {
+  key: string;
+  memberId?: string;
+  name: string;
+  email?: string;
+  phone?: string;
+}
+
+export const normalizeName = (name: string): string =>
+  name.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+export const normalizeEmail = (email?: string): string | undefined =>
+  email?.trim().toLowerCase() || undefined;
+
+// The last nine digits, so 024 123 4567 and +233 24 123 4567 match
+export const normalizePhone = (phone?: string): string | undefined => {
+  if (!phone || !isPossiblePhone(phone)) return undefined;
+  return phone.replace(/\D/g, '').slice(-9);
+};
+
+const ANONYMOUS_DONOR_KEY = 'name:anonymous';
+
+export const donorKey = (transaction: Pick<Transaction, 'donorMemberId' | 'donorName'>): string => {
+  if (transaction.donorMemberId) return `member:${transaction.donorMemberId}`;
+  const name = normalizeName(transaction.donorName || '');
+  return name ? `name:${name}` : ANONYMOUS_DONOR_KEY;
+};
+
+/**
+ * Every gift by `identity`: gifts linked to the member, or unlinked gifts
+ * carrying the same name however it was capitalised.
+ */
+export const donorTransactions = (transactions: Transaction[], identity: Pick<DonorIdentity, 'key'>): Transaction[] =>
+  transactions.filter(t => donorKey(t) === identity.key);
+
+/**
+ * The donor behind a gift, with contact details from the linked member or,
+ * failing that, from the contact typed on the gift.
+ */
+export const donorIdentity = (
+  transaction: Pick<Transaction, 'donorMemberId' | 'donorName' | 'donorContact'>,
+  members: Member[]
+): DonorIdentity => {
+  const member = transaction.donorMemberId ? members.find(m => m.id === transaction.donorMemberId) : undefined;
+  if (member) {
+    return { key: donorKey(transaction), memberId: member.id, name: member.name, email: member.email, phone: member.phone };
+  }
+  const contact = transaction.donorContact?.trim() || '';
+  return {
+    key: donorKey(transaction),
+    ...(transaction.donorMemberId && { memberId: transaction.donorMemberId }),
+    name: transaction.donorName?.trim() || 'Anonymous',
+    ...(contact.includes('@') ? { email: contact } : isPossiblePhone(contact) ? { phone: contact } : {}),
+  };
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const stringSimilarity = (a: string, b: string): number =>
+  a.length || b.length ? 1 - editDistance(a, b) / Math.max(a.length, b.length) : 1;
+
+// An initial matches any name it starts
+const tokenSimilarity = (a: string, b: string): number =>
+  (a.length === 1 || b.length === 1) && a[0] === b[0] ? 0.9 : stringSimilarity(a, b);
+
+/**
+ * How alike two names are, from 0 to 1. Names with the same number of parts
+ * are compared part by part in any order, so "K. Mensah" is close to
+ * "Kwame Mensah" and "Mensah Kwame".
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  const whole = stringSimilarity(left, right);
+  const leftTokens = left.split(' ');
+  const rightTokens = right.split(' ');
+  if (leftTokens.length !== rightTokens.length || leftTokens.length < 2) return whole;
+
+  const remaining = [...rightTokens];
+  const tokenScores = leftTokens.map(token => {
+    const scores = remaining.map(other => tokenSimilarity(token, other));
+    const best = scores.indexOf(Math.max(...scores));
+    remaining.splice(best, 1);
+    return scores[best];
+  });
+  return Math.max(whole, Math.min(...tokenScores));
+};
+
+export type DuplicateReason = 'name' | 'email' | 'phone';
+
+export interface DuplicateDonorPair {
+  a: DonorIdentity;
+  b: DonorIdentity;
+  nameScore: number;
+  reasons: DuplicateReason[];
+}
+
+/**
+ * Pairs of donors that may be the same person: similar names, or the same
+ * email or phone. Pairs sharing contact details are listed first.
+ */
+export const findDuplicateDonors = (donors: DonorIdentity[]): DuplicateDonorPair[] => {
+  const pairs: DuplicateDonorPair[] = [];
+  const named = donors.filter(d => d.key !== ANONYMOUS_DONOR_KEY);
+  named.forEach((a, i) => {
+    named.slice(i + 1).forEach(b => {
+      if (a.memberId && a.memberId === b.memberId) return;
+      const nameScore = Math.round(nameSimilarity(a.name, b.name) * 100) / 100;
+      const reasons: DuplicateReason[] = [];
+      if (nameScore >= DUPLICATE_DONOR_NAME_THRESHOLD) reasons.push('name');
+      if (normalizeEmail(a.email) && normalizeEmail(a.email) === normalizeEmail(b.email)) reasons.push('email');
+      if (normalizePhone(a.phone) && normalizePhone(a.phone) === normalizePhone(b.phone)) reasons.push('phone');
+      if (reasons.length) pairs.push({ a, b, nameScore, reasons });
+    });
+  });
+  const contactMatches = (pair: DuplicateDonorPair) => pair.reasons.filter(r => r !== 'name').length;
+  return pairs.sort((x, y) => contactMatches(y) - contactMatches(x) || y.nameScore - x.nameScore);
+};
@@ -1,20 +1,46 @@
+import { CurrencySettings } from '../types';
+
+// Formatting takes the church's base currency and locale as a parameter;
+// components get them, with the helpers below bound to them, from
+// useDisplayFormat in DisplayFormatContext.
+
 /**
- * Formats a number as currency
+ * Formats a number as currency, in the base currency unless another is given
  */
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-US', {
+export const formatCurrency = (amount: number, format: CurrencySettings, currency: string = format.baseCurrency): string => {
+  return new Intl.NumberFormat(format.locale, {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
   }).format(amount);
 };
 
+/**
+ * Formats a currency amount compactly for chart axes, e.g. GH₵12K
+ */
+export const formatCompactCurrency = (amount: number, format: CurrencySettings): string => {
+  return new Intl.NumberFormat(format.locale, {
+    style: 'currency',
+    currency: format.baseCurrency,
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(amount);
+};
+
+/**
+ * Symbol shown before amount inputs, e.g. GH₵
+ */
+export const currencySymbol = (format: CurrencySettings, currency: string = format.baseCurrency): string => {
+  const parts = new Intl.NumberFormat(format.locale, { style: 'currency', currency }).formatToParts(0);
+  return parts.find(p => p.type === 'currency')?.value || currency;
+};
+
 /**
  * Formats a date string to a readable format
  */
-export const formatDate = (dateString: string): string => {
-  return new Date(dateString).toLocaleDateString('en-US', {
+export const formatDate = (dateString: string, format: CurrencySettings): string => {
+  return new Date(dateString).toLocaleDateString(format.locale, {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
@@ -22,16 +48,31 @@ export const formatDate = (dateString: string): string => {
 };
 
 /**
- * Formats a date string to a short format (MM/DD/YYYY)
+ * Formats a date string to a short numeric format in the display locale
  */
-export const formatDateShort = (dateString: string): string => {
-  return new Date(dateString).toLocaleDateString('en-US', {
+export const formatDateShort = (dateString: string, format: CurrencySettings): string => {
+  return new Date(dateString).toLocaleDateString(format.locale, {
     year: 'numeric',
     month: '2-digit',
     day: '2-digit',
   });
 };
 
+/**
+ * The helpers above bound to one display format, as useDisplayFormat
+ * provides them
+ */
+export const displayFormatters = (format: CurrencySettings) => ({
+  format,
+  formatCurrency: (amount: number, currency?: string) => formatCurrency(amount, format, currency),
+  formatCompactCurrency: (amount: number) => formatCompactCurrency(amount, format),
+  currencySymbol: (currency?: string) => currencySymbol(format, currency),
+  formatDate: (dateString: string) => formatDate(dateString, format),
+  formatDateShort: (dateString: string) => formatDateShort(dateString, format),
+});
+
+export type DisplayFormatters = ReturnType<typeof displayFormatters>;
+
 /**
  * Formats a number as percentage
  */
@@ -0,0 +1,147 @@
+import { Fund, Transaction, TransactionType } from '../types';
+import { CATEGORY_FUNDS, GENERAL_FUND_ID } from '../constants';
+import { categoryLines } from './splits';
+
+export interface FundBalance {
+  fund: Fund;
+  income: number;
+  expenses: number;
+  balance: number;
+}
+
+export interface ActivityRow {
+  category: string;
+  type: TransactionType.INCOME | TransactionType.EXPENSE;
+  byFund: Record<string, number>;
+  total: number;
+}
+
+export interface StatementOfActivities {
+  funds: Fund[];
+  revenue: ActivityRow[];
+  expenses: ActivityRow[];
+  changeInNetAssets: Record<string, number>;
+  beginningNetAssets: Record<string, number>;
+  endingNetAssets: Record<string, number>;
+}
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * The fund a transaction belongs to. Older transactions without a fund fall
+ * back to the fund implied by their category, then to the General Fund.
+ */
+export const fundIdForTransaction = (transaction: Pick<Transaction, 'fundId' | 'category' | 'type'>): string =>
+  transaction.fundId
+    || (transaction.type === TransactionType.INCOME && CATEGORY_FUNDS[transaction.category])
+    || GENERAL_FUND_ID;
+
+export const isRestrictedFund = (fund: Fund): boolean => fund.restriction !== 'unrestricted';
+
+/**
+ * Signed effect of an amount on its fund. Transfers move money between bank
+ * accounts, not funds, so they have no effect.
+ */
+const fundAmount = (type: TransactionType, amount: number): number => {
+  if (type === TransactionType.INCOME) return amount;
+  if (type === TransactionType.EXPENSE) return -amount;
+  return 0;
+};
+
+/**
+ * Each category line of a transaction with the fund it belongs to. Lines of
+ * a split deposit can land in different funds.
+ */
+const fundLines = (transaction: Transaction) =>
+  categoryLines(transaction).map(line => ({
+    ...line,
+    fundId: fundIdForTransaction({ fundId: line.fundId, category: line.category, type: transaction.type }),
+  }));
+
+export const computeFundBalances = (funds: Fund[], transactions: Transaction[]): FundBalance[] =>
+  funds.map(fund => {
+    let income = 0;
+    let expenses = 0;
+    transactions.flatMap(t => fundLines(t).map(line => ({ ...line, type: t.type }))).forEach(line => {
+      if (line.fundId !== fund.id) return;
+      const amount = fundAmount(line.type, line.amount);
+      if (amount > 0) income += amount;
+      else expenses -= amount;
+    });
+    return {
+      fund,
+      income: roundCents(income),
+      expenses: roundCents(expenses),
+      balance: roundCents(income - expenses),
+    };
+  });
+
+/**
+ * Returns the fund's balance when spending `amount` from a restricted fund
+ * would take it below zero, otherwise undefined.
+ */
+export const restrictedFundShortfall = (
+  balances: FundBalance[],
+  fundId: string,
+  amount: number
+): FundBalance | undefined => {
+  const fundBalance = balances.find(b => b.fund.id === fundId);
+  if (!fundBalance || !isRestrictedFund(fundBalance.fund)) return undefined;
+  return amount > fundBalance.balance ? fundBalance : undefined;
+};
+
+/**
+ * Statement of Activities with one column per fund: revenue and expenses by
+ * category for the period, and each fund's net assets at the start and end.
+ * Dates are inclusive ISO strings; an empty start means "from the beginning".
+ */
+export const statementOfActivitiesByFund = (
+  funds: Fund[],
+  transactions: Transaction[],
+  start: string,
+  end: string
+): StatementOfActivities => {
+  const zeroes = () => Object.fromEntries(funds.map(f => [f.id, 0])) as Record<string, number>;
+  const rows = new Map<string, ActivityRow>();
+  const changeInNetAssets = zeroes();
+  const beginningNetAssets = zeroes();
+
+  transactions.forEach(t => fundLines(t).forEach(line => {
+    const amount = fundAmount(t.type, line.amount);
+    if (amount === 0) return;
+    const { fundId } = line;
+    if (!(fundId in changeInNetAssets)) return;
+
+    if (start && t.date < start) {
+      beginningNetAssets[fundId] += amount;
+      return;
+    }
+    if (end && t.date > end) return;
+
+    const type = t.type as ActivityRow['type'];
+    const key = `${type}-${line.category}`;
+    const row = rows.get(key) || { category: line.category, type, byFund: zeroes(), total: 0 };
+    row.byFund[fundId] += line.amount;
+    row.total += line.amount;
+    rows.set(key, row);
+    changeInNetAssets[fundId] += amount;
+  }));
+
+  const round = (values: Record<string, number>) =>
+    Object.fromEntries(Object.entries(values).map(([k, v]) => [k, roundCents(v)])) as Record<string, number>;
+  const sorted = (type: TransactionType) => Array.from(rows.values())
+    .filter(r => r.type === type)
+    .map(r => ({ ...r, byFund: round(r.byFund), total: roundCents(r.total) }))
+    .sort((a, b) => b.total - a.total);
+
+  return {
+    funds,
+    revenue: sorted(TransactionType.INCOME),
+    expenses: sorted(TransactionType.EXPENSE),
+    changeInNetAssets: round(changeInNetAssets),
+    beginningNetAssets: round(beginningNetAssets),
+    endingNetAssets: round(Object.fromEntries(
+      funds.map(f => [f.id, beginningNetAssets[f.id] + changeInNetAssets[f.id]])
+    )),
+  };
+};
@@ -0,0 +1,176 @@
+import jsPDF from 'jspdf';
+import JSZip from 'jszip';
+import { CurrencySettings, OrganizationSettings } from '../types';
+import { GivingStatement, statementFileName } from './givingStatements';
+import { formatDate } from './formatters';
+
+const PAGE_WIDTH = 210;
+const MARGIN = 20;
+const PAGE_BOTTOM = 275;
+const RIGHT = PAGE_WIDTH - MARGIN;
+
+// The standard PDF fonts have no cedi sign, so amounts show the currency code
+const formatAmount = (amount: number, { locale, baseCurrency }: CurrencySettings): string => {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: baseCurrency,
+    currencyDisplay: 'code',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+};
+
+const imageFormat = (dataUrl: string): string =>
+  dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+
+const drawTableHeader = (pdf: jsPDF, y: number): number => {
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(9);
+  pdf.text('Date', MARGIN, y);
+  pdf.text('Description', MARGIN + 28, y);
+  pdf.text('Category', MARGIN + 100, y);
+  pdf.text('Amount', RIGHT, y, { align: 'right' });
+  pdf.line(MARGIN, y + 2, RIGHT, y + 2);
+  pdf.setFont('helvetica', 'normal');
+  return y + 7;
+};
+
+/**
+ * Draws one statement starting on the document's current page.
+ */
+const drawStatement = (pdf: jsPDF, statement: GivingStatement, organization: OrganizationSettings, format: CurrencySettings) => {
+  let y = MARGIN;
+
+  if (organization.logoUrl) {
+    try {
+      pdf.addImage(organization.logoUrl, imageFormat(organization.logoUrl), MARGIN, y - 5, 20, 20);
+    } catch (error) {
+      console.error('Error adding logo to statement:', error);
+    }
+  }
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(16);
+  pdf.text(organization.name, PAGE_WIDTH / 2, y, { align: 'center' });
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  const churchLines = [
+    organization.address,
+    [organization.phone, organization.email].filter(Boolean).join(' | '),
+    organization.registrationNumber && `Registration No. ${organization.registrationNumber}`,
+  ].filter(Boolean) as string[];
+  churchLines.forEach(line => {
+    y += 5;
+    pdf.text(line, PAGE_WIDTH / 2, y, { align: 'center' });
+  });
+
+  y += 14;
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(13);
+  pdf.text(`Giving Statement ${statement.year}`, MARGIN, y);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(10);
+  pdf.text(`Issued ${formatDate(new Date().toISOString().split('T')[0], format)}`, RIGHT, y, { align: 'right' });
+  y += 8;
+  pdf.text(statement.donorName, MARGIN, y);
+  if (statement.address) {
+    pdf.splitTextToSize(statement.address, 90).forEach((line: string) => {
+      y += 5;
+      pdf.text(line, MARGIN, y);
+    });
+  }
+  y += 6;
+  pdf.text(
+    `Gifts received from 1 January to 31 December ${statement.year}: ${formatAmount(statement.total, format)}`,
+    MARGIN,
+    y
+  );
+
+  y = drawTableHeader(pdf, y + 10);
+  statement.gifts.forEach(gift => {
+    if (y > PAGE_BOTTOM) {
+      pdf.addPage();
+      y = drawTableHeader(pdf, MARGIN);
+    }
+    pdf.text(formatDate(gift.date, format), MARGIN, y);
+    pdf.text(pdf.splitTextToSize(gift.description, 68)[0] || '', MARGIN + 28, y);
+    pdf.text(pdf.splitTextToSize(gift.category, 45)[0] || '', MARGIN + 100, y);
+    pdf.text(formatAmount(gift.amount, format), RIGHT, y, { align: 'right' });
+    y += 6;
+  });
+
+  pdf.line(MARGIN, y - 3, RIGHT, y - 3);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Total', MARGIN, y + 2);
+  pdf.text(formatAmount(statement.total, format), RIGHT, y + 2, { align: 'right' });
+  pdf.setFont('helvetica', 'normal');
+  y += 12;
+
+  const categories = Object.entries(statement.totalsByCategory);
+  if (categories.length > 1) {
+    if (y + categories.length * 5 > PAGE_BOTTOM) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('By category', MARGIN, y);
+    pdf.setFont('helvetica', 'normal');
+    categories.forEach(([category, amount]) => {
+      y += 5;
+      pdf.text(category, MARGIN, y);
+      pdf.text(formatAmount(amount, format), MARGIN + 100, y, { align: 'right' });
+    });
+    y += 10;
+  }
+
+  if (organization.receiptFooter) {
+    if (y > PAGE_BOTTOM) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+    pdf.setFontSize(9);
+    pdf.text(pdf.splitTextToSize(organization.receiptFooter, RIGHT - MARGIN), MARGIN, y);
+  }
+};
+
+const newDocument = () => new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+
+export const givingStatementPdf = (statement: GivingStatement, organization: OrganizationSettings, format: CurrencySettings): jsPDF => {
+  const pdf = newDocument();
+  drawStatement(pdf, statement, organization, format);
+  return pdf;
+};
+
+/**
+ * Every statement in one document, each starting on a new page.
+ */
+export const mergedGivingStatementsPdf = (statements: GivingStatement[], organization: OrganizationSettings, format: CurrencySettings): jsPDF => {
+  const pdf = newDocument();
+  statements.forEach((statement, index) => {
+    if (index > 0) pdf.addPage();
+    drawStatement(pdf, statement, organization, format);
+  });
+  return pdf;
+};
+
+/**
+ * A ZIP archive holding one PDF per statement.
+ */
+export const givingStatementsZip = async (statements: GivingStatement[], organization: OrganizationSettings, format: CurrencySettings): Promise<Blob> => {
+  const zip = new JSZip();
+  const used = new Map<string, number>();
+  statements.forEach(statement => {
+    // Members who share a name still get a file each
+    const name = statementFileName(statement);
+    const count = used.get(name) || 0;
+    used.set(name, count + 1);
+    const fileName = count ? name.replace(/\.pdf$/, `-${count + 1}.pdf`) : name;
+    zip.file(fileName, givingStatementPdf(statement, organization, format).output('arraybuffer'));
+  });
+  return zip.generateAsync({ type: 'blob' });
+};
+
+/**
+ * The statement as base64 for an email attachment.
+ */
+export const givingStatementBase64 = (statement: GivingStatement, organization: OrganizationSettings, format: CurrencySettings): string =>
+  givingStatementPdf(statement, organization, format).output('datauristring').split(',')[1];
@@ -0,0 +1,84 @@
+import { Member, Transaction, TransactionType } from '../types';
+import { categoryLines } from './splits';
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+export interface StatementGift {
+  transactionId: string;
+  date: string;
+  description: string;
+  category: string;
+  amount: number;
+}
+
+// One member's gifts for a calendar year, one line per category of each gift
+export interface GivingStatement {
+  memberId: string;
+  donorName: string;
+  email?: string;
+  address?: string;
+  year: number;
+  gifts: StatementGift[];
+  totalsByCategory: Record<string, number>;
+  total: number;
+}
+
+/**
+ * Year-end giving statements for every member who gave in the year. Gifts are
+ * matched to members by donorMemberId, so two people who share a name are
+ * never merged and one person's differently spelled gifts are not split.
+ */
+export const givingStatements = (transactions: Transaction[], members: Member[], year: number): GivingStatement[] => {
+  const membersById = new Map(members.map(m => [m.id, m]));
+  const giftsByMember = new Map<string, StatementGift[]>();
+  // Used when the member record is not available, e.g. to a branch user
+  const recordedNames = new Map<string, string>();
+
+  transactions
+    .filter(t => t.type === TransactionType.INCOME && t.donorMemberId && t.date.startsWith(`${year}-`))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(t => {
+      const gifts = giftsByMember.get(t.donorMemberId!) || [];
+      categoryLines(t).forEach(line => gifts.push({
+        transactionId: t.id,
+        date: t.date,
+        description: t.description,
+        category: line.category,
+        amount: line.amount,
+      }));
+      giftsByMember.set(t.donorMemberId!, gifts);
+      if (t.donorName) recordedNames.set(t.donorMemberId!, t.donorName);
+    });
+
+  return [...giftsByMember.entries()]
+    .map(([memberId, gifts]) => {
+      const member = membersById.get(memberId);
+      const totalsByCategory = gifts.reduce<Record<string, number>>((acc, gift) => {
+        acc[gift.category] = roundCents((acc[gift.category] ?? 0) + gift.amount);
+        return acc;
+      }, {});
+      return {
+        memberId,
+        donorName: member?.name || recordedNames.get(memberId) || 'Unknown member',
+        ...(member?.email && { email: member.email }),
+        ...(member?.address && { address: member.address }),
+        year,
+        gifts,
+        totalsByCategory,
+        total: roundCents(gifts.reduce((sum, gift) => sum + gift.amount, 0)),
+      };
+    })
+    .sort((a, b) => a.donorName.localeCompare(b.donorName));
+};
+
+/**
+ * Income in the year that names a donor but is not linked to a member, so
+ * cannot appear on any statement until it is.
+ */
+export const unlinkedGifts = (transactions: Transaction[], year: number): Transaction[] =>
+  transactions.filter(t =>
+    t.type === TransactionType.INCOME && t.donorName && !t.donorMemberId && t.date.startsWith(`${year}-`)
+  );
+
+export const statementFileName = (statement: Pick<GivingStatement, 'donorName' | 'year'>): string =>
+  `Giving-Statement-${statement.year}-${statement.donorName.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '')}.pdf`;
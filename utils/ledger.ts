@@ -0,0 +1,274 @@
+import { serverTimestamp } from 'firebase/firestore';
+import {
+  Account,
+  AccountType,
+  JournalEntry,
+  JournalLine,
+  LedgerAccount,
+  Transaction,
+  TransactionType,
+} from '../types';
+import {
+  ACCOUNTS_PAYABLE_CODE,
+  CASH_ACCOUNT_CODE,
+  EXPENSE_ACCOUNT_BASE,
+  INCOME_ACCOUNT_BASE,
+  NET_ASSETS_ACCOUNT_CODE,
+} from '../constants';
+import { categoryLines } from './splits';
+
+export interface AccountBalance {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+  balance: number; // Signed on the account's normal side
+}
+
+export interface TrialBalance {
+  rows: AccountBalance[];
+  totalDebit: number;
+  totalCredit: number;
+  isBalanced: boolean;
+}
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Ledger codes for a list of categories, by name. A category keeps the code
+ * stored for it in `stored`; the rest are numbered by their place in the
+ * list, skipping codes already taken.
+ */
+export const categoryAccountCodes = (
+  categories: string[],
+  base: number,
+  stored: Record<string, string> = {}
+): Record<string, string> => {
+  const unique = [...new Set(categories)];
+  const used = new Set(unique.map(category => stored[category]).filter(Boolean));
+  const codes: Record<string, string> = {};
+  unique.forEach((category, index) => {
+    if (stored[category]) {
+      codes[category] = stored[category];
+      return;
+    }
+    let code = base + (index + 1) * 10;
+    while (used.has(String(code))) code += 10;
+    used.add(String(code));
+    codes[category] = String(code);
+  });
+  return codes;
+};
+
+/**
+ * Builds the chart of accounts from the fixed balance sheet accounts, one
+ * asset account per bank/cash account and one income/expense account per
+ * category. Custom categories keep the code stored with them in
+ * `categoryCodes`, so removing or reordering one never renumbers the others.
+ */
+export const buildChartOfAccounts = (
+  incomeCategories: string[],
+  expenseCategories: string[],
+  accounts: Account[] = [],
+  categoryCodes: Record<string, string> = {}
+): LedgerAccount[] => {
+  const fixed: LedgerAccount[] = [
+    { code: CASH_ACCOUNT_CODE, name: 'Cash and Bank', type: AccountType.ASSET },
+    { code: ACCOUNTS_PAYABLE_CODE, name: 'Accounts Payable', type: AccountType.LIABILITY },
+    { code: NET_ASSETS_ACCOUNT_CODE, name: 'Net Assets', type: AccountType.NET_ASSETS },
+  ];
+
+  const categoryAccounts = (categories: string[], base: number, type: AccountType, stored: Record<string, string> = {}) => {
+    const codes = categoryAccountCodes(categories, base, stored);
+    return [...new Set(categories)].map(category => ({
+      code: codes[category],
+      name: category,
+      type,
+      category,
+    }));
+  };
+
+  const bankAccounts: LedgerAccount[] = accounts.map(account => ({
+    code: account.ledgerCode,
+    name: account.name,
+    type: AccountType.ASSET,
+    accountId: account.id,
+  }));
+
+  return [
+    ...fixed,
+    ...bankAccounts,
+    ...categoryAccounts(incomeCategories, INCOME_ACCOUNT_BASE, AccountType.INCOME),
+    ...categoryAccounts(expenseCategories, EXPENSE_ACCOUNT_BASE, AccountType.EXPENSE, categoryCodes),
+  ];
+};
+
+/**
+ * Finds the income or expense account a category posts to. Unknown
+ * categories fall back to the type's "Other" account, then to the first
+ * account of that type.
+ */
+export const accountCodeForCategory = (
+  chart: LedgerAccount[],
+  type: TransactionType,
+  category: string
+): string => {
+  const accountType = type === TransactionType.INCOME ? AccountType.INCOME : AccountType.EXPENSE;
+  const ofType = chart.filter(a => a.type === accountType);
+  const match = ofType.find(a => a.category?.toLowerCase() === category.toLowerCase())
+    || ofType.find(a => a.category === 'Other')
+    || ofType[0];
+  if (!match) {
+    throw new Error(`No ${accountType.toLowerCase()} account in the chart of accounts`);
+  }
+  return match.code;
+};
+
+/**
+ * Ledger code for a bank/cash account. Transactions recorded before accounts
+ * existed (or without one) post to the general Cash and Bank account.
+ */
+export const ledgerCodeForAccount = (chart: LedgerAccount[], accountId?: string): string => {
+  if (!accountId) return CASH_ACCOUNT_CODE;
+  return chart.find(a => a.accountId === accountId)?.code || CASH_ACCOUNT_CODE;
+};
+
+export const isBalanced = (lines: JournalLine[]): boolean => {
+  const debit = lines.reduce((sum, l) => sum + l.debit, 0);
+  const credit = lines.reduce((sum, l) => sum + l.credit, 0);
+  return lines.length >= 2 && roundCents(debit) === roundCents(credit);
+};
+
+/**
+ * Posts a transaction as a balanced journal entry against its bank/cash account.
+ *   Income:   Dr Account            Cr Income category
+ *   Expense:  Dr Expense category   Cr Account
+ *   Transfer: Dr Destination        Cr Source account
+ * Reversing entries carry a negative amount and post with the sides swapped.
+ */
+export const journalEntryForTransaction = (
+  transaction: Pick<Transaction, 'date' | 'description' | 'category' | 'amount' | 'type' | 'accountId' | 'toAccountId' | 'splits' | 'branchId'> & { id?: string },
+  chart: LedgerAccount[]
+): Omit<JournalEntry, 'id'> => {
+  const amount = roundCents(Math.abs(transaction.amount));
+  const accountCode = ledgerCodeForAccount(chart, transaction.accountId);
+
+  let lines: JournalLine[];
+  if (transaction.type === TransactionType.TRANSFER) {
+    lines = [
+      { accountCode: ledgerCodeForAccount(chart, transaction.toAccountId), debit: amount, credit: 0 },
+      { accountCode, debit: 0, credit: amount },
+    ];
+  } else {
+    // One income or expense line per category; split transactions have several
+    const categoryEntries = categoryLines(transaction).map(line => ({
+      accountCode: accountCodeForCategory(chart, transaction.type, line.category),
+      amount: roundCents(Math.abs(line.amount)),
+    }));
+    lines = transaction.type === TransactionType.INCOME
+      ? [
+          { accountCode, debit: amount, credit: 0 },
+          ...categoryEntries.map(c => ({ accountCode: c.accountCode, debit: 0, credit: c.amount })),
+        ]
+      : [
+          ...categoryEntries.map(c => ({ accountCode: c.accountCode, debit: c.amount, credit: 0 })),
+          { accountCode, debit: 0, credit: amount },
+        ];
+  }
+
+  if (transaction.amount < 0) {
+    lines = lines.map(line => ({ ...line, debit: line.credit, credit: line.debit }));
+  }
+
+  return {
+    date: transaction.date,
+    description: transaction.description,
+    lines,
+    ...(transaction.id && { sourceTransactionId: transaction.id }),
+    ...(transaction.branchId && { branchId: transaction.branchId }),
+  };
+};
+
+/**
+ * Opening balance of a bank/cash account: Dr Account, Cr Net Assets.
+ */
+export const openingBalanceEntry = (account: Account): Omit<JournalEntry, 'id'> => {
+  const amount = roundCents(account.openingBalance);
+  return {
+    date: account.openingDate,
+    description: `Opening balance - ${account.name}`,
+    lines: [
+      { accountCode: account.ledgerCode, debit: amount, credit: 0 },
+      { accountCode: NET_ASSETS_ACCOUNT_CODE, debit: 0, credit: amount },
+    ],
+  };
+};
+
+/**
+ * Converts a journal entry to its Firestore shape (dates stored as Date,
+ * like transactions).
+ */
+export const toJournalEntryDoc = (entry: Omit<JournalEntry, 'id'>) => ({
+  ...entry,
+  date: new Date(entry.date),
+  createdAt: serverTimestamp(),
+});
+
+const isDebitNormal = (type: AccountType) =>
+  type === AccountType.ASSET || type === AccountType.EXPENSE;
+
+/**
+ * Sums journal lines per account. Lines referring to accounts missing from
+ * the chart are reported under a placeholder so the trial balance still ties.
+ */
+export const computeAccountBalances = (
+  entries: Pick<JournalEntry, 'lines'>[],
+  chart: LedgerAccount[]
+): AccountBalance[] => {
+  const totals = new Map<string, { debit: number; credit: number }>();
+  chart.forEach(a => totals.set(a.code, { debit: 0, credit: 0 }));
+
+  entries.forEach(entry => {
+    entry.lines.forEach(line => {
+      const current = totals.get(line.accountCode) || { debit: 0, credit: 0 };
+      current.debit += line.debit;
+      current.credit += line.credit;
+      totals.set(line.accountCode, current);
+    });
+  });
+
+  return Array.from(totals.entries())
+    .map(([code, { debit, credit }]) => {
+      const account = chart.find(a => a.code === code)
+        || { code, name: `Unknown account ${code}`, type: AccountType.ASSET };
+      const net = isDebitNormal(account.type) ? debit - credit : credit - debit;
+      return {
+        account,
+        debit: roundCents(debit),
+        credit: roundCents(credit),
+        balance: roundCents(net),
+      };
+    })
+    .sort((a, b) => a.account.code.localeCompare(b.account.code));
+};
+
+export const computeTrialBalance = (
+  entries: Pick<JournalEntry, 'lines'>[],
+  chart: LedgerAccount[]
+): TrialBalance => {
+  const rows = computeAccountBalances(entries, chart);
+  const totalDebit = roundCents(rows.reduce((sum, r) => sum + r.debit, 0));
+  const totalCredit = roundCents(rows.reduce((sum, r) => sum + r.credit, 0));
+  return { rows, totalDebit, totalCredit, isBalanced: totalDebit === totalCredit };
+};
+
+/**
+ * Returns the transactions that have no journal entry yet, e.g. documents
+ * created before the ledger existed.
+ */
+export const findUnpostedTransactions = (
+  transactions: Transaction[],
+  entries: JournalEntry[]
+): Transaction[] => {
+  const posted = new Set(entries.map(e => e.sourceTransactionId).filter(Boolean));
+  return transactions.filter(t => !posted.has(t.id));
+};
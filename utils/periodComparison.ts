@@ -0,0 +1,127 @@
+import { Transaction, TransactionType } from '../types';
+import { totalsByCategory } from './splits';
+
+export type ComparisonKind = 'month' | 'quarter' | 'yearToDate';
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface ChangeValue {
+  current: number;
+  previous: number;
+  change: number;
+  percentChange: number | null; // Null when there is nothing to compare against
+}
+
+export interface CategoryChange extends ChangeValue {
+  category: string;
+  type: TransactionType.INCOME | TransactionType.EXPENSE;
+}
+
+export interface PeriodComparison {
+  kind: ComparisonKind;
+  current: DateRange;
+  previous: DateRange;
+  income: ChangeValue;
+  expenses: ChangeValue;
+  net: ChangeValue;
+  categories: CategoryChange[];
+}
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Moves a date by whole months, keeping the day where the month allows:
+ * 31 March less one month is 28 (or 29) February.
+ */
+export const shiftMonths = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const index = year * 12 + month - 1 + months;
+  const targetYear = Math.floor(index / 12);
+  const targetMonth = index % 12 + 1;
+  const lastDay = new Date(Date.UTC(targetYear, targetMonth, 0)).getUTCDate();
+  return `${targetYear}-${pad(targetMonth)}-${pad(Math.min(day, lastDay))}`;
+};
+
+// First day of the period `asOf` falls in; quarters and years follow the fiscal year
+const periodStart = (asOf: string, months: number, fiscalYearStartMonth: number): string => {
+  const month = Number(asOf.slice(5, 7));
+  const offset = ((month - fiscalYearStartMonth) % months + months) % months;
+  return `${shiftMonths(asOf, -offset).slice(0, 7)}-01`;
+};
+
+/**
+ * The period so far and the one it is measured against, both running to the
+ * same day so a half-finished month is not set against a whole one: this
+ * month against the same month last year, this quarter against last quarter,
+ * and the fiscal year to date against the prior year to date.
+ */
+export const comparisonRanges = (
+  kind: ComparisonKind,
+  asOf: string,
+  fiscalYearStartMonth: number
+): { current: DateRange; previous: DateRange } => {
+  const [length, back] = kind === 'month' ? [1, 12] : kind === 'quarter' ? [3, 3] : [12, 12];
+  const current = { start: periodStart(asOf, length, fiscalYearStartMonth), end: asOf };
+  return { current, previous: { start: shiftMonths(current.start, -back), end: shiftMonths(asOf, -back) } };
+};
+
+/**
+ * Change as a percentage of the earlier amount. Measured against its size, so
+ * a deficit turning into a surplus reads as growth.
+ */
+export const percentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100;
+
+const changeValue = (current: number, previous: number): ChangeValue => ({
+  current: roundCents(current),
+  previous: roundCents(previous),
+  change: roundCents(current - previous),
+  percentChange: percentChange(current, previous),
+});
+
+const inRange = (transactions: Transaction[], range: DateRange): Transaction[] =>
+  transactions.filter(t => t.date >= range.start && t.date <= range.end);
+
+/**
+ * Income, expenses, net and every category for two periods, with the change
+ * between them. Categories are listed by the size of their change.
+ */
+export const comparePeriods = (
+  transactions: Transaction[],
+  kind: ComparisonKind,
+  asOf: string,
+  fiscalYearStartMonth: number
+): PeriodComparison => {
+  const { current, previous } = comparisonRanges(kind, asOf, fiscalYearStartMonth);
+  const now = inRange(transactions, current);
+  const before = inRange(transactions, previous);
+  const total = (list: Transaction[], type: TransactionType) =>
+    list.filter(t => t.type === type).reduce((sum, t) => sum + t.amount, 0);
+
+  const categories = ([TransactionType.INCOME, TransactionType.EXPENSE] as const).flatMap(type => {
+    const nowByCategory = totalsByCategory(now, type);
+    const beforeByCategory = totalsByCategory(before, type);
+    return [...new Set([...Object.keys(nowByCategory), ...Object.keys(beforeByCategory)])].map(category => ({
+      category,
+      type,
+      ...changeValue(nowByCategory[category] || 0, beforeByCategory[category] || 0),
+    }));
+  });
+
+  const income = changeValue(total(now, TransactionType.INCOME), total(before, TransactionType.INCOME));
+  const expenses = changeValue(total(now, TransactionType.EXPENSE), total(before, TransactionType.EXPENSE));
+  return {
+    kind,
+    current,
+    previous,
+    income,
+    expenses,
+    net: changeValue(income.current - expenses.current, income.previous - expenses.previous),
+    categories: categories.sort((a, b) => Math.abs(b.change) - Math.abs(a.change) || a.category.localeCompare(b.category)),
+  };
+};
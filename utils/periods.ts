@@ -0,0 +1,77 @@
+import { Transaction } from '../types';
+
+/**
+ * Transactions dated on or before the locked-through date belong to a
+ * closed accounting period.
+ */
+export const isInClosedPeriod = (date: string, lockedThrough: string | null): boolean =>
+  !!lockedThrough && date <= lockedThrough;
+
+/**
+ * Last day of the month, e.g. '2025-02' -> '2025-02-28'.
+ */
+export const monthEnd = (yearMonth: string): string => {
+  const [year, month] = yearMonth.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0];
+};
+
+/**
+ * Last day of the fiscal year that starts in `startYear`.
+ */
+export const fiscalYearEnd = (startYear: number, startMonth: number): string => {
+  if (startMonth === 1) return `${startYear}-12-31`;
+  const endMonth = String(startMonth - 1).padStart(2, '0');
+  return monthEnd(`${startYear + 1}-${endMonth}`);
+};
+
+/**
+ * The month after the locked-through date, which is the next one that can
+ * be closed. Periods close in order so the lock is a single date.
+ */
+export const nextMonthToClose = (lockedThrough: string | null, today: string): string => {
+  if (!lockedThrough) {
+    const [year, month] = today.split('-').map(Number);
+    const previous = new Date(Date.UTC(year, month - 2, 1));
+    return previous.toISOString().slice(0, 7);
+  }
+  const next = new Date(`${lockedThrough}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 7);
+};
+
+/**
+ * Lock date after reopening every period from `periodStart` onward: the day
+ * before it. Earlier periods stay closed.
+ */
+export const lockedThroughBefore = (periodStart: string): string => {
+  const previous = new Date(`${periodStart}T00:00:00Z`);
+  previous.setUTCDate(previous.getUTCDate() - 1);
+  return previous.toISOString().split('T')[0];
+};
+
+/**
+ * Adjusting entry that reverses a transaction from a closed period. It is
+ * dated in the open period and carries a negative amount, so totals and the
+ * ledger net back to zero; the corrected entry is then recorded normally.
+ * The official receipt number stays with the original gift alone, and an
+ * expense's approvals stay with the expense they approved. Nor is the
+ * reversal a counting sheet's posting or a recurring occurrence itself.
+ */
+export const reversingEntryFor = (
+  transaction: Transaction,
+  date: string
+): Omit<Transaction, 'id'> => {
+  const {
+    id, receipts, reconciliationId, receiptNumber, receiptYear, receiptSequence,
+    approvalStatus, approvals, submittedBy, rejectionReason, paidAt,
+    countingSheetId, recurringTemplateId, ...rest
+  } = transaction;
+  return {
+    ...rest,
+    date,
+    amount: -transaction.amount,
+    ...(transaction.splits && { splits: transaction.splits.map(s => ({ ...s, amount: -s.amount })) }),
+    description: `Reversal: ${transaction.description}`,
+    adjustsTransactionId: id,
+  };
+};
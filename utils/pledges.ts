@@ -0,0 +1,100 @@
+import { Campaign, Pledge, Transaction, TransactionType } from '../types';
+import { PLEDGE_GRACE_DAYS } from '../constants';
+import { occurrencesThrough } from './recurrence';
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+const percentOf = (value: number, total: number): number =>
+  total > 0 ? Math.round((value / total) * 1000) / 10 : 0;
+
+const daysBefore = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - days);
+  return d.toISOString().split('T')[0];
+};
+
+export const isOpenPledge = (pledge: Pledge): boolean => !pledge.cancelledAt;
+
+/**
+ * Installments due on or before `asOf`, never more than the pledge has.
+ */
+export const installmentsDue = (pledge: Pick<Pledge, 'frequency' | 'installments' | 'startDate'>, asOf: string): number =>
+  Math.min(pledge.installments, occurrencesThrough(pledge, pledge.startDate, asOf).length);
+
+export interface PledgeProgress {
+  paid: number;
+  remaining: number;
+  percent: number; // Share of the pledge paid
+  expectedToDate: number; // What should have been paid by now, allowing the grace period
+  behindBy: number;
+  isBehind: boolean;
+  isFulfilled: boolean;
+}
+
+export const pledgeProgress = (pledge: Pledge, transactions: Transaction[], asOf: string): PledgeProgress => {
+  const paid = roundCents(transactions
+    .filter(t => t.pledgeId === pledge.id && t.type === TransactionType.INCOME)
+    .reduce((sum, t) => sum + t.amount, 0));
+  const due = installmentsDue(pledge, daysBefore(asOf, PLEDGE_GRACE_DAYS));
+  const expectedToDate = roundCents(pledge.amount * due / pledge.installments);
+  const behindBy = Math.max(0, roundCents(expectedToDate - paid));
+  const isFulfilled = paid >= pledge.amount;
+  return {
+    paid,
+    remaining: Math.max(0, roundCents(pledge.amount - paid)),
+    percent: percentOf(paid, pledge.amount),
+    expectedToDate,
+    behindBy,
+    isBehind: isOpenPledge(pledge) && !isFulfilled && behindBy > 0,
+    isFulfilled,
+  };
+};
+
+export interface CampaignProgress {
+  raised: number; // Every gift toward the campaign, pledged or not
+  pledged: number; // Total of open pledges
+  percent: number; // Share of the goal raised
+  pledgedPercent: number;
+  pledgeCount: number;
+  behindCount: number;
+}
+
+export const campaignProgress = (
+  campaign: Campaign,
+  pledges: Pledge[],
+  transactions: Transaction[],
+  asOf: string
+): CampaignProgress => {
+  const raised = roundCents(transactions
+    .filter(t => t.campaignId === campaign.id && t.type === TransactionType.INCOME)
+    .reduce((sum, t) => sum + t.amount, 0));
+  const open = pledges.filter(p => p.campaignId === campaign.id && isOpenPledge(p));
+  const pledged = roundCents(open.reduce((sum, p) => sum + p.amount, 0));
+  return {
+    raised,
+    pledged,
+    percent: percentOf(raised, campaign.goal),
+    pledgedPercent: percentOf(pledged, campaign.goal),
+    pledgeCount: open.length,
+    behindCount: open.filter(p => pledgeProgress(p, transactions, asOf).isBehind).length,
+  };
+};
+
+/**
+ * The pledge a member's gift most likely pays toward: their oldest unfulfilled
+ * pledge to an open campaign that records gifts under the gift's category.
+ */
+export const suggestedPledge = (
+  pledges: Pledge[],
+  campaigns: Campaign[],
+  transactions: Transaction[],
+  memberId: string,
+  category: string,
+  asOf: string
+): Pledge | undefined => {
+  const openCampaignIds = new Set(campaigns.filter(c => !c.closed && c.category === category).map(c => c.id));
+  return pledges
+    .filter(p => p.memberId === memberId && isOpenPledge(p) && openCampaignIds.has(p.campaignId))
+    .filter(p => !pledgeProgress(p, transactions, asOf).isFulfilled)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))[0];
+};
@@ -0,0 +1,77 @@
+import { Transaction, TransactionType } from '../types';
+
+/**
+ * Fiscal year a date falls in, named by the calendar year it ends in, so a
+ * July start puts 2025-08-10 in fiscal 2026.
+ */
+export const fiscalYearOf = (date: string, startMonth: number): number => {
+  const [year, month] = date.split('-').map(Number);
+  return startMonth > 1 && month >= startMonth ? year + 1 : year;
+};
+
+/**
+ * Official receipt number, e.g. GWCC-2026-000123.
+ */
+export const formatReceiptNumber = (prefix: string, fiscalYear: number, sequence: number): string =>
+  `${prefix.trim().toUpperCase() || 'RCPT'}-${fiscalYear}-${String(sequence).padStart(6, '0')}`;
+
+/**
+ * Gifts from a named donor get an official receipt. Reversals, remittances
+ * between branches and anonymous plate offerings do not.
+ */
+export const needsReceiptNumber = (
+  transaction: Pick<Transaction, 'type' | 'amount' | 'donorName' | 'donorMemberId' | 'adjustsTransactionId' | 'remittanceId' | 'receiptNumber'>
+): boolean =>
+  transaction.type === TransactionType.INCOME && transaction.amount > 0 &&
+  !!(transaction.donorName?.trim() || transaction.donorMemberId) &&
+  !transaction.adjustsTransactionId && !transaction.remittanceId && !transaction.receiptNumber;
+
+/**
+ * Receipt number to print. Gifts recorded before numbering began fall back
+ * to one derived from the document id; voided gifts keep their number.
+ */
+export const receiptNumberFor = (transaction: Pick<Transaction, 'id' | 'receiptNumber'>): string =>
+  transaction.receiptNumber || `RCPT-${transaction.id.slice(-8).toUpperCase()}`;
+
+/**
+ * Numbers each gift that needs one, continuing from the last number used in
+ * its fiscal year. Returns the numbered transactions and the new last number
+ * for every fiscal year that moved.
+ */
+export const assignReceiptNumbers = <T extends Pick<Transaction, 'date' | 'type' | 'amount' | 'donorName' | 'donorMemberId' | 'adjustsTransactionId' | 'remittanceId' | 'receiptNumber'>>(
+  transactions: T[],
+  lastByYear: Record<number, number>,
+  prefix: string,
+  fiscalYearStartMonth: number
+): { numbered: T[]; lastByYear: Record<number, number> } => {
+  const last = { ...lastByYear };
+  const used: Record<number, number> = {};
+  const numbered = transactions.map(t => {
+    if (!needsReceiptNumber(t)) return t;
+    const year = fiscalYearOf(t.date, fiscalYearStartMonth);
+    const sequence = (last[year] || 0) + 1;
+    last[year] = sequence;
+    used[year] = sequence;
+    return { ...t, receiptNumber: formatReceiptNumber(prefix, year, sequence), receiptYear: year, receiptSequence: sequence };
+  });
+  return { numbered, lastByYear: used };
+};
+
+/**
+ * Splits transactions into writes of at most `size`, with no more than one
+ * gift to number in each, since the database rules let a receipt counter
+ * move by one number per write.
+ */
+export const chunkForNumbering = <T extends Parameters<typeof needsReceiptNumber>[0]>(transactions: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  transactions.forEach(t => {
+    if (current.length === size || (needsReceiptNumber(t) && current.some(needsReceiptNumber))) {
+      chunks.push(current);
+      current = [];
+    }
+    current.push(t);
+  });
+  if (current.length) chunks.push(current);
+  return chunks;
+};
@@ -0,0 +1,201 @@
+import { Account, Reconciliation, StatementLine, Transaction } from '../types';
+import { ParsedCsv, findColumn, parseAmount } from './csv';
+import { amountForAccount } from './accounts';
+
+// Statement lines only auto-match entries dated within this many days
+export const MATCH_DATE_WINDOW_DAYS = 5;
+
+export interface ReconciliationSummary {
+  bookBalance: number; // Ledger balance of the account at period end
+  outstandingTotal: number; // Book entries not yet on any statement
+  adjustedStatementBalance: number; // Statement closing balance plus outstanding entries
+  difference: number;
+  unmatchedLines: StatementLine[];
+  unmatchedTransactions: Transaction[];
+  canComplete: boolean;
+}
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+const daysBetween = (a: string, b: string): number =>
+  Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86400000;
+
+const words = (text: string): Set<string> =>
+  new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 2));
+
+/**
+ * Share of words the two descriptions have in common (0 to 1).
+ */
+export const descriptionSimilarity = (a: string, b: string): number => {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const shared = [...wordsA].filter(w => wordsB.has(w)).length;
+  return shared / new Set([...wordsA, ...wordsB]).size;
+};
+
+/**
+ * Scores how likely a transaction is the book side of a statement line.
+ * Amounts must agree exactly; closer dates and similar descriptions score
+ * higher. Returns 0 for a non-match.
+ */
+export const matchScore = (line: StatementLine, transaction: Transaction, accountId: string): number => {
+  const amount = amountForAccount(transaction, accountId);
+  if (amount === 0 || roundCents(amount) !== roundCents(line.amount)) return 0;
+
+  const days = daysBetween(line.date, transaction.date);
+  if (days > MATCH_DATE_WINDOW_DAYS) return 0;
+
+  const dateScore = 1 - days / (MATCH_DATE_WINDOW_DAYS + 1);
+  return 0.6 * dateScore + 0.4 * descriptionSimilarity(line.description, transaction.description);
+};
+
+/**
+ * Reads statement lines from a bank CSV export. Accepts either a signed
+ * amount column or separate debit/credit (withdrawal/deposit) columns.
+ */
+export const statementLinesFromCsv = ({ headers, rows }: ParsedCsv): StatementLine[] => {
+  const dateColumn = findColumn(headers, ['date']);
+  const descriptionColumn = findColumn(headers, ['desc', 'details', 'narration', 'memo', 'particulars']);
+  const amountColumn = findColumn(headers, ['amount']);
+  const creditColumn = findColumn(headers, ['credit', 'deposit', 'money in']);
+  const debitColumn = findColumn(headers, ['debit', 'withdrawal', 'money out']);
+
+  if (!dateColumn || !descriptionColumn || (!amountColumn && !(creditColumn && debitColumn))) {
+    throw new Error('Statement needs date, description and amount (or debit and credit) columns.');
+  }
+
+  const cell = (row: string[], column?: string) => (column ? row[headers.indexOf(column)] : undefined);
+
+  return rows.flatMap((row, index) => {
+    const date = new Date(cell(row, dateColumn) || '');
+    if (isNaN(date.getTime())) return [];
+
+    let amount = amountColumn ? parseAmount(cell(row, amountColumn)) : NaN;
+    if (isNaN(amount)) {
+      const credit = parseAmount(cell(row, creditColumn));
+      const debit = parseAmount(cell(row, debitColumn));
+      amount = (isNaN(credit) ? 0 : Math.abs(credit)) - (isNaN(debit) ? 0 : Math.abs(debit));
+    }
+    if (!amount) return [];
+
+    return [{
+      id: `line-${index + 1}`,
+      date: date.toISOString().split('T')[0],
+      description: cell(row, descriptionColumn) || '',
+      amount: roundCents(amount),
+      matchedTransactionIds: [],
+    }];
+  });
+};
+
+/**
+ * Transactions through the account that can still be matched: not already
+ * reconciled and not used by another statement line.
+ */
+export const matchableTransactions = (
+  lines: StatementLine[],
+  transactions: Transaction[],
+  accountId: string
+): Transaction[] => {
+  const used = new Set(lines.flatMap(l => l.matchedTransactionIds));
+  return transactions.filter(t =>
+    !t.reconciliationId && !used.has(t.id) && amountForAccount(t, accountId) !== 0
+  );
+};
+
+/**
+ * Matches unmatched statement lines to transactions, best score first, each
+ * transaction used at most once. Existing matches are kept.
+ */
+export const autoMatchStatement = (
+  lines: StatementLine[],
+  transactions: Transaction[],
+  accountId: string
+): StatementLine[] => {
+  const candidates = matchableTransactions(lines, transactions, accountId);
+  const pairs: { lineId: string; transactionId: string; score: number }[] = [];
+
+  lines.filter(l => l.matchedTransactionIds.length === 0).forEach(line => {
+    candidates.forEach(transaction => {
+      const score = matchScore(line, transaction, accountId);
+      if (score > 0) pairs.push({ lineId: line.id, transactionId: transaction.id, score });
+    });
+  });
+  pairs.sort((a, b) => b.score - a.score);
+
+  const matches = new Map<string, string>();
+  const usedTransactions = new Set<string>();
+  pairs.forEach(({ lineId, transactionId }) => {
+    if (matches.has(lineId) || usedTransactions.has(transactionId)) return;
+    matches.set(lineId, transactionId);
+    usedTransactions.add(transactionId);
+  });
+
+  return lines.map(line => matches.has(line.id)
+    ? { ...line, matchedTransactionIds: [matches.get(line.id)!] }
+    : line);
+};
+
+/**
+ * A line is matched when its transactions add up to the statement amount.
+ */
+export const isLineMatched = (line: StatementLine, transactions: Transaction[], accountId: string): boolean => {
+  if (line.matchedTransactionIds.length === 0) return false;
+  const total = line.matchedTransactionIds.reduce((sum, id) => {
+    const transaction = transactions.find(t => t.id === id);
+    return sum + (transaction ? amountForAccount(transaction, accountId) : 0);
+  }, 0);
+  return roundCents(total) === roundCents(line.amount);
+};
+
+/**
+ * Compares the statement with the books at period end. Book entries missing
+ * from the statement (uncleared cheques, deposits in transit) are carried as
+ * outstanding; the reconciliation balances when the statement closing
+ * balance plus outstanding entries equals the book balance.
+ */
+export const summarizeReconciliation = (
+  reconciliation: Pick<Reconciliation, 'lines' | 'periodEnd' | 'statementClosingBalance'>,
+  account: Account,
+  transactions: Transaction[]
+): ReconciliationSummary => {
+  const throughPeriodEnd = transactions.filter(t => t.date <= reconciliation.periodEnd);
+  const bookBalance = roundCents(throughPeriodEnd.reduce(
+    (sum, t) => sum + amountForAccount(t, account.id),
+    account.openingBalance || 0
+  ));
+
+  const unmatchedLines = reconciliation.lines.filter(l => !isLineMatched(l, transactions, account.id));
+  const unmatchedTransactions = matchableTransactions(reconciliation.lines, throughPeriodEnd, account.id);
+  const outstandingTotal = roundCents(
+    unmatchedTransactions.reduce((sum, t) => sum + amountForAccount(t, account.id), 0)
+  );
+  const adjustedStatementBalance = roundCents(reconciliation.statementClosingBalance + outstandingTotal);
+  const difference = roundCents(adjustedStatementBalance - bookBalance);
+
+  return {
+    bookBalance,
+    outstandingTotal,
+    adjustedStatementBalance,
+    difference,
+    unmatchedLines,
+    unmatchedTransactions,
+    canComplete: unmatchedLines.length === 0 && difference === 0,
+  };
+};
+
+/**
+ * Reconciled transactions, and anything dated inside an account's reconciled
+ * period, are locked against edits.
+ */
+export const isTransactionLocked = (
+  transaction: Pick<Transaction, 'date' | 'accountId' | 'toAccountId' | 'reconciliationId'>,
+  accounts: Account[]
+): boolean => {
+  if (transaction.reconciliationId) return true;
+  return [transaction.accountId, transaction.toAccountId].some(id => {
+    const reconciledThrough = accounts.find(a => a.id === id)?.reconciledThrough;
+    return !!id && !!reconciledThrough && transaction.date <= reconciledThrough;
+  });
+};
@@ -0,0 +1,104 @@
+import { RecurringTemplate, Transaction } from '../types';
+
+type Schedule = Pick<RecurringTemplate, 'frequency' | 'dayOfMonth' | 'startDate' | 'endDate'>;
+
+const MONTHS_BETWEEN = { monthly: 1, quarterly: 3, yearly: 12 } as const;
+
+const toDate = (date: string): Date => new Date(`${date}T00:00:00Z`);
+const toISODate = (date: Date): string => date.toISOString().split('T')[0];
+
+// Day `day` of the month, or the month's last day when it is shorter
+const dayInMonth = (year: number, month: number, day: number): string => {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return toISODate(new Date(Date.UTC(year, month, Math.min(day, lastDay))));
+};
+
+const anchorDay = (schedule: Schedule): number => schedule.dayOfMonth || toDate(schedule.startDate).getUTCDate();
+
+/**
+ * Occurrence after `date`. Month-based schedules keep their anchor day, so a
+ * rent due on the 31st falls on Feb 28 and then Mar 31.
+ */
+export const nextOccurrence = (date: string, schedule: Schedule): string => {
+  const current = toDate(date);
+  if (schedule.frequency === 'weekly') {
+    current.setUTCDate(current.getUTCDate() + 7);
+    return toISODate(current);
+  }
+  const months = MONTHS_BETWEEN[schedule.frequency];
+  return dayInMonth(current.getUTCFullYear(), current.getUTCMonth() + months, anchorDay(schedule));
+};
+
+/**
+ * First occurrence on or after the start date.
+ */
+export const firstOccurrence = (schedule: Schedule): string => {
+  if (schedule.frequency === 'weekly' || !schedule.dayOfMonth) return schedule.startDate;
+  const start = toDate(schedule.startDate);
+  const candidate = dayInMonth(start.getUTCFullYear(), start.getUTCMonth(), schedule.dayOfMonth);
+  return candidate >= schedule.startDate ? candidate : nextOccurrence(candidate, schedule);
+};
+
+/**
+ * First occurrence on or after `date`, stepping on from `from` (itself an
+ * occurrence) so the schedule keeps its weekday or day of the month.
+ */
+export const occurrenceOnOrAfter = (schedule: Schedule, from: string, date: string): string => {
+  let next = from;
+  while (next < date) next = nextOccurrence(next, schedule);
+  return next;
+};
+
+/**
+ * Occurrences from `from` (itself an occurrence) through `until`, stopping at
+ * the schedule's end date.
+ */
+export const occurrencesThrough = (schedule: Schedule, from: string, until: string): string[] => {
+  const last = schedule.endDate && schedule.endDate < until ? schedule.endDate : until;
+  const dates: string[] = [];
+  for (let date = from; date <= last; date = nextOccurrence(date, schedule)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+/**
+ * The transaction one occurrence records, or null when it was skipped.
+ */
+export const occurrenceTransaction = (
+  template: RecurringTemplate,
+  date: string
+): Omit<Transaction, 'id'> | null => {
+  const override = template.overrides?.[date];
+  if (override?.skip) return null;
+  return {
+    date,
+    description: override?.description || template.description,
+    category: template.category,
+    amount: override?.amount ?? template.amount,
+    type: template.type,
+    ...(template.accountId && { accountId: template.accountId }),
+    ...(template.fundId && { fundId: template.fundId }),
+    ...(template.branchId && { branchId: template.branchId }),
+    recurringTemplateId: template.id,
+  };
+};
+
+export interface UpcomingOccurrence {
+  template: RecurringTemplate;
+  date: string;
+  transaction: Omit<Transaction, 'id'> | null;
+}
+
+/**
+ * Scheduled entries that have not been recorded yet, soonest first.
+ */
+export const upcomingOccurrences = (templates: RecurringTemplate[], until: string): UpcomingOccurrence[] =>
+  templates
+    .filter(t => !t.paused)
+    .flatMap(template => occurrencesThrough(template, template.nextDate, until).map(date => ({
+      template,
+      date,
+      transaction: occurrenceTransaction(template, date),
+    })))
+    .sort((a, b) => a.date.localeCompare(b.date));
@@ -0,0 +1,209 @@
+import { Account, Fund, Member, ReportDefinition, ReportDimension, ReportFilters, Transaction, TransactionType } from '../types';
+import { REPORT_DIMENSION_LABELS, REPORT_MEASURE_LABELS } from '../constants';
+import { categoryLines } from './splits';
+import { donorKey } from './donors';
+import { fundIdForTransaction } from './funds';
+
+export type ReportLayout = Pick<ReportDefinition, 'rowDimension' | 'columnDimension' | 'measure' | 'filters' | 'sortBy' | 'sortDirection'>;
+
+export interface ReportLookups {
+  members: Member[];
+  funds: Fund[];
+  accounts: Account[];
+}
+
+export interface PivotHeading {
+  key: string;
+  label: string;
+}
+
+export interface PivotRow extends PivotHeading {
+  cells: Record<string, number>; // By column key; missing when nothing falls in the cell
+  total: number;
+}
+
+export interface PivotTable {
+  columns: PivotHeading[]; // Empty when the report has no column dimension
+  rows: PivotRow[];
+  columnTotals: Record<string, number>;
+  grandTotal: number;
+  lineCount: number;
+}
+
+// One category line of a transaction, the unit every report aggregates
+interface ReportLine {
+  transaction: Transaction;
+  category: string;
+  fundId: string;
+  amount: number;
+}
+
+interface Accumulator {
+  sum: number;
+  count: number;
+}
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+const NO_VALUE_KEY = '';
+
+const monthLabel = (month: string): string =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+const quarterOf = (date: string): string => {
+  const [year, month] = date.split('-').map(Number);
+  return `${year}-Q${Math.ceil(month / 3)}`;
+};
+
+/**
+ * Splits the transactions into category lines and keeps those the filters
+ * allow. Transfers only move money between accounts, so they never count.
+ */
+export const reportLines = (transactions: Transaction[], filters: ReportFilters, lookups: ReportLookups): ReportLine[] => {
+  const departmentsById = new Map(lookups.members.map(m => [m.id, m.departments || []]));
+  return transactions
+    .filter(t => t.type !== TransactionType.TRANSFER && !t.deletedAt)
+    .filter(t => !filters.type || t.type === filters.type)
+    .filter(t => (!filters.startDate || t.date >= filters.startDate) && (!filters.endDate || t.date <= filters.endDate))
+    .filter(t => !filters.accountId || t.accountId === filters.accountId)
+    .filter(t => !filters.department ||
+      (!!t.donorMemberId && (departmentsById.get(t.donorMemberId) || []).includes(filters.department)))
+    .flatMap(t => categoryLines(t).map(line => ({
+      transaction: t,
+      category: line.category,
+      fundId: line.fundId || fundIdForTransaction({ ...t, category: line.category }),
+      // With income and expenses together, sums come out as the net
+      amount: !filters.type && t.type === TransactionType.EXPENSE ? -line.amount : line.amount,
+    })))
+    .filter(line => !filters.category || line.category === filters.category)
+    .filter(line => !filters.fundId || line.fundId === filters.fundId);
+};
+
+/**
+ * Where a line falls along one dimension. A gift from a member in several
+ * departments falls under each of them.
+ */
+const headingsFor = (line: ReportLine, dimension: ReportDimension, lookups: ReportLookups): PivotHeading[] => {
+  const t = line.transaction;
+  switch (dimension) {
+    case 'category':
+      return [{ key: line.category, label: line.category }];
+    case 'month': {
+      const month = t.date.slice(0, 7);
+      return [{ key: month, label: monthLabel(month) }];
+    }
+    case 'quarter': {
+      const quarter = quarterOf(t.date);
+      return [{ key: quarter, label: quarter.replace('-', ' ') }];
+    }
+    case 'donor': {
+      const key = donorKey(t);
+      if (key === donorKey({})) return [{ key: NO_VALUE_KEY, label: 'No donor' }];
+      const member = t.donorMemberId ? lookups.members.find(m => m.id === t.donorMemberId) : undefined;
+      return [{ key, label: member?.name || t.donorName?.trim() || key }];
+    }
+    case 'department': {
+      const member = t.donorMemberId ? lookups.members.find(m => m.id === t.donorMemberId) : undefined;
+      const departments = [...new Set(member?.departments || [])];
+      return departments.length > 0
+        ? departments.map(d => ({ key: d, label: d }))
+        : [{ key: NO_VALUE_KEY, label: 'No department' }];
+    }
+    case 'fund':
+      return [{ key: line.fundId, label: lookups.funds.find(f => f.id === line.fundId)?.name || line.fundId }];
+    case 'account':
+      return t.accountId
+        ? [{ key: t.accountId, label: lookups.accounts.find(a => a.id === t.accountId)?.name || t.accountId }]
+        : [{ key: NO_VALUE_KEY, label: 'No account' }];
+  }
+};
+
+// Months and quarters read in date order; everything else alphabetically
+const compareHeadings = (dimension: ReportDimension) => (a: PivotHeading, b: PivotHeading): number => {
+  if (a.key === NO_VALUE_KEY || b.key === NO_VALUE_KEY) return Number(a.key === NO_VALUE_KEY) - Number(b.key === NO_VALUE_KEY);
+  return dimension === 'month' || dimension === 'quarter' ? a.key.localeCompare(b.key) : a.label.localeCompare(b.label);
+};
+
+const add = (accumulators: Map<string, Accumulator>, key: string, amount: number) => {
+  const acc = accumulators.get(key) || { sum: 0, count: 0 };
+  acc.sum += amount;
+  acc.count += 1;
+  accumulators.set(key, acc);
+};
+
+/**
+ * Runs a report definition over the transactions. Row, column and grand
+ * totals are worked out from the lines themselves, so a gift that falls under
+ * two departments still counts once in each total.
+ */
+export const buildPivot = (transactions: Transaction[], layout: ReportLayout, lookups: ReportLookups): PivotTable => {
+  const lines = reportLines(transactions, layout.filters, lookups);
+  const rowHeadings = new Map<string, PivotHeading>();
+  const columnHeadings = new Map<string, PivotHeading>();
+  const cells = new Map<string, Accumulator>();
+  const rowTotals = new Map<string, Accumulator>();
+  const columnTotals = new Map<string, Accumulator>();
+  const grand: Accumulator = { sum: 0, count: 0 };
+
+  lines.forEach(line => {
+    const rows = headingsFor(line, layout.rowDimension, lookups);
+    const columns = layout.columnDimension ? headingsFor(line, layout.columnDimension, lookups) : [];
+    rows.forEach(row => {
+      rowHeadings.set(row.key, row);
+      add(rowTotals, row.key, line.amount);
+      columns.forEach(column => add(cells, JSON.stringify([row.key, column.key]), line.amount));
+    });
+    columns.forEach(column => {
+      columnHeadings.set(column.key, column);
+      add(columnTotals, column.key, line.amount);
+    });
+    grand.sum += line.amount;
+    grand.count += 1;
+  });
+
+  const measure = (acc: Accumulator | undefined): number => {
+    if (!acc) return 0;
+    if (layout.measure === 'count') return acc.count;
+    return roundCents(layout.measure === 'average' ? acc.sum / acc.count : acc.sum);
+  };
+
+  const columns = [...columnHeadings.values()].sort(compareHeadings(layout.columnDimension || 'category'));
+  const direction = layout.sortDirection === 'desc' ? -1 : 1;
+  const rows = [...rowHeadings.values()]
+    .map(heading => ({
+      ...heading,
+      cells: Object.fromEntries(columns
+        .filter(column => cells.has(JSON.stringify([heading.key, column.key])))
+        .map(column => [column.key, measure(cells.get(JSON.stringify([heading.key, column.key])))])),
+      total: measure(rowTotals.get(heading.key)),
+    }))
+    // Rows with no value stay at the bottom whichever way the report sorts
+    .sort((a, b) => Number(a.key === NO_VALUE_KEY) - Number(b.key === NO_VALUE_KEY) || (
+      layout.sortBy === 'total'
+        ? direction * (a.total - b.total) || compareHeadings(layout.rowDimension)(a, b)
+        : direction * compareHeadings(layout.rowDimension)(a, b)
+    ));
+
+  return {
+    columns,
+    rows,
+    columnTotals: Object.fromEntries(columns.map(column => [column.key, measure(columnTotals.get(column.key))])),
+    grandTotal: lines.length > 0 ? measure(grand) : 0,
+    lineCount: lines.length,
+  };
+};
+
+const csvField = (value: string | number): string =>
+  typeof value === 'number' ? String(value) : `"${value.replace(/"/g, '""')}"`;
+
+/**
+ * The pivot as CSV, with a total column and a total row.
+ */
+export const pivotToCsv = (pivot: PivotTable, layout: Pick<ReportLayout, 'rowDimension' | 'measure'>): string => {
+  const lines = [
+    [REPORT_DIMENSION_LABELS[layout.rowDimension], ...pivot.columns.map(c => c.label), REPORT_MEASURE_LABELS[layout.measure]],
+    ...pivot.rows.map(row => [row.label, ...pivot.columns.map(c => row.cells[c.key] ?? 0), row.total]),
+    ['Total', ...pivot.columns.map(c => pivot.columnTotals[c.key]), pivot.grandTotal],
+  ];
+  return lines.map(line => line.map(csvField).join(',')).join('\n');
+};
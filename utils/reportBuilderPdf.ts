@@ -0,0 +1,93 @@
+import jsPDF from 'jspdf';
+import { CurrencySettings, OrganizationSettings, ReportDefinition } from '../types';
+import { REPORT_DIMENSION_LABELS, REPORT_MEASURE_LABELS } from '../constants';
+import { PivotTable, ReportLayout } from './reportBuilder';
+import { formatDate } from './formatters';
+
+const MARGIN = 15;
+const LABEL_WIDTH = 55;
+
+// The standard PDF fonts have no cedi sign, so amounts show without a symbol
+const formatValue = (value: number, measure: ReportLayout['measure'], format: CurrencySettings): string =>
+  new Intl.NumberFormat(format.locale, {
+    minimumFractionDigits: measure === 'count' ? 0 : 2,
+    maximumFractionDigits: measure === 'count' ? 0 : 2,
+  }).format(value);
+
+const firstLine = (pdf: jsPDF, text: string, width: number): string =>
+  pdf.splitTextToSize(text, width - 2)[0] || '';
+
+/**
+ * A saved report's pivot table as a PDF. Wide pivots print in landscape.
+ */
+export const customReportPdf = (
+  name: string,
+  pivot: PivotTable,
+  layout: ReportLayout,
+  organization: OrganizationSettings,
+  format: CurrencySettings
+): jsPDF => {
+  const pdf = new jsPDF({ orientation: pivot.columns.length > 4 ? 'landscape' : 'portrait', unit: 'mm', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageBottom = pdf.internal.pageSize.getHeight() - MARGIN;
+  const right = pageWidth - MARGIN;
+  const valueWidth = (right - MARGIN - LABEL_WIDTH) / (pivot.columns.length + 1);
+  const valueRight = (index: number) => MARGIN + LABEL_WIDTH + valueWidth * (index + 1);
+  const currency = format.baseCurrency;
+  const fontSize = pivot.columns.length > 8 ? 7 : 9;
+
+  const drawHeader = (y: number): number => {
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(fontSize);
+    pdf.text(firstLine(pdf, REPORT_DIMENSION_LABELS[layout.rowDimension], LABEL_WIDTH), MARGIN, y);
+    pivot.columns.forEach((column, index) => {
+      pdf.text(firstLine(pdf, column.label, valueWidth), valueRight(index), y, { align: 'right' });
+    });
+    pdf.text('Total', right, y, { align: 'right' });
+    pdf.line(MARGIN, y + 2, right, y + 2);
+    pdf.setFont('helvetica', 'normal');
+    return y + 7;
+  };
+
+  const drawRow = (label: string, values: number[], total: number, y: number) => {
+    pdf.text(firstLine(pdf, label, LABEL_WIDTH), MARGIN, y);
+    values.forEach((value, index) => pdf.text(formatValue(value, layout.measure, format), valueRight(index), y, { align: 'right' }));
+    pdf.text(formatValue(total, layout.measure, format), right, y, { align: 'right' });
+  };
+
+  let y = MARGIN + 5;
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(14);
+  pdf.text(organization.name, MARGIN, y);
+  y += 7;
+  pdf.setFontSize(12);
+  pdf.text(name, MARGIN, y);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  y += 6;
+  const { startDate, endDate } = layout.filters;
+  const period = startDate || endDate
+    ? `${startDate ? formatDate(startDate, format) : 'Beginning'} to ${endDate ? formatDate(endDate, format) : 'today'}`
+    : 'All dates';
+  const measure = layout.measure === 'count' ? 'Count of entries' : `${REPORT_MEASURE_LABELS[layout.measure]} (${currency})`;
+  pdf.text(`${period} | ${measure}`, MARGIN, y);
+  pdf.text(`Generated ${formatDate(new Date().toISOString().split('T')[0], format)}`, right, y, { align: 'right' });
+
+  y = drawHeader(y + 10);
+  pivot.rows.forEach(row => {
+    if (y > pageBottom) {
+      pdf.addPage();
+      y = drawHeader(MARGIN + 5);
+    }
+    drawRow(row.label, pivot.columns.map(c => row.cells[c.key] ?? 0), row.total, y);
+    y += 6;
+  });
+
+  pdf.line(MARGIN, y - 3, right, y - 3);
+  pdf.setFont('helvetica', 'bold');
+  drawRow('Total', pivot.columns.map(c => pivot.columnTotals[c.key]), pivot.grandTotal, y + 2);
+  return pdf;
+};
+
+export const customReportFileName = (definition: Pick<ReportDefinition, 'name'>): string =>
+  `${definition.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'custom-report'}-${new Date().toISOString().split('T')[0]}`;
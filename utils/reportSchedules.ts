@@ -0,0 +1,31 @@
+import { ReportScheduleFrequency } from '../types';
+import { isValidEmailFormat } from './memberUtils';
+
+const PERIOD_MONTHS: Record<ReportScheduleFrequency, number> = { monthly: 1, quarterly: 3, annual: 12 };
+
+/**
+ * When a new schedule first sends: the first day of the next period, with
+ * quarters and years following the fiscal year. Matches nextRunDate in
+ * functions/src/scheduledReports.ts, which steps it on after each run.
+ */
+export const firstReportRunDate = (
+  frequency: ReportScheduleFrequency,
+  today: string,
+  fiscalYearStartMonth: number
+): string => {
+  const [year, month] = today.split('-').map(Number);
+  const length = PERIOD_MONTHS[frequency];
+  const index = year * 12 + month - 1;
+  const next = index - ((index - (fiscalYearStartMonth - 1)) % length + length) % length + length;
+  return `${Math.floor(next / 12)}-${String(next % 12 + 1).padStart(2, '0')}-01`;
+};
+
+/**
+ * Recipients typed as a list separated by commas, semicolons or new lines.
+ * Returns the addresses, lower-cased and without duplicates, and any that do
+ * not look like email addresses.
+ */
+export const parseRecipients = (text: string): { recipients: string[]; invalid: string[] } => {
+  const entries = [...new Set(text.split(/[,;\s]+/).map(e => e.trim().toLowerCase()).filter(Boolean))];
+  return { recipients: entries.filter(isValidEmailFormat), invalid: entries.filter(e => !isValidEmailFormat(e)) };
+};
@@ -0,0 +1,269 @@
+import ExcelJS from 'exceljs';
+import { CurrencySettings, OrganizationSettings, Transaction, TransactionType } from '../types';
+import { categoryLines } from './splits';
+import { donorKey } from './donors';
+import { currencySymbol } from './formatters';
+import { receiptNumberFor } from './receipts';
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+export interface CategoryRow {
+  category: string;
+  type: TransactionType;
+  amount: number;
+  count: number;
+}
+
+export interface BudgetVsActualRow {
+  category: string;
+  budget: number;
+  actual: number;
+}
+
+export interface DonorTotalRow {
+  name: string;
+  gifts: number;
+  total: number;
+  firstGift: string;
+  lastGift: string;
+}
+
+/**
+ * Every month from the one `start` falls in through the one `end` falls in,
+ * e.g. '2026-01-15', '2026-03-02' -> ['2026-01', '2026-02', '2026-03'].
+ */
+export const monthsInRange = (start: string, end: string): string[] => {
+  const months: string[] = [];
+  let [year, month] = start.slice(0, 7).split('-').map(Number);
+  const last = end.slice(0, 7);
+  while (months.length < 1200) {
+    const current = `${year}-${String(month).padStart(2, '0')}`;
+    if (current > last) break;
+    months.push(current);
+    month = month === 12 ? 1 : month + 1;
+    if (month === 1) year += 1;
+  }
+  return months;
+};
+
+/**
+ * Budgeted and actual spending per expense category over whole months. Split
+ * expenses count each line against its own category; spending in categories
+ * without a budget is listed with a budget of zero.
+ */
+export const budgetVsActual = (
+  transactions: Transaction[],
+  months: string[],
+  budgetsForMonth: (month: string) => { [category: string]: number }
+): BudgetVsActualRow[] => {
+  const rows: Record<string, BudgetVsActualRow> = {};
+  const row = (category: string) => (rows[category] ||= { category, budget: 0, actual: 0 });
+
+  months.forEach(month => {
+    Object.entries(budgetsForMonth(month)).forEach(([category, amount]) => {
+      row(category).budget += amount;
+    });
+  });
+  transactions
+    .filter(t => t.type === TransactionType.EXPENSE && months.includes(t.date.slice(0, 7)))
+    .forEach(t => categoryLines(t).forEach(line => {
+      row(line.category).actual += line.amount;
+    }));
+
+  return Object.values(rows)
+    .map(r => ({ ...r, budget: roundCents(r.budget), actual: roundCents(r.actual) }))
+    .sort((a, b) => a.category.localeCompare(b.category));
+};
+
+/**
+ * Giving per donor, largest first. Anonymous gifts are left out.
+ */
+export const donorTotals = (transactions: Transaction[]): DonorTotalRow[] => {
+  const anonymous = donorKey({});
+  const byDonor: Record<string, DonorTotalRow> = {};
+  [...transactions]
+    .filter(t => t.type === TransactionType.INCOME && donorKey(t) !== anonymous)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(t => {
+      const key = donorKey(t);
+      const donor = byDonor[key] ||= { name: '', gifts: 0, total: 0, firstGift: t.date, lastGift: t.date };
+      // The name on the most recent gift
+      donor.name = t.donorName?.trim() || donor.name;
+      donor.gifts += 1;
+      donor.total = roundCents(donor.total + t.amount);
+      donor.lastGift = t.date;
+    });
+  return Object.values(byDonor).sort((a, b) => b.total - a.total || a.name.localeCompare(b.name));
+};
+
+export interface ReportWorkbookInput {
+  organization: OrganizationSettings;
+  format: CurrencySettings; // Base currency and locale amounts are shown in
+  period: { start: string; end: string };
+  transactions: Transaction[];
+  categories: CategoryRow[];
+  budgets: BudgetVsActualRow[];
+  donors: DonorTotalRow[];
+  generatedAt?: Date;
+}
+
+const DATE_FORMAT = 'yyyy-mm-dd';
+const PERCENT_FORMAT = '0.0%';
+
+// Negative amounts in red, with the base currency's symbol
+const currencyFormat = (format: CurrencySettings): string => {
+  const symbol = `"${currencySymbol(format).replace(/"/g, '')}"`;
+  return `${symbol}#,##0.00;[Red]-${symbol}#,##0.00`;
+};
+
+// Excel counts days from 1899-12-30; a UTC midnight keeps the day from shifting
+const excelDate = (date: string): Date => new Date(`${date}T00:00:00Z`);
+
+const addTable = (
+  workbook: ExcelJS.Workbook,
+  name: string,
+  columns: { header: string; key: string; width: number; numFmt?: string }[]
+): ExcelJS.Worksheet => {
+  const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = columns.map(({ header, key, width, numFmt }) => ({ header, key, width, ...(numFmt && { style: { numFmt } }) }));
+  const header = sheet.getRow(1);
+  header.font = { bold: true };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE2E8F0' } };
+  return sheet;
+};
+
+// A bold closing row, e.g. Total with SUM formulas under each amount column
+const addTotalRow = (sheet: ExcelJS.Worksheet, values: Record<string, ExcelJS.CellValue>) => {
+  const row = sheet.addRow(values);
+  row.font = { bold: true };
+  row.border = { top: { style: 'thin' } };
+  return row;
+};
+
+/**
+ * The financial report as an Excel workbook: a summary, the category
+ * breakdown, every transaction, budget against actual spending and giving per
+ * donor. Amounts and dates are real numbers and dates, and totals are
+ * formulas so the figures can be checked and extended in Excel.
+ */
+export const buildReportWorkbook = (input: ReportWorkbookInput): ExcelJS.Workbook => {
+  const { organization, format, period, transactions, categories, budgets, donors } = input;
+  const money = currencyFormat(format);
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = organization.name;
+  workbook.created = input.generatedAt || new Date();
+
+  // The summary's formulas read the Transactions sheet added further down. With
+  // no transactions the range would run back up to the header row, so the
+  // totals are plain values instead.
+  const transactionCount = transactions.length;
+  const transactionRange = (column: string) => `Transactions!$${column}$2:$${column}$${transactionCount + 1}`;
+  const overTransactions = (formula: string, result: number): ExcelJS.CellValue =>
+    transactionCount ? { formula, result } : result;
+
+  const summary = workbook.addWorksheet('Summary', { views: [{ state: 'frozen', ySplit: 1 }] });
+  summary.columns = [{ width: 28 }, { width: 22 }];
+  summary.addRow([organization.name]).font = { bold: true, size: 14 };
+  summary.addRow(['Financial Report']);
+  summary.addRow(['Period', `${period.start || 'Beginning'} to ${period.end || 'Present'}`]);
+  summary.addRow(['Generated', workbook.created]).getCell(2).numFmt = DATE_FORMAT;
+  summary.addRow([]);
+  const sumByType = (type: TransactionType) => roundCents(transactions.filter(t => t.type === type).reduce((sum, t) => sum + t.amount, 0));
+  const incomeRow = summary.addRow(['Total Income', overTransactions(
+    `SUMIF(${transactionRange('D')},"${TransactionType.INCOME}",${transactionRange('F')})`,
+    sumByType(TransactionType.INCOME),
+  )]);
+  const expenseRow = summary.addRow(['Total Expenses', overTransactions(
+    `SUMIF(${transactionRange('D')},"${TransactionType.EXPENSE}",${transactionRange('F')})`,
+    sumByType(TransactionType.EXPENSE),
+  )]);
+  const netRow = summary.addRow(['Net Income', {
+    formula: `B${incomeRow.number}-B${expenseRow.number}`,
+    result: roundCents(sumByType(TransactionType.INCOME) - sumByType(TransactionType.EXPENSE)),
+  }]);
+  netRow.font = { bold: true };
+  [incomeRow, expenseRow, netRow].forEach(row => { row.getCell(2).numFmt = money; });
+  summary.addRow(['Transactions', overTransactions(`COUNTA(${transactionRange('A')})`, transactionCount)]);
+
+  const categorySheet = addTable(workbook, 'Category Breakdown', [
+    { header: 'Category', key: 'category', width: 28 },
+    { header: 'Type', key: 'type', width: 12 },
+    { header: 'Amount', key: 'amount', width: 18, numFmt: money },
+    { header: 'Transactions', key: 'count', width: 14 },
+  ]);
+  categories.forEach(c => categorySheet.addRow(c));
+  const lastCategoryRow = categories.length + 1;
+  if (categories.length) [TransactionType.INCOME, TransactionType.EXPENSE].forEach(type => {
+    addTotalRow(categorySheet, {
+      category: `Total ${type === TransactionType.INCOME ? 'Income' : 'Expenses'}`,
+      amount: {
+        formula: `SUMIF(B2:B${lastCategoryRow},"${type}",C2:C${lastCategoryRow})`,
+        result: roundCents(categories.filter(c => c.type === type).reduce((sum, c) => sum + c.amount, 0)),
+      },
+    });
+  });
+
+  const transactionSheet = addTable(workbook, 'Transactions', [
+    { header: 'Date', key: 'date', width: 12, numFmt: DATE_FORMAT },
+    { header: 'Receipt No.', key: 'receipt', width: 20 },
+    { header: 'Description', key: 'description', width: 36 },
+    { header: 'Type', key: 'type', width: 10 },
+    { header: 'Category', key: 'category', width: 22 },
+    { header: 'Amount', key: 'amount', width: 16, numFmt: money },
+    { header: 'Donor Name', key: 'donorName', width: 24 },
+    { header: 'Donor Contact', key: 'donorContact', width: 22 },
+  ]);
+  transactions.forEach(t => transactionSheet.addRow({
+    date: excelDate(t.date),
+    receipt: t.receiptNumber || (t.type === TransactionType.INCOME && t.donorName ? receiptNumberFor(t) : ''),
+    description: t.description,
+    type: t.type,
+    category: t.category,
+    amount: t.amount,
+    donorName: t.donorName || '',
+    donorContact: t.donorContact || '',
+  }));
+  transactionSheet.autoFilter = { from: 'A1', to: `H${transactionCount + 1}` };
+
+  const budgetSheet = addTable(workbook, 'Budget vs Actual', [
+    { header: 'Category', key: 'category', width: 28 },
+    { header: 'Budget', key: 'budget', width: 16, numFmt: money },
+    { header: 'Actual', key: 'actual', width: 16, numFmt: money },
+    { header: 'Remaining', key: 'remaining', width: 16, numFmt: money },
+    { header: '% Used', key: 'used', width: 10, numFmt: PERCENT_FORMAT },
+  ]);
+  budgets.forEach(b => {
+    const row = budgetSheet.addRow({ category: b.category, budget: b.budget, actual: b.actual });
+    const r = row.number;
+    row.getCell('remaining').value = { formula: `B${r}-C${r}`, result: roundCents(b.budget - b.actual) };
+    row.getCell('used').value = { formula: `IF(B${r}>0,C${r}/B${r},"")`, result: b.budget > 0 ? b.actual / b.budget : '' };
+  });
+  if (budgets.length) {
+    const lastBudgetRow = budgets.length + 1;
+    const totalRow = addTotalRow(budgetSheet, { category: 'Total' });
+    const r = totalRow.number;
+    const totalBudget = roundCents(budgets.reduce((sum, b) => sum + b.budget, 0));
+    const totalActual = roundCents(budgets.reduce((sum, b) => sum + b.actual, 0));
+    totalRow.getCell('budget').value = { formula: `SUM(B2:B${lastBudgetRow})`, result: totalBudget };
+    totalRow.getCell('actual').value = { formula: `SUM(C2:C${lastBudgetRow})`, result: totalActual };
+    totalRow.getCell('remaining').value = { formula: `B${r}-C${r}`, result: roundCents(totalBudget - totalActual) };
+    totalRow.getCell('used').value = { formula: `IF(B${r}>0,C${r}/B${r},"")`, result: totalBudget > 0 ? totalActual / totalBudget : '' };
+  }
+
+  const donorSheet = addTable(workbook, 'Donors', [
+    { header: 'Donor', key: 'name', width: 28 },
+    { header: 'Gifts', key: 'gifts', width: 8 },
+    { header: 'Total', key: 'total', width: 16, numFmt: money },
+    { header: 'First Gift', key: 'firstGift', width: 12, numFmt: DATE_FORMAT },
+    { header: 'Last Gift', key: 'lastGift', width: 12, numFmt: DATE_FORMAT },
+  ]);
+  donors.forEach(d => donorSheet.addRow({ ...d, firstGift: excelDate(d.firstGift), lastGift: excelDate(d.lastGift) }));
+  const lastDonorRow = donors.length + 1;
+  if (donors.length) addTotalRow(donorSheet, {
+    name: 'Total',
+    gifts: { formula: `SUM(B2:B${lastDonorRow})`, result: donors.reduce((sum, d) => sum + d.gifts, 0) },
+    total: { formula: `SUM(C2:C${lastDonorRow})`, result: roundCents(donors.reduce((sum, d) => sum + d.total, 0)) },
+  });
+
+  return workbook;
+};
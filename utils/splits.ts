@@ -0,0 +1,39 @@
+import { Transaction, TransactionSplit, TransactionType } from '../types';
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * The category lines a transaction counts under: its splits, or a single line
+ * for the whole amount.
+ */
+export const categoryLines = (
+  transaction: Pick<Transaction, 'category' | 'amount' | 'splits'> & { fundId?: string }
+): TransactionSplit[] =>
+  transaction.splits && transaction.splits.length > 0
+    ? transaction.splits
+    : [{ category: transaction.category, amount: transaction.amount, ...(transaction.fundId && { fundId: transaction.fundId }) }];
+
+export const isSplitTransaction = (transaction: Pick<Transaction, 'splits'>): boolean =>
+  !!transaction.splits && transaction.splits.length > 1;
+
+/**
+ * Amount left to allocate; zero when the lines add up to the total.
+ */
+export const unallocatedAmount = (amount: number, splits: Pick<TransactionSplit, 'amount'>[]): number =>
+  roundCents(amount - splits.reduce((sum, s) => sum + s.amount, 0));
+
+/**
+ * Totals per category for one transaction type, with each split line counted
+ * under its own category.
+ */
+export const totalsByCategory = (
+  transactions: Transaction[],
+  type: TransactionType.INCOME | TransactionType.EXPENSE
+): Record<string, number> =>
+  transactions
+    .filter(t => t.type === type)
+    .flatMap(categoryLines)
+    .reduce<Record<string, number>>((acc, line) => {
+      acc[line.category] = roundCents((acc[line.category] ?? 0) + line.amount);
+      return acc;
+    }, {});
@@ -19,8 +19,8 @@ export const transactionSchema = z.object({
     .positive('Amount must be greater than 0')
     .max(999999.99, 'Amount must be less than 1,000,000'),
 
-  type: z.enum(['Income', 'Expense'] as const)
-    .refine(val => val === 'Income' || val === 'Expense', 'Transaction type is required'),
+  type: z.enum(['Income', 'Expense', 'Transfer'] as const)
+    .refine(val => val === 'Income' || val === 'Expense' || val === 'Transfer', 'Transaction type is required'),
 
   donorName: z.string()
     .max(100, 'Donor name must be less than 100 characters')
@@ -31,8 +31,23 @@ export const transactionSchema = z.object({
     .optional(),
 
   selectedMemberId: z.string()
+    .optional(),
+
+  accountId: z.string()
+    .optional(),
+
+  toAccountId: z.string()
+    .optional(),
+
+  fundId: z.string()
     .optional()
-});
+}).refine(
+  (data) => data.type !== 'Transfer' || (!!data.toAccountId && data.toAccountId !== data.accountId),
+  {
+    message: 'Choose a different account to transfer to',
+    path: ['toAccountId']
+  }
+);
 
 // Member validation schema
 export const memberSchema = z.object({